@@ -21,7 +21,7 @@ const OsShell: Component = () => {
   const [wallpaperOpacity, setWallpaperOpacity] = createSignal('1');
   const [wallpaperBlur, setWallpaperBlur] = createSignal('none');
 
-  const openApp = async (pluginId: string) => {
+  const openApp = async (pluginId: string, props?: Record<string, any>) => {
     // Load plugin on-demand if not already loaded
     let plugin = pluginLoader.getPlugin(pluginId);
     if (!plugin) {
@@ -38,12 +38,15 @@ const OsShell: Component = () => {
       if (component) {
         // Get window configuration from manifest
         const windowConfig = plugin.manifest.windows?.[0];
+        // Stamped so a running instance asked for the same file again still reacts
+        const requestProps = props && { ...props, openedAt: Date.now() };
         windowManager.openWindow(pluginId, plugin.manifest.displayName, {
           component,
           width: windowConfig?.defaultWidth,
           height: windowConfig?.defaultHeight,
           minWidth: windowConfig?.minWidth,
-          minHeight: windowConfig?.minHeight
+          minHeight: windowConfig?.minHeight,
+          props: requestProps
         });
       }
     }
@@ -87,6 +90,11 @@ const OsShell: Component = () => {
     eventBus.on('theme:changed', handleThemeChange, { scope: 'os-shell' });
     eventBus.on('wallpaper:changed', handleThemeChange, { scope: 'os-shell' });
 
+    // Plugins ask the shell to launch other apps (e.g. opening a file)
+    eventBus.on('app:open', (payload: { pluginId: string; props?: Record<string, any> }) => {
+      openApp(payload.pluginId, payload.props);
+    }, { scope: 'os-shell' });
+
     // Initial theme update
     handleThemeChange();
 
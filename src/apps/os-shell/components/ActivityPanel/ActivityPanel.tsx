@@ -0,0 +1,108 @@
+import { Component, For, Show } from 'solid-js';
+import { jobQueue } from '@core/jobs';
+import type { JobInfo, JobState } from '@core/jobs';
+
+import IconPause from '~icons/heroicons-outline/pause';
+import IconPlay from '~icons/heroicons-outline/play';
+import IconXMark from '~icons/heroicons-outline/x-mark';
+
+interface ActivityPanelProps {
+  jobs: JobInfo[];
+  onClose: () => void;
+}
+
+const ACTIVE_STATES: JobState[] = ['queued', 'running', 'paused'];
+
+const STATE_LABELS: Record<JobState, string> = {
+  queued: 'Waiting',
+  running: 'Running',
+  paused: 'Paused',
+  completed: 'Done',
+  failed: 'Failed',
+  cancelled: 'Cancelled'
+};
+
+const percent = (job: JobInfo) =>
+  job.progress.total === 0 ? 0 : Math.round((job.progress.processed / job.progress.total) * 100);
+
+const isActive = (job: JobInfo) => ACTIVE_STATES.includes(job.state);
+
+/**
+ * Background jobs: the ones still going, then the most recently finished
+ */
+const ActivityPanel: Component<ActivityPanelProps> = (props) => {
+  const active = () => props.jobs.filter(isActive);
+  const finished = () => props.jobs.filter(job => !isActive(job)).reverse();
+
+  const status = (job: JobInfo) => {
+    if (job.state === 'failed') return job.error ?? STATE_LABELS.failed;
+    if (job.progress.total === 0 || !isActive(job)) return STATE_LABELS[job.state];
+    return `${STATE_LABELS[job.state]} · ${job.progress.processed}/${job.progress.total}`;
+  };
+
+  const row = (job: JobInfo) => (
+    <div class="group flex items-center gap-2 px-2 py-1 rounded-sm cursor-default hover:bg-accent/50">
+      <div class="flex-1 min-w-0">
+        <div class="truncate" title={job.title}>{job.title}</div>
+        <Show when={isActive(job) && job.startedAt !== undefined}>
+          <div class="h-1 my-0.5 rounded-full bg-muted overflow-hidden">
+            <div class="h-full bg-primary transition-all" style={{ width: `${percent(job)}%` }}></div>
+          </div>
+        </Show>
+        <div
+          class="truncate opacity-60"
+          classList={{ 'text-error opacity-100': job.state === 'failed' }}
+          title={job.progress.detail}
+        >
+          {status(job)}
+        </div>
+      </div>
+      <Show when={job.state === 'running'}>
+        <button class="p-0.5 rounded hover:bg-accent" title="Pause" onClick={() => jobQueue.pause(job.id)}>
+          <IconPause class="w-3.5 h-3.5" />
+        </button>
+      </Show>
+      <Show when={job.state === 'paused'}>
+        <button class="p-0.5 rounded hover:bg-accent" title="Resume" onClick={() => jobQueue.resume(job.id)}>
+          <IconPlay class="w-3.5 h-3.5" />
+        </button>
+      </Show>
+      <Show when={isActive(job)}>
+        <button class="p-0.5 rounded hover:bg-accent" title="Cancel" onClick={() => jobQueue.cancel(job.id)}>
+          <IconXMark class="w-3.5 h-3.5" />
+        </button>
+      </Show>
+    </div>
+  );
+
+  return (
+    <div
+      class="absolute top-full right-0 w-[320px] max-h-[420px] flex flex-col bg-secondary/80 backdrop-blur-xl rounded-md shadow-2xl border border-black/10 dark:border-white/10 p-1 mt-1 animate-dropdownFadeIn text-xs"
+      onKeyDown={(e) => {
+        if (e.key === 'Escape') props.onClose();
+      }}
+    >
+      <div class="flex-1 min-h-0 overflow-y-auto">
+        <Show when={props.jobs.length === 0}>
+          <p class="px-2 py-3 text-center text-muted-foreground">No activity</p>
+        </Show>
+        <For each={active()}>{row}</For>
+        <Show when={active().length > 0 && finished().length > 0}>
+          <div class="h-px bg-black/10 dark:bg-white/10 my-1"></div>
+        </Show>
+        <For each={finished()}>{row}</For>
+      </div>
+      <Show when={finished().length > 0}>
+        <div class="h-px bg-black/10 dark:bg-white/10 my-1"></div>
+        <div
+          class="px-2 py-0.5 rounded-sm cursor-default hover:bg-accent hover:text-accent-foreground"
+          onClick={() => jobQueue.clearFinished()}
+        >
+          Clear Finished
+        </div>
+      </Show>
+    </div>
+  );
+};
+
+export default ActivityPanel;
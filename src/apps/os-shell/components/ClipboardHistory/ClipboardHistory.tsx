@@ -0,0 +1,117 @@
+import { Component, createSignal, For, onCleanup, onMount, Show } from 'solid-js';
+import { clipboard } from '@core/clipboard';
+import type { ClipboardEntry } from '@core/clipboard';
+import { eventBus } from '@core/event-bus';
+
+import IconStar from '~icons/heroicons-outline/star';
+import IconStarSolid from '~icons/heroicons-solid/star';
+import IconXMark from '~icons/heroicons-outline/x-mark';
+
+interface ClipboardHistoryProps {
+  onClose: () => void;
+}
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', hour12: false });
+
+/**
+ * Past clipboard entries; choosing one makes it the next paste
+ */
+const ClipboardHistory: Component<ClipboardHistoryProps> = (props) => {
+  const [query, setQuery] = createSignal('');
+  const [entries, setEntries] = createSignal<ClipboardEntry[]>([]);
+  let inputRef: HTMLInputElement | undefined;
+
+  const refresh = () => {
+    clipboard.getHistory(query())
+      .then(setEntries)
+      .catch(error => console.error('[ClipboardHistory] Failed to load history:', error));
+  };
+
+  onMount(() => {
+    eventBus.on('clipboard:changed', refresh, { scope: 'os-shell:clipboard-history' });
+    refresh();
+    inputRef?.focus();
+  });
+
+  onCleanup(() => eventBus.offAll('os-shell:clipboard-history'));
+
+  const handleRestore = async (entry: ClipboardEntry) => {
+    await clipboard.restore(entry.id);
+    props.onClose();
+  };
+
+  return (
+    <div
+      class="absolute top-full left-0 w-[320px] max-h-[420px] flex flex-col bg-secondary/80 backdrop-blur-xl rounded-md shadow-2xl border border-black/10 dark:border-white/10 p-1 mt-1 animate-dropdownFadeIn text-xs"
+      onKeyDown={(e) => {
+        if (e.key === 'Escape') props.onClose();
+      }}
+    >
+      <input
+        ref={inputRef}
+        class="m-1 px-2 py-1 rounded bg-background/70 border border-border outline-none"
+        placeholder="Search clipboard history"
+        value={query()}
+        onInput={(e) => {
+          setQuery(e.currentTarget.value);
+          refresh();
+        }}
+      />
+      <div class="flex-1 min-h-0 overflow-y-auto">
+        <Show when={entries().length === 0}>
+          <p class="px-2 py-3 text-center text-muted-foreground">
+            {query() ? 'No matching entries' : 'Nothing copied yet'}
+          </p>
+        </Show>
+        <For each={entries()}>
+          {(entry, index) => (
+            <div
+              class="group flex items-center gap-2 px-2 py-1 rounded-sm cursor-default hover:bg-accent hover:text-accent-foreground"
+              classList={{ 'font-medium': index() === 0 && !query() }}
+              title={entry.data['text/plain'] ?? entry.label}
+              onClick={() => handleRestore(entry)}
+            >
+              <div class="flex-1 min-w-0">
+                <div class="truncate">{entry.label}</div>
+                <div class="truncate opacity-60">
+                  {formatTime(entry.copiedAt)}{entry.source ? ` · ${entry.source}` : ''}
+                </div>
+              </div>
+              <button
+                class="p-0.5 rounded"
+                classList={{ 'opacity-0 group-hover:opacity-100': !entry.pinned }}
+                title={entry.pinned ? 'Unpin' : 'Pin'}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  clipboard.pin(entry.id, !entry.pinned);
+                }}
+              >
+                {entry.pinned ? <IconStarSolid class="w-3.5 h-3.5" /> : <IconStar class="w-3.5 h-3.5" />}
+              </button>
+              <button
+                class="p-0.5 rounded opacity-0 group-hover:opacity-100"
+                title="Remove"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  clipboard.remove(entry.id);
+                }}
+              >
+                <IconXMark class="w-3.5 h-3.5" />
+              </button>
+            </div>
+          )}
+        </For>
+      </div>
+      <div class="h-px bg-black/10 dark:bg-white/10 my-1"></div>
+      <div
+        class="px-2 py-0.5 rounded-sm cursor-default hover:bg-accent hover:text-accent-foreground"
+        onClick={() => clipboard.clearHistory()}
+      >
+        Clear History (keeps pinned)
+      </div>
+    </div>
+  );
+};
+
+export default ClipboardHistory;
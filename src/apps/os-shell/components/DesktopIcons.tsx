@@ -1,5 +1,8 @@
-import { Component, For } from 'solid-js';
+import { Component, For, Show, createSignal, onCleanup, onMount } from 'solid-js';
 import { pluginLoader } from '@core/plugin-loader';
+import { eventBus } from '@core/event-bus';
+import { fileSystem, fileAssociations, hostTransfer, isHiddenName, isFileSystemError, HOME_PATH } from '@core/file-system';
+import type { DirectoryEntry, HostImportProgress } from '@core/file-system';
 import { pluginComponents, getAvailablePlugins } from '@plugins/index';
 import { cn } from '../../../utils/cn';
 
@@ -8,12 +11,149 @@ import IconCalculator from '~icons/heroicons-outline/calculator';
 import IconFolder from '~icons/heroicons-outline/folder';
 import IconSettings from '~icons/heroicons-outline/cog';
 import IconTerminal from '~icons/heroicons-outline/command-line';
+import IconDocumentText from '~icons/heroicons-outline/document-text';
+import IconDocument from '~icons/heroicons-outline/document';
+
+const DESKTOP_PATH = `${HOME_PATH}/Desktop`;
+const FILE_MANAGER_ID = '@dineapp/file-manager';
+
+// Coalesce bursts of file system changes into one reload
+const REFRESH_DEBOUNCE_MS = 50;
 
 interface DesktopIconsProps {
-  onAppOpen: (pluginId: string) => void;
+  onAppOpen: (pluginId: string, props?: Record<string, any>) => void;
 }
 
 const DesktopIcons: Component<DesktopIconsProps> = (props) => {
+  const [desktopFiles, setDesktopFiles] = createSignal<DirectoryEntry[]>([]);
+  const [isDropTarget, setIsDropTarget] = createSignal(false);
+  const [importProgress, setImportProgress] = createSignal<HostImportProgress | null>(null);
+  let activeImport: { id: string; controller: AbortController } | null = null;
+
+  const loadDesktopFiles = async () => {
+    try {
+      const entries = await fileSystem.readdir(DESKTOP_PATH);
+      setDesktopFiles(
+        entries
+          .filter(entry => !isHiddenName(entry.inode.name))
+          .sort((a, b) => a.inode.name.localeCompare(b.inode.name, undefined, { sensitivity: 'base' }))
+      );
+    } catch {
+      // No Desktop folder, nothing to show
+      setDesktopFiles([]);
+    }
+  };
+
+  // Files dropped into ~/Desktop from anywhere show up right away
+  onMount(() => {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const unwatch = fileSystem.watch(DESKTOP_PATH, {}, () => {
+      clearTimeout(timer);
+      timer = setTimeout(loadDesktopFiles, REFRESH_DEBOUNCE_MS);
+    });
+    onCleanup(() => {
+      unwatch();
+      clearTimeout(timer);
+    });
+    loadDesktopFiles();
+  });
+
+  // Host files dropped onto the desktop itself (not onto a window) go into ~/Desktop
+  onMount(() => {
+    const isOverDesktop = (event: DragEvent) => {
+      const target = event.target as Element | null;
+      return !!target?.closest?.('.os-shell') && !target.closest('[data-window-id]');
+    };
+
+    const handleDragOver = (event: DragEvent) => {
+      if (!hostTransfer.hasFiles(event.dataTransfer)) return;
+      // Never let the browser navigate away to a dropped file
+      event.preventDefault();
+      const over = isOverDesktop(event);
+      event.dataTransfer!.dropEffect = over ? 'copy' : 'none';
+      setIsDropTarget(over);
+    };
+
+    const handleDragLeave = (event: DragEvent) => {
+      if (!event.relatedTarget) setIsDropTarget(false);
+    };
+
+    const handleDrop = (event: DragEvent) => {
+      if (!hostTransfer.hasFiles(event.dataTransfer)) return;
+      event.preventDefault();
+      setIsDropTarget(false);
+      if (isOverDesktop(event)) {
+        importDrop(event.dataTransfer!);
+      }
+    };
+
+    const handleTransferProgress = (progress: HostImportProgress) => {
+      if (progress.id !== activeImport?.id) return;
+      setImportProgress(progress.status === 'running' ? progress : null);
+    };
+
+    document.addEventListener('dragover', handleDragOver);
+    document.addEventListener('dragleave', handleDragLeave);
+    document.addEventListener('drop', handleDrop);
+    eventBus.on('transfer:progress', handleTransferProgress, { scope: 'os-shell:desktop-icons' });
+
+    onCleanup(() => {
+      document.removeEventListener('dragover', handleDragOver);
+      document.removeEventListener('dragleave', handleDragLeave);
+      document.removeEventListener('drop', handleDrop);
+      eventBus.offAll('os-shell:desktop-icons');
+      activeImport?.controller.abort();
+    });
+  });
+
+  const importDrop = async (dataTransfer: DataTransfer) => {
+    const drop = hostTransfer.capture(dataTransfer);
+    if (drop.entries.length === 0) return;
+
+    const transfer = { id: `desktop-import-${Date.now().toString(36)}`, controller: new AbortController() };
+    activeImport = transfer;
+    try {
+      await fileSystem.mkdir(DESKTOP_PATH, { recursive: true });
+      await hostTransfer.import(drop, DESKTOP_PATH, { id: transfer.id, signal: transfer.controller.signal });
+    } catch (error) {
+      if (!isFileSystemError(error) || error.code !== 'ECANCELED') {
+        console.error('[Desktop] Failed to import dropped files:', error);
+      }
+    } finally {
+      if (activeImport === transfer) activeImport = null;
+    }
+  };
+
+  // Dragging out of the browser needs the file read before dragstart
+  const prepareDragOut = (entry: DirectoryEntry) => {
+    if (entry.inode.type !== 'file') return;
+    hostTransfer.prepareDragOut(entry.path).catch(error => {
+      console.warn('[Desktop] Could not prepare drag:', error);
+    });
+  };
+
+  const handleDragStart = (entry: DirectoryEntry, event: DragEvent) => {
+    if (!event.dataTransfer || !hostTransfer.setDragData(event.dataTransfer, entry.path)) {
+      event.preventDefault();
+      return;
+    }
+    event.dataTransfer.effectAllowed = 'copy';
+  };
+
+  const openDesktopFile = async (entry: DirectoryEntry) => {
+    if (entry.inode.type === 'directory') {
+      props.onAppOpen(FILE_MANAGER_ID, { filePath: entry.path });
+      return;
+    }
+    const handler = await fileAssociations.getDefaultHandler(entry.path, entry.inode.mimeType);
+    if (handler) {
+      props.onAppOpen(handler.pluginId, { filePath: entry.path });
+    } else {
+      // Nothing can open it; show it in its folder instead
+      props.onAppOpen(FILE_MANAGER_ID, { filePath: DESKTOP_PATH });
+    }
+  };
+
   const availablePlugins = () => {
     // Get all available plugin manifests
     const allPlugins = getAvailablePlugins();
@@ -32,13 +172,18 @@ const DesktopIcons: Component<DesktopIconsProps> = (props) => {
         return <IconSettings class="w-8 h-8" />;
       case 'terminal':
         return <IconTerminal class="w-8 h-8" />;
+      case 'text-editor':
+        return <IconDocumentText class="w-8 h-8" />;
       default:
         return <IconFolder class="w-8 h-8" />; // fallback
     }
   };
 
   return (
-    <div class="absolute inset-0 pointer-events-none">
+    <div
+      class="absolute inset-0 pointer-events-none"
+      classList={{ 'ring-4 ring-inset ring-brand-primary/60': isDropTarget() }}
+    >
       <div class="grid grid-cols-6 gap-4 p-8 pointer-events-auto">
         <For each={availablePlugins()}>
           {(plugin) => (
@@ -56,7 +201,43 @@ const DesktopIcons: Component<DesktopIconsProps> = (props) => {
             </button>
           )}
         </For>
+        <For each={desktopFiles()}>
+          {(entry) => (
+            <button
+              class="flex flex-col items-center justify-center p-4 rounded-lg hover:bg-secondary hover:bg-opacity-20 transition-colors cursor-pointer bg-transparent text-foreground"
+              onDblClick={() => openDesktopFile(entry)}
+              onPointerDown={() => prepareDragOut(entry)}
+              onDragStart={(e) => handleDragStart(entry, e)}
+              draggable={entry.inode.type === 'file'}
+              title={entry.inode.name}
+            >
+              <div class="mb-2">
+                {entry.inode.type === 'directory' ? <IconFolder class="w-8 h-8" /> : <IconDocument class="w-8 h-8" />}
+              </div>
+              <div class="text-xs text-foreground text-center max-w-full break-words">
+                {entry.inode.name}
+              </div>
+            </button>
+          )}
+        </For>
       </div>
+
+      <Show when={importProgress()}>
+        {(progress) => (
+          <div class="absolute bottom-24 right-8 w-64 p-3 rounded-lg bg-surface/90 border border-border shadow-lg text-xs text-foreground pointer-events-auto">
+            <div class="flex items-center justify-between mb-2">
+              <span>Importing to Desktop… {progress().processed}/{progress().total}</span>
+              <button class="px-1.5 rounded hover:bg-muted" onClick={() => activeImport?.controller.abort()}>Cancel</button>
+            </div>
+            <div class="h-1.5 rounded-full bg-muted overflow-hidden">
+              <div
+                class="h-full bg-primary transition-all"
+                style={{ width: `${progress().total === 0 ? 0 : Math.round((progress().processed / progress().total) * 100)}%` }}
+              ></div>
+            </div>
+          </div>
+        )}
+      </Show>
     </div>
   );
 };
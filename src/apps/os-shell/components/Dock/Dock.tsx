@@ -3,6 +3,7 @@ import { getAvailablePlugins } from '../../../../plugins';
 import { windowManager } from '@core/window-manager';
 import { eventBus } from '@core/event-bus';
 import { getFSM } from '@core/fsm';
+import { trashManager, TRASH_PATH } from '@core/file-system';
 import type { PluginManifest } from '@core/plugin-loader';
 import type { FSMState, FSMEvent } from '@core/fsm';
 // Dock theming is now handled globally in global.css
@@ -12,6 +13,9 @@ import IconCalculator from '~icons/heroicons-outline/calculator';
 import IconFolder from '~icons/heroicons-outline/folder';
 import IconSettings from '~icons/heroicons-outline/cog';
 import IconTerminal from '~icons/heroicons-outline/command-line';
+import IconDocumentText from '~icons/heroicons-outline/document-text';
+import IconTrash from '~icons/heroicons-outline/trash';
+import IconTrashFull from '~icons/heroicons-solid/trash';
 
 interface DockItem {
   id: string;
@@ -39,6 +43,7 @@ function Dock(props: DockProps) {
   const [magnification, setMagnification] = createSignal<Record<string, number>>({});
   const [dynamicGap, setDynamicGap] = createSignal(12); // Base gap in pixels - will use CSS variables
   const [isAnimating, setIsAnimating] = createSignal(false);
+  const [trashCount, setTrashCount] = createSignal(0);
 
   const availablePlugins = getAvailablePlugins();
 
@@ -55,6 +60,8 @@ function Dock(props: DockProps) {
         return <IconSettings class="dock-item-icon" />;
       case 'terminal':
         return <IconTerminal class="dock-item-icon" />;
+      case 'text-editor':
+        return <IconDocumentText class="dock-item-icon" />;
       default:
         return <IconFolder class="dock-item-icon" />; // fallback
     }
@@ -72,6 +79,9 @@ function Dock(props: DockProps) {
     initializeDockItems();
     setupEventBusIntegration();
     setupFSMIntegration();
+    trashManager.count().then(setTrashCount).catch(error => {
+      console.error('[Dock] Failed to read trash state:', error);
+    });
 
     onCleanup(() => {
       cleanupEventBusIntegration();
@@ -104,6 +114,9 @@ function Dock(props: DockProps) {
     // Listen to plugin events
     eventBus.on('plugin:loaded', handlePluginLoaded, { scope: 'dock' });
     eventBus.on('plugin:unloaded', handlePluginUnloaded, { scope: 'dock' });
+
+    // Listen to trash changes for the trash icon
+    eventBus.on('trash:changed', handleTrashChanged, { scope: 'dock' });
   };
 
   const setupFSMIntegration = () => {
@@ -289,6 +302,10 @@ function Dock(props: DockProps) {
     });
   };
 
+  const handleTrashChanged = (payload: { count: number }) => {
+    setTrashCount(payload?.count ?? 0);
+  };
+
   const handleFSMTransition = (event: any) => {
     // Guard against undefined event structure
     if (!event || !event.data) return;
@@ -421,10 +438,14 @@ function Dock(props: DockProps) {
     }
   };
 
-  const handleSystemItemClick = (systemId: string) => {
+  const handleSystemItemClick = async (systemId: string) => {
     console.log(`System item: ${systemId}`);
-    // Handle system items like Finder, Trash, etc.
-    // For now, we don't have any non-plugin system items
+
+    if (systemId === 'trash') {
+      // The trash is a folder in the file manager
+      await handleDockItemClick('@dineapp/file-manager');
+      eventBus.emitSync('file-manager:navigate', { path: TRASH_PATH });
+    }
   };
 
   const handleMouseMove = (event: MouseEvent) => {
@@ -606,6 +627,31 @@ function Dock(props: DockProps) {
           }}
         </For>
 
+        <div class="dock-separator"></div>
+
+        {/* Trash */}
+        <div
+          class={`dock-item ${getItemScaleClass('trash')}`}
+          data-item-id="trash"
+          onMouseEnter={() => setHoveredItem('trash')}
+          onMouseLeave={() => setHoveredItem(null)}
+          onClick={() => handleSystemItemClick('trash')}
+          title="Trash"
+        >
+          <div class="dock-item-icon">
+            {trashCount() > 0 ? <IconTrashFull class="dock-item-icon" /> : <IconTrash class="dock-item-icon" />}
+          </div>
+
+          <Show when={hoveredItem() === 'trash'}>
+            <div class="dock-tooltip">
+              <div class="dock-tooltip-name">Trash</div>
+              <div class="dock-tooltip-state">
+                {trashCount() > 0 ? `${trashCount()} item${trashCount() === 1 ? '' : 's'}` : 'Empty'}
+              </div>
+            </div>
+          </Show>
+        </div>
+
         {/* Development mode dock diagnostics */}
         <Show when={isDevMode}>
           <div class="dock-diagnostics">
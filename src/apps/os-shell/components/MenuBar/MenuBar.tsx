@@ -1,10 +1,17 @@
 console.log('[MenuBar] Module loaded at ' + new Date().toLocaleTimeString());
-import { Component, createSignal, For, Show, onMount } from 'solid-js';
+import { Component, createSignal, For, Show, onMount, onCleanup } from 'solid-js';
 import { ThemeAPI } from '@core/themes/theme-engine';
+import { eventBus } from '@core/event-bus';
+import { windowManager } from '@core/window-manager';
+import { jobQueue } from '@core/jobs';
+import type { JobInfo } from '@core/jobs';
 import { useSystemData } from '@composables/useSystemData';
+import ClipboardHistory from '../ClipboardHistory';
+import ActivityPanel from '../ActivityPanel';
 
 // Import icons using unplugin-icons (Heroicons for macOS-style)
 import IconWifi from '~icons/heroicons-outline/wifi';
+import IconArrowPath from '~icons/heroicons-outline/arrow-path';
 
 // The keyframes for dropdownFadeIn should be added to tailwind.config.js
 // keyframes: {
@@ -32,6 +39,9 @@ interface MenuSection {
 const MenuBar: Component = () => {
   const [currentTime, setCurrentTime] = createSignal(new Date());
   const [activeMenu, setActiveMenu] = createSignal<string | null>(null);
+  const [isClipboardHistoryOpen, setIsClipboardHistoryOpen] = createSignal(false);
+  const [jobs, setJobs] = createSignal<JobInfo[]>(jobQueue.list());
+  const [isActivityOpen, setIsActivityOpen] = createSignal(false);
   const { battery, batteryPercentage, isWifiLikely } = useSystemData();
 
   const toggleTheme = () => {
@@ -40,11 +50,30 @@ const MenuBar: Component = () => {
     ThemeAPI.loadTheme(newThemeId);
   };
 
+  /**
+   * Hand an Edit menu command to the focused window, which acts on it if it can
+   */
+  const sendToFocusedWindow = (command: 'undo' | 'redo' | 'cut' | 'copy' | 'paste') => {
+    const windowId = windowManager.windows.find(window => window.focused)?.id ?? null;
+    eventBus.emitSync('menu:command', { command, windowId });
+  };
+
   onMount(() => {
     const interval = setInterval(() => setCurrentTime(new Date()), 1000);
     return () => clearInterval(interval);
   });
 
+  onMount(() => {
+    eventBus.on('jobs:changed', (payload: { jobs: JobInfo[] }) => {
+      setJobs(payload.jobs);
+    }, { scope: 'os-shell:menu-bar' });
+  });
+
+  onCleanup(() => eventBus.offAll('os-shell:menu-bar'));
+
+  // Jobs still queued, running or paused
+  const activeJobCount = () => jobs().filter(job => ['queued', 'running', 'paused'].includes(job.state)).length;
+
   const menuSections: MenuSection[] = [
     {
       label: 'WebOS',
@@ -71,12 +100,14 @@ const MenuBar: Component = () => {
     {
       label: 'Edit',
       items: [
-        { label: 'Undo', action: () => console.log('Undo') },
-        { label: 'Redo', action: () => console.log('Redo') },
+        { label: 'Undo', action: () => sendToFocusedWindow('undo') },
+        { label: 'Redo', action: () => sendToFocusedWindow('redo') },
+        { separator: true },
+        { label: 'Cut', action: () => sendToFocusedWindow('cut') },
+        { label: 'Copy', action: () => sendToFocusedWindow('copy') },
+        { label: 'Paste', action: () => sendToFocusedWindow('paste') },
         { separator: true },
-        { label: 'Cut', action: () => console.log('Cut') },
-        { label: 'Copy', action: () => console.log('Copy') },
-        { label: 'Paste', action: () => console.log('Paste') }
+        { label: 'Clipboard History…', action: () => setIsClipboardHistoryOpen(true) }
       ]
     },
     {
@@ -97,6 +128,8 @@ const MenuBar: Component = () => {
   };
 
   const handleMenuClick = (sectionLabel: string) => {
+    setIsClipboardHistoryOpen(false);
+    setIsActivityOpen(false);
     setActiveMenu(activeMenu() === sectionLabel ? null : sectionLabel);
   };
 
@@ -108,7 +141,11 @@ const MenuBar: Component = () => {
   return (
     <div
       class="fixed top-0 left-0 right-0 h-[26px] bg-background/70 backdrop-blur-xl flex items-center justify-between px-3 z-[1001] border-b border-black/10 dark:border-white/10 text-sm text-foreground select-none"
-      onMouseLeave={() => setActiveMenu(null)}
+      onMouseLeave={() => {
+        setActiveMenu(null);
+        setIsClipboardHistoryOpen(false);
+        setIsActivityOpen(false);
+      }}
     >
       {/* Left side menus */}
       <div class="flex items-center h-full">
@@ -150,6 +187,9 @@ const MenuBar: Component = () => {
                   </For>
                 </div>
               </Show>
+              <Show when={section.label === 'Edit' && isClipboardHistoryOpen()}>
+                <ClipboardHistory onClose={() => setIsClipboardHistoryOpen(false)} />
+              </Show>
             </div>
           )}
         </For>
@@ -157,6 +197,30 @@ const MenuBar: Component = () => {
 
       {/* Right side system controls */}
       <div class="flex items-center gap-3 h-full">
+        {/* Background activity */}
+        <Show when={jobs().length > 0}>
+          <div class="relative h-full flex items-center">
+            <button
+              class="flex items-center gap-1 px-2 h-full rounded-sm hover:bg-black/10 dark:hover:bg-white/10"
+              classList={{ 'bg-black/10 dark:bg-white/10': isActivityOpen() }}
+              title="Activity"
+              onClick={() => {
+                setActiveMenu(null);
+                setIsClipboardHistoryOpen(false);
+                setIsActivityOpen(!isActivityOpen());
+              }}
+            >
+              <IconArrowPath class="w-4 h-4" classList={{ 'animate-spin': jobs().some(job => job.state === 'running') }} />
+              <Show when={activeJobCount() > 0}>
+                <span class="text-xs font-medium">{activeJobCount()}</span>
+              </Show>
+            </button>
+            <Show when={isActivityOpen()}>
+              <ActivityPanel jobs={jobs()} onClose={() => setIsActivityOpen(false)} />
+            </Show>
+          </div>
+        </Show>
+
         {/* Battery */}
         <div class="flex items-center gap-1.5 px-2 h-full rounded-sm hover:bg-black/10 dark:hover:bg-white/10" title={`Battery: ${batteryPercentage()}% ${battery().charging ? '(Charging)' : ''}`}>
           <span class="text-xs font-medium">{batteryPercentage()}%</span>
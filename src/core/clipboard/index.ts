@@ -0,0 +1,342 @@
+import { storageEngine } from '@core/storage-abstraction';
+import { authEngine } from '@core/auth-permissions';
+import { eventBus } from '@core/event-bus';
+
+/**
+ * Clipboard - system-wide copy and paste between apps
+ *
+ * An entry holds the same content in one or more MIME types, so an app
+ * can paste the richest format it understands: copied files are also
+ * plain text (their paths), structured results are also pretty-printed
+ * JSON text. Plain text is mirrored to the host clipboard when the
+ * browser allows it, and text copied outside the OS is picked up when
+ * pasting. Past entries are kept as a per-user history that can be
+ * searched, pinned and cleared.
+ */
+
+export const CLIPBOARD_TYPES = {
+  TEXT: 'text/plain',
+  JSON: 'application/json',
+  FILES: 'application/x-webos-file-references'
+} as const;
+
+export interface FileReferences {
+  paths: string[];
+  /**
+   * Cut files are moved by the paste and then taken off the clipboard
+   */
+  operation: 'copy' | 'cut';
+}
+
+export interface ClipboardEntry {
+  id: string;
+  /**
+   * Serialized content by MIME type
+   */
+  data: Record<string, string>;
+  /**
+   * Short description for the history
+   */
+  label: string;
+  /**
+   * App that copied it; 'host' for text copied outside the OS
+   */
+  source?: string;
+  pinned: boolean;
+  copiedAt: number;
+}
+
+export interface ClipboardWriteOptions {
+  label?: string;
+  source?: string;
+}
+
+const STORAGE_KEY_PREFIX = 'clipboard_history_';
+
+// Unpinned entries kept; pinned ones don't count
+const MAX_HISTORY = 50;
+
+const LABEL_LENGTH = 80;
+
+const HOST_SOURCE = 'host';
+
+class ClipboardService {
+  private history: ClipboardEntry[] = [];
+  private historyOwner: string | null = null;
+  private loadPromise: Promise<void> | null = null;
+  private lastId = 0;
+  // Last text known to be on the host clipboard, and whether a copy may
+  // have failed to get there since
+  private hostText: string | null = null;
+  private isHostStale = false;
+
+  /**
+   * Resolve once the signed-in user's history is loaded
+   */
+  ready(): Promise<void> {
+    const owner = this.currentUsername();
+    if (!this.loadPromise || this.historyOwner !== owner) {
+      this.historyOwner = owner;
+      this.loadPromise = this.loadHistory(owner).catch(error => {
+        this.loadPromise = null;
+        throw error;
+      });
+    }
+    return this.loadPromise;
+  }
+
+  /**
+   * Put content on the clipboard in every format given
+   */
+  async write(data: Record<string, string>, options: ClipboardWriteOptions = {}): Promise<ClipboardEntry> {
+    await this.ready();
+    if (Object.keys(data).length === 0) {
+      throw new Error('Nothing to copy');
+    }
+
+    const entry: ClipboardEntry = {
+      id: `clip-${Date.now()}-${++this.lastId}`,
+      data: { ...data },
+      label: options.label ?? this.describe(data),
+      source: options.source,
+      pinned: false,
+      copiedAt: Date.now()
+    };
+    await this.push(entry);
+
+    const text = data[CLIPBOARD_TYPES.TEXT];
+    if (text !== undefined) this.writeHost(text);
+    return this.copy(entry);
+  }
+
+  writeText(text: string, options?: ClipboardWriteOptions): Promise<ClipboardEntry> {
+    return this.write({ [CLIPBOARD_TYPES.TEXT]: text }, options);
+  }
+
+  writeFiles(paths: string[], operation: FileReferences['operation'], options?: ClipboardWriteOptions): Promise<ClipboardEntry> {
+    const references: FileReferences = { paths: [...paths], operation };
+    const label = paths.length === 1 ? paths[0] : `${paths.length} items`;
+    return this.write({
+      [CLIPBOARD_TYPES.FILES]: JSON.stringify(references),
+      [CLIPBOARD_TYPES.TEXT]: paths.join('\n')
+    }, { label: `${operation === 'cut' ? 'Cut' : 'Copied'} ${label}`, ...options });
+  }
+
+  /**
+   * Structured data under its own MIME type (application/json by default),
+   * with a readable text version for apps that only paste text
+   */
+  writeJSON(value: unknown, mimeType: string = CLIPBOARD_TYPES.JSON, options?: ClipboardWriteOptions): Promise<ClipboardEntry> {
+    const text = typeof value === 'string' ? value : JSON.stringify(value, null, 2);
+    return this.write({ [mimeType]: JSON.stringify(value), [CLIPBOARD_TYPES.TEXT]: text }, options);
+  }
+
+  /**
+   * The entry a paste would use
+   */
+  async current(): Promise<ClipboardEntry | null> {
+    await this.ready();
+    const entry = this.history[0];
+    return entry ? this.copy(entry) : null;
+  }
+
+  async has(mimeType: string): Promise<boolean> {
+    await this.ready();
+    return this.history[0]?.data[mimeType] !== undefined;
+  }
+
+  /**
+   * Text to paste. Text copied on the host since the last copy inside the
+   * OS wins, and is added to the history.
+   */
+  async readText(): Promise<string | null> {
+    await this.ready();
+    const local = this.history[0]?.data[CLIPBOARD_TYPES.TEXT] ?? null;
+
+    const host = await this.readHost();
+    if (host === null || host === this.hostText) return local;
+
+    // Still what was there before our last copy failed to replace it
+    const copiedOnHost = !this.isHostStale;
+    this.hostText = host;
+    this.isHostStale = false;
+    if (!copiedOnHost) return local ?? host;
+
+    if (host !== local) {
+      await this.push({
+        id: `clip-${Date.now()}-${++this.lastId}`,
+        data: { [CLIPBOARD_TYPES.TEXT]: host },
+        label: this.describe({ [CLIPBOARD_TYPES.TEXT]: host }),
+        source: HOST_SOURCE,
+        pinned: false,
+        copiedAt: Date.now()
+      });
+    }
+    return host;
+  }
+
+  async readFiles(): Promise<FileReferences | null> {
+    return this.readJSON<FileReferences>(CLIPBOARD_TYPES.FILES);
+  }
+
+  async readJSON<T = unknown>(mimeType: string = CLIPBOARD_TYPES.JSON): Promise<T | null> {
+    await this.ready();
+    const raw = this.history[0]?.data[mimeType];
+    if (raw === undefined) return null;
+    try {
+      return JSON.parse(raw) as T;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * History, newest first; `query` matches labels and text, ignoring case
+   */
+  async getHistory(query = ''): Promise<ClipboardEntry[]> {
+    await this.ready();
+    const needle = query.trim().toLowerCase();
+    return this.history
+      .filter(entry => !needle
+        || entry.label.toLowerCase().includes(needle)
+        || (entry.data[CLIPBOARD_TYPES.TEXT] ?? '').toLowerCase().includes(needle))
+      .map(entry => this.copy(entry));
+  }
+
+  /**
+   * Make a past entry the one a paste uses
+   */
+  async restore(id: string): Promise<void> {
+    await this.ready();
+    const entry = this.history.find(item => item.id === id);
+    if (!entry) return;
+
+    await this.push({ ...entry, copiedAt: Date.now() });
+    const text = entry.data[CLIPBOARD_TYPES.TEXT];
+    if (text !== undefined) this.writeHost(text);
+  }
+
+  /**
+   * Pinned entries survive clearing and the history limit
+   */
+  async pin(id: string, pinned: boolean): Promise<void> {
+    await this.ready();
+    this.history = this.history.map(entry => (entry.id === id ? { ...entry, pinned } : entry));
+    await this.save();
+  }
+
+  async remove(id: string): Promise<void> {
+    await this.ready();
+    this.history = this.history.filter(entry => entry.id !== id);
+    await this.save();
+  }
+
+  /**
+   * Drop everything but the pinned entries
+   */
+  async clearHistory(): Promise<void> {
+    await this.ready();
+    this.history = this.history.filter(entry => entry.pinned);
+    await this.save();
+  }
+
+  inspect(): { entries: number; pinned: number; user: string | null } {
+    return {
+      entries: this.history.length,
+      pinned: this.history.filter(entry => entry.pinned).length,
+      user: this.historyOwner
+    };
+  }
+
+  // ==== Internals ====
+
+  private async loadHistory(owner: string): Promise<void> {
+    const stored = await storageEngine.get(`${STORAGE_KEY_PREFIX}${owner}`) as ClipboardEntry[] | null;
+    if (owner === this.historyOwner) this.history = stored ?? [];
+  }
+
+  /**
+   * Add `entry` at the top, replacing the same entry or identical content
+   * further down, and trim old unpinned entries
+   */
+  private async push(entry: ClipboardEntry): Promise<void> {
+    const content = JSON.stringify(entry.data);
+    const previous = this.history.find(item => item.id === entry.id || JSON.stringify(item.data) === content);
+    const rest = this.history.filter(item => item !== previous);
+
+    let unpinned = 0;
+    this.history = [{ ...entry, pinned: entry.pinned || !!previous?.pinned }, ...rest]
+      .filter((item, index) => index === 0 || item.pinned || ++unpinned < MAX_HISTORY);
+    await this.save();
+  }
+
+  private async save(): Promise<void> {
+    try {
+      await storageEngine.set(`${STORAGE_KEY_PREFIX}${this.historyOwner}`, this.history);
+    } catch (error) {
+      console.error('[Clipboard] Failed to save history:', error);
+    }
+    eventBus.emitSync('clipboard:changed', { current: this.history[0] ? this.copy(this.history[0]) : null, timestamp: Date.now() });
+  }
+
+  private describe(data: Record<string, string>): string {
+    const text = data[CLIPBOARD_TYPES.TEXT];
+    if (text === undefined) return Object.keys(data)[0];
+    const line = text.trim().replace(/\s+/g, ' ');
+    return line.length > LABEL_LENGTH ? `${line.slice(0, LABEL_LENGTH)}…` : line || '(empty)';
+  }
+
+  private copy(entry: ClipboardEntry): ClipboardEntry {
+    return { ...entry, data: { ...entry.data } };
+  }
+
+  /**
+   * The host clipboard is only available in secure contexts, and reading
+   * may be refused; either way the OS clipboard keeps working on its own
+   */
+  private async hostAllows(permission: 'clipboard-read' | 'clipboard-write'): Promise<boolean> {
+    if (typeof navigator === 'undefined' || !navigator.clipboard) return false;
+    try {
+      const status = await navigator.permissions.query({ name: permission as PermissionName });
+      return status.state !== 'denied';
+    } catch {
+      // Browsers that don't know the permission decide when asked
+      return true;
+    }
+  }
+
+  private writeHost(text: string): void {
+    this.hostAllows('clipboard-write')
+      .then(async allowed => {
+        if (!allowed) {
+          this.isHostStale = true;
+          return;
+        }
+        await navigator.clipboard.writeText(text);
+        this.hostText = text;
+        this.isHostStale = false;
+      })
+      .catch(error => {
+        this.isHostStale = true;
+        console.warn('[Clipboard] Host clipboard not updated:', error);
+      });
+  }
+
+  private async readHost(): Promise<string | null> {
+    if (!(await this.hostAllows('clipboard-read'))) return null;
+    try {
+      return await navigator.clipboard.readText();
+    } catch {
+      return null;
+    }
+  }
+
+  private currentUsername(): string {
+    return authEngine.currentUser?.username ?? 'guest';
+  }
+}
+
+// Singleton instance
+export const clipboard = new ClipboardService();
+
+export type { ClipboardService };
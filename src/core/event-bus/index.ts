@@ -22,7 +22,7 @@ class EventBus {
 
   // WeakRef-based cleanup system
   private weakRefCleanupEnabled = false;
-  private cleanupTimer?: number;
+  private cleanupTimer?: ReturnType<typeof setInterval>;
   private readonly CLEANUP_INTERVAL = 30000; // 30 seconds
 
   // Performance optimization: cache sorted arrays
@@ -0,0 +1,371 @@
+/**
+ * Raw DEFLATE (RFC 1951) in plain TypeScript
+ *
+ * The decoder handles stored, fixed and dynamic Huffman blocks. The encoder
+ * does LZ77 matching with hash chains and writes a single fixed-Huffman
+ * block, which is simple and still compresses text and code well.
+ */
+
+const MAX_BITS = 15;
+const WINDOW_SIZE = 32768;
+const MIN_MATCH = 3;
+const MAX_MATCH = 258;
+const MAX_CHAIN = 64;
+const HASH_BITS = 15;
+
+const LENGTH_BASE = [3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67, 83, 99, 115, 131, 163, 195, 227, 258];
+const LENGTH_EXTRA = [0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5, 0];
+const DIST_BASE = [1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769, 1025, 1537, 2049, 3073, 4097, 6145, 8193, 12289, 16385, 24577];
+const DIST_EXTRA = [0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11, 11, 12, 12, 13, 13];
+const CODE_LENGTH_ORDER = [16, 17, 18, 0, 8, 7, 9, 6, 10, 5, 11, 4, 12, 3, 13, 2, 14, 1, 15];
+
+// ==== Shared ====
+
+/**
+ * Growable byte buffer
+ */
+class ByteBuffer {
+  private bytes: Uint8Array;
+  length = 0;
+
+  constructor(capacity: number) {
+    this.bytes = new Uint8Array(Math.max(capacity, 1024));
+  }
+
+  push(byte: number): void {
+    if (this.length === this.bytes.length) this.grow(1);
+    this.bytes[this.length++] = byte;
+  }
+
+  get(index: number): number {
+    return this.bytes[index];
+  }
+
+  append(chunk: Uint8Array): void {
+    if (this.length + chunk.length > this.bytes.length) this.grow(chunk.length);
+    this.bytes.set(chunk, this.length);
+    this.length += chunk.length;
+  }
+
+  toBytes(): Uint8Array<ArrayBuffer> {
+    return this.bytes.slice(0, this.length);
+  }
+
+  private grow(needed: number): void {
+    const next = new Uint8Array(Math.max(this.bytes.length * 2, this.length + needed));
+    next.set(this.bytes.subarray(0, this.length));
+    this.bytes = next;
+  }
+}
+
+function fixedLiteralLengths(): number[] {
+  const lengths: number[] = [];
+  for (let symbol = 0; symbol < 288; symbol++) {
+    lengths.push(symbol < 144 ? 8 : symbol < 256 ? 9 : symbol < 280 ? 7 : 8);
+  }
+  return lengths;
+}
+
+const FIXED_LITERAL_LENGTHS = fixedLiteralLengths();
+const FIXED_DISTANCE_LENGTHS = new Array<number>(30).fill(5);
+
+// ==== Inflate ====
+
+interface Huffman {
+  counts: Uint16Array;
+  symbols: Uint16Array;
+}
+
+function buildHuffman(lengths: ArrayLike<number>): Huffman {
+  const counts = new Uint16Array(MAX_BITS + 1);
+  for (let i = 0; i < lengths.length; i++) counts[lengths[i]]++;
+  counts[0] = 0;
+
+  const offsets = new Uint16Array(MAX_BITS + 1);
+  for (let len = 1; len < MAX_BITS; len++) {
+    offsets[len + 1] = offsets[len] + counts[len];
+  }
+
+  const symbols = new Uint16Array(lengths.length);
+  for (let symbol = 0; symbol < lengths.length; symbol++) {
+    if (lengths[symbol] !== 0) symbols[offsets[lengths[symbol]]++] = symbol;
+  }
+
+  return { counts, symbols };
+}
+
+class BitReader {
+  private position = 0;
+  private bitBuffer = 0;
+  private bitCount = 0;
+
+  constructor(private readonly input: Uint8Array) {}
+
+  bits(count: number): number {
+    while (this.bitCount < count) {
+      if (this.position >= this.input.length) throw new Error('Unexpected end of compressed data');
+      this.bitBuffer |= this.input[this.position++] << this.bitCount;
+      this.bitCount += 8;
+    }
+    const value = this.bitBuffer & ((1 << count) - 1);
+    this.bitBuffer >>>= count;
+    this.bitCount -= count;
+    return value;
+  }
+
+  /**
+   * Skip to the next byte boundary and read `length` raw bytes
+   */
+  bytes(length: number): Uint8Array {
+    this.bitBuffer = 0;
+    this.bitCount = 0;
+    if (this.position + length > this.input.length) throw new Error('Unexpected end of compressed data');
+    const chunk = this.input.subarray(this.position, this.position + length);
+    this.position += length;
+    return chunk;
+  }
+
+  decode(huffman: Huffman): number {
+    let code = 0;
+    let first = 0;
+    let index = 0;
+
+    for (let len = 1; len <= MAX_BITS; len++) {
+      code |= this.bits(1);
+      const count = huffman.counts[len];
+      if (code - count < first) return huffman.symbols[index + (code - first)];
+      index += count;
+      first = (first + count) << 1;
+      code <<= 1;
+    }
+    throw new Error('Invalid Huffman code');
+  }
+}
+
+const FIXED_LITERALS = buildHuffman(FIXED_LITERAL_LENGTHS);
+const FIXED_DISTANCES = buildHuffman(FIXED_DISTANCE_LENGTHS);
+
+function readDynamicTables(reader: BitReader): { literals: Huffman; distances: Huffman } {
+  const literalCount = reader.bits(5) + 257;
+  const distanceCount = reader.bits(5) + 1;
+  const codeLengthCount = reader.bits(4) + 4;
+
+  const codeLengthLengths = new Uint8Array(19);
+  for (let i = 0; i < codeLengthCount; i++) {
+    codeLengthLengths[CODE_LENGTH_ORDER[i]] = reader.bits(3);
+  }
+  const codeLengths = buildHuffman(codeLengthLengths);
+
+  const lengths = new Uint8Array(literalCount + distanceCount);
+  for (let i = 0; i < lengths.length;) {
+    const symbol = reader.decode(codeLengths);
+    if (symbol < 16) {
+      lengths[i++] = symbol;
+      continue;
+    }
+
+    let repeat: number;
+    let value = 0;
+    if (symbol === 16) {
+      if (i === 0) throw new Error('Invalid code length repeat');
+      value = lengths[i - 1];
+      repeat = 3 + reader.bits(2);
+    } else if (symbol === 17) {
+      repeat = 3 + reader.bits(3);
+    } else {
+      repeat = 11 + reader.bits(7);
+    }
+    if (i + repeat > lengths.length) throw new Error('Invalid code lengths');
+    lengths.fill(value, i, i + repeat);
+    i += repeat;
+  }
+
+  return {
+    literals: buildHuffman(lengths.subarray(0, literalCount)),
+    distances: buildHuffman(lengths.subarray(literalCount))
+  };
+}
+
+/**
+ * Decompress raw DEFLATE data. `expectedSize` only sizes the first buffer.
+ */
+export function inflateRaw(input: Uint8Array, expectedSize = input.length * 4): Uint8Array<ArrayBuffer> {
+  const reader = new BitReader(input);
+  const output = new ByteBuffer(expectedSize);
+  let isFinal = false;
+
+  while (!isFinal) {
+    isFinal = reader.bits(1) === 1;
+    const type = reader.bits(2);
+
+    if (type === 0) {
+      const header = reader.bytes(4);
+      const length = header[0] | (header[1] << 8);
+      output.append(reader.bytes(length));
+      continue;
+    }
+    if (type === 3) throw new Error('Invalid block type');
+
+    const { literals, distances } = type === 1
+      ? { literals: FIXED_LITERALS, distances: FIXED_DISTANCES }
+      : readDynamicTables(reader);
+
+    for (;;) {
+      const symbol = reader.decode(literals);
+      if (symbol < 256) {
+        output.push(symbol);
+        continue;
+      }
+      if (symbol === 256) break;
+
+      const lengthIndex = symbol - 257;
+      if (lengthIndex >= LENGTH_BASE.length) throw new Error('Invalid length code');
+      const length = LENGTH_BASE[lengthIndex] + reader.bits(LENGTH_EXTRA[lengthIndex]);
+
+      const distanceIndex = reader.decode(distances);
+      if (distanceIndex >= DIST_BASE.length) throw new Error('Invalid distance code');
+      const distance = DIST_BASE[distanceIndex] + reader.bits(DIST_EXTRA[distanceIndex]);
+      if (distance > output.length) throw new Error('Distance too far back');
+
+      const start = output.length - distance;
+      for (let i = 0; i < length; i++) output.push(output.get(start + i));
+    }
+  }
+
+  return output.toBytes();
+}
+
+// ==== Deflate ====
+
+/**
+ * Canonical Huffman codes, bit-reversed so they can be written LSB first
+ */
+function buildEncoder(lengths: number[]): { codes: Uint16Array; lengths: number[] } {
+  const counts = new Uint16Array(MAX_BITS + 1);
+  for (const length of lengths) counts[length]++;
+  counts[0] = 0;
+
+  const nextCode = new Uint16Array(MAX_BITS + 1);
+  let code = 0;
+  for (let bits = 1; bits <= MAX_BITS; bits++) {
+    code = (code + counts[bits - 1]) << 1;
+    nextCode[bits] = code;
+  }
+
+  const codes = new Uint16Array(lengths.length);
+  lengths.forEach((length, symbol) => {
+    if (length === 0) return;
+    let value = nextCode[length]++;
+    let reversed = 0;
+    for (let i = 0; i < length; i++) {
+      reversed = (reversed << 1) | (value & 1);
+      value >>= 1;
+    }
+    codes[symbol] = reversed;
+  });
+
+  return { codes, lengths };
+}
+
+const FIXED_LITERAL_ENCODER = buildEncoder(FIXED_LITERAL_LENGTHS);
+const FIXED_DISTANCE_ENCODER = buildEncoder(FIXED_DISTANCE_LENGTHS);
+
+class BitWriter {
+  private bitBuffer = 0;
+  private bitCount = 0;
+
+  constructor(private readonly output: ByteBuffer) {}
+
+  bits(value: number, count: number): void {
+    this.bitBuffer |= value << this.bitCount;
+    this.bitCount += count;
+    while (this.bitCount >= 8) {
+      this.output.push(this.bitBuffer & 0xff);
+      this.bitBuffer >>>= 8;
+      this.bitCount -= 8;
+    }
+  }
+
+  flush(): void {
+    if (this.bitCount > 0) this.output.push(this.bitBuffer & 0xff);
+    this.bitBuffer = 0;
+    this.bitCount = 0;
+  }
+}
+
+function indexOfBase(bases: number[], value: number): number {
+  let index = bases.length - 1;
+  while (bases[index] > value) index--;
+  return index;
+}
+
+/**
+ * Compress to raw DEFLATE
+ */
+export function deflateRaw(input: Uint8Array): Uint8Array<ArrayBuffer> {
+  const output = new ByteBuffer(input.length / 2);
+  const writer = new BitWriter(output);
+  const literal = (symbol: number) =>
+    writer.bits(FIXED_LITERAL_ENCODER.codes[symbol], FIXED_LITERAL_ENCODER.lengths[symbol]);
+
+  // One final block with fixed Huffman codes
+  writer.bits(1, 1);
+  writer.bits(1, 2);
+
+  const head = new Int32Array(1 << HASH_BITS).fill(-1);
+  const previous = new Int32Array(WINDOW_SIZE);
+  const hashAt = (i: number) =>
+    ((input[i] << 10) ^ (input[i + 1] << 5) ^ input[i + 2]) & ((1 << HASH_BITS) - 1);
+  const insert = (i: number) => {
+    if (i + MIN_MATCH > input.length) return;
+    const hash = hashAt(i);
+    previous[i % WINDOW_SIZE] = head[hash];
+    head[hash] = i;
+  };
+
+  let position = 0;
+  while (position < input.length) {
+    let bestLength = 0;
+    let bestDistance = 0;
+
+    if (position + MIN_MATCH <= input.length) {
+      const maxLength = Math.min(MAX_MATCH, input.length - position);
+      let candidate = head[hashAt(position)];
+      let chain = MAX_CHAIN;
+
+      while (candidate >= 0 && position - candidate <= WINDOW_SIZE && chain-- > 0) {
+        let length = 0;
+        while (length < maxLength && input[candidate + length] === input[position + length]) length++;
+        if (length > bestLength) {
+          bestLength = length;
+          bestDistance = position - candidate;
+          if (length === maxLength) break;
+        }
+        const next = previous[candidate % WINDOW_SIZE];
+        if (next >= candidate) break;
+        candidate = next;
+      }
+    }
+
+    if (bestLength >= MIN_MATCH) {
+      const lengthIndex = indexOfBase(LENGTH_BASE, bestLength);
+      literal(257 + lengthIndex);
+      writer.bits(bestLength - LENGTH_BASE[lengthIndex], LENGTH_EXTRA[lengthIndex]);
+
+      const distanceIndex = indexOfBase(DIST_BASE, bestDistance);
+      writer.bits(FIXED_DISTANCE_ENCODER.codes[distanceIndex], FIXED_DISTANCE_ENCODER.lengths[distanceIndex]);
+      writer.bits(bestDistance - DIST_BASE[distanceIndex], DIST_EXTRA[distanceIndex]);
+
+      for (let i = 0; i < bestLength; i++) insert(position + i);
+      position += bestLength;
+    } else {
+      literal(input[position]);
+      insert(position);
+      position++;
+    }
+  }
+
+  literal(256);
+  writer.flush();
+  return output.toBytes();
+}
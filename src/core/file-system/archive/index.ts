@@ -0,0 +1,56 @@
+import { FileSystemError } from '../errors';
+import { extname } from '../path';
+import { readTar } from './tar';
+import { readZip } from './zip';
+import type { ArchiveEntry } from './types';
+
+/**
+ * Archive formats, keyed by file extension
+ */
+const READERS: Record<string, (bytes: Uint8Array) => ArchiveEntry[]> = {
+  tar: readTar,
+  zip: readZip
+};
+
+export function isArchivePath(path: string): boolean {
+  return extname(path) in READERS;
+}
+
+/**
+ * Entries of the archive at `path`, picking the reader by extension
+ */
+export function readArchive(path: string, bytes: Uint8Array): ArchiveEntry[] {
+  const reader = READERS[extname(path)];
+  if (!reader) {
+    throw new FileSystemError('EINVAL', path, `Unsupported archive format: ${path}`);
+  }
+  const invalid = (error: unknown) =>
+    new FileSystemError('EINVAL', path, `Cannot read archive ${path}: ${error instanceof Error ? error.message : error}`);
+
+  let entries: ArchiveEntry[];
+  try {
+    entries = reader(bytes);
+  } catch (error) {
+    throw invalid(error);
+  }
+
+  return entries.map(entry => {
+    const read = entry.read;
+    if (!read) return entry;
+    return {
+      ...entry,
+      read: () => {
+        try {
+          return read();
+        } catch (error) {
+          throw invalid(error);
+        }
+      }
+    };
+  });
+}
+
+export { ZipWriter, listZip, readZipEntry, crc32 } from './zip';
+export type { ZipEntry } from './zip';
+export { deflateRaw, inflateRaw } from './deflate';
+export type { ArchiveEntry } from './types';
@@ -0,0 +1,54 @@
+import type { ArchiveEntry } from './types';
+
+/**
+ * Minimal reader for POSIX (ustar) tar archives, including GNU long names.
+ * Links and special files are skipped.
+ */
+
+const BLOCK_SIZE = 512;
+
+const textDecoder = new TextDecoder();
+
+function readString(bytes: Uint8Array, offset: number, length: number): string {
+  const field = bytes.subarray(offset, offset + length);
+  const end = field.indexOf(0);
+  return textDecoder.decode(end === -1 ? field : field.subarray(0, end));
+}
+
+function readOctal(bytes: Uint8Array, offset: number, length: number): number {
+  const value = readString(bytes, offset, length).trim();
+  return value ? parseInt(value, 8) : 0;
+}
+
+export function readTar(bytes: Uint8Array): ArchiveEntry[] {
+  const entries: ArchiveEntry[] = [];
+  let offset = 0;
+  let longName: string | null = null;
+
+  while (offset + BLOCK_SIZE <= bytes.length) {
+    const header = bytes.subarray(offset, offset + BLOCK_SIZE);
+    // An all-zero block marks the end of the archive
+    if (header.every(byte => byte === 0)) break;
+
+    const size = readOctal(header, 124, 12);
+    const modifiedAt = readOctal(header, 136, 12) * 1000;
+    const typeFlag = String.fromCharCode(header[156] || 48);
+    const prefix = readString(header, 345, 155);
+    const name = longName ?? (prefix ? `${prefix}/${readString(header, 0, 100)}` : readString(header, 0, 100));
+    const dataStart = offset + BLOCK_SIZE;
+    const data = bytes.slice(dataStart, dataStart + size);
+
+    offset = dataStart + Math.ceil(size / BLOCK_SIZE) * BLOCK_SIZE;
+    longName = null;
+
+    if (typeFlag === 'L') {
+      longName = readString(data, 0, data.length);
+    } else if (typeFlag === '5') {
+      entries.push({ path: name, type: 'directory', modifiedAt });
+    } else if (typeFlag === '0' || typeFlag === '7') {
+      entries.push({ path: name, type: 'file', size, modifiedAt, read: () => data });
+    }
+  }
+
+  return entries;
+}
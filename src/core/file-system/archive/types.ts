@@ -0,0 +1,18 @@
+import type { InodeType } from '../types';
+
+/**
+ * One item of an archive, with its path relative to the archive root
+ */
+export interface ArchiveEntry {
+  path: string;
+  type: InodeType;
+  /**
+   * Uncompressed size of a file
+   */
+  size?: number;
+  modifiedAt?: number;
+  /**
+   * File contents, decompressed on demand
+   */
+  read?: () => Uint8Array;
+}
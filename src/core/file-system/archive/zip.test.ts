@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import { crc32, listZip, readZip, readZipEntry, ZipWriter } from './zip';
+import { deflateRaw, inflateRaw } from './deflate';
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+// Deterministic bytes that don't compress
+const noise = (length: number) => {
+  const bytes = new Uint8Array(length);
+  let seed = 12345;
+  for (let i = 0; i < length; i++) {
+    seed = (seed * 1103515245 + 12345) >>> 0;
+    bytes[i] = seed >>> 24;
+  }
+  return bytes;
+};
+
+describe('crc32', () => {
+  it('matches the standard check value', () => {
+    expect(crc32(encoder.encode('123456789'))).toBe(0xcbf43926);
+    expect(crc32(new Uint8Array(0))).toBe(0);
+  });
+});
+
+describe('deflateRaw', () => {
+  it.each([
+    ['empty', new Uint8Array(0)],
+    ['repetitive text', encoder.encode('the quick brown fox '.repeat(500))],
+    ['random bytes', noise(10_000)]
+  ])('inflates back to the same %s', (_, input) => {
+    expect(inflateRaw(deflateRaw(input), input.length)).toEqual(input);
+  });
+
+  it('shrinks repetitive input', () => {
+    const input = encoder.encode('abc'.repeat(1000));
+    expect(deflateRaw(input).length).toBeLessThan(input.length / 10);
+  });
+});
+
+describe('ZIP round trip', () => {
+  // DOS timestamps have two-second precision
+  const modifiedAt = new Date(2024, 4, 17, 13, 45, 30).getTime();
+  const text = encoder.encode('Hello, ZIP!\n'.repeat(200));
+  const binary = noise(4096);
+
+  const build = () => {
+    const writer = new ZipWriter();
+    writer.add('docs', null, modifiedAt);
+    writer.add('docs/readme.txt', text, modifiedAt);
+    writer.add('docs/data.bin', binary, modifiedAt);
+    writer.add('empty.txt', new Uint8Array(0), modifiedAt);
+    writer.add('café/ünïcode.txt', encoder.encode('ü'), modifiedAt);
+    return writer.finish();
+  };
+
+  it('lists every entry with its metadata', () => {
+    const entries = listZip(build());
+    expect(entries.map(entry => [entry.name, entry.isDirectory, entry.size])).toEqual([
+      ['docs/', true, 0],
+      ['docs/readme.txt', false, text.length],
+      ['docs/data.bin', false, binary.length],
+      ['empty.txt', false, 0],
+      ['café/ünïcode.txt', false, 2]
+    ]);
+    expect(entries.every(entry => entry.modifiedAt === modifiedAt)).toBe(true);
+  });
+
+  it('deflates files that compress and stores the others', () => {
+    const [, readme, data] = listZip(build());
+    expect(readme.method).toBe(8);
+    expect(readme.compressedSize).toBeLessThan(readme.size);
+    expect(data.method).toBe(0);
+    expect(data.compressedSize).toBe(data.size);
+  });
+
+  it('reads back the exact contents', () => {
+    const bytes = build();
+    const contents = Object.fromEntries(listZip(bytes).map(entry => [entry.name, readZipEntry(bytes, entry)]));
+    expect(contents['docs/readme.txt']).toEqual(text);
+    expect(contents['docs/data.bin']).toEqual(binary);
+    expect(contents['empty.txt']).toEqual(new Uint8Array(0));
+    expect(decoder.decode(contents['café/ünïcode.txt'])).toBe('ü');
+  });
+
+  it('exposes entries as archive items', () => {
+    const items = readZip(build());
+    expect(items.map(item => [item.path, item.type])).toEqual([
+      ['docs/', 'directory'],
+      ['docs/readme.txt', 'file'],
+      ['docs/data.bin', 'file'],
+      ['empty.txt', 'file'],
+      ['café/ünïcode.txt', 'file']
+    ]);
+    expect(items[1].read?.()).toEqual(text);
+  });
+
+  it('detects corrupted contents', () => {
+    const bytes = build();
+    const entry = listZip(bytes).find(item => item.name === 'docs/data.bin')!;
+    const dataStart = entry.localHeaderOffset + 30 + encoder.encode(entry.name).length;
+    bytes[dataStart] ^= 0xff;
+    expect(() => readZipEntry(bytes, entry)).toThrow('Checksum mismatch: docs/data.bin');
+  });
+
+  it('rejects data that is not a ZIP file', () => {
+    expect(() => listZip(encoder.encode('definitely not a zip archive'))).toThrow('Not a ZIP file');
+  });
+});
@@ -0,0 +1,276 @@
+import { deflateRaw, inflateRaw } from './deflate';
+import type { ArchiveEntry } from './types';
+
+/**
+ * ZIP container reader/writer (stored and deflated entries, no ZIP64 or
+ * encryption). Entry names are written as UTF-8.
+ */
+
+const SIGNATURES = {
+  LOCAL_FILE: 0x04034b50,
+  CENTRAL_DIRECTORY: 0x02014b50,
+  END_OF_CENTRAL_DIRECTORY: 0x06054b50
+} as const;
+
+const METHOD_STORE = 0;
+const METHOD_DEFLATE = 8;
+const FLAG_ENCRYPTED = 0x0001;
+const FLAG_UTF8 = 0x0800;
+const VERSION = 20;
+const DIRECTORY_ATTRIBUTE = 0x10;
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function toDosDateTime(timestamp: number): { time: number; date: number } {
+  const date = new Date(timestamp);
+  const year = Math.max(date.getFullYear(), 1980);
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+  };
+}
+
+function fromDosDateTime(time: number, date: number): number {
+  return new Date(
+    ((date >> 9) & 0x7f) + 1980,
+    ((date >> 5) & 0x0f) - 1,
+    date & 0x1f,
+    (time >> 11) & 0x1f,
+    (time >> 5) & 0x3f,
+    (time & 0x1f) * 2
+  ).getTime();
+}
+
+/**
+ * An entry as listed in the central directory
+ */
+export interface ZipEntry {
+  name: string;
+  isDirectory: boolean;
+  method: number;
+  crc32: number;
+  compressedSize: number;
+  size: number;
+  modifiedAt: number;
+  localHeaderOffset: number;
+}
+
+/**
+ * Entries of a ZIP file, without decompressing anything
+ */
+export function listZip(bytes: Uint8Array): ZipEntry[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  // The end record sits at the very end, followed by a comment of up to 64 KB
+  let end = -1;
+  for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === SIGNATURES.END_OF_CENTRAL_DIRECTORY) {
+      end = i;
+      break;
+    }
+  }
+  if (end === -1) throw new Error('Not a ZIP file');
+
+  const count = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  const entries: ZipEntry[] = [];
+
+  for (let i = 0; i < count; i++) {
+    if (offset + 46 > bytes.length || view.getUint32(offset, true) !== SIGNATURES.CENTRAL_DIRECTORY) {
+      throw new Error('Corrupt central directory');
+    }
+
+    const flags = view.getUint16(offset + 8, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const name = textDecoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+
+    if (flags & FLAG_ENCRYPTED) throw new Error(`Encrypted entries are not supported: ${name}`);
+
+    entries.push({
+      name,
+      isDirectory: name.endsWith('/'),
+      method: view.getUint16(offset + 10, true),
+      modifiedAt: fromDosDateTime(view.getUint16(offset + 12, true), view.getUint16(offset + 14, true)),
+      crc32: view.getUint32(offset + 16, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      size: view.getUint32(offset + 24, true),
+      localHeaderOffset: view.getUint32(offset + 42, true)
+    });
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+/**
+ * Decompressed contents of one entry, checked against its CRC
+ */
+export function readZipEntry(bytes: Uint8Array, entry: ZipEntry): Uint8Array<ArrayBuffer> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const offset = entry.localHeaderOffset;
+  if (view.getUint32(offset, true) !== SIGNATURES.LOCAL_FILE) {
+    throw new Error(`Corrupt local header: ${entry.name}`);
+  }
+
+  const dataStart = offset + 30 + view.getUint16(offset + 26, true) + view.getUint16(offset + 28, true);
+  const data = bytes.subarray(dataStart, dataStart + entry.compressedSize);
+
+  let content: Uint8Array<ArrayBuffer>;
+  if (entry.method === METHOD_STORE) {
+    content = data.slice();
+  } else if (entry.method === METHOD_DEFLATE) {
+    content = inflateRaw(data, entry.size);
+  } else {
+    throw new Error(`Unsupported compression method ${entry.method}: ${entry.name}`);
+  }
+
+  if (crc32(content) !== entry.crc32) throw new Error(`Checksum mismatch: ${entry.name}`);
+  return content;
+}
+
+/**
+ * Archive entries of a ZIP file; contents are decompressed on demand
+ */
+export function readZip(bytes: Uint8Array): ArchiveEntry[] {
+  return listZip(bytes).map(entry => ({
+    path: entry.name,
+    type: entry.isDirectory ? 'directory' : 'file',
+    size: entry.size,
+    modifiedAt: entry.modifiedAt,
+    read: () => readZipEntry(bytes, entry)
+  }));
+}
+
+interface CentralRecord {
+  name: Uint8Array;
+  method: number;
+  crc32: number;
+  compressedSize: number;
+  size: number;
+  time: number;
+  date: number;
+  isDirectory: boolean;
+  offset: number;
+}
+
+/**
+ * Builds a ZIP file entry by entry. Each file is deflated, or stored when
+ * deflating would not make it smaller.
+ */
+export class ZipWriter {
+  private chunks: Uint8Array[] = [];
+  private records: CentralRecord[] = [];
+  private offset = 0;
+
+  /**
+   * Add a file, or a directory when `content` is null. Directory names get
+   * their trailing slash added here.
+   */
+  add(name: string, content: Uint8Array | null, modifiedAt: number = Date.now()): void {
+    const isDirectory = content === null;
+    const encodedName = textEncoder.encode(isDirectory && !name.endsWith('/') ? `${name}/` : name);
+    const data = content ?? new Uint8Array(0);
+    const deflated = data.length > 0 ? deflateRaw(data) : data;
+    const useDeflate = deflated.length < data.length;
+    const { time, date } = toDosDateTime(modifiedAt);
+
+    const record: CentralRecord = {
+      name: encodedName,
+      method: useDeflate ? METHOD_DEFLATE : METHOD_STORE,
+      crc32: crc32(data),
+      compressedSize: useDeflate ? deflated.length : data.length,
+      size: data.length,
+      time,
+      date,
+      isDirectory,
+      offset: this.offset
+    };
+
+    const header = new Uint8Array(30 + encodedName.length);
+    const view = new DataView(header.buffer);
+    view.setUint32(0, SIGNATURES.LOCAL_FILE, true);
+    view.setUint16(4, VERSION, true);
+    view.setUint16(6, FLAG_UTF8, true);
+    view.setUint16(8, record.method, true);
+    view.setUint16(10, time, true);
+    view.setUint16(12, date, true);
+    view.setUint32(14, record.crc32, true);
+    view.setUint32(18, record.compressedSize, true);
+    view.setUint32(22, record.size, true);
+    view.setUint16(26, encodedName.length, true);
+    header.set(encodedName, 30);
+
+    this.push(header);
+    this.push(useDeflate ? deflated : data);
+    this.records.push(record);
+  }
+
+  /**
+   * Write the central directory and return the whole file
+   */
+  finish(): Uint8Array<ArrayBuffer> {
+    const centralStart = this.offset;
+
+    for (const record of this.records) {
+      const header = new Uint8Array(46 + record.name.length);
+      const view = new DataView(header.buffer);
+      view.setUint32(0, SIGNATURES.CENTRAL_DIRECTORY, true);
+      view.setUint16(4, VERSION, true);
+      view.setUint16(6, VERSION, true);
+      view.setUint16(8, FLAG_UTF8, true);
+      view.setUint16(10, record.method, true);
+      view.setUint16(12, record.time, true);
+      view.setUint16(14, record.date, true);
+      view.setUint32(16, record.crc32, true);
+      view.setUint32(20, record.compressedSize, true);
+      view.setUint32(24, record.size, true);
+      view.setUint16(28, record.name.length, true);
+      view.setUint32(38, record.isDirectory ? DIRECTORY_ATTRIBUTE : 0, true);
+      view.setUint32(42, record.offset, true);
+      header.set(record.name, 46);
+      this.push(header);
+    }
+
+    const end = new Uint8Array(22);
+    const view = new DataView(end.buffer);
+    view.setUint32(0, SIGNATURES.END_OF_CENTRAL_DIRECTORY, true);
+    view.setUint16(8, this.records.length, true);
+    view.setUint16(10, this.records.length, true);
+    view.setUint32(12, this.offset - centralStart, true);
+    view.setUint32(16, centralStart, true);
+    this.push(end);
+
+    const output = new Uint8Array(this.offset);
+    let position = 0;
+    for (const chunk of this.chunks) {
+      output.set(chunk, position);
+      position += chunk.length;
+    }
+    return output;
+  }
+
+  private push(chunk: Uint8Array): void {
+    this.chunks.push(chunk);
+    this.offset += chunk.length;
+  }
+}
@@ -0,0 +1,269 @@
+import { eventBus } from '@core/event-bus';
+import { fileSystem } from './vfs';
+import { FileSystemError, isFileSystemError } from './errors';
+import { readArchive, ZipWriter } from './archive';
+import type { ArchiveEntry } from './archive';
+import { ROOT_PATH, basename, joinPath, normalizePath, splitPath } from './path';
+import type { Inode } from './types';
+
+/**
+ * Archive Service - pack files into ZIP archives and unpack archives
+ *
+ * Work is done one entry at a time, yielding in between so the UI stays
+ * responsive. Every step is reported as `archive:progress` on the event bus,
+ * and an AbortSignal cancels the operation with ECANCELED.
+ */
+
+export type ArchiveOperation = 'compress' | 'extract';
+
+export type ArchiveOperationStatus = 'running' | 'completed' | 'cancelled' | 'failed';
+
+export interface ArchiveProgress {
+  id: string;
+  operation: ArchiveOperation;
+  /**
+   * The archive being written or read
+   */
+  archivePath: string;
+  processed: number;
+  total: number;
+  currentPath?: string;
+  status: ArchiveOperationStatus;
+}
+
+export interface ArchiveOperationOptions {
+  /**
+   * Identifies the operation in progress events; generated when omitted
+   */
+  id?: string;
+  signal?: AbortSignal;
+  /**
+   * Awaited before each entry, e.g. to hold a paused background job
+   */
+  waitIfPaused?: () => Promise<void>;
+  /**
+   * Called with every progress update, alongside the event
+   */
+  onProgress?: (progress: ArchiveProgress) => void;
+}
+
+export interface ExtractOptions extends ArchiveOperationOptions {
+  /**
+   * Replace existing files instead of failing with EEXIST
+   */
+  overwrite?: boolean;
+  /**
+   * When everything sits in a single top-level folder, extract that
+   * folder's contents rather than the folder itself
+   */
+  stripSingleRoot?: boolean;
+}
+
+interface PendingItem {
+  path: string;
+  name: string;
+  isDirectory: boolean;
+  modifiedAt: number;
+}
+
+const yieldToEventLoop = () => new Promise(resolve => setTimeout(resolve, 0));
+
+class ArchiveService {
+  /**
+   * Write `sourcePaths` (recursively) into a ZIP file at `archivePath`.
+   * Entries are named relative to each source's parent folder.
+   */
+  async compress(sourcePaths: string[], archivePath: string, options: ArchiveOperationOptions = {}): Promise<Inode> {
+    const target = normalizePath(archivePath);
+    const progress = this.createProgress('compress', target, options);
+
+    return this.track(progress, options, async report => {
+      const bytes = await this.zip(sourcePaths, target, progress, report, options);
+      return fileSystem.writeFile(target, bytes);
+    });
+  }
+
+  /**
+   * Like compress, but return the ZIP bytes instead of writing them to a
+   * file, e.g. for a download. `name` labels the progress events.
+   */
+  async pack(sourcePaths: string[], name: string, options: ArchiveOperationOptions = {}): Promise<Uint8Array<ArrayBuffer>> {
+    const progress = this.createProgress('compress', name, options);
+    return this.track(progress, options, report => this.zip(sourcePaths, null, progress, report, options));
+  }
+
+  /**
+   * Unpack an archive into `destination`, creating it if needed. When the
+   * operation fails or is cancelled, a destination it created is removed.
+   */
+  async extract(archivePath: string, destination: string, options: ExtractOptions = {}): Promise<string> {
+    const source = normalizePath(archivePath);
+    const target = normalizePath(destination);
+    const progress = this.createProgress('extract', source, options);
+
+    return this.track(progress, options, async report => {
+      const entries = readArchive(source, await fileSystem.readFileBytes(source));
+      const paths = this.entryPaths(entries, options.stripSingleRoot ?? false);
+
+      progress.total = entries.length;
+      report();
+
+      const createdDestination = !(await fileSystem.exists(target));
+      await fileSystem.mkdir(target, { recursive: true });
+
+      try {
+        for (let i = 0; i < entries.length; i++) {
+          await options.waitIfPaused?.();
+          this.throwIfCancelled(options.signal, source);
+          const entry = entries[i];
+          const path = paths[i];
+
+          if (path !== ROOT_PATH) {
+            const itemPath = joinPath(target, path);
+            if (entry.type === 'directory') {
+              await fileSystem.mkdir(itemPath, { recursive: true });
+            } else {
+              if (!options.overwrite && await fileSystem.exists(itemPath)) {
+                throw new FileSystemError('EEXIST', itemPath);
+              }
+              await fileSystem.writeFile(itemPath, entry.read?.() ?? '', { createParents: true });
+            }
+            progress.currentPath = itemPath;
+          }
+
+          progress.processed++;
+          report();
+          await yieldToEventLoop();
+        }
+      } catch (error) {
+        if (createdDestination) {
+          await fileSystem.remove(target, { recursive: true }).catch(() => undefined);
+        }
+        throw error;
+      }
+
+      return target;
+    });
+  }
+
+  /**
+   * Entries of an archive without extracting it
+   */
+  async list(archivePath: string): Promise<ArchiveEntry[]> {
+    const source = normalizePath(archivePath);
+    return readArchive(source, await fileSystem.readFileBytes(source));
+  }
+
+  // ==== Internals ====
+
+  /**
+   * Pack everything into ZIP bytes. `exclude` is an archive being written
+   * inside one of the sources, which must not be packed into itself.
+   */
+  private async zip(
+    sourcePaths: string[],
+    exclude: string | null,
+    progress: ArchiveProgress,
+    report: () => void,
+    options: ArchiveOperationOptions
+  ): Promise<Uint8Array<ArrayBuffer>> {
+    const items: PendingItem[] = [];
+    for (const source of sourcePaths) {
+      await this.collect(normalizePath(source), basename(source), items);
+    }
+    const pending = items.filter(item => item.path !== exclude);
+
+    progress.total = pending.length;
+    report();
+
+    const writer = new ZipWriter();
+    for (const item of pending) {
+      await options.waitIfPaused?.();
+      this.throwIfCancelled(options.signal, progress.archivePath);
+      const content = item.isDirectory ? null : await fileSystem.readFileBytes(item.path);
+      writer.add(item.name, content, item.modifiedAt);
+
+      progress.processed++;
+      progress.currentPath = item.path;
+      report();
+      await yieldToEventLoop();
+    }
+
+    this.throwIfCancelled(options.signal, progress.archivePath);
+    return writer.finish();
+  }
+
+  private async collect(path: string, name: string, items: PendingItem[]): Promise<void> {
+    const inode = await fileSystem.stat(path);
+    items.push({ path, name, isDirectory: inode.type === 'directory', modifiedAt: inode.modifiedAt });
+
+    if (inode.type === 'directory') {
+      for (const entry of await fileSystem.readdir(path)) {
+        await this.collect(entry.path, `${name}/${entry.inode.name}`, items);
+      }
+    }
+  }
+
+  /**
+   * Normalized paths for the entries inside the destination. Normalizing
+   * against "/" also keeps "../" names from escaping it.
+   */
+  private entryPaths(entries: ArchiveEntry[], stripSingleRoot: boolean): string[] {
+    const paths = entries.map(entry => normalizePath(entry.path));
+    if (!stripSingleRoot) return paths;
+
+    const roots = new Set(paths.map(path => splitPath(path)[0]).filter(Boolean));
+    const [root] = roots;
+    const isSingleFolder = roots.size === 1 && entries.every((entry, i) =>
+      splitPath(paths[i]).length > 1 || entry.type === 'directory'
+    );
+    if (!isSingleFolder) return paths;
+
+    return paths.map(path => normalizePath(path.substring(root.length + 1)));
+  }
+
+  private createProgress(operation: ArchiveOperation, archivePath: string, options: ArchiveOperationOptions): ArchiveProgress {
+    return {
+      id: options.id ?? `${operation}-${Date.now().toString(36)}-${Math.random().toString(36).substr(2, 5)}`,
+      operation,
+      archivePath,
+      processed: 0,
+      total: 0,
+      status: 'running'
+    };
+  }
+
+  private async track<T>(
+    progress: ArchiveProgress,
+    options: ArchiveOperationOptions,
+    run: (report: () => void) => Promise<T>
+  ): Promise<T> {
+    const report = () => {
+      eventBus.emitSync('archive:progress', { ...progress });
+      options.onProgress?.({ ...progress });
+    };
+    report();
+
+    try {
+      const result = await run(report);
+      progress.status = 'completed';
+      report();
+      return result;
+    } catch (error) {
+      progress.status = isFileSystemError(error) && error.code === 'ECANCELED' ? 'cancelled' : 'failed';
+      report();
+      throw error;
+    }
+  }
+
+  private throwIfCancelled(signal: AbortSignal | undefined, path: string): void {
+    if (signal?.aborted) {
+      throw new FileSystemError('ECANCELED', path);
+    }
+  }
+}
+
+// Singleton instance
+export const archiveService = new ArchiveService();
+
+export type { ArchiveService };
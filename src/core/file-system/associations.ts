@@ -0,0 +1,157 @@
+import { storageEngine } from '@core/storage-abstraction';
+import { authEngine } from '@core/auth-permissions';
+import type { PluginManifest, PluginFileAssociations } from '@core/plugin-loader';
+import { getMimeType } from './mime';
+import { extname } from './path';
+
+/**
+ * File Associations - which plugins can open which files
+ *
+ * Plugins declare MIME types and extensions in their manifest. When several
+ * plugins can open a file, an exact extension match wins over an exact MIME
+ * match, which wins over a `type/*` wildcard. Users can pin a default plugin
+ * per extension; those overrides are stored per user.
+ */
+
+export interface FileHandler {
+  pluginId: string;
+  displayName: string;
+  icon: string;
+}
+
+const STORAGE_KEY_PREFIX = 'vfs_associations_';
+
+// Lower is a better match
+const MATCH_RANK = {
+  EXTENSION: 0,
+  MIME_TYPE: 1,
+  MIME_WILDCARD: 2
+} as const;
+
+class FileAssociationRegistry {
+  private handlers = new Map<string, { handler: FileHandler; associations: PluginFileAssociations }>();
+  private overrides: Record<string, string> = {};
+  private overridesOwner: string | null = null;
+
+  /**
+   * Register the associations a plugin manifest declares. Manifests without
+   * any are ignored.
+   */
+  register(manifest: PluginManifest): void {
+    const associations = manifest.fileAssociations;
+    if (!associations?.mimeTypes?.length && !associations?.extensions?.length) return;
+
+    this.handlers.set(manifest.id, {
+      handler: { pluginId: manifest.id, displayName: manifest.displayName, icon: manifest.icon },
+      associations: {
+        mimeTypes: associations.mimeTypes?.map(type => type.toLowerCase()),
+        extensions: associations.extensions?.map(ext => ext.replace(/^\./, '').toLowerCase())
+      }
+    });
+  }
+
+  unregister(pluginId: string): void {
+    this.handlers.delete(pluginId);
+  }
+
+  /**
+   * Every plugin able to open `path`, best match first
+   */
+  getHandlers(path: string, mimeType: string = getMimeType(path)): FileHandler[] {
+    const extension = extname(path);
+    const type = mimeType.toLowerCase();
+    const ranked: { handler: FileHandler; rank: number }[] = [];
+
+    for (const { handler, associations } of this.handlers.values()) {
+      const rank = this.matchRank(associations, extension, type);
+      if (rank !== null) ranked.push({ handler, rank });
+    }
+
+    return ranked.sort((a, b) => a.rank - b.rank).map(({ handler }) => ({ ...handler }));
+  }
+
+  /**
+   * Plugin that opens `path` on double-click: the user's pinned default for
+   * the extension if it is still registered, otherwise the best match.
+   */
+  async getDefaultHandler(path: string, mimeType?: string): Promise<FileHandler | undefined> {
+    await this.loadOverrides();
+    const pinned = this.overrides[extname(path)];
+    const pinnedHandler = pinned ? this.handlers.get(pinned)?.handler : undefined;
+    if (pinnedHandler) return { ...pinnedHandler };
+
+    return this.getHandlers(path, mimeType)[0];
+  }
+
+  /**
+   * Pin the default plugin for an extension for the current user;
+   * null goes back to the manifest-based choice.
+   */
+  async setDefaultHandler(extension: string, pluginId: string | null): Promise<void> {
+    await this.loadOverrides();
+    const key = extension.replace(/^\./, '').toLowerCase();
+    if (!key) return;
+
+    if (pluginId) {
+      this.overrides = { ...this.overrides, [key]: pluginId };
+    } else {
+      const { [key]: _removed, ...rest } = this.overrides;
+      this.overrides = rest;
+    }
+
+    await storageEngine.set(this.storageKey(), this.overrides);
+  }
+
+  async getDefaultOverrides(): Promise<Record<string, string>> {
+    await this.loadOverrides();
+    return { ...this.overrides };
+  }
+
+  inspect(): { handlers: string[]; overrides: Record<string, string>; user: string | null } {
+    return {
+      handlers: Array.from(this.handlers.keys()),
+      overrides: { ...this.overrides },
+      user: this.overridesOwner
+    };
+  }
+
+  // ==== Internals ====
+
+  private matchRank(associations: PluginFileAssociations, extension: string, mimeType: string): number | null {
+    if (extension && associations.extensions?.includes(extension)) return MATCH_RANK.EXTENSION;
+
+    for (const declared of associations.mimeTypes ?? []) {
+      if (declared === mimeType) return MATCH_RANK.MIME_TYPE;
+    }
+    for (const declared of associations.mimeTypes ?? []) {
+      if (declared.endsWith('/*') && mimeType.startsWith(declared.slice(0, -1))) return MATCH_RANK.MIME_WILDCARD;
+    }
+
+    return null;
+  }
+
+  /**
+   * Overrides follow whoever is signed in, so reload when the user changes
+   */
+  private async loadOverrides(): Promise<void> {
+    const owner = this.currentUsername();
+    if (this.overridesOwner === owner) return;
+
+    const stored = await storageEngine.get(this.storageKey()) as Record<string, string> | null;
+    this.overrides = stored ?? {};
+    this.overridesOwner = owner;
+  }
+
+  private currentUsername(): string {
+    return authEngine.currentUser?.username ?? 'guest';
+  }
+
+  private storageKey(): string {
+    return `${STORAGE_KEY_PREFIX}${this.currentUsername()}`;
+  }
+}
+
+// Singleton instance
+export const fileAssociations = new FileAssociationRegistry();
+
+export type { FileAssociationRegistry };
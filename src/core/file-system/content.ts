@@ -0,0 +1,64 @@
+import type { FileContent, StoredFileContent } from './types';
+
+/**
+ * Conversions between the content types the VFS accepts and what it stores
+ */
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+// btoa/atob choke on very long argument lists, so bytes are converted in slices
+const CHUNK_SIZE = 0x8000;
+
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += CHUNK_SIZE) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + CHUNK_SIZE));
+  }
+  return btoa(binary);
+}
+
+export function base64ToBytes(base64: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Prepare content for storage, returning the stored form and its size in bytes
+ */
+export async function encodeContent(content: FileContent): Promise<{ stored: StoredFileContent; size: number }> {
+  if (typeof content === 'string') {
+    return { stored: content, size: textEncoder.encode(content).length };
+  }
+
+  const bytes = content instanceof Uint8Array
+    ? content
+    : new Uint8Array(content instanceof Blob ? await content.arrayBuffer() : content);
+
+  return { stored: { encoding: 'base64', data: bytesToBase64(bytes) }, size: bytes.length };
+}
+
+/**
+ * Size in bytes the content will take up once written
+ */
+export function contentSize(content: FileContent): number {
+  if (typeof content === 'string') return textEncoder.encode(content).length;
+  if (content instanceof Blob) return content.size;
+  return content.byteLength;
+}
+
+export function decodeBytes(stored: StoredFileContent | null | undefined): Uint8Array<ArrayBuffer> {
+  if (stored === null || stored === undefined) return new Uint8Array(0);
+  if (typeof stored === 'string') return textEncoder.encode(stored);
+  return base64ToBytes(stored.data);
+}
+
+export function decodeText(stored: StoredFileContent | null | undefined): string {
+  if (stored === null || stored === undefined) return '';
+  if (typeof stored === 'string') return stored;
+  return textDecoder.decode(base64ToBytes(stored.data));
+}
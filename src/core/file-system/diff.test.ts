@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { diffLines } from './diff';
+import type { DiffLine } from './diff';
+
+// One character per line: ' ' equal, '-' removed, '+' added
+const summary = (lines: DiffLine[]) =>
+  lines.map(line => `${line.type === 'equal' ? ' ' : line.type === 'removed' ? '-' : '+'}${line.text}`);
+
+// The side of the diff a text is rebuilt from
+const side = (lines: DiffLine[], skipped: DiffLine['type']) =>
+  lines.filter(line => line.type !== skipped).map(line => line.text);
+
+describe('diffLines', () => {
+  it('marks identical texts as equal throughout', () => {
+    expect(diffLines('a\nb\n', 'a\nb\n')).toEqual([
+      { type: 'equal', text: 'a', oldLine: 1, newLine: 1 },
+      { type: 'equal', text: 'b', oldLine: 2, newLine: 2 }
+    ]);
+  });
+
+  it('handles empty texts on either side', () => {
+    expect(diffLines('', '')).toEqual([]);
+    expect(summary(diffLines('', 'a\nb'))).toEqual(['+a', '+b']);
+    expect(summary(diffLines('a\nb', ''))).toEqual(['-a', '-b']);
+  });
+
+  it('does not count a trailing newline as a line', () => {
+    expect(summary(diffLines('a\n', 'a'))).toEqual([' a']);
+  });
+
+  it('shows a changed line as removed, then added', () => {
+    expect(summary(diffLines('a\nb\nc', 'a\nB\nc'))).toEqual([' a', '-b', '+B', ' c']);
+  });
+
+  it('aligns insertions and deletions on the unchanged lines', () => {
+    expect(summary(diffLines('a\nb\nc\nd', 'a\nc\nx\nd\ne'))).toEqual([' a', '-b', ' c', '+x', ' d', '+e']);
+  });
+
+  it('numbers lines in both texts', () => {
+    const lines = diffLines('keep\nold\nend', 'new\nkeep\nend');
+    expect(lines.map(line => [line.oldLine, line.newLine])).toEqual([
+      [undefined, 1],
+      [1, 2],
+      [2, undefined],
+      [3, 3]
+    ]);
+  });
+
+  it('rebuilds both texts from its lines', () => {
+    const oldText = ['x', 'a', 'b', 'c', 'a', 'b', 'b', 'a'];
+    const newText = ['c', 'b', 'a', 'b', 'a', 'c', 'y'];
+    const lines = diffLines(oldText.join('\n'), newText.join('\n'));
+    expect(side(lines, 'added')).toEqual(oldText);
+    expect(side(lines, 'removed')).toEqual(newText);
+    // A longest common subsequence of these two has four lines
+    expect(lines.filter(line => line.type === 'equal')).toHaveLength(4);
+  });
+
+  it('falls back to a plain replacement when the change is too large to align', () => {
+    const numbered = (prefix: string) => Array.from({ length: 2100 }, (_, i) => `${prefix}${i}`);
+    const lines = diffLines(['head', ...numbered('old'), 'tail'].join('\n'), ['head', ...numbered('new'), 'tail'].join('\n'));
+    expect(lines[0]).toEqual({ type: 'equal', text: 'head', oldLine: 1, newLine: 1 });
+    expect(lines.slice(1, 2101).every(line => line.type === 'removed')).toBe(true);
+    expect(lines.slice(2101, 4201).every(line => line.type === 'added')).toBe(true);
+    expect(lines[4201]).toEqual({ type: 'equal', text: 'tail', oldLine: 2102, newLine: 2102 });
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * Line diff between two texts
+ *
+ * Common leading and trailing lines are matched directly; the rest is
+ * aligned with a longest-common-subsequence table. Inputs whose changed
+ * middle is too large for the table are shown as a plain replacement.
+ */
+
+export type DiffLineType = 'equal' | 'added' | 'removed';
+
+export interface DiffLine {
+  type: DiffLineType;
+  text: string;
+  /**
+   * 1-based line number in the old text (equal and removed lines)
+   */
+  oldLine?: number;
+  /**
+   * 1-based line number in the new text (equal and added lines)
+   */
+  newLine?: number;
+}
+
+// Cells in the LCS table before giving up on alignment
+const MAX_TABLE_CELLS = 4_000_000;
+
+const splitLines = (text: string): string[] => {
+  if (text === '') return [];
+  const lines = text.split('\n');
+  // A trailing newline ends the last line rather than starting a new one
+  if (lines[lines.length - 1] === '') lines.pop();
+  return lines;
+};
+
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+  const a = splitLines(oldText);
+  const b = splitLines(newText);
+
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const result: DiffLine[] = [];
+  for (let i = 0; i < start; i++) {
+    result.push({ type: 'equal', text: a[i], oldLine: i + 1, newLine: i + 1 });
+  }
+
+  const rows = endA - start;
+  const cols = endB - start;
+  if (rows * cols > MAX_TABLE_CELLS) {
+    for (let i = start; i < endA; i++) result.push({ type: 'removed', text: a[i], oldLine: i + 1 });
+    for (let j = start; j < endB; j++) result.push({ type: 'added', text: b[j], newLine: j + 1 });
+  } else {
+    // lengths[i][j] = LCS length of a[start + i..endA) and b[start + j..endB)
+    const width = cols + 1;
+    const lengths = new Uint32Array((rows + 1) * width);
+    for (let i = rows - 1; i >= 0; i--) {
+      for (let j = cols - 1; j >= 0; j--) {
+        lengths[i * width + j] = a[start + i] === b[start + j]
+          ? lengths[(i + 1) * width + j + 1] + 1
+          : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < rows || j < cols) {
+      const oldIndex = start + i;
+      const newIndex = start + j;
+      if (i < rows && j < cols && a[oldIndex] === b[newIndex]) {
+        result.push({ type: 'equal', text: a[oldIndex], oldLine: oldIndex + 1, newLine: newIndex + 1 });
+        i++;
+        j++;
+      } else if (i < rows && (j === cols || lengths[(i + 1) * width + j] >= lengths[i * width + j + 1])) {
+        result.push({ type: 'removed', text: a[oldIndex], oldLine: oldIndex + 1 });
+        i++;
+      } else {
+        result.push({ type: 'added', text: b[newIndex], newLine: newIndex + 1 });
+        j++;
+      }
+    }
+  }
+
+  for (let i = endA; i < a.length; i++) {
+    const j = i - endA + endB;
+    result.push({ type: 'equal', text: a[i], oldLine: i + 1, newLine: j + 1 });
+  }
+  return result;
+}
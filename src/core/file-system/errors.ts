@@ -0,0 +1,51 @@
+/**
+ * File System Errors
+ *
+ * POSIX-style error codes so callers can branch on the failure
+ * instead of parsing messages.
+ */
+
+export type FileSystemErrorCode =
+  | 'ENOENT'
+  | 'EEXIST'
+  | 'ENOTDIR'
+  | 'EISDIR'
+  | 'ENOTEMPTY'
+  | 'EINVAL'
+  | 'EACCES'
+  | 'EPERM'
+  | 'EROFS'
+  | 'EBUSY'
+  | 'EDQUOT'
+  | 'ECANCELED';
+
+const DEFAULT_MESSAGES: Record<FileSystemErrorCode, string> = {
+  ENOENT: 'No such file or directory',
+  EEXIST: 'File already exists',
+  ENOTDIR: 'Not a directory',
+  EISDIR: 'Is a directory',
+  ENOTEMPTY: 'Directory not empty',
+  EINVAL: 'Invalid argument',
+  EACCES: 'Permission denied',
+  EPERM: 'Operation not permitted',
+  EROFS: 'Read-only file system',
+  EBUSY: 'Device or resource busy',
+  EDQUOT: 'Disk quota exceeded',
+  ECANCELED: 'Operation canceled'
+};
+
+export class FileSystemError extends Error {
+  readonly code: FileSystemErrorCode;
+  readonly path: string;
+
+  constructor(code: FileSystemErrorCode, path: string, message?: string) {
+    super(message ?? `${DEFAULT_MESSAGES[code]}: ${path}`);
+    this.name = 'FileSystemError';
+    this.code = code;
+    this.path = path;
+  }
+}
+
+export function isFileSystemError(error: unknown): error is FileSystemError {
+  return error instanceof FileSystemError;
+}
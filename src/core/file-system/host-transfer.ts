@@ -0,0 +1,287 @@
+import { eventBus } from '@core/event-bus';
+import { fileSystem } from './vfs';
+import { archiveService } from './archives';
+import type { ArchiveOperationOptions, ArchiveOperationStatus } from './archives';
+import { FileSystemError, isFileSystemError } from './errors';
+import { basename, joinPath, normalizePath } from './path';
+
+/**
+ * Host Transfer - move files between the real desktop and the VFS
+ *
+ * Files and folders dropped from the host are written into the VFS one at a
+ * time and reported as `transfer:progress` on the event bus. The other way,
+ * a file is handed to the browser as a Blob download and a folder is zipped
+ * first.
+ */
+
+export interface HostImportProgress {
+  id: string;
+  operation: 'import';
+  /**
+   * The folder items are imported into
+   */
+  destination: string;
+  processed: number;
+  total: number;
+  currentPath?: string;
+  status: ArchiveOperationStatus;
+}
+
+export interface HostImportOptions extends Omit<ArchiveOperationOptions, 'onProgress'> {
+  onProgress?: (progress: HostImportProgress) => void;
+}
+
+/**
+ * What was dropped, captured while the drop event is being handled;
+ * the DataTransfer is emptied as soon as the handler returns
+ */
+export interface HostDrop {
+  entries: (FileSystemEntry | File)[];
+}
+
+export interface HostExport {
+  name: string;
+  blob: Blob;
+}
+
+interface PendingImport {
+  /**
+   * Path below the dropped item; empty for the item itself
+   */
+  relativePath: string;
+  isDirectory: boolean;
+  read?: () => Promise<File>;
+}
+
+interface PreparedDrag {
+  path: string;
+  name: string;
+  type: string;
+  url: string;
+}
+
+// Downloads start asynchronously, so their object URLs are kept alive a while
+const DOWNLOAD_URL_LIFETIME_MS = 60_000;
+
+const yieldToEventLoop = () => new Promise(resolve => setTimeout(resolve, 0));
+
+class HostTransfer {
+  private prepared: PreparedDrag | null = null;
+
+  /**
+   * Whether a drag carries files from the host
+   */
+  hasFiles(dataTransfer: DataTransfer | null): boolean {
+    return !!dataTransfer && Array.from(dataTransfer.types).includes('Files');
+  }
+
+  /**
+   * Snapshot a drop; must be called synchronously in the drop handler
+   */
+  capture(dataTransfer: DataTransfer): HostDrop {
+    const entries: (FileSystemEntry | File)[] = [];
+    const items = Array.from(dataTransfer.items ?? []).filter(item => item.kind === 'file');
+
+    if (items.length === 0) {
+      entries.push(...Array.from(dataTransfer.files));
+    }
+    for (const item of items) {
+      const entry = item.webkitGetAsEntry?.() ?? item.getAsFile();
+      if (entry) entries.push(entry);
+    }
+
+    return { entries };
+  }
+
+  /**
+   * Write dropped files and folders into `destination`. Names that are
+   * taken get a numbered variant. When the import fails or is cancelled,
+   * everything it created is removed again.
+   */
+  async import(drop: HostDrop, destination: string, options: HostImportOptions = {}): Promise<string[]> {
+    const target = normalizePath(destination);
+    const progress: HostImportProgress = {
+      id: options.id ?? `import-${Date.now().toString(36)}-${Math.random().toString(36).substr(2, 5)}`,
+      operation: 'import',
+      destination: target,
+      processed: 0,
+      total: 0,
+      status: 'running'
+    };
+    const report = () => {
+      eventBus.emitSync('transfer:progress', { ...progress });
+      options.onProgress?.({ ...progress });
+    };
+    report();
+
+    const created: string[] = [];
+    try {
+      // Folders are expanded first so the total is known up front
+      const roots: { name: string; items: PendingImport[] }[] = [];
+      for (const entry of drop.entries) {
+        roots.push({ name: entry.name, items: await this.expand(entry) });
+      }
+      progress.total = roots.reduce((total, root) => total + root.items.length, 0);
+      report();
+
+      for (const root of roots) {
+        this.throwIfCancelled(options.signal, target);
+        const rootPath = await fileSystem.getAvailablePath(joinPath(target, root.name));
+
+        for (const item of root.items) {
+          await options.waitIfPaused?.();
+          this.throwIfCancelled(options.signal, target);
+          const itemPath = item.relativePath ? joinPath(rootPath, item.relativePath) : rootPath;
+
+          if (item.isDirectory) {
+            await fileSystem.mkdir(itemPath, { recursive: true });
+          } else {
+            await fileSystem.writeFile(itemPath, await item.read!(), { createParents: true });
+          }
+          if (itemPath === rootPath) created.push(rootPath);
+
+          progress.processed++;
+          progress.currentPath = itemPath;
+          report();
+          await yieldToEventLoop();
+        }
+      }
+
+      progress.status = 'completed';
+      report();
+      return created;
+    } catch (error) {
+      for (const path of created) {
+        await fileSystem.remove(path, { recursive: true }).catch(() => undefined);
+      }
+      progress.status = isFileSystemError(error) && error.code === 'ECANCELED' ? 'cancelled' : 'failed';
+      report();
+      throw error;
+    }
+  }
+
+  /**
+   * A file as a Blob of its own type; a folder as a ZIP archive of it
+   */
+  async export(path: string, options: ArchiveOperationOptions = {}): Promise<HostExport> {
+    const source = normalizePath(path);
+    const inode = await fileSystem.stat(source);
+
+    if (inode.type === 'directory') {
+      const name = `${basename(source)}.zip`;
+      const bytes = await archiveService.pack([source], name, options);
+      return { name, blob: new Blob([bytes], { type: 'application/zip' }) };
+    }
+
+    const bytes = await fileSystem.readFileBytes(source);
+    return { name: inode.name, blob: new Blob([bytes], { type: inode.mimeType }) };
+  }
+
+  /**
+   * Save a file, or a folder as a ZIP archive, to the host's downloads
+   */
+  async download(path: string, options: ArchiveOperationOptions = {}): Promise<void> {
+    const { name, blob } = await this.export(path, options);
+    const url = URL.createObjectURL(blob);
+
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = name;
+    link.style.display = 'none';
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+
+    setTimeout(() => URL.revokeObjectURL(url), DOWNLOAD_URL_LIFETIME_MS);
+  }
+
+  /**
+   * Read a file ahead of a drag out of the browser. dragstart can't wait
+   * for the VFS, so this runs on pointerdown and setDragData uses the
+   * result. Folders aren't prepared; they are exported with download.
+   */
+  async prepareDragOut(path: string): Promise<void> {
+    const source = normalizePath(path);
+    if (this.prepared?.path === source) return;
+
+    const inode = await fileSystem.stat(source);
+    if (inode.type !== 'file') return;
+
+    const { name, blob } = await this.export(source);
+    this.releasePrepared();
+    this.prepared = { path: source, name, type: blob.type, url: URL.createObjectURL(blob) };
+  }
+
+  /**
+   * Attach a prepared file to a drag so it can be dropped onto the host
+   * desktop (Chromium's DownloadURL); false when nothing was prepared
+   */
+  setDragData(dataTransfer: DataTransfer, path: string): boolean {
+    const prepared = this.prepared;
+    if (!prepared || prepared.path !== normalizePath(path)) return false;
+
+    dataTransfer.setData('DownloadURL', `${prepared.type}:${prepared.name}:${prepared.url}`);
+    return true;
+  }
+
+  // ==== Internals ====
+
+  private async expand(entry: FileSystemEntry | File): Promise<PendingImport[]> {
+    if (entry instanceof File) {
+      return [{ relativePath: '', isDirectory: false, read: async () => entry }];
+    }
+
+    const items: PendingImport[] = [];
+    await this.walk(entry, '', items);
+    return items;
+  }
+
+  private async walk(entry: FileSystemEntry, relativePath: string, items: PendingImport[]): Promise<void> {
+    if (entry.isFile) {
+      const fileEntry = entry as FileSystemFileEntry;
+      items.push({
+        relativePath,
+        isDirectory: false,
+        read: () => new Promise<File>((resolve, reject) => fileEntry.file(resolve, reject))
+      });
+      return;
+    }
+
+    items.push({ relativePath, isDirectory: true });
+    for (const child of await this.readDirectory(entry as FileSystemDirectoryEntry)) {
+      await this.walk(child, relativePath ? `${relativePath}/${child.name}` : child.name, items);
+    }
+  }
+
+  /**
+   * readEntries returns a directory in batches, ending with an empty one
+   */
+  private async readDirectory(directory: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> {
+    const reader = directory.createReader();
+    const entries: FileSystemEntry[] = [];
+
+    for (;;) {
+      const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+      if (batch.length === 0) return entries;
+      entries.push(...batch);
+    }
+  }
+
+  private releasePrepared(): void {
+    if (this.prepared) {
+      URL.revokeObjectURL(this.prepared.url);
+      this.prepared = null;
+    }
+  }
+
+  private throwIfCancelled(signal: AbortSignal | undefined, path: string): void {
+    if (signal?.aborted) {
+      throw new FileSystemError('ECANCELED', path);
+    }
+  }
+}
+
+// Singleton instance
+export const hostTransfer = new HostTransfer();
+
+export type { HostTransfer };
@@ -0,0 +1,132 @@
+/**
+ * DineApp OS - Virtual File System Core Module
+ *
+ * Hierarchical inode-based file systems mounted into a single tree.
+ */
+
+// File system service
+export { fileSystem } from './vfs';
+export type { VirtualFileSystem } from './vfs';
+
+// Providers and archives
+export { InodeTreeProvider } from './providers';
+export type { InodeTreeProviderOptions } from './providers';
+export { readArchive, isArchivePath, ZipWriter, listZip, readZipEntry, crc32, deflateRaw, inflateRaw } from './archive';
+export type { ArchiveEntry, ZipEntry } from './archive';
+export { archiveService } from './archives';
+export type {
+  ArchiveService,
+  ArchiveOperation,
+  ArchiveOperationStatus,
+  ArchiveProgress,
+  ArchiveOperationOptions,
+  ExtractOptions
+} from './archives';
+export { hostTransfer } from './host-transfer';
+export type { HostTransfer, HostImportProgress, HostImportOptions, HostDrop, HostExport } from './host-transfer';
+
+// Trash
+export { trashManager } from './trash';
+export type { TrashManager } from './trash';
+
+// Version history
+export { versionHistory, CURRENT_VERSION } from './versions';
+export type { VersionHistory } from './versions';
+export { diffLines } from './diff';
+export type { DiffLine, DiffLineType } from './diff';
+
+// Disk quotas
+export { quotaManager } from './quotas';
+export type { QuotaManager } from './quotas';
+
+// Previews
+export { filePreviews } from './previews';
+export type { FilePreviews } from './previews';
+
+// File associations
+export { fileAssociations } from './associations';
+export type { FileAssociationRegistry, FileHandler } from './associations';
+
+// Search index
+export { searchIndex, tokenize, findTextRanges } from './search-index';
+export type { SearchIndex, SearchQuery, SearchResult, SearchIndexEntry, TextRange } from './search-index';
+
+// Ownership and permissions
+export {
+  currentIdentity,
+  canAccess,
+  formatMode,
+  parseMode,
+  ACCESS,
+  STICKY_BIT,
+  ROOT_USER,
+  ROOT_GROUP,
+  GUEST_USER,
+  USERS_GROUP
+} from './permissions';
+export type { FileSystemIdentity } from './permissions';
+
+// Errors
+export { FileSystemError, isFileSystemError } from './errors';
+export type { FileSystemErrorCode } from './errors';
+
+// Path helpers
+export {
+  ROOT_PATH,
+  HOME_PATH,
+  TRASH_PATH,
+  MOUNT_PATH,
+  normalizePath,
+  joinPath,
+  dirname,
+  basename,
+  extname,
+  splitPath,
+  isSubPath,
+  isValidFileName,
+  isHiddenName
+} from './path';
+
+// Content encoding
+export { encodeContent, contentSize, decodeBytes, decodeText, bytesToBase64, base64ToBytes } from './content';
+
+// MIME helpers
+export { getMimeType, isTextMimeType, getFileKind, DEFAULT_MIME_TYPE } from './mime';
+export type { FileKind } from './mime';
+
+// Types
+export type {
+  Inode,
+  InodeType,
+  DirectoryEntry,
+  FileContent,
+  StoredFileContent,
+  FileSystemSnapshot,
+  MkdirOptions,
+  RemoveOptions,
+  WriteFileOptions,
+  TrashEntry,
+  TrashSettings,
+  FileVersion,
+  VersionSettings,
+  FilePreview,
+  DiskUsage,
+  DiskUsageOptions,
+  UserDiskUsage,
+  QuotaSettings,
+  FileOverwrite,
+  FileOverwriteHook,
+  FileSystemChange,
+  FileSystemChangeType,
+  FileSystemChangeListener,
+  FileSystemEvent,
+  FileSystemEventName,
+  InodeCreator,
+  InodeOwnership,
+  WatchOptions,
+  FileSystemProvider,
+  ProviderStorage,
+  MountType,
+  MountOptions,
+  MountInfo
+} from './types';
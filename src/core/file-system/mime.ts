@@ -0,0 +1,63 @@
+import { extname } from './path';
+
+/**
+ * Extension -> MIME type lookup for files created inside the VFS
+ */
+const MIME_TYPES: Record<string, string> = {
+  txt: 'text/plain',
+  md: 'text/markdown',
+  log: 'text/plain',
+  csv: 'text/csv',
+  html: 'text/html',
+  css: 'text/css',
+  js: 'text/javascript',
+  ts: 'text/typescript',
+  json: 'application/json',
+  xml: 'application/xml',
+  zip: 'application/zip',
+  tar: 'application/x-tar',
+  pdf: 'application/pdf',
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  svg: 'image/svg+xml',
+  mp3: 'audio/mpeg',
+  wav: 'audio/wav',
+  mp4: 'video/mp4',
+  avi: 'video/x-msvideo',
+  mkv: 'video/x-matroska'
+};
+
+export const DEFAULT_MIME_TYPE = 'application/octet-stream';
+
+export function getMimeType(path: string): string {
+  return MIME_TYPES[extname(path)] ?? DEFAULT_MIME_TYPE;
+}
+
+export function isTextMimeType(mimeType: string | undefined): boolean {
+  if (!mimeType) return false;
+  return mimeType.startsWith('text/') ||
+    mimeType === 'application/json' ||
+    mimeType === 'application/xml' ||
+    mimeType === 'image/svg+xml';
+}
+
+export type FileKind = 'folder' | 'document' | 'image' | 'audio' | 'video' | 'archive' | 'other';
+
+const ARCHIVE_MIME_TYPES = ['application/zip', 'application/x-tar', 'application/gzip'];
+
+/**
+ * Coarse file category used for search filters and icons
+ */
+export function getFileKind(type: 'file' | 'directory', mimeType: string | undefined): FileKind {
+  if (type === 'directory') return 'folder';
+  if (!mimeType) return 'other';
+  if (mimeType.startsWith('image/')) return 'image';
+  if (mimeType.startsWith('audio/')) return 'audio';
+  if (mimeType.startsWith('video/')) return 'video';
+  if (ARCHIVE_MIME_TYPES.includes(mimeType)) return 'archive';
+  if (isTextMimeType(mimeType) || mimeType === 'application/pdf') return 'document';
+  return 'other';
+}
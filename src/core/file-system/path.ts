@@ -0,0 +1,78 @@
+/**
+ * POSIX-style path helpers for the virtual file system.
+ * All paths handled by the VFS are absolute and normalized.
+ */
+
+export const ROOT_PATH = '/';
+export const HOME_PATH = '/home/user';
+export const TRASH_PATH = '/.Trash';
+export const MOUNT_PATH = '/mnt';
+
+/**
+ * Resolve `.`/`..` segments and duplicate slashes.
+ * Relative paths are resolved against `cwd`.
+ */
+export function normalizePath(path: string, cwd: string = ROOT_PATH): string {
+  const input = path.startsWith('/') ? path : `${cwd}/${path}`;
+  const segments: string[] = [];
+
+  for (const segment of input.split('/')) {
+    if (segment === '' || segment === '.') continue;
+    if (segment === '..') {
+      segments.pop();
+    } else {
+      segments.push(segment);
+    }
+  }
+
+  return '/' + segments.join('/');
+}
+
+export function joinPath(...parts: string[]): string {
+  return normalizePath(parts.filter(Boolean).join('/'));
+}
+
+export function dirname(path: string): string {
+  const normalized = normalizePath(path);
+  if (normalized === ROOT_PATH) return ROOT_PATH;
+  return normalized.substring(0, normalized.lastIndexOf('/')) || ROOT_PATH;
+}
+
+export function basename(path: string): string {
+  const normalized = normalizePath(path);
+  return normalized.substring(normalized.lastIndexOf('/') + 1);
+}
+
+/**
+ * Lower-cased extension without the leading dot, or '' when there is none
+ */
+export function extname(path: string): string {
+  const name = basename(path);
+  const index = name.lastIndexOf('.');
+  return index > 0 ? name.substring(index + 1).toLowerCase() : '';
+}
+
+export function splitPath(path: string): string[] {
+  return normalizePath(path).split('/').filter(Boolean);
+}
+
+/**
+ * True when `path` equals `parent` or lives somewhere below it
+ */
+export function isSubPath(parent: string, path: string): boolean {
+  const p = normalizePath(parent);
+  const c = normalizePath(path);
+  if (p === ROOT_PATH) return true;
+  return c === p || c.startsWith(p + '/');
+}
+
+export function isValidFileName(name: string): boolean {
+  return name.length > 0 && name !== '.' && name !== '..' && !name.includes('/');
+}
+
+/**
+ * Dot-files are hidden from regular listings
+ */
+export function isHiddenName(name: string): boolean {
+  return name.startsWith('.');
+}
@@ -0,0 +1,136 @@
+import { authEngine } from '@core/auth-permissions';
+import type { InodeCreator, InodeOwnership, InodeType } from './types';
+
+/**
+ * Unix-style ownership and permission bits
+ *
+ * Every inode has an owning user, a group and a mode. Users are authEngine
+ * usernames and their primary group is their role; everybody is also in
+ * the shared `users` group. Whoever holds `admin.system` acts as root and
+ * passes every check. Without a session the caller is `guest`.
+ */
+
+export const ROOT_USER = 'root';
+export const ROOT_GROUP = 'root';
+export const GUEST_USER = 'guest';
+export const USERS_GROUP = 'users';
+
+export const ACCESS = {
+  READ: 4,
+  WRITE: 2,
+  EXECUTE: 1
+} as const;
+
+export const STICKY_BIT = 0o1000;
+
+// Group members may edit what other members create
+export const DEFAULT_UMASK = 0o002;
+
+export interface FileSystemIdentity {
+  user: string;
+  /**
+   * The first group is the primary one, given to new files
+   */
+  groups: string[];
+  isRoot: boolean;
+}
+
+// Seeded system files and mount roots
+export const SYSTEM_CREATOR: InodeCreator = { owner: ROOT_USER, group: ROOT_GROUP, umask: 0o022 };
+
+/**
+ * Who file system calls are made as right now
+ */
+export function currentIdentity(): FileSystemIdentity {
+  const user = authEngine.currentUser;
+  if (!user) {
+    return { user: GUEST_USER, groups: [GUEST_USER, USERS_GROUP], isRoot: false };
+  }
+  return {
+    user: user.username,
+    groups: [user.role, USERS_GROUP],
+    isRoot: authEngine.hasPermission('admin.system')
+  };
+}
+
+export function creatorFor(identity: FileSystemIdentity): InodeCreator {
+  return { owner: identity.user, group: identity.groups[0], umask: DEFAULT_UMASK };
+}
+
+export function defaultMode(type: InodeType, umask: number): number {
+  return (type === 'directory' ? 0o777 : 0o666) & ~umask;
+}
+
+/**
+ * Whether `identity` has all of the `access` bits (see ACCESS) on the inode.
+ * Root may do anything, except execute files nobody may execute.
+ */
+export function canAccess(inode: InodeOwnership & { type: InodeType }, identity: FileSystemIdentity, access: number): boolean {
+  if (identity.isRoot) {
+    return !(access & ACCESS.EXECUTE) || inode.type === 'directory' || (inode.mode & 0o111) !== 0;
+  }
+
+  let bits: number;
+  if (inode.owner === identity.user) {
+    bits = (inode.mode >> 6) & 7;
+  } else if (identity.groups.includes(inode.group)) {
+    bits = (inode.mode >> 3) & 7;
+  } else {
+    bits = inode.mode & 7;
+  }
+  return (bits & access) === access;
+}
+
+/**
+ * "drwxr-xr-x"-style listing of the mode
+ */
+export function formatMode(type: InodeType, mode: number): string {
+  const triplet = (bits: number, special: boolean, specialChar: string) =>
+    (bits & 4 ? 'r' : '-') +
+    (bits & 2 ? 'w' : '-') +
+    (special ? (bits & 1 ? specialChar : specialChar.toUpperCase()) : bits & 1 ? 'x' : '-');
+
+  return (type === 'directory' ? 'd' : '-') +
+    triplet((mode >> 6) & 7, false, 'x') +
+    triplet((mode >> 3) & 7, false, 'x') +
+    triplet(mode & 7, (mode & STICKY_BIT) !== 0, 't');
+}
+
+/**
+ * Apply a chmod mode: octal ("755", "1777") or symbolic clauses such as
+ * "u+x", "go-w" or "a=r,u+w". Returns null when the spec is invalid.
+ */
+export function parseMode(spec: string, current: number): number | null {
+  if (/^[0-7]{1,4}$/.test(spec)) {
+    return parseInt(spec, 8);
+  }
+
+  let mode = current;
+  for (const clause of spec.split(',')) {
+    const match = /^([ugoa]*)([+\-=])([rwxt]*)$/.exec(clause);
+    if (!match) return null;
+
+    const [, who, op, perms] = match;
+    const targets = who === '' || who.includes('a') ? 'ugo' : who;
+    let mask = 0;
+    for (const target of targets) {
+      const shift = target === 'u' ? 6 : target === 'g' ? 3 : 0;
+      for (const perm of perms) {
+        if (perm === 't') continue;
+        mask |= (perm === 'r' ? 4 : perm === 'w' ? 2 : 1) << shift;
+      }
+    }
+    if (perms.includes('t')) mask |= STICKY_BIT;
+
+    if (op === '+') {
+      mode |= mask;
+    } else if (op === '-') {
+      mode &= ~mask;
+    } else {
+      let cleared = 0;
+      for (const target of targets) cleared |= 7 << (target === 'u' ? 6 : target === 'g' ? 3 : 0);
+      mode = (mode & ~cleared) | mask;
+    }
+  }
+  return mode;
+}
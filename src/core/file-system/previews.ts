@@ -0,0 +1,214 @@
+import { storageEngine } from '@core/storage-abstraction';
+import { wallpaperManager } from '@core/themes/wallpaper-manager';
+import { fileSystem } from './vfs';
+import { FileSystemError } from './errors';
+import { isTextMimeType } from './mime';
+import { ACCESS, canAccess, currentIdentity } from './permissions';
+import { isSubPath, normalizePath } from './path';
+import type { FilePreview, FileSystemChange, Inode } from './types';
+
+/**
+ * File Previews - thumbnails of images and the first lines of text files
+ *
+ * Previews are generated on first request and cached in storage together
+ * with the modification time and size they were made from. A cached
+ * preview is used only while those still match, and is dropped as soon as
+ * its file is modified, moved or deleted. The oldest previews go once the
+ * cache is full.
+ */
+
+const STORAGE_KEYS = {
+  INDEX: 'vfs_previews',
+  CONTENT_PREFIX: 'vfs_preview_'
+} as const;
+
+const THUMBNAIL_SIZE = 256;
+// WebP keeps transparency; browsers without it fall back to PNG
+const THUMBNAIL_TYPE = 'image/webp';
+
+// Larger images are not worth decoding just for a thumbnail
+const MAX_IMAGE_BYTES = 20 * 1024 * 1024;
+const MAX_TEXT_BYTES = 64 * 1024;
+// JSON has to be parsed whole to be pretty-printed
+const MAX_JSON_BYTES = 512 * 1024;
+const PREVIEW_LINES = 40;
+
+const MAX_CACHED_PREVIEWS = 500;
+
+interface CachedPreview {
+  path: string;
+  modifiedAt: number;
+  size: number;
+}
+
+class FilePreviews {
+  /**
+   * Cached previews by path, oldest first
+   */
+  private entries = new Map<string, CachedPreview>();
+  private pending = new Map<string, Promise<FilePreview | null>>();
+  private initPromise: Promise<void> | null = null;
+
+  constructor() {
+    fileSystem.onChange(change => {
+      if (change.type === 'created') return;
+      this.invalidate(change).catch(error => {
+        console.error('[Previews] Failed to drop cached previews:', error);
+      });
+    });
+  }
+
+  ready(): Promise<void> {
+    if (!this.initPromise) {
+      this.initPromise = this.initialize().catch(error => {
+        this.initPromise = null;
+        throw error;
+      });
+    }
+    return this.initPromise;
+  }
+
+  /**
+   * Whether files of this type get a preview
+   */
+  supports(mimeType: string | undefined): boolean {
+    return this.previewType(mimeType) !== null;
+  }
+
+  /**
+   * Preview of a file, from the cache when it is still current; null for
+   * files without one (see supports) or too large to preview
+   */
+  async get(path: string): Promise<FilePreview | null> {
+    await this.ready();
+    const filePath = normalizePath(path);
+    const inode = await fileSystem.stat(filePath);
+    if (inode.type !== 'file') {
+      throw new FileSystemError('EISDIR', filePath);
+    }
+    // Cached previews are shared, so reading them needs the same rights as the file
+    if (!canAccess(inode, currentIdentity(), ACCESS.READ)) {
+      throw new FileSystemError('EACCES', filePath);
+    }
+
+    const type = this.previewType(inode.mimeType);
+    if (!type) return null;
+
+    const cached = this.entries.get(filePath);
+    if (cached && cached.modifiedAt === inode.modifiedAt && cached.size === inode.size) {
+      const preview = await storageEngine.get(STORAGE_KEYS.CONTENT_PREFIX + filePath) as FilePreview | null;
+      if (preview) return preview;
+    }
+
+    const key = `${filePath}:${inode.modifiedAt}:${inode.size}`;
+    let pending = this.pending.get(key);
+    if (!pending) {
+      pending = this.generate(filePath, inode, type).finally(() => this.pending.delete(key));
+      this.pending.set(key, pending);
+    }
+    return pending;
+  }
+
+  // ==== Internals ====
+
+  private async initialize(): Promise<void> {
+    const index = await storageEngine.get(STORAGE_KEYS.INDEX) as CachedPreview[] | null;
+    this.entries = new Map((index ?? []).map(entry => [entry.path, entry]));
+  }
+
+  private previewType(mimeType: string | undefined): FilePreview['type'] | null {
+    if (mimeType?.startsWith('image/')) return 'image';
+    if (mimeType === 'application/json') return 'json';
+    if (isTextMimeType(mimeType)) return 'text';
+    return null;
+  }
+
+  private async generate(path: string, inode: Inode, type: FilePreview['type']): Promise<FilePreview | null> {
+    const preview = type === 'image'
+      ? await this.imagePreview(path, inode)
+      : await this.textPreview(path, type);
+    if (preview) {
+      await this.store(path, inode, preview);
+    }
+    return preview;
+  }
+
+  private async imagePreview(path: string, inode: Inode): Promise<FilePreview | null> {
+    if (inode.size > MAX_IMAGE_BYTES) return null;
+
+    const image = new Blob([await fileSystem.readFileBytes(path)], { type: inode.mimeType });
+    try {
+      const thumbnail = await wallpaperManager.generateThumbnail(image, { maxSize: THUMBNAIL_SIZE, type: THUMBNAIL_TYPE });
+      return { type: 'image', thumbnail };
+    } catch (error) {
+      // Not an image the browser can decode; it keeps its icon
+      console.warn(`[Previews] No thumbnail for ${path}:`, error);
+      return null;
+    }
+  }
+
+  private async textPreview(path: string, type: 'text' | 'json'): Promise<FilePreview> {
+    const bytes = await fileSystem.readFileBytes(path);
+    const decoder = new TextDecoder();
+
+    if (type === 'json' && bytes.length <= MAX_JSON_BYTES) {
+      try {
+        return this.leadingLines('json', JSON.stringify(JSON.parse(decoder.decode(bytes)), null, 2), false);
+      } catch {
+        // Not valid JSON; show it as it is
+      }
+    }
+
+    const text = decoder.decode(bytes.subarray(0, MAX_TEXT_BYTES));
+    return this.leadingLines('text', text, bytes.length > MAX_TEXT_BYTES);
+  }
+
+  private leadingLines(type: 'text' | 'json', text: string, truncated: boolean): FilePreview {
+    const lines = text.split('\n');
+    return {
+      type,
+      text: lines.slice(0, PREVIEW_LINES).join('\n'),
+      truncated: truncated || lines.length > PREVIEW_LINES
+    };
+  }
+
+  private async store(path: string, inode: Inode, preview: FilePreview): Promise<void> {
+    this.entries.delete(path);
+    this.entries.set(path, { path, modifiedAt: inode.modifiedAt, size: inode.size });
+    await storageEngine.set(STORAGE_KEYS.CONTENT_PREFIX + path, preview);
+
+    const overflow = Array.from(this.entries.keys()).slice(0, Math.max(0, this.entries.size - MAX_CACHED_PREVIEWS));
+    await this.remove(overflow);
+    await this.saveIndex();
+  }
+
+  /**
+   * Drop previews of everything the change touched, including a file that
+   * was replaced by a move
+   */
+  private async invalidate(change: FileSystemChange): Promise<void> {
+    await this.ready();
+    const changed = change.oldPath ? [change.oldPath, change.path] : [change.path];
+    const stale = Array.from(this.entries.keys()).filter(path => changed.some(root => isSubPath(root, path)));
+    if (stale.length === 0) return;
+
+    await this.remove(stale);
+    await this.saveIndex();
+  }
+
+  private async remove(paths: string[]): Promise<void> {
+    for (const path of paths) {
+      this.entries.delete(path);
+      await storageEngine.delete(STORAGE_KEYS.CONTENT_PREFIX + path);
+    }
+  }
+
+  private async saveIndex(): Promise<void> {
+    await storageEngine.set(STORAGE_KEYS.INDEX, Array.from(this.entries.values()));
+  }
+}
+
+// Singleton instance
+export const filePreviews = new FilePreviews();
+
+export type { FilePreviews };
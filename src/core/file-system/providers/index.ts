@@ -0,0 +1,2 @@
+export { InodeTreeProvider } from './inode-tree';
+export type { InodeTreeProviderOptions } from './inode-tree';
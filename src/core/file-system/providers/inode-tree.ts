@@ -0,0 +1,560 @@
+import { FileSystemError } from '../errors';
+import { getMimeType } from '../mime';
+import { encodeContent } from '../content';
+import { defaultMode, GUEST_USER, SYSTEM_CREATOR, USERS_GROUP } from '../permissions';
+import {
+  ROOT_PATH,
+  normalizePath,
+  joinPath,
+  dirname,
+  basename,
+  splitPath,
+  isSubPath,
+  isValidFileName
+} from '../path';
+import type {
+  Inode,
+  InodeType,
+  DirectoryEntry,
+  FileContent,
+  FileSystemProvider,
+  ProviderStorage,
+  StoredFileContent,
+  FileSystemChange,
+  FileSystemChangeListener,
+  FileSystemSnapshot,
+  InodeCreator,
+  InodeOwnership,
+  MkdirOptions,
+  RemoveOptions,
+  WriteFileOptions
+} from '../types';
+
+/**
+ * Inode Tree Provider - hierarchical inode store on top of a key-value storage
+ *
+ * The inode table is kept in memory and written back as a single snapshot
+ * after every mutation; file contents live under their own storage keys so
+ * listing a directory never loads file data. Entries created without a
+ * `creator` belong to root.
+ */
+
+const SNAPSHOT_VERSION = 1;
+
+export interface InodeTreeProviderOptions {
+  /**
+   * Used in log messages
+   */
+  name: string;
+  storage: ProviderStorage;
+  /**
+   * Prefix for the storage keys, so several trees can share one storage
+   */
+  keyPrefix: string;
+}
+
+export class InodeTreeProvider implements FileSystemProvider {
+  private readonly name: string;
+  private readonly storage: ProviderStorage;
+  private readonly inodesKey: string;
+  private readonly dataPrefix: string;
+  private inodes = new Map<string, Inode>();
+  private rootId = '';
+  private initPromise: Promise<void> | null = null;
+  private persistQueue: Promise<void> = Promise.resolve();
+  private changeListeners = new Set<FileSystemChangeListener>();
+  private fresh = false;
+
+  constructor(options: InodeTreeProviderOptions) {
+    this.name = options.name;
+    this.storage = options.storage;
+    this.inodesKey = `${options.keyPrefix}inodes`;
+    this.dataPrefix = `${options.keyPrefix}data_`;
+  }
+
+  /**
+   * Load the inode table from storage, starting an empty tree on first run.
+   * Every public method awaits this, so callers never need to.
+   */
+  ready(): Promise<void> {
+    if (!this.initPromise) {
+      this.initPromise = this.initialize().catch(error => {
+        this.initPromise = null;
+        throw error;
+      });
+    }
+    return this.initPromise;
+  }
+
+  async stat(path: string): Promise<Inode> {
+    await this.ready();
+    return this.clone(this.resolve(path));
+  }
+
+  async exists(path: string): Promise<boolean> {
+    await this.ready();
+    return this.lookup(path) !== undefined;
+  }
+
+  async readdir(path: string): Promise<DirectoryEntry[]> {
+    await this.ready();
+    const dirPath = normalizePath(path);
+    const dir = this.resolveDirectory(dirPath);
+
+    return Object.values(dir.children ?? {})
+      .map(id => this.inodes.get(id))
+      .filter((inode): inode is Inode => !!inode)
+      .map(inode => ({ path: joinPath(dirPath, inode.name), inode: this.clone(inode) }));
+  }
+
+  async mkdir(path: string, options: MkdirOptions = {}): Promise<Inode> {
+    await this.ready();
+    const dirPath = normalizePath(path);
+
+    const existing = this.lookup(dirPath);
+    if (existing) {
+      if (options.recursive && existing.type === 'directory') return this.clone(existing);
+      throw new FileSystemError('EEXIST', dirPath);
+    }
+
+    const creator = options.creator ?? SYSTEM_CREATOR;
+    const changes: FileSystemChange[] = [];
+    const parent = options.recursive
+      ? await this.ensureDirectory(dirname(dirPath), creator, changes)
+      : this.resolveDirectory(dirname(dirPath));
+
+    const inode = this.createInode('directory', basename(dirPath), parent, dirPath, creator, options.mode);
+    changes.push({ type: 'created', path: dirPath, inode: this.clone(inode) });
+    await this.persist();
+    this.notify(changes);
+    return this.clone(inode);
+  }
+
+  /**
+   * File contents exactly as stored
+   */
+  async readContent(path: string): Promise<StoredFileContent | null> {
+    await this.ready();
+    const filePath = normalizePath(path);
+    const inode = this.resolve(filePath);
+    if (inode.type === 'directory') {
+      throw new FileSystemError('EISDIR', filePath);
+    }
+
+    return await this.storage.get(this.dataKey(inode.id)) as StoredFileContent | null;
+  }
+
+  /**
+   * Write file contents, creating the file when it does not exist.
+   * Strings are stored as text, binary content as-is.
+   */
+  async writeFile(path: string, content: FileContent, options: WriteFileOptions = {}): Promise<Inode> {
+    await this.ready();
+    const filePath = normalizePath(path);
+
+    let inode = this.lookup(filePath);
+    if (inode?.type === 'directory') {
+      throw new FileSystemError('EISDIR', filePath);
+    }
+
+    const { stored, size } = await encodeContent(content);
+    const changes: FileSystemChange[] = [];
+    const isNew = !inode;
+
+    if (!inode) {
+      const creator = options.creator ?? SYSTEM_CREATOR;
+      const parent = options.createParents
+        ? await this.ensureDirectory(dirname(filePath), creator, changes)
+        : this.resolveDirectory(dirname(filePath));
+      inode = this.createInode('file', basename(filePath), parent, filePath, creator, options.mode);
+    }
+
+    await this.storage.set(this.dataKey(inode.id), stored);
+    inode.size = size;
+    inode.modifiedAt = Date.now();
+    changes.push({ type: isNew ? 'created' : 'modified', path: filePath, inode: this.clone(inode) });
+    await this.persist();
+    this.notify(changes);
+    return this.clone(inode);
+  }
+
+  /**
+   * Remove a file or directory. Non-empty directories need `recursive`.
+   */
+  async remove(path: string, options: RemoveOptions = {}): Promise<void> {
+    await this.ready();
+    const targetPath = normalizePath(path);
+    const inode = this.resolve(targetPath);
+
+    if (inode.id === this.rootId) {
+      throw new FileSystemError('EINVAL', targetPath, 'Cannot remove the root directory');
+    }
+    if (inode.type === 'directory' && Object.keys(inode.children ?? {}).length > 0 && !options.recursive) {
+      throw new FileSystemError('ENOTEMPTY', targetPath);
+    }
+
+    const parent = this.inodes.get(inode.parentId!);
+    if (parent?.children) {
+      delete parent.children[inode.name];
+      parent.modifiedAt = Date.now();
+    }
+
+    const removed = this.clone(inode);
+    await this.destroySubtree(inode);
+    await this.persist();
+    this.notify([{ type: 'deleted', path: targetPath, inode: removed }]);
+  }
+
+  /**
+   * Move or rename an entry. Fails when the target already exists.
+   */
+  async rename(oldPath: string, newPath: string): Promise<Inode> {
+    await this.ready();
+    const from = normalizePath(oldPath);
+    const to = normalizePath(newPath);
+    const inode = this.resolve(from);
+
+    if (inode.id === this.rootId) {
+      throw new FileSystemError('EINVAL', from, 'Cannot move the root directory');
+    }
+    if (from === to) return this.clone(inode);
+    if (inode.type === 'directory' && isSubPath(from, to)) {
+      throw new FileSystemError('EINVAL', to, `Cannot move '${from}' into itself`);
+    }
+    if (this.lookup(to)) {
+      throw new FileSystemError('EEXIST', to);
+    }
+
+    const newName = basename(to);
+    if (!isValidFileName(newName)) {
+      throw new FileSystemError('EINVAL', to, `Invalid file name: ${newName}`);
+    }
+
+    const newParent = this.resolveDirectory(dirname(to));
+    const oldParent = this.inodes.get(inode.parentId!);
+    const now = Date.now();
+
+    if (oldParent?.children) {
+      delete oldParent.children[inode.name];
+      oldParent.modifiedAt = now;
+    }
+
+    inode.name = newName;
+    inode.parentId = newParent.id;
+    if (inode.type === 'file') {
+      inode.mimeType = getMimeType(newName);
+    }
+    newParent.children = { ...newParent.children, [newName]: inode.id };
+    newParent.modifiedAt = now;
+
+    await this.persist();
+    this.notify([{ type: 'moved', path: to, oldPath: from, inode: this.clone(inode) }]);
+    return this.clone(inode);
+  }
+
+  /**
+   * Recursively copy a file or directory. Fails when the target already exists.
+   * Copies keep the permission bits (less the creator's umask) but not the owner.
+   */
+  async copy(sourcePath: string, targetPath: string, creator: InodeCreator = SYSTEM_CREATOR): Promise<Inode> {
+    await this.ready();
+    const from = normalizePath(sourcePath);
+    const to = normalizePath(targetPath);
+    const source = this.resolve(from);
+
+    if (source.type === 'directory' && isSubPath(from, to)) {
+      throw new FileSystemError('EINVAL', to, `Cannot copy '${from}' into itself`);
+    }
+    if (this.lookup(to)) {
+      throw new FileSystemError('EEXIST', to);
+    }
+
+    const parent = this.resolveDirectory(dirname(to));
+    const copy = await this.copySubtree(source, basename(to), parent, to, creator);
+    await this.persist();
+    this.notify([{ type: 'created', path: to, inode: this.clone(copy) }]);
+    return this.clone(copy);
+  }
+
+  async setAttributes(path: string, attributes: Partial<InodeOwnership>): Promise<Inode> {
+    await this.ready();
+    const targetPath = normalizePath(path);
+    const inode = this.resolve(targetPath);
+
+    if (attributes.owner !== undefined) inode.owner = attributes.owner;
+    if (attributes.group !== undefined) inode.group = attributes.group;
+    if (attributes.mode !== undefined) inode.mode = attributes.mode & 0o7777;
+
+    await this.persist();
+    this.notify([{ type: 'modified', path: targetPath, inode: this.clone(inode) }]);
+    return this.clone(inode);
+  }
+
+  /**
+   * Subscribe to mutations; returns the unsubscribe function
+   */
+  onChange(listener: FileSystemChangeListener): () => void {
+    this.changeListeners.add(listener);
+    return () => {
+      this.changeListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Absolute path of an inode, walking up through its parents
+   */
+  getPath(inodeId: string): string | undefined {
+    const segments: string[] = [];
+    let current = this.inodes.get(inodeId);
+
+    while (current && current.id !== this.rootId) {
+      segments.unshift(current.name);
+      current = current.parentId ? this.inodes.get(current.parentId) : undefined;
+    }
+
+    return current ? '/' + segments.join('/') : undefined;
+  }
+
+  /**
+   * True when there was no stored tree to load, i.e. the caller should seed it
+   */
+  isFresh(): boolean {
+    return this.fresh;
+  }
+
+  inspect(): { inodeCount: number; rootId: string } {
+    return {
+      inodeCount: this.inodes.size,
+      rootId: this.rootId
+    };
+  }
+
+  // ==== Internals ====
+
+  private async initialize(): Promise<void> {
+    const snapshot = await this.storage.get(this.inodesKey) as FileSystemSnapshot | null;
+
+    if (snapshot && snapshot.version === SNAPSHOT_VERSION && snapshot.inodes[snapshot.rootId]) {
+      this.rootId = snapshot.rootId;
+      this.inodes = new Map(Object.entries(snapshot.inodes));
+      this.assignMissingOwnership();
+      console.log(`[VFS] Loaded ${this.inodes.size} inodes for ${this.name}`);
+      return;
+    }
+
+    await this.createRoot();
+    this.fresh = true;
+    console.log(`[VFS] Created empty file system for ${this.name}`);
+  }
+
+  /**
+   * Trees stored before ownership existed become shared user files
+   */
+  private assignMissingOwnership(): void {
+    for (const inode of this.inodes.values()) {
+      if (inode.owner !== undefined) continue;
+      inode.owner = GUEST_USER;
+      inode.group = USERS_GROUP;
+      inode.mode = inode.type === 'directory' ? 0o775 : 0o664;
+    }
+  }
+
+  private async createRoot(): Promise<void> {
+    const now = Date.now();
+    const root: Inode = {
+      id: this.generateId(),
+      type: 'directory',
+      name: '',
+      parentId: null,
+      size: 0,
+      createdAt: now,
+      modifiedAt: now,
+      children: {},
+      owner: SYSTEM_CREATOR.owner,
+      group: SYSTEM_CREATOR.group,
+      mode: 0o755
+    };
+
+    this.inodes = new Map([[root.id, root]]);
+    this.rootId = root.id;
+    await this.persist();
+  }
+
+  private lookup(path: string): Inode | undefined {
+    let current = this.inodes.get(this.rootId);
+
+    for (const segment of splitPath(path)) {
+      if (!current || current.type !== 'directory') return undefined;
+      const childId = current.children?.[segment];
+      current = childId ? this.inodes.get(childId) : undefined;
+    }
+
+    return current;
+  }
+
+  private resolve(path: string): Inode {
+    const normalized = normalizePath(path);
+    let current = this.inodes.get(this.rootId)!;
+    let walked = ROOT_PATH;
+
+    for (const segment of splitPath(normalized)) {
+      if (current.type !== 'directory') {
+        throw new FileSystemError('ENOTDIR', walked);
+      }
+      const childId = current.children?.[segment];
+      const child = childId ? this.inodes.get(childId) : undefined;
+      if (!child) {
+        throw new FileSystemError('ENOENT', normalized);
+      }
+      current = child;
+      walked = joinPath(walked, segment);
+    }
+
+    return current;
+  }
+
+  private resolveDirectory(path: string): Inode {
+    const inode = this.resolve(path);
+    if (inode.type !== 'directory') {
+      throw new FileSystemError('ENOTDIR', normalizePath(path));
+    }
+    return inode;
+  }
+
+  /**
+   * Walk down `path`, creating missing directories. Newly created ones are
+   * appended to `changes` when given.
+   */
+  private async ensureDirectory(path: string, creator: InodeCreator, changes?: FileSystemChange[]): Promise<Inode> {
+    let current = this.inodes.get(this.rootId)!;
+    let walked = ROOT_PATH;
+
+    for (const segment of splitPath(path)) {
+      walked = joinPath(walked, segment);
+      const childId = current.children?.[segment];
+      const child = childId ? this.inodes.get(childId) : undefined;
+
+      if (!child) {
+        current = this.createInode('directory', segment, current, walked, creator);
+        changes?.push({ type: 'created', path: walked, inode: this.clone(current) });
+      } else if (child.type !== 'directory') {
+        throw new FileSystemError('ENOTDIR', walked);
+      } else {
+        current = child;
+      }
+    }
+
+    return current;
+  }
+
+  private createInode(
+    type: InodeType,
+    name: string,
+    parent: Inode,
+    path: string,
+    creator: InodeCreator,
+    mode: number = defaultMode(type, creator.umask)
+  ): Inode {
+    if (!isValidFileName(name)) {
+      throw new FileSystemError('EINVAL', path, `Invalid file name: ${name}`);
+    }
+    if (parent.children?.[name]) {
+      throw new FileSystemError('EEXIST', path);
+    }
+
+    const now = Date.now();
+    const inode: Inode = {
+      id: this.generateId(),
+      type,
+      name,
+      parentId: parent.id,
+      size: 0,
+      createdAt: now,
+      modifiedAt: now,
+      owner: creator.owner,
+      group: creator.group,
+      mode,
+      ...(type === 'directory' ? { children: {} } : { mimeType: getMimeType(name) })
+    };
+
+    this.inodes.set(inode.id, inode);
+    parent.children = { ...parent.children, [name]: inode.id };
+    parent.modifiedAt = now;
+    return inode;
+  }
+
+  private async copySubtree(source: Inode, name: string, parent: Inode, path: string, creator: InodeCreator): Promise<Inode> {
+    const copy = this.createInode(source.type, name, parent, path, creator, source.mode & ~creator.umask);
+
+    if (source.type === 'directory') {
+      for (const childId of Object.values(source.children ?? {})) {
+        const child = this.inodes.get(childId);
+        if (child) await this.copySubtree(child, child.name, copy, joinPath(path, child.name), creator);
+      }
+    } else {
+      const content = await this.storage.get(this.dataKey(source.id));
+      if (content !== undefined && content !== null) {
+        await this.storage.set(this.dataKey(copy.id), content);
+      }
+      copy.size = source.size;
+      copy.mimeType = source.mimeType;
+    }
+
+    return copy;
+  }
+
+  private async destroySubtree(inode: Inode): Promise<void> {
+    if (inode.type === 'directory') {
+      for (const childId of Object.values(inode.children ?? {})) {
+        const child = this.inodes.get(childId);
+        if (child) await this.destroySubtree(child);
+      }
+    } else {
+      await this.storage.delete(this.dataKey(inode.id));
+    }
+    this.inodes.delete(inode.id);
+  }
+
+  /**
+   * Write the inode table back to storage. Writes are chained so a slow
+   * snapshot can never overwrite a newer one.
+   */
+  private persist(): Promise<void> {
+    const snapshot: FileSystemSnapshot = {
+      version: SNAPSHOT_VERSION,
+      rootId: this.rootId,
+      inodes: Object.fromEntries(
+        Array.from(this.inodes.entries()).map(([id, inode]) => [id, this.clone(inode)])
+      )
+    };
+
+    this.persistQueue = this.persistQueue
+      .catch(() => undefined)
+      .then(() => this.storage.set(this.inodesKey, snapshot));
+    return this.persistQueue;
+  }
+
+  private notify(changes: FileSystemChange[]): void {
+    for (const change of changes) {
+      for (const listener of this.changeListeners) {
+        try {
+          listener(change);
+        } catch (error) {
+          console.error(`[VFS] Change listener failed (${this.name}):`, error);
+        }
+      }
+    }
+  }
+
+  private clone(inode: Inode): Inode {
+    return inode.children ? { ...inode, children: { ...inode.children } } : { ...inode };
+  }
+
+  private dataKey(inodeId: string): string {
+    return `${this.dataPrefix}${inodeId}`;
+  }
+
+  private generateId(): string {
+    return `${Date.now().toString(36)}-${Math.random().toString(36).substr(2, 9)}`;
+  }
+}
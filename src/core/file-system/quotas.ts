@@ -0,0 +1,106 @@
+import { storageEngine } from '@core/storage-abstraction';
+import { eventBus } from '@core/event-bus';
+import { FileSystemError } from './errors';
+import { ROOT_USER, currentIdentity } from './permissions';
+import { ROOT_PATH } from './path';
+import type { QuotaSettings } from './types';
+
+/**
+ * Disk Quotas - how many bytes of file contents each user may own
+ *
+ * Limits are per user, with a default for everyone without their own.
+ * The VFS checks them whenever a write or copy would grow a user's files
+ * and fails with EDQUOT when it would go over. Root has no limit and is
+ * the only one who may change them.
+ */
+
+const STORAGE_KEYS = {
+  SETTINGS: 'vfs_quotas'
+} as const;
+
+const DEFAULT_SETTINGS: QuotaSettings = {
+  defaultLimit: 100 * 1024 * 1024,
+  limits: {}
+};
+
+class QuotaManager {
+  private settings: QuotaSettings = { ...DEFAULT_SETTINGS, limits: {} };
+  private initPromise: Promise<void> | null = null;
+
+  ready(): Promise<void> {
+    if (!this.initPromise) {
+      this.initPromise = this.initialize().catch(error => {
+        this.initPromise = null;
+        throw error;
+      });
+    }
+    return this.initPromise;
+  }
+
+  getSettings(): QuotaSettings {
+    return { ...this.settings, limits: { ...this.settings.limits } };
+  }
+
+  /**
+   * Bytes `user` may own; null when unlimited
+   */
+  async getLimit(user: string): Promise<number | null> {
+    await this.ready();
+    if (user === ROOT_USER) return null;
+    return user in this.settings.limits ? this.settings.limits[user] : this.settings.defaultLimit;
+  }
+
+  /**
+   * Give `user` a limit of their own, or (with undefined) fall back to the default
+   */
+  async setLimit(user: string, bytes: number | null | undefined): Promise<void> {
+    await this.ready();
+    this.assertCanConfigure();
+    this.assertValid(bytes);
+
+    const limits = { ...this.settings.limits };
+    if (bytes === undefined) {
+      delete limits[user];
+    } else {
+      limits[user] = bytes;
+    }
+    await this.save({ ...this.settings, limits });
+  }
+
+  async setDefaultLimit(bytes: number | null): Promise<void> {
+    await this.ready();
+    this.assertCanConfigure();
+    this.assertValid(bytes);
+    await this.save({ ...this.settings, defaultLimit: bytes });
+  }
+
+  // ==== Internals ====
+
+  private async initialize(): Promise<void> {
+    const settings = await storageEngine.get(STORAGE_KEYS.SETTINGS) as QuotaSettings | null;
+    this.settings = { ...DEFAULT_SETTINGS, ...settings, limits: { ...settings?.limits } };
+  }
+
+  private assertCanConfigure(): void {
+    if (!currentIdentity().isRoot) {
+      throw new FileSystemError('EPERM', ROOT_PATH, 'Only an administrator can change disk quotas');
+    }
+  }
+
+  private assertValid(bytes: number | null | undefined): void {
+    if (bytes !== null && bytes !== undefined && (!Number.isFinite(bytes) || bytes < 0)) {
+      throw new FileSystemError('EINVAL', ROOT_PATH, `Invalid quota: ${bytes}`);
+    }
+  }
+
+  private async save(settings: QuotaSettings): Promise<void> {
+    this.settings = settings;
+    await storageEngine.set(STORAGE_KEYS.SETTINGS, this.settings);
+    eventBus.emitSync('quota:changed', { settings: this.getSettings(), timestamp: Date.now() });
+  }
+}
+
+// Singleton instance
+export const quotaManager = new QuotaManager();
+
+export type { QuotaManager };
@@ -0,0 +1,487 @@
+import { fileSystem } from './vfs';
+import { getFileKind, isTextMimeType } from './mime';
+import type { FileKind } from './mime';
+import { ROOT_PATH, TRASH_PATH, joinPath, extname, isSubPath, normalizePath } from './path';
+import type { FileSystemChange, Inode, InodeType } from './types';
+
+/**
+ * Search Index - inverted index over file names and text contents
+ *
+ * Built in the background on first use, then kept current from VFS change
+ * notifications. Changes are applied one at a time, after the initial build,
+ * in the order they happened. The Trash is not indexed.
+ */
+
+// Larger text files are still found by name, just not by content
+const MAX_CONTENT_BYTES = 512 * 1024;
+
+const DEFAULT_LIMIT = 200;
+
+// Characters of context shown on each side of a content match
+const SNIPPET_CONTEXT = 40;
+
+export interface TextRange {
+  start: number;
+  end: number;
+}
+
+export interface SearchQuery {
+  text: string;
+  /**
+   * Only return items below this folder
+   */
+  scope?: string;
+  kinds?: FileKind[];
+  /**
+   * Lower-case extensions without the dot
+   */
+  extensions?: string[];
+  /**
+   * Only return these items
+   */
+  paths?: string[];
+  minSize?: number;
+  maxSize?: number;
+  modifiedAfter?: number;
+  modifiedBefore?: number;
+  /**
+   * Match text contents as well as names (default true)
+   */
+  searchContent?: boolean;
+  /**
+   * Most results to return. Text searches default to DEFAULT_LIMIT; an
+   * empty query lists every match, so smart folders and tags are complete.
+   */
+  limit?: number;
+}
+
+export interface SearchIndexEntry {
+  path: string;
+  name: string;
+  type: InodeType;
+  kind: FileKind;
+  size: number;
+  mimeType?: string;
+  modifiedAt: number;
+}
+
+export interface SearchResult extends SearchIndexEntry {
+  /**
+   * Matched ranges within `name`
+   */
+  nameMatches: TextRange[];
+  /**
+   * First matching line of the contents, when the name alone did not match
+   */
+  contentMatch?: {
+    line: number;
+    text: string;
+    matches: TextRange[];
+  };
+}
+
+interface IndexedEntry extends SearchIndexEntry {
+  nameTokens: string[];
+  contentTokens: string[];
+  /**
+   * Whether contentTokens cover the whole text; false for folders and for
+   * binary, large or unreadable files
+   */
+  isContentIndexed: boolean;
+}
+
+/**
+ * Lower-cased words (letters and digits) of `text`, without duplicates
+ */
+export function tokenize(text: string): string[] {
+  return Array.from(new Set(text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []));
+}
+
+/**
+ * Case-insensitive ranges where any of `needles` occurs in `text`,
+ * sorted and with overlaps merged
+ */
+export function findTextRanges(text: string, needles: string[]): TextRange[] {
+  const haystack = text.toLowerCase();
+  const ranges: TextRange[] = [];
+
+  for (const needle of needles) {
+    const lower = needle.toLowerCase();
+    if (!lower) continue;
+    let index = haystack.indexOf(lower);
+    while (index !== -1) {
+      ranges.push({ start: index, end: index + lower.length });
+      index = haystack.indexOf(lower, index + lower.length);
+    }
+  }
+
+  ranges.sort((a, b) => a.start - b.start);
+  const merged: TextRange[] = [];
+  for (const range of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push({ ...range });
+    }
+  }
+  return merged;
+}
+
+function intersect(current: Set<string> | null, hits: Set<string>): Set<string> {
+  if (!current) return hits;
+  return new Set(Array.from(current).filter(path => hits.has(path)));
+}
+
+class SearchIndex {
+  private entries = new Map<string, IndexedEntry>();
+  private nameIndex = new Map<string, Set<string>>();
+  private contentIndex = new Map<string, Set<string>>();
+  private buildPromise: Promise<void> | null = null;
+  private updateQueue: Promise<void> = Promise.resolve();
+
+  /**
+   * Start indexing (once) and resolve when the initial build is done
+   */
+  ready(): Promise<void> {
+    if (!this.buildPromise) {
+      fileSystem.onChange(change => this.enqueue(change));
+      this.buildPromise = this.build();
+      this.updateQueue = this.buildPromise;
+    }
+    return this.buildPromise;
+  }
+
+  /**
+   * Files and folders whose name or contents contain every word of the
+   * query, words matching as prefixes ("rep" finds "report"). An empty
+   * query lists everything that passes the filters.
+   */
+  async search(query: SearchQuery): Promise<SearchResult[]> {
+    await this.ready();
+    await this.updateQueue;
+
+    const text = query.text.trim();
+    const tokens = tokenize(text);
+    if (!text) return this.filterAll(query);
+    if (tokens.length === 0) return [];
+
+    const searchContent = query.searchContent ?? true;
+    const lowerText = text.toLowerCase();
+    let candidates: Set<string> | null = null;
+
+    for (const token of tokens) {
+      const hits = this.lookup(this.nameIndex, token, 'prefix');
+      if (searchContent) {
+        for (const path of this.lookup(this.contentIndex, token, 'prefix')) hits.add(path);
+      }
+      candidates = intersect(candidates, hits);
+      if (candidates.size === 0) break;
+    }
+
+    // Plain substring matches on the name ("port" finds "report.txt")
+    const matched = candidates ?? new Set<string>();
+    for (const entry of this.entries.values()) {
+      if (entry.name.toLowerCase().includes(lowerText)) matched.add(entry.path);
+    }
+
+    const scored = Array.from(matched)
+      .map(path => this.entries.get(path))
+      .filter((entry): entry is IndexedEntry => !!entry && this.matchesFilters(entry, query))
+      .map(entry => ({ entry, score: this.score(entry, tokens, lowerText) }))
+      .sort((a, b) => b.score - a.score || a.entry.name.localeCompare(b.entry.name))
+      .slice(0, query.limit ?? DEFAULT_LIMIT);
+
+    const results: SearchResult[] = [];
+    for (const { entry } of scored) {
+      const nameMatches = findTextRanges(entry.name, [text, ...tokens]);
+      const result: SearchResult = { ...this.toPublic(entry), nameMatches };
+      if (searchContent && nameMatches.length === 0) {
+        result.contentMatch = await this.findContentMatch(entry.path, tokens);
+      }
+      results.push(result);
+    }
+    return results;
+  }
+
+  /**
+   * Text files below `scope` that may contain `pattern`. Every word of the
+   * pattern has to appear inside some word of the file, so the caller still
+   * needs to check the actual text.
+   */
+  async findContentCandidates(pattern: string, scope: string = ROOT_PATH): Promise<SearchIndexEntry[]> {
+    await this.ready();
+    await this.updateQueue;
+
+    const tokens = tokenize(pattern);
+    let candidates: Set<string> | null = null;
+
+    for (const token of tokens) {
+      const hits = this.lookup(this.contentIndex, token, 'substring');
+      candidates = intersect(candidates, hits);
+      if (candidates.size === 0) break;
+    }
+
+    const entries = candidates
+      ? Array.from(candidates).map(path => this.entries.get(path)!)
+      : Array.from(this.entries.values()).filter(entry => entry.type === 'file' && isTextMimeType(entry.mimeType));
+
+    return entries
+      .filter(entry => entry && isSubPath(scope, entry.path))
+      .sort((a, b) => a.path.localeCompare(b.path))
+      .map(entry => this.toPublic(entry));
+  }
+
+  /**
+   * Files below `scope` whose whole text is indexed and that cannot contain
+   * `pattern`. Every other file has to be read to be sure.
+   */
+  async findContentExclusions(pattern: string, scope: string = ROOT_PATH): Promise<Set<string>> {
+    await this.ready();
+    await this.updateQueue;
+
+    const excluded = new Set<string>();
+    let candidates: Set<string> | null = null;
+    for (const token of tokenize(pattern)) {
+      candidates = intersect(candidates, this.lookup(this.contentIndex, token, 'substring'));
+      if (candidates.size === 0) break;
+    }
+    if (!candidates) return excluded;
+
+    for (const entry of this.entries.values()) {
+      if (entry.isContentIndexed && !candidates.has(entry.path) && isSubPath(scope, entry.path)) {
+        excluded.add(entry.path);
+      }
+    }
+    return excluded;
+  }
+
+  /**
+   * Every indexed item below `scope` (not including it), sorted by path
+   */
+  async listEntries(scope: string = ROOT_PATH): Promise<SearchIndexEntry[]> {
+    await this.ready();
+    await this.updateQueue;
+
+    const root = normalizePath(scope);
+    return Array.from(this.entries.values())
+      .filter(entry => entry.path !== root && isSubPath(root, entry.path))
+      .sort((a, b) => a.path.localeCompare(b.path))
+      .map(entry => this.toPublic(entry));
+  }
+
+  inspect(): { entries: number; nameTokens: number; contentTokens: number; ready: boolean } {
+    return {
+      entries: this.entries.size,
+      nameTokens: this.nameIndex.size,
+      contentTokens: this.contentIndex.size,
+      ready: this.buildPromise !== null
+    };
+  }
+
+  // ==== Internals ====
+
+  private async build(): Promise<void> {
+    const started = Date.now();
+    await this.indexSubtree(ROOT_PATH);
+    console.log('[SearchIndex] Indexed', this.entries.size, 'items in', Date.now() - started, 'ms');
+  }
+
+  private enqueue(change: FileSystemChange): void {
+    this.updateQueue = this.updateQueue
+      .then(() => this.applyChange(change))
+      .catch(error => console.error('[SearchIndex] Failed to apply change:', error));
+  }
+
+  private async applyChange(change: FileSystemChange): Promise<void> {
+    switch (change.type) {
+      case 'created':
+        await this.indexSubtree(change.path);
+        break;
+      case 'modified':
+        await this.indexPath(change.path, change.inode);
+        break;
+      case 'deleted':
+        this.removeSubtree(change.path);
+        break;
+      case 'moved':
+        if (change.oldPath) this.removeSubtree(change.oldPath);
+        await this.indexSubtree(change.path);
+        break;
+    }
+  }
+
+  private async indexSubtree(path: string): Promise<void> {
+    if (isSubPath(TRASH_PATH, path)) return;
+
+    try {
+      const inode = await fileSystem.stat(path);
+      if (path !== ROOT_PATH) {
+        await this.indexPath(path, inode);
+      }
+      if (inode.type === 'directory') {
+        for (const child of await fileSystem.readdir(path)) {
+          await this.indexSubtree(joinPath(path, child.inode.name));
+        }
+      }
+    } catch {
+      // Removed again before we got to it; the delete change cleans up
+    }
+  }
+
+  private async indexPath(path: string, inode: Inode): Promise<void> {
+    if (isSubPath(TRASH_PATH, path)) return;
+    this.removeEntry(path);
+
+    let contentTokens: string[] = [];
+    let isContentIndexed = false;
+    if (inode.type === 'file' && isTextMimeType(inode.mimeType) && inode.size <= MAX_CONTENT_BYTES) {
+      try {
+        contentTokens = tokenize(await fileSystem.readFile(path));
+        isContentIndexed = true;
+      } catch {
+        contentTokens = [];
+      }
+    }
+
+    const entry: IndexedEntry = {
+      path,
+      name: inode.name,
+      type: inode.type,
+      kind: getFileKind(inode.type, inode.mimeType),
+      size: inode.size,
+      mimeType: inode.mimeType,
+      modifiedAt: inode.modifiedAt,
+      nameTokens: tokenize(inode.name),
+      contentTokens,
+      isContentIndexed
+    };
+
+    this.entries.set(path, entry);
+    this.addPostings(this.nameIndex, entry.nameTokens, path);
+    this.addPostings(this.contentIndex, entry.contentTokens, path);
+  }
+
+  private removeSubtree(path: string): void {
+    for (const entryPath of Array.from(this.entries.keys())) {
+      if (isSubPath(path, entryPath)) this.removeEntry(entryPath);
+    }
+  }
+
+  private removeEntry(path: string): void {
+    const entry = this.entries.get(path);
+    if (!entry) return;
+
+    this.removePostings(this.nameIndex, entry.nameTokens, path);
+    this.removePostings(this.contentIndex, entry.contentTokens, path);
+    this.entries.delete(path);
+  }
+
+  private addPostings(index: Map<string, Set<string>>, tokens: string[], path: string): void {
+    for (const token of tokens) {
+      let postings = index.get(token);
+      if (!postings) {
+        postings = new Set();
+        index.set(token, postings);
+      }
+      postings.add(path);
+    }
+  }
+
+  private removePostings(index: Map<string, Set<string>>, tokens: string[], path: string): void {
+    for (const token of tokens) {
+      const postings = index.get(token);
+      if (!postings) continue;
+      postings.delete(path);
+      if (postings.size === 0) index.delete(token);
+    }
+  }
+
+  /**
+   * Paths with an indexed word that starts with / contains `token`
+   */
+  private lookup(index: Map<string, Set<string>>, token: string, mode: 'prefix' | 'substring'): Set<string> {
+    const hits = new Set<string>();
+    for (const [word, postings] of index) {
+      const match = mode === 'prefix' ? word.startsWith(token) : word.includes(token);
+      if (match) {
+        for (const path of postings) hits.add(path);
+      }
+    }
+    return hits;
+  }
+
+  private matchesFilters(entry: IndexedEntry, query: SearchQuery): boolean {
+    if (query.scope) {
+      const scope = normalizePath(query.scope);
+      if (entry.path === scope || !isSubPath(scope, entry.path)) return false;
+    }
+    if (query.kinds?.length && !query.kinds.includes(entry.kind)) return false;
+    if (query.extensions?.length && (entry.type === 'directory' || !query.extensions.includes(extname(entry.name)))) return false;
+    if (query.paths && !query.paths.includes(entry.path)) return false;
+    if (query.minSize !== undefined && (entry.type === 'directory' || entry.size < query.minSize)) return false;
+    if (query.maxSize !== undefined && (entry.type === 'directory' || entry.size > query.maxSize)) return false;
+    if (query.modifiedAfter !== undefined && entry.modifiedAt < query.modifiedAfter) return false;
+    if (query.modifiedBefore !== undefined && entry.modifiedAt > query.modifiedBefore) return false;
+    return true;
+  }
+
+  private filterAll(query: SearchQuery): SearchResult[] {
+    return Array.from(this.entries.values())
+      .filter(entry => this.matchesFilters(entry, query))
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .slice(0, query.limit)
+      .map(entry => ({ ...this.toPublic(entry), nameMatches: [] }));
+  }
+
+  /**
+   * Name matches rank above content-only matches
+   */
+  private score(entry: IndexedEntry, tokens: string[], lowerText: string): number {
+    const name = entry.name.toLowerCase();
+    let score = 0;
+    if (name === lowerText) score += 4;
+    if (name.startsWith(lowerText)) score += 2;
+    if (name.includes(lowerText)) score += 1;
+    score += tokens.filter(token => entry.nameTokens.some(word => word.startsWith(token))).length;
+    return score;
+  }
+
+  private async findContentMatch(path: string, tokens: string[]): Promise<SearchResult['contentMatch']> {
+    let content: string;
+    try {
+      content = await fileSystem.readFile(path);
+    } catch {
+      return undefined;
+    }
+
+    const lines = content.split('\n');
+    for (let i = 0; i < lines.length; i++) {
+      const ranges = findTextRanges(lines[i], tokens);
+      if (ranges.length === 0) continue;
+
+      // Trim long lines to the area around the first match
+      const start = Math.max(0, ranges[0].start - SNIPPET_CONTEXT);
+      const end = Math.min(lines[i].length, ranges[0].end + SNIPPET_CONTEXT);
+      const text = lines[i].substring(start, end);
+      return {
+        line: i + 1,
+        text,
+        matches: ranges
+          .filter(range => range.start >= start && range.end <= end)
+          .map(range => ({ start: range.start - start, end: range.end - start }))
+      };
+    }
+    return undefined;
+  }
+
+  private toPublic(entry: IndexedEntry): SearchIndexEntry {
+    const { nameTokens: _names, contentTokens: _contents, isContentIndexed: _indexed, ...rest } = entry;
+    return rest;
+  }
+}
+
+// Singleton instance
+export const searchIndex = new SearchIndex();
+
+export type { SearchIndex };
@@ -0,0 +1,267 @@
+import { storageEngine } from '@core/storage-abstraction';
+import { eventBus } from '@core/event-bus';
+import { authEngine } from '@core/auth-permissions';
+import { fileSystem } from './vfs';
+import { FileSystemError } from './errors';
+import { currentIdentity } from './permissions';
+import { ROOT_PATH, TRASH_PATH, joinPath, dirname, basename, normalizePath, isSubPath } from './path';
+import type { TrashEntry, TrashSettings } from './types';
+
+/**
+ * Trash - deleted items are moved under TRASH_PATH instead of being destroyed
+ *
+ * The items themselves stay in the VFS; a separate record keeps where each
+ * one came from so it can be put back. Records whose item has disappeared
+ * from the trash directory are dropped on load. Everyone shares the trash
+ * directory, but sees and empties only the items they own; root sees all.
+ */
+
+const STORAGE_KEYS = {
+  ENTRIES: 'vfs_trash',
+  SETTINGS: 'vfs_trash_settings'
+} as const;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const DEFAULT_SETTINGS: TrashSettings = {
+  retentionDays: null
+};
+
+class TrashManager {
+  private entries: TrashEntry[] = [];
+  private settings: TrashSettings = { ...DEFAULT_SETTINGS };
+  private initPromise: Promise<void> | null = null;
+  private purgeTimer: ReturnType<typeof setInterval> | null = null;
+
+  ready(): Promise<void> {
+    if (!this.initPromise) {
+      this.initPromise = this.initialize().catch(error => {
+        this.initPromise = null;
+        throw error;
+      });
+    }
+    return this.initPromise;
+  }
+
+  async list(): Promise<TrashEntry[]> {
+    await this.ready();
+    const own = await this.ownPaths();
+    return this.entries.filter(entry => own.has(entry.trashPath)).map(entry => ({ ...entry }));
+  }
+
+  /**
+   * Record for an item inside the trash directory, if it was trashed through here
+   */
+  async getEntry(trashPath: string): Promise<TrashEntry | undefined> {
+    await this.ready();
+    const path = normalizePath(trashPath);
+    const entry = this.entries.find(e => e.trashPath === path);
+    return entry ? { ...entry } : undefined;
+  }
+
+  /**
+   * Number of top-level items in the trash, including ones dropped in by hand
+   */
+  async count(): Promise<number> {
+    await this.ready();
+    return (await this.ownPaths()).size;
+  }
+
+  async moveToTrash(path: string): Promise<TrashEntry> {
+    await this.ready();
+    const originalPath = normalizePath(path);
+
+    if (originalPath === ROOT_PATH || isSubPath(originalPath, TRASH_PATH)) {
+      throw new FileSystemError('EINVAL', originalPath, `Cannot move '${originalPath}' to the Trash`);
+    }
+    if (isSubPath(TRASH_PATH, originalPath)) {
+      throw new FileSystemError('EINVAL', originalPath, 'Item is already in the Trash');
+    }
+
+    const inode = await fileSystem.stat(originalPath);
+    await fileSystem.mkdir(TRASH_PATH, { recursive: true });
+
+    const trashPath = await fileSystem.getAvailablePath(joinPath(TRASH_PATH, inode.name));
+    await fileSystem.rename(originalPath, trashPath);
+
+    const entry: TrashEntry = {
+      id: inode.id,
+      name: inode.name,
+      type: inode.type,
+      trashPath,
+      originalPath,
+      deletedAt: Date.now(),
+      deletedBy: authEngine.currentUser?.username ?? 'guest'
+    };
+
+    this.entries.push(entry);
+    await this.save();
+    await this.notifyChanged();
+    return { ...entry };
+  }
+
+  /**
+   * Put an item back where it was deleted from, recreating missing parent
+   * folders. If the original name is taken again the restored copy gets a
+   * numbered name. Returns the path the item was restored to.
+   */
+  async restore(trashPath: string): Promise<string> {
+    await this.ready();
+    const entry = this.findEntry(trashPath);
+
+    await fileSystem.mkdir(dirname(entry.originalPath), { recursive: true });
+    const targetPath = await fileSystem.getAvailablePath(entry.originalPath);
+    await fileSystem.rename(entry.trashPath, targetPath);
+
+    this.entries = this.entries.filter(e => e.id !== entry.id);
+    await this.save();
+    await this.notifyChanged();
+    return targetPath;
+  }
+
+  /**
+   * Permanently delete a single item from the trash
+   */
+  async delete(trashPath: string): Promise<void> {
+    await this.ready();
+    const path = normalizePath(trashPath);
+    if (dirname(path) !== TRASH_PATH) {
+      throw new FileSystemError('EINVAL', path, 'Item is not in the Trash');
+    }
+
+    await fileSystem.remove(path, { recursive: true });
+    this.entries = this.entries.filter(e => e.trashPath !== path);
+    await this.save();
+    await this.notifyChanged();
+  }
+
+  async empty(): Promise<void> {
+    await this.ready();
+    const own = await this.ownPaths();
+    for (const path of own) {
+      await fileSystem.remove(path, { recursive: true });
+    }
+
+    this.entries = this.entries.filter(entry => !own.has(entry.trashPath));
+    await this.save();
+    await this.notifyChanged();
+    console.log('[Trash] Emptied');
+  }
+
+  getSettings(): TrashSettings {
+    return { ...this.settings };
+  }
+
+  /**
+   * Change how long items are kept. Already expired items are purged right away.
+   */
+  async setRetentionDays(days: number | null): Promise<void> {
+    await this.ready();
+    if (days !== null && (!Number.isFinite(days) || days <= 0)) {
+      throw new FileSystemError('EINVAL', TRASH_PATH, `Invalid retention period: ${days}`);
+    }
+
+    this.settings = { ...this.settings, retentionDays: days };
+    await storageEngine.set(STORAGE_KEYS.SETTINGS, this.settings);
+    await this.purgeExpired();
+  }
+
+  /**
+   * Permanently delete the current user's items that have outlived the
+   * retention period. Other users' items wait for them (or root) to purge.
+   */
+  async purgeExpired(): Promise<number> {
+    await this.ready();
+    const { retentionDays } = this.settings;
+    if (retentionDays === null) return 0;
+
+    const cutoff = Date.now() - retentionDays * DAY_MS;
+    const own = await this.ownPaths();
+    const expired: TrashEntry[] = [];
+    for (const entry of this.entries.filter(e => e.deletedAt < cutoff)) {
+      if (own.has(entry.trashPath)) {
+        await fileSystem.remove(entry.trashPath, { recursive: true });
+      } else if (await fileSystem.exists(entry.trashPath)) {
+        continue;
+      }
+      expired.push(entry);
+    }
+    if (expired.length === 0) return 0;
+
+    this.entries = this.entries.filter(e => !expired.includes(e));
+    await this.save();
+    await this.notifyChanged();
+    console.log('[Trash] Purged', expired.length, 'expired item(s)');
+    return expired.length;
+  }
+
+  // ==== Internals ====
+
+  private async initialize(): Promise<void> {
+    const [entries, settings] = await Promise.all([
+      storageEngine.get(STORAGE_KEYS.ENTRIES) as Promise<TrashEntry[] | null>,
+      storageEngine.get(STORAGE_KEYS.SETTINGS) as Promise<TrashSettings | null>
+    ]);
+
+    this.settings = { ...DEFAULT_SETTINGS, ...settings };
+
+    // Forget records whose item was removed behind our back
+    const known: TrashEntry[] = [];
+    for (const entry of entries ?? []) {
+      if (await fileSystem.exists(entry.trashPath)) known.push(entry);
+    }
+    this.entries = known;
+
+    this.startPurgeTimer();
+    // Not awaited: purgeExpired() awaits ready(), which is still pending here
+    setTimeout(() => this.purgeExpired().catch(error => {
+      console.error('[Trash] Failed to purge expired items:', error);
+    }), 0);
+  }
+
+  /**
+   * Top-level trash items the current user owns, or all of them for root
+   */
+  private async ownPaths(): Promise<Set<string>> {
+    if (!(await fileSystem.exists(TRASH_PATH))) return new Set();
+    const identity = currentIdentity();
+    const items = await fileSystem.readdir(TRASH_PATH);
+    return new Set(items
+      .filter(({ inode }) => identity.isRoot || inode.owner === identity.user)
+      .map(({ path }) => path));
+  }
+
+  private findEntry(trashPath: string): TrashEntry {
+    const path = normalizePath(trashPath);
+    const entry = this.entries.find(e => e.trashPath === path);
+    if (!entry) {
+      throw new FileSystemError('ENOENT', path, `No original location recorded for '${basename(path)}'`);
+    }
+    return entry;
+  }
+
+  private async save(): Promise<void> {
+    await storageEngine.set(STORAGE_KEYS.ENTRIES, this.entries);
+  }
+
+  private async notifyChanged(): Promise<void> {
+    eventBus.emitSync('trash:changed', {
+      count: await this.count(),
+      timestamp: Date.now()
+    });
+  }
+
+  private startPurgeTimer(): void {
+    if (this.purgeTimer) return;
+    this.purgeTimer = setInterval(() => {
+      this.purgeExpired().catch(error => {
+        console.error('[Trash] Failed to purge expired items:', error);
+      });
+    }, 60 * 60 * 1000); // Run every hour
+  }
+}
+
+// Singleton instance
+export const trashManager = new TrashManager();
+
+export type { TrashManager };
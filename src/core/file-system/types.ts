@@ -0,0 +1,330 @@
+/**
+ * Virtual File System Types
+ */
+
+import type { FileKind } from './mime';
+
+export type InodeType = 'file' | 'directory';
+
+/**
+ * A single node in the virtual file system tree.
+ * Directories keep a name -> inode id map of their children,
+ * file contents are stored separately under their own storage key.
+ */
+export interface Inode {
+  id: string;
+  type: InodeType;
+  name: string;
+  parentId: string | null;
+  size: number;
+  mimeType?: string;
+  createdAt: number;
+  modifiedAt: number;
+  children?: Record<string, string>;
+  /**
+   * Owning user, group and Unix permission bits (e.g. 0o644)
+   */
+  owner: string;
+  group: string;
+  mode: number;
+}
+
+export type InodeOwnership = Pick<Inode, 'owner' | 'group' | 'mode'>;
+
+/**
+ * Who newly created inodes belong to; their mode is the default for the
+ * type (0o666 files, 0o777 directories) minus `umask`
+ */
+export interface InodeCreator {
+  owner: string;
+  group: string;
+  umask: number;
+}
+
+/**
+ * Directory listing entry - an inode together with its absolute path
+ */
+export interface DirectoryEntry {
+  path: string;
+  inode: Inode;
+}
+
+/**
+ * Persisted shape of the inode table
+ */
+export interface FileSystemSnapshot {
+  version: number;
+  rootId: string;
+  inodes: Record<string, Inode>;
+}
+
+export interface MkdirOptions {
+  recursive?: boolean;
+  /**
+   * Permission bits for the new directory instead of the creator's default
+   */
+  mode?: number;
+  /**
+   * Owner of created directories; filled in by the VFS for the caller
+   */
+  creator?: InodeCreator;
+}
+
+export interface RemoveOptions {
+  recursive?: boolean;
+}
+
+export interface WriteFileOptions {
+  /**
+   * Create missing parent directories
+   */
+  createParents?: boolean;
+  /**
+   * Permission bits for a new file instead of the creator's default
+   */
+  mode?: number;
+  /**
+   * Owner of created entries; filled in by the VFS for the caller
+   */
+  creator?: InodeCreator;
+}
+
+/**
+ * Bookkeeping for an item sitting in the Trash
+ */
+export interface TrashEntry {
+  id: string;
+  name: string;
+  type: InodeType;
+  /**
+   * Where the item lives inside the trash directory
+   */
+  trashPath: string;
+  /**
+   * Where "Put Back" restores it to
+   */
+  originalPath: string;
+  deletedAt: number;
+  deletedBy: string;
+}
+
+export interface TrashSettings {
+  /**
+   * Purge items older than this many days; null keeps them until emptied
+   */
+  retentionDays: number | null;
+}
+
+/**
+ * A previous state of a file's contents, kept by the version history
+ */
+export interface FileVersion {
+  id: string;
+  path: string;
+  /**
+   * When these contents were saved
+   */
+  savedAt: number;
+  /**
+   * Who saved them
+   */
+  author: string;
+  size: number;
+  /**
+   * The file as it is now rather than a stored copy
+   */
+  current?: boolean;
+}
+
+/**
+ * Totals for everything below a path (inclusive)
+ */
+export interface DiskUsage {
+  files: number;
+  folders: number;
+  /**
+   * Bytes of file contents
+   */
+  size: number;
+  /**
+   * Bytes per kind of file
+   */
+  byKind: Record<FileKind, number>;
+}
+
+export interface DiskUsageOptions {
+  /**
+   * Stay on the mount `path` is on, like `du -x`
+   */
+  sameMount?: boolean;
+}
+
+/**
+ * Storage a user's files take up against their quota
+ */
+export interface UserDiskUsage extends DiskUsage {
+  user: string;
+  /**
+   * Bytes allowed; null when unlimited
+   */
+  limit: number | null;
+}
+
+export interface QuotaSettings {
+  /**
+   * Applies to users without a limit of their own; null is unlimited
+   */
+  defaultLimit: number | null;
+  limits: Record<string, number | null>;
+}
+
+export interface VersionSettings {
+  /**
+   * Old versions kept per file
+   */
+  maxVersionsPerFile: number;
+  /**
+   * Bytes all old versions together may take up; the oldest go first
+   */
+  budgetBytes: number;
+}
+
+/**
+ * What a file looks like at a glance: a scaled-down image, or the first
+ * lines of text (JSON pretty-printed)
+ */
+export type FilePreview =
+  | { type: 'image'; thumbnail: string }
+  | { type: 'text' | 'json'; text: string; truncated: boolean };
+
+/**
+ * Anything writeFile accepts as file contents
+ */
+export type FileContent = string | Uint8Array | ArrayBuffer | Blob;
+
+/**
+ * File contents as persisted in storage. Text is kept as-is, binary data is
+ * base64-encoded so it survives adapters that serialize through JSON.
+ */
+export type StoredFileContent = string | { encoding: 'base64'; data: string };
+
+export type FileSystemChangeType = 'created' | 'deleted' | 'moved' | 'modified';
+
+/**
+ * A single mutation, reported after it has been persisted.
+ * A created or moved directory may already contain children.
+ */
+export interface FileSystemChange {
+  type: FileSystemChangeType;
+  path: string;
+  /**
+   * Previous location, for moves
+   */
+  oldPath?: string;
+  inode: Inode;
+}
+
+export type FileSystemChangeListener = (change: FileSystemChange) => void;
+
+/**
+ * What a file held right before writeFile replaced it
+ */
+export interface FileOverwrite {
+  path: string;
+  inode: Inode;
+  content: StoredFileContent | null;
+  /**
+   * User doing the write
+   */
+  writer: string;
+}
+
+/**
+ * Runs before an existing file is overwritten; the write waits for it
+ */
+export type FileOverwriteHook = (overwrite: FileOverwrite) => Promise<void>;
+
+/**
+ * Payload of the `fs:created`, `fs:deleted`, `fs:moved` and `fs:modified`
+ * event bus events
+ */
+export interface FileSystemEvent extends FileSystemChange {
+  timestamp: number;
+}
+
+export type FileSystemEventName = `fs:${FileSystemChangeType}`;
+
+export interface WatchOptions {
+  /**
+   * Report changes anywhere below the path, not just its direct children
+   */
+  recursive?: boolean;
+}
+
+/**
+ * Key-value backend a provider keeps its inode table and file data in.
+ * Any StorageAdapter (or the storageEngine itself) fits.
+ */
+export interface ProviderStorage {
+  get: (key: string) => Promise<any>;
+  set: (key: string, value: any) => Promise<void>;
+  delete: (key: string) => Promise<void>;
+}
+
+/**
+ * A file system that can be mounted into the tree. Paths are relative to the
+ * provider's own root ("/" is the mount point), and so are the paths it
+ * reports to change listeners.
+ */
+export interface FileSystemProvider {
+  ready(): Promise<void>;
+  stat(path: string): Promise<Inode>;
+  exists(path: string): Promise<boolean>;
+  readdir(path: string): Promise<DirectoryEntry[]>;
+  mkdir(path: string, options?: MkdirOptions): Promise<Inode>;
+  readContent(path: string): Promise<StoredFileContent | null>;
+  writeFile(path: string, content: FileContent, options?: WriteFileOptions): Promise<Inode>;
+  remove(path: string, options?: RemoveOptions): Promise<void>;
+  rename(oldPath: string, newPath: string): Promise<Inode>;
+  /**
+   * Copies belong to `creator` rather than keeping the source's owner
+   */
+  copy(sourcePath: string, targetPath: string, creator?: InodeCreator): Promise<Inode>;
+  /**
+   * Change ownership or permission bits; reported as a modification
+   */
+  setAttributes(path: string, attributes: Partial<InodeOwnership>): Promise<Inode>;
+  onChange(listener: FileSystemChangeListener): () => void;
+  getPath(inodeId: string): string | undefined;
+  inspect(): { inodeCount: number; rootId: string };
+}
+
+/**
+ * Backend behind a mount point
+ *  - storage: the storage engine (the root file system)
+ *  - indexeddb: a dedicated IndexedDB database
+ *  - memory: cleared on reload
+ *  - archive: read-only contents of an archive file
+ */
+export type MountType = 'storage' | 'indexeddb' | 'memory' | 'archive';
+
+export interface MountOptions {
+  type: MountType;
+  /**
+   * What is mounted, e.g. the archive file path
+   */
+  source?: string;
+  readOnly?: boolean;
+  /**
+   * Shown as an ejectable device; built-in mounts are not
+   */
+  removable?: boolean;
+}
+
+export interface MountInfo {
+  mountPoint: string;
+  type: MountType;
+  source: string;
+  readOnly: boolean;
+  removable: boolean;
+}
@@ -0,0 +1,314 @@
+import { storageEngine } from '@core/storage-abstraction';
+import { eventBus } from '@core/event-bus';
+import { fileSystem } from './vfs';
+import { FileSystemError } from './errors';
+import { bytesToBase64, decodeBytes, decodeText } from './content';
+import { diffLines } from './diff';
+import type { DiffLine } from './diff';
+import { ACCESS, canAccess, currentIdentity } from './permissions';
+import { isSubPath, joinPath, normalizePath } from './path';
+import type {
+  FileOverwrite,
+  FileSystemChange,
+  FileVersion,
+  Inode,
+  StoredFileContent,
+  VersionSettings
+} from './types';
+
+/**
+ * Version History - earlier contents of files that were overwritten
+ *
+ * Right before writeFile replaces a file, its old contents are stored as a
+ * version together with when and by whom they were saved. Each file keeps
+ * a bounded number of versions, and all versions together stay within a
+ * byte budget by dropping the oldest ones. Versions follow their file when
+ * it is moved and go away when it is deleted.
+ */
+
+const STORAGE_KEYS = {
+  INDEX: 'vfs_versions',
+  SETTINGS: 'vfs_versions_settings',
+  CONTENT_PREFIX: 'vfs_version_'
+} as const;
+
+// Version id standing for the file's contents right now
+export const CURRENT_VERSION = 'current';
+
+const DEFAULT_SETTINGS: VersionSettings = {
+  maxVersionsPerFile: 20,
+  budgetBytes: 5 * 1024 * 1024
+};
+
+interface VersionIndex {
+  /**
+   * Oldest first
+   */
+  versions: FileVersion[];
+  /**
+   * Who saved the current contents of each file, when it wasn't its owner
+   */
+  authors: Record<string, string>;
+}
+
+class VersionHistory {
+  private versions: FileVersion[] = [];
+  private authors: Record<string, string> = {};
+  private settings: VersionSettings = { ...DEFAULT_SETTINGS };
+  private initPromise: Promise<void> | null = null;
+
+  constructor() {
+    fileSystem.onBeforeOverwrite(overwrite => this.record(overwrite));
+    fileSystem.onChange(change => {
+      if (change.type !== 'moved' && change.type !== 'deleted') return;
+      this.followChange(change).catch(error => {
+        console.error('[Versions] Failed to update history:', error);
+      });
+    });
+  }
+
+  ready(): Promise<void> {
+    if (!this.initPromise) {
+      this.initPromise = this.initialize().catch(error => {
+        this.initPromise = null;
+        throw error;
+      });
+    }
+    return this.initPromise;
+  }
+
+  /**
+   * Versions of a file, newest first, starting with its current contents
+   */
+  async list(path: string): Promise<FileVersion[]> {
+    await this.ready();
+    const filePath = normalizePath(path);
+    const inode = await this.assertReadable(filePath);
+
+    const current: FileVersion = {
+      id: CURRENT_VERSION,
+      path: filePath,
+      savedAt: inode.modifiedAt,
+      author: this.authors[filePath] ?? inode.owner,
+      size: inode.size,
+      current: true
+    };
+    const stored = this.versions.filter(v => v.path === filePath).reverse();
+    return [current, ...stored.map(v => ({ ...v }))];
+  }
+
+  async readText(path: string, versionId: string): Promise<string> {
+    return decodeText(await this.readContent(path, versionId));
+  }
+
+  async readBytes(path: string, versionId: string): Promise<Uint8Array<ArrayBuffer>> {
+    return decodeBytes(await this.readContent(path, versionId));
+  }
+
+  /**
+   * Line diff from one version of a file to another
+   */
+  async diff(path: string, fromId: string, toId: string): Promise<DiffLine[]> {
+    const [from, to] = await Promise.all([this.readText(path, fromId), this.readText(path, toId)]);
+    return diffLines(from, to);
+  }
+
+  /**
+   * Make a version the file's current contents. What it replaces becomes a
+   * version itself, so a restore can be undone the same way.
+   */
+  async restore(path: string, versionId: string): Promise<Inode> {
+    const content = await this.readContent(path, versionId);
+    const restored = typeof content === 'string' ? content : decodeBytes(content);
+    const inode = await fileSystem.writeFile(normalizePath(path), restored);
+    console.log(`[Versions] Restored ${path} to version ${versionId}`);
+    return inode;
+  }
+
+  getSettings(): VersionSettings {
+    return { ...this.settings };
+  }
+
+  /**
+   * Change the limits. Versions over the new limits are dropped right away.
+   */
+  async setSettings(settings: Partial<VersionSettings>): Promise<void> {
+    await this.ready();
+    const next = { ...this.settings, ...settings };
+    if (!Number.isInteger(next.maxVersionsPerFile) || next.maxVersionsPerFile < 0) {
+      throw new FileSystemError('EINVAL', '/', `Invalid number of versions: ${next.maxVersionsPerFile}`);
+    }
+    if (!Number.isFinite(next.budgetBytes) || next.budgetBytes < 0) {
+      throw new FileSystemError('EINVAL', '/', `Invalid version budget: ${next.budgetBytes}`);
+    }
+
+    this.settings = next;
+    await storageEngine.set(STORAGE_KEYS.SETTINGS, this.settings);
+    await this.prune();
+    await this.save();
+    this.notifyChanged();
+  }
+
+  /**
+   * Bytes taken up by stored versions
+   */
+  async getUsage(): Promise<number> {
+    await this.ready();
+    return this.versions.reduce((total, version) => total + version.size, 0);
+  }
+
+  // ==== Internals ====
+
+  private async initialize(): Promise<void> {
+    const [index, settings] = await Promise.all([
+      storageEngine.get(STORAGE_KEYS.INDEX) as Promise<VersionIndex | null>,
+      storageEngine.get(STORAGE_KEYS.SETTINGS) as Promise<VersionSettings | null>
+    ]);
+
+    this.versions = index?.versions ?? [];
+    this.authors = index?.authors ?? {};
+    this.settings = { ...DEFAULT_SETTINGS, ...settings };
+  }
+
+  private async record({ path, inode, content, writer }: FileOverwrite): Promise<void> {
+    await this.ready();
+    const author = this.authors[path] ?? inode.owner;
+    if (writer === inode.owner) {
+      delete this.authors[path];
+    } else {
+      this.authors[path] = writer;
+    }
+
+    if (inode.size <= this.settings.budgetBytes && this.settings.maxVersionsPerFile > 0) {
+      const version: FileVersion = {
+        id: `${inode.id}-${Date.now().toString(36)}-${Math.random().toString(36).substr(2, 5)}`,
+        path,
+        savedAt: inode.modifiedAt,
+        author,
+        size: inode.size
+      };
+      await storageEngine.set(STORAGE_KEYS.CONTENT_PREFIX + version.id, content ?? '');
+      this.versions.push(version);
+      await this.prune();
+    }
+
+    await this.save();
+    this.notifyChanged(path);
+  }
+
+  private async readContent(path: string, versionId: string): Promise<StoredFileContent> {
+    await this.ready();
+    const filePath = normalizePath(path);
+    if (versionId === CURRENT_VERSION) {
+      return { encoding: 'base64', data: bytesToBase64(await fileSystem.readFileBytes(filePath)) };
+    }
+
+    await this.assertReadable(filePath);
+    const version = this.versions.find(v => v.id === versionId && v.path === filePath);
+    if (!version) {
+      throw new FileSystemError('ENOENT', filePath, `No version '${versionId}' of ${filePath}`);
+    }
+    return (await storageEngine.get(STORAGE_KEYS.CONTENT_PREFIX + version.id) as StoredFileContent | null) ?? '';
+  }
+
+  private async assertReadable(path: string): Promise<Inode> {
+    const inode = await fileSystem.stat(path);
+    if (inode.type !== 'file') {
+      throw new FileSystemError('EISDIR', path);
+    }
+    if (!canAccess(inode, currentIdentity(), ACCESS.READ)) {
+      throw new FileSystemError('EACCES', path);
+    }
+    return inode;
+  }
+
+  /**
+   * Drop the oldest versions of files over the per-file limit, then the
+   * oldest overall until everything fits the budget
+   */
+  private async prune(): Promise<void> {
+    const counts = new Map<string, number>();
+    for (const version of this.versions) {
+      counts.set(version.path, (counts.get(version.path) ?? 0) + 1);
+    }
+
+    const dropped: FileVersion[] = [];
+    const kept: FileVersion[] = [];
+    for (const version of this.versions) {
+      const count = counts.get(version.path)!;
+      if (count > this.settings.maxVersionsPerFile) {
+        counts.set(version.path, count - 1);
+        dropped.push(version);
+      } else {
+        kept.push(version);
+      }
+    }
+
+    let total = kept.reduce((sum, version) => sum + version.size, 0);
+    kept.sort((a, b) => a.savedAt - b.savedAt);
+    while (total > this.settings.budgetBytes && kept.length > 0) {
+      const oldest = kept.shift()!;
+      total -= oldest.size;
+      dropped.push(oldest);
+    }
+
+    this.versions = this.versions.filter(version => kept.includes(version));
+    await this.deleteContents(dropped);
+  }
+
+  private async followChange(change: FileSystemChange): Promise<void> {
+    await this.ready();
+
+    if (change.type === 'moved' && change.oldPath) {
+      const from = change.oldPath;
+      const rebase = (path: string) => joinPath(change.path, path.substring(from.length));
+      let changed = false;
+
+      for (const version of this.versions) {
+        if (isSubPath(from, version.path)) {
+          version.path = rebase(version.path);
+          changed = true;
+        }
+      }
+      for (const [path, author] of Object.entries(this.authors)) {
+        if (isSubPath(from, path)) {
+          delete this.authors[path];
+          this.authors[rebase(path)] = author;
+          changed = true;
+        }
+      }
+      if (!changed) return;
+    } else {
+      const removed = this.versions.filter(version => isSubPath(change.path, version.path));
+      const authors = Object.keys(this.authors).filter(path => isSubPath(change.path, path));
+      if (removed.length === 0 && authors.length === 0) return;
+
+      this.versions = this.versions.filter(version => !removed.includes(version));
+      for (const path of authors) delete this.authors[path];
+      await this.deleteContents(removed);
+    }
+
+    await this.save();
+    this.notifyChanged(change.path);
+  }
+
+  private async deleteContents(versions: FileVersion[]): Promise<void> {
+    for (const version of versions) {
+      await storageEngine.delete(STORAGE_KEYS.CONTENT_PREFIX + version.id);
+    }
+  }
+
+  private async save(): Promise<void> {
+    const index: VersionIndex = { versions: this.versions, authors: this.authors };
+    await storageEngine.set(STORAGE_KEYS.INDEX, index);
+  }
+
+  private notifyChanged(path?: string): void {
+    eventBus.emitSync('versions:changed', { path, timestamp: Date.now() });
+  }
+}
+
+// Singleton instance
+export const versionHistory = new VersionHistory();
+
+export type { VersionHistory };
@@ -0,0 +1,1068 @@
+import { storageEngine, IndexedDBAdapter, MemoryAdapter } from '@core/storage-abstraction';
+import { eventBus } from '@core/event-bus';
+import { FileSystemError, isFileSystemError } from './errors';
+import { DEFAULT_MIME_TYPE, getFileKind } from './mime';
+import { contentSize, decodeBytes, decodeText } from './content';
+import { quotaManager } from './quotas';
+import { readArchive } from './archive';
+import { InodeTreeProvider } from './providers';
+import {
+  ACCESS,
+  GUEST_USER,
+  STICKY_BIT,
+  SYSTEM_CREATOR,
+  USERS_GROUP,
+  canAccess,
+  creatorFor,
+  currentIdentity,
+  defaultMode
+} from './permissions';
+import type { FileSystemIdentity } from './permissions';
+import {
+  ROOT_PATH,
+  HOME_PATH,
+  TRASH_PATH,
+  MOUNT_PATH,
+  normalizePath,
+  joinPath,
+  dirname,
+  basename,
+  splitPath,
+  isSubPath
+} from './path';
+import type {
+  Inode,
+  DirectoryEntry,
+  DiskUsage,
+  DiskUsageOptions,
+  FileContent,
+  FileSystemProvider,
+  FileSystemChange,
+  FileSystemChangeListener,
+  FileSystemEvent,
+  FileSystemEventName,
+  FileOverwriteHook,
+  InodeCreator,
+  InodeOwnership,
+  MkdirOptions,
+  MountInfo,
+  MountOptions,
+  RemoveOptions,
+  StoredFileContent,
+  UserDiskUsage,
+  WatchOptions,
+  WriteFileOptions
+} from './types';
+
+/**
+ * Virtual File System - a tree of mounted file system providers
+ *
+ * Every path resolves to the mount with the longest matching mount point;
+ * the provider behind it does the actual work on the remaining path. Out of
+ * the box the root lives in the storage engine, `/home` in its own IndexedDB
+ * database and `/tmp` in memory. Archives can be mounted read-only below
+ * `/mnt`. Moving or copying between mounts copies the data across.
+ *
+ * Every call is checked against the owner, group and mode of the inodes it
+ * touches, as the current user (see permissions.ts), and fails with EACCES
+ * or EPERM when not allowed.
+ */
+
+const STORAGE_KEYS = {
+  MOUNTS: 'vfs_mounts'
+} as const;
+
+const HOME_MOUNT = '/home';
+const TMP_MOUNT = '/tmp';
+
+// Always ensured, since the built-in mount points live here
+const ROOT_DIRECTORIES = ['/etc', '/usr', TMP_MOUNT, HOME_MOUNT, MOUNT_PATH, TRASH_PATH];
+
+// Everyone moves their deleted items into the one Trash; like /tmp, only
+// an item's owner may take it out again
+const ROOT_MODES: Record<string, number> = {
+  [TRASH_PATH]: 0o1777
+};
+
+const ROOT_FILES: Record<string, string> = {
+  '/etc/hostname': 'webos\n'
+};
+
+const HOME_DIRECTORIES = [
+  HOME_PATH,
+  `${HOME_PATH}/Desktop`,
+  `${HOME_PATH}/Documents`,
+  `${HOME_PATH}/Downloads`,
+  `${HOME_PATH}/Pictures`,
+  `${HOME_PATH}/Music`,
+  `${HOME_PATH}/Videos`
+];
+
+const HOME_FILES: Record<string, string> = {
+  [`${HOME_PATH}/readme.txt`]: 'Welcome to WebOS!\n\nFiles you create here are stored in your browser and survive reloads.\n',
+  [`${HOME_PATH}/Documents/config.json`]: JSON.stringify({ theme: 'system', language: 'en' }, null, 2) + '\n'
+};
+
+// The home folder is shared by everyone through the users group
+const HOME_CREATOR: InodeCreator = { owner: GUEST_USER, group: USERS_GROUP, umask: 0o002 };
+
+// World-writable, but only owners may delete their own entries
+const TMP_ROOT: InodeOwnership = { owner: SYSTEM_CREATOR.owner, group: SYSTEM_CREATOR.group, mode: 0o1777 };
+const SYSTEM_ROOT: InodeOwnership = { owner: SYSTEM_CREATOR.owner, group: SYSTEM_CREATOR.group, mode: 0o755 };
+
+const emptyUsage = (): DiskUsage => ({
+  files: 0,
+  folders: 0,
+  size: 0,
+  byKind: { folder: 0, document: 0, image: 0, audio: 0, video: 0, archive: 0, other: 0 }
+});
+
+const addToUsage = (usage: DiskUsage, inode: Inode): void => {
+  if (inode.type === 'directory') {
+    usage.folders++;
+    return;
+  }
+  usage.files++;
+  usage.size += inode.size;
+  usage.byKind[getFileKind('file', inode.mimeType)] += inode.size;
+};
+
+interface Mount extends MountInfo {
+  provider: FileSystemProvider;
+  unsubscribe: () => void;
+}
+
+interface Location {
+  mount: Mount;
+  /**
+   * Path inside the mounted provider
+   */
+  path: string;
+}
+
+/**
+ * Archive mounts survive reloads; the rest are either built in or in memory
+ */
+interface StoredMount {
+  mountPoint: string;
+  source: string;
+}
+
+class VirtualFileSystem {
+  private mounts = new Map<string, Mount>();
+  private initPromise: Promise<void> | null = null;
+  private changeListeners = new Set<FileSystemChangeListener>();
+  private overwriteHooks = new Set<FileOverwriteHook>();
+  // Usage per owner across writable mounts, dropped on every change
+  private ownerUsage: Promise<Map<string, DiskUsage>> | null = null;
+
+  /**
+   * Mount the built-in file systems, seeding a default tree on first run.
+   * Every public method awaits this, so callers never need to.
+   */
+  ready(): Promise<void> {
+    if (!this.initPromise) {
+      this.initPromise = this.initialize().catch(error => {
+        this.initPromise = null;
+        throw error;
+      });
+    }
+    return this.initPromise;
+  }
+
+  async stat(path: string): Promise<Inode> {
+    await this.ready();
+    return this.lookUp(currentIdentity(), normalizePath(path));
+  }
+
+  /**
+   * False as well when the caller may not look the path up
+   */
+  async exists(path: string): Promise<boolean> {
+    await this.ready();
+    try {
+      await this.lookUp(currentIdentity(), normalizePath(path));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async readdir(path: string): Promise<DirectoryEntry[]> {
+    await this.ready();
+    await this.assertAccess(currentIdentity(), normalizePath(path), ACCESS.READ | ACCESS.EXECUTE);
+    const location = this.locate(path);
+    const entries = await this.call(location, (provider, path) => provider.readdir(path));
+    return entries.map(entry => ({ ...entry, path: this.toAbsolute(location.mount, entry.path) }));
+  }
+
+  async mkdir(path: string, options: MkdirOptions = {}): Promise<Inode> {
+    await this.ready();
+    const identity = currentIdentity();
+    const dirPath = normalizePath(path);
+    const location = this.locateWritable(dirPath);
+
+    if (await this.pathExists(dirPath)) {
+      await this.lookUp(identity, dirPath);
+    } else {
+      await this.assertCanCreate(identity, dirPath);
+    }
+    return this.call(location, (provider, path) => provider.mkdir(path, { ...options, creator: creatorFor(identity) }));
+  }
+
+  /**
+   * Read file contents as text (UTF-8)
+   */
+  async readFile(path: string): Promise<string> {
+    return decodeText(await this.readContent(path));
+  }
+
+  async readFileBytes(path: string): Promise<Uint8Array<ArrayBuffer>> {
+    return decodeBytes(await this.readContent(path));
+  }
+
+  /**
+   * Read file contents as a Blob typed with the file's MIME type
+   */
+  async readFileBlob(path: string): Promise<Blob> {
+    const bytes = await this.readFileBytes(path);
+    const inode = await this.stat(path);
+    return new Blob([bytes], { type: inode.mimeType ?? DEFAULT_MIME_TYPE });
+  }
+
+  /**
+   * Write file contents, creating the file when it does not exist.
+   * Strings are stored as text, binary content as-is.
+   */
+  async writeFile(path: string, content: FileContent, options: WriteFileOptions = {}): Promise<Inode> {
+    await this.ready();
+    const identity = currentIdentity();
+    const filePath = normalizePath(path);
+    const location = this.locateWritable(filePath);
+
+    const existing = await this.pathExists(filePath) ? await this.statRaw(filePath) : null;
+    if (existing) {
+      await this.assertAccess(identity, filePath, ACCESS.WRITE);
+    } else {
+      await this.assertCanCreate(identity, filePath);
+    }
+
+    // An existing file stays its owner's, so it counts against their quota
+    const growth = contentSize(content) - (existing?.size ?? 0);
+    await this.assertQuota(identity, existing?.owner ?? identity.user, growth, filePath);
+    if (existing) {
+      await this.runOverwriteHooks(location, filePath, identity);
+    }
+    return this.call(location, (provider, path) =>
+      provider.writeFile(path, content, { ...options, creator: creatorFor(identity) })
+    );
+  }
+
+  /**
+   * Remove a file or directory. Non-empty directories need `recursive`.
+   */
+  async remove(path: string, options: RemoveOptions = {}): Promise<void> {
+    await this.ready();
+    const identity = currentIdentity();
+    const targetPath = normalizePath(path);
+    this.assertNoMountsBelow(targetPath);
+
+    const location = this.locateWritable(targetPath);
+    await this.assertCanRemove(identity, targetPath);
+    if (options.recursive) {
+      // Emptying a directory means removing entries from it
+      await this.assertTreeAccess(identity, targetPath, ACCESS.READ | ACCESS.WRITE | ACCESS.EXECUTE, 0);
+    }
+    await this.call(location, (provider, path) => provider.remove(path, options));
+  }
+
+  /**
+   * Move or rename an entry. Fails when the target already exists.
+   */
+  async rename(oldPath: string, newPath: string): Promise<Inode> {
+    await this.ready();
+    const from = normalizePath(oldPath);
+    const to = normalizePath(newPath);
+    if (from === to) return this.stat(from);
+
+    const identity = currentIdentity();
+    this.assertNoMountsBelow(from);
+    const source = this.locateWritable(from);
+    const target = this.locateWritable(to);
+    await this.assertCanRemove(identity, from);
+    await this.assertCanCreate(identity, to);
+
+    if (source.mount === target.mount) {
+      return this.call(source, (provider, path) => provider.rename(path, target.path));
+    }
+
+    // Across mounts: copy, then remove the original
+    if (await target.mount.provider.exists(target.path)) {
+      throw new FileSystemError('EEXIST', to);
+    }
+    await this.assertTreeAccess(identity, from, ACCESS.READ | ACCESS.WRITE | ACCESS.EXECUTE, ACCESS.READ);
+    await this.copyAcross(source, target);
+    await this.call(source, (provider, path) => provider.remove(path, { recursive: true }));
+    return this.stat(to);
+  }
+
+  /**
+   * Recursively copy a file or directory. Fails when the target already exists.
+   */
+  async copy(sourcePath: string, targetPath: string): Promise<Inode> {
+    await this.ready();
+    const from = normalizePath(sourcePath);
+    const to = normalizePath(targetPath);
+    const identity = currentIdentity();
+    const source = this.locate(from);
+    const target = this.locateWritable(to);
+    await this.assertTreeAccess(identity, from, ACCESS.READ | ACCESS.EXECUTE, ACCESS.READ);
+    await this.assertCanCreate(identity, to);
+    await this.assertQuota(identity, identity.user, await this.treeSize(from), to);
+    const creator = creatorFor(identity);
+
+    if (source.mount === target.mount) {
+      return this.call(source, (provider, path) => provider.copy(path, target.path, creator));
+    }
+
+    if (await target.mount.provider.exists(target.path)) {
+      throw new FileSystemError('EEXIST', to);
+    }
+    await this.copyAcross(source, target, creator);
+    return this.stat(to);
+  }
+
+  /**
+   * Files, folders and bytes below `path`, broken down by kind of file.
+   * Folders the caller may not read are left out, like `du` does.
+   */
+  async diskUsage(path: string = ROOT_PATH, options: DiskUsageOptions = {}): Promise<DiskUsage> {
+    await this.ready();
+    const identity = currentIdentity();
+    const target = normalizePath(path);
+    const mount = this.locate(target).mount;
+    const usage = emptyUsage();
+
+    await this.walkTree(target, await this.lookUp(identity, target), (entryPath, inode) => {
+      if (entryPath !== target) addToUsage(usage, inode);
+      if (options.sameMount && this.locate(entryPath).mount !== mount) return false;
+      return canAccess(inode, identity, ACCESS.READ | ACCESS.EXECUTE);
+    });
+    return usage;
+  }
+
+  /**
+   * What a user's files add up to, and their quota (the current user by default)
+   */
+  async userUsage(user: string = currentIdentity().user): Promise<UserDiskUsage> {
+    await this.ready();
+    const usage = (await this.getOwnerUsage()).get(user) ?? emptyUsage();
+    return { ...usage, user, limit: await quotaManager.getLimit(user) };
+  }
+
+  /**
+   * Usage of everyone who owns files, largest first
+   */
+  async usageByUser(): Promise<UserDiskUsage[]> {
+    await this.ready();
+    const owners = [...(await this.getOwnerUsage()).keys()];
+    const usages = await Promise.all(owners.map(owner => this.userUsage(owner)));
+    return usages.sort((a, b) => b.size - a.size);
+  }
+
+  /**
+   * Change permission bits; only the owner (or root) may
+   */
+  async chmod(path: string, mode: number): Promise<Inode> {
+    await this.ready();
+    const identity = currentIdentity();
+    const targetPath = normalizePath(path);
+    const location = this.locateWritable(targetPath);
+    const inode = await this.lookUp(identity, targetPath);
+
+    if (!identity.isRoot && inode.owner !== identity.user) {
+      throw new FileSystemError('EPERM', targetPath);
+    }
+    return this.call(location, (provider, path) => provider.setAttributes(path, { mode }));
+  }
+
+  /**
+   * Change owner and/or group. Only root may give things away; owners may
+   * switch the group to one they are in.
+   */
+  async chown(path: string, owner?: string, group?: string): Promise<Inode> {
+    await this.ready();
+    const identity = currentIdentity();
+    const targetPath = normalizePath(path);
+    const location = this.locateWritable(targetPath);
+    const inode = await this.lookUp(identity, targetPath);
+
+    if (!identity.isRoot) {
+      const keepsOwner = inode.owner === identity.user && (owner === undefined || owner === inode.owner);
+      const groupAllowed = group === undefined || group === inode.group || identity.groups.includes(group);
+      if (!keepsOwner || !groupAllowed) {
+        throw new FileSystemError('EPERM', targetPath);
+      }
+    }
+    return this.call(location, (provider, path) => provider.setAttributes(path, { owner, group }));
+  }
+
+  /**
+   * First non-existing variant of `path`: "name.txt", "name 2.txt", "name 3.txt", ...
+   */
+  async getAvailablePath(path: string): Promise<string> {
+    await this.ready();
+    const normalized = normalizePath(path);
+    if (!(await this.exists(normalized))) return normalized;
+
+    const dir = dirname(normalized);
+    const name = basename(normalized);
+    const dot = name.lastIndexOf('.');
+    const stem = dot > 0 ? name.substring(0, dot) : name;
+    const extension = dot > 0 ? name.substring(dot) : '';
+
+    for (let counter = 2; ; counter++) {
+      const candidate = joinPath(dir, `${stem} ${counter}${extension}`);
+      if (!(await this.exists(candidate))) return candidate;
+    }
+  }
+
+  /**
+   * Subscribe to mutations; returns the unsubscribe function. Every change
+   * is also published on the event bus as `fs:<type>`.
+   */
+  onChange(listener: FileSystemChangeListener): () => void {
+    this.changeListeners.add(listener);
+    return () => {
+      this.changeListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Register a hook that sees a file's previous contents before writeFile
+   * replaces them (e.g. to keep versions); returns the unregister function.
+   * A failing hook is logged and does not stop the write.
+   */
+  onBeforeOverwrite(hook: FileOverwriteHook): () => void {
+    this.overwriteHooks.add(hook);
+    return () => {
+      this.overwriteHooks.delete(hook);
+    };
+  }
+
+  /**
+   * Subscribe to changes of `path` and its direct children (or everything
+   * below it when recursive). Moves count when either end is watched, and
+   * the path itself going away through a parent is reported as well.
+   */
+  watch(path: string, options: WatchOptions, listener: FileSystemChangeListener): () => void {
+    const target = normalizePath(path);
+    const isWatched = (changed: string) =>
+      changed === target || (options.recursive ? isSubPath(target, changed) : dirname(changed) === target);
+
+    return this.onChange(change => {
+      const affectsTarget = change.type === 'deleted' || change.type === 'moved';
+      if (
+        isWatched(change.path) ||
+        (change.oldPath !== undefined && isWatched(change.oldPath)) ||
+        (affectsTarget && isSubPath(change.oldPath ?? change.path, target))
+      ) {
+        listener(change);
+      }
+    });
+  }
+
+  /**
+   * Attach a provider at `mountPoint`, creating the directory if needed.
+   * Whatever was in that directory is hidden until it is unmounted.
+   */
+  async mount(mountPoint: string, provider: FileSystemProvider, options: MountOptions): Promise<MountInfo> {
+    await this.ready();
+    const info = await this.attach(mountPoint, provider, options);
+    await this.saveMounts();
+    return info;
+  }
+
+  /**
+   * Mount an empty in-memory file system, gone after a reload
+   */
+  async mountMemory(mountPoint: string): Promise<MountInfo> {
+    const provider = this.createMemoryProvider(mountPoint);
+    await provider.setAttributes(ROOT_PATH, TMP_ROOT);
+    return this.mount(mountPoint, provider, {
+      type: 'memory',
+      source: 'tmpfs',
+      removable: true
+    });
+  }
+
+  /**
+   * Mount the contents of an archive file read-only, by default as
+   * /mnt/<archive name>
+   */
+  async mountArchive(sourcePath: string, mountPoint?: string): Promise<MountInfo> {
+    await this.ready();
+    await this.assertAccess(currentIdentity(), normalizePath(sourcePath), ACCESS.READ);
+    const info = await this.attachArchive(normalizePath(sourcePath), mountPoint);
+    await this.saveMounts();
+    return info;
+  }
+
+  async unmount(mountPoint: string): Promise<void> {
+    await this.ready();
+    const point = normalizePath(mountPoint);
+    const mount = this.mounts.get(point);
+
+    if (!mount) {
+      throw new FileSystemError('EINVAL', point, `Not a mount point: ${point}`);
+    }
+    if (!mount.removable) {
+      throw new FileSystemError('EBUSY', point, `Cannot unmount the built-in file system at ${point}`);
+    }
+    if (this.getMounts().some(other => other.mountPoint !== point && isSubPath(point, other.mountPoint))) {
+      throw new FileSystemError('EBUSY', point, `Another file system is mounted inside ${point}`);
+    }
+
+    const root = await mount.provider.stat(ROOT_PATH);
+    mount.unsubscribe();
+    this.mounts.delete(point);
+    await this.saveMounts();
+
+    // To listeners the mounted tree disappears and the directory beneath reappears
+    const underlying = this.locate(point);
+    this.notify([
+      { type: 'deleted', path: point, inode: { ...root, name: basename(point) } },
+      { type: 'created', path: point, inode: await underlying.mount.provider.stat(underlying.path) }
+    ]);
+    this.emitMountsChanged();
+    console.log('[VFS] Unmounted', point);
+  }
+
+  getMounts(): MountInfo[] {
+    return Array.from(this.mounts.values())
+      .map(mount => this.toMountInfo(mount))
+      .sort((a, b) => a.mountPoint.localeCompare(b.mountPoint));
+  }
+
+  /**
+   * The mount that `path` resolves to
+   */
+  getMount(path: string): MountInfo | undefined {
+    const mount = this.findMount(normalizePath(path));
+    return mount ? this.toMountInfo(mount) : undefined;
+  }
+
+  /**
+   * Absolute path of an inode, walking up through its parents
+   */
+  getPath(inodeId: string): string | undefined {
+    for (const mount of this.mounts.values()) {
+      const path = mount.provider.getPath(inodeId);
+      if (path !== undefined) return this.toAbsolute(mount, path);
+    }
+    return undefined;
+  }
+
+  inspect(): { inodeCount: number; rootId: string; mounts: string[] } {
+    const mounts = Array.from(this.mounts.values());
+    return {
+      inodeCount: mounts.reduce((total, mount) => total + mount.provider.inspect().inodeCount, 0),
+      rootId: this.mounts.get(ROOT_PATH)?.provider.inspect().rootId ?? '',
+      mounts: mounts.map(mount => mount.mountPoint)
+    };
+  }
+
+  // ==== Internals ====
+
+  private async initialize(): Promise<void> {
+    const root = new InodeTreeProvider({ name: ROOT_PATH, storage: storageEngine, keyPrefix: 'vfs_' });
+    await this.attach(ROOT_PATH, root, { type: 'storage', source: 'storage' });
+    await this.ensureAttributes(root, ROOT_PATH, SYSTEM_ROOT);
+    await this.seed(ROOT_DIRECTORIES, root.isFresh() ? ROOT_FILES : {}, SYSTEM_CREATOR, ROOT_MODES);
+
+    const tmp = this.createMemoryProvider(TMP_MOUNT);
+    await tmp.setAttributes(ROOT_PATH, TMP_ROOT);
+    await this.attach(TMP_MOUNT, tmp, { type: 'memory', source: 'tmpfs' });
+
+    const hasIndexedDB = typeof indexedDB !== 'undefined';
+    const home = new InodeTreeProvider({
+      name: HOME_MOUNT,
+      storage: hasIndexedDB ? new IndexedDBAdapter('dineapp_home') : storageEngine,
+      keyPrefix: 'vfs_home_'
+    });
+    await home.ready();
+    // Before /home had its own database it lived in the root file system
+    const migrated = home.isFresh() && await this.migrateHome(root, home);
+    await this.attach(HOME_MOUNT, home, { type: hasIndexedDB ? 'indexeddb' : 'storage', source: 'home' });
+    await this.ensureAttributes(home, ROOT_PATH, SYSTEM_ROOT);
+    if (home.isFresh() && !migrated) await this.seed(HOME_DIRECTORIES, HOME_FILES, HOME_CREATOR);
+
+    await this.restoreMounts();
+    console.log('[VFS] Mounted', Array.from(this.mounts.keys()).join(', '));
+  }
+
+  /**
+   * Create default directories and files wherever they are mounted. Only
+   * directories created here get `creator` as owner and their default
+   * mode, so later chown and chmod calls stick.
+   */
+  private async seed(
+    directories: string[],
+    files: Record<string, string>,
+    creator: InodeCreator,
+    modes: Record<string, number> = {}
+  ): Promise<void> {
+    for (const path of directories) {
+      const location = this.locate(path);
+      if (await location.mount.provider.exists(location.path)) continue;
+
+      await location.mount.provider.mkdir(location.path, { recursive: true, creator });
+      await this.ensureAttributes(location.mount.provider, location.path, {
+        owner: creator.owner,
+        group: creator.group,
+        mode: modes[path] ?? defaultMode('directory', creator.umask)
+      });
+    }
+    for (const [path, content] of Object.entries(files)) {
+      const location = this.locate(path);
+      await location.mount.provider.writeFile(location.path, content, { createParents: true, creator });
+    }
+  }
+
+  private async ensureAttributes(provider: FileSystemProvider, path: string, expected: InodeOwnership): Promise<void> {
+    const inode = await provider.stat(path);
+    if (inode.owner !== expected.owner || inode.group !== expected.group || inode.mode !== expected.mode) {
+      await provider.setAttributes(path, expected);
+    }
+  }
+
+  /**
+   * Move whatever the root file system has under /home into `home`.
+   * Returns false when there was nothing to move.
+   */
+  private async migrateHome(root: FileSystemProvider, home: FileSystemProvider): Promise<boolean> {
+    if (!(await root.exists(HOME_MOUNT))) return false;
+    const entries = await root.readdir(HOME_MOUNT);
+    if (entries.length === 0) return false;
+
+    for (const entry of entries) {
+      await this.copyBetween(root, entry.path, home, joinPath(ROOT_PATH, entry.inode.name));
+    }
+    for (const entry of entries) {
+      await root.remove(entry.path, { recursive: true });
+    }
+    console.log('[VFS] Moved', entries.length, 'items from the root file system to', HOME_MOUNT);
+    return true;
+  }
+
+  private async restoreMounts(): Promise<void> {
+    const stored = await storageEngine.get(STORAGE_KEYS.MOUNTS) as StoredMount[] | null;
+
+    for (const { mountPoint, source } of stored ?? []) {
+      try {
+        await this.attachArchive(source, mountPoint);
+      } catch (error) {
+        console.warn('[VFS] Could not remount', source, 'at', mountPoint, error);
+      }
+    }
+  }
+
+  private async saveMounts(): Promise<void> {
+    const stored: StoredMount[] = this.getMounts()
+      .filter(mount => mount.type === 'archive')
+      .map(({ mountPoint, source }) => ({ mountPoint, source }));
+    await storageEngine.set(STORAGE_KEYS.MOUNTS, stored);
+  }
+
+  private async attachArchive(sourcePath: string, mountPoint?: string): Promise<MountInfo> {
+    const source = this.locate(sourcePath);
+    const bytes = decodeBytes(await this.call(source, (provider, path) => provider.readContent(path)));
+    const entries = readArchive(sourcePath, bytes);
+
+    const provider = this.createMemoryProvider(sourcePath);
+    for (const entry of entries) {
+      const path = normalizePath(entry.path);
+      if (path === ROOT_PATH) continue;
+      if (entry.type === 'directory') {
+        await provider.mkdir(path, { recursive: true });
+      } else {
+        await provider.writeFile(path, entry.read?.() ?? '', { createParents: true });
+      }
+    }
+
+    const name = basename(sourcePath).replace(/\.[^.]+$/, '') || 'archive';
+    const point = mountPoint ?? await this.getAvailableMountPoint(joinPath(MOUNT_PATH, name));
+    return this.attach(point, provider, { type: 'archive', source: sourcePath, readOnly: true, removable: true });
+  }
+
+  private async getAvailableMountPoint(path: string): Promise<string> {
+    let candidate = path;
+    for (let counter = 2; this.mounts.has(candidate) || await this.pathExists(candidate); counter++) {
+      candidate = `${path} ${counter}`;
+    }
+    return candidate;
+  }
+
+  private async pathExists(path: string): Promise<boolean> {
+    const location = this.locate(path);
+    return location.mount.provider.exists(location.path);
+  }
+
+  private async attach(mountPoint: string, provider: FileSystemProvider, options: MountOptions): Promise<MountInfo> {
+    const point = normalizePath(mountPoint);
+    if (this.mounts.has(point)) {
+      throw new FileSystemError('EBUSY', point, `Something is already mounted at ${point}`);
+    }
+
+    // Mount points are ordinary directories of the file system above
+    const parent = this.findMount(point);
+    if (parent) {
+      const location = this.locateWritable(point);
+      const existing = await location.mount.provider.exists(location.path)
+        ? await location.mount.provider.stat(location.path)
+        : await location.mount.provider.mkdir(location.path, { recursive: true });
+      if (existing.type !== 'directory') {
+        throw new FileSystemError('ENOTDIR', point);
+      }
+    }
+
+    await provider.ready();
+    const mount: Mount = {
+      mountPoint: point,
+      type: options.type,
+      source: options.source ?? options.type,
+      readOnly: options.readOnly ?? false,
+      removable: options.removable ?? false,
+      provider,
+      unsubscribe: provider.onChange(change => this.notify([{
+        ...change,
+        path: this.toAbsolute(mount, change.path),
+        oldPath: change.oldPath !== undefined ? this.toAbsolute(mount, change.oldPath) : undefined
+      }]))
+    };
+    this.mounts.set(point, mount);
+
+    if (parent) {
+      const root = await provider.stat(ROOT_PATH);
+      this.notify([{ type: 'created', path: point, inode: { ...root, name: basename(point) } }]);
+      this.emitMountsChanged();
+      console.log('[VFS] Mounted', mount.source, 'at', point);
+    }
+    return this.toMountInfo(mount);
+  }
+
+  private createMemoryProvider(name: string): InodeTreeProvider {
+    return new InodeTreeProvider({ name, storage: new MemoryAdapter(), keyPrefix: 'vfs_' });
+  }
+
+  /**
+   * Mount with the longest mount point containing `path`
+   */
+  private findMount(path: string): Mount | undefined {
+    let best: Mount | undefined;
+    for (const mount of this.mounts.values()) {
+      if (isSubPath(mount.mountPoint, path) && (!best || mount.mountPoint.length > best.mountPoint.length)) {
+        best = mount;
+      }
+    }
+    return best;
+  }
+
+  private locate(path: string): Location {
+    const normalized = normalizePath(path);
+    const mount = this.findMount(normalized);
+    if (!mount) {
+      throw new FileSystemError('ENOENT', normalized);
+    }
+
+    const relative = mount.mountPoint === ROOT_PATH ? normalized : normalized.substring(mount.mountPoint.length);
+    return { mount, path: relative || ROOT_PATH };
+  }
+
+  private locateWritable(path: string): Location {
+    const location = this.locate(path);
+    if (location.mount.readOnly) {
+      throw new FileSystemError('EROFS', normalizePath(path));
+    }
+    return location;
+  }
+
+  /**
+   * Mount points can't be removed or moved, and neither can anything containing one
+   */
+  private assertNoMountsBelow(path: string): void {
+    for (const mountPoint of this.mounts.keys()) {
+      if (isSubPath(path, mountPoint)) {
+        throw new FileSystemError('EBUSY', path, `${mountPoint} is a mount point`);
+      }
+    }
+  }
+
+  /**
+   * Inode at `path`, provided the caller may search every directory above it
+   */
+  private async lookUp(identity: FileSystemIdentity, path: string): Promise<Inode> {
+    if (!identity.isRoot) {
+      let walked = ROOT_PATH;
+      for (const segment of splitPath(path)) {
+        const dir = await this.statRaw(walked);
+        if (dir.type !== 'directory') {
+          throw new FileSystemError('ENOTDIR', walked);
+        }
+        if (!canAccess(dir, identity, ACCESS.EXECUTE)) {
+          throw new FileSystemError('EACCES', walked);
+        }
+        walked = joinPath(walked, segment);
+      }
+    }
+    return this.statRaw(path);
+  }
+
+  private async assertAccess(identity: FileSystemIdentity, path: string, access: number): Promise<Inode> {
+    const inode = await this.lookUp(identity, path);
+    if (!canAccess(inode, identity, access)) {
+      throw new FileSystemError('EACCES', path);
+    }
+    return inode;
+  }
+
+  /**
+   * New entries need write and search permission on the closest existing
+   * directory above them (missing parents may be created along the way)
+   */
+  private async assertCanCreate(identity: FileSystemIdentity, path: string): Promise<void> {
+    let parent = dirname(path);
+    while (parent !== ROOT_PATH && !(await this.pathExists(parent))) {
+      parent = dirname(parent);
+    }
+    await this.assertAccess(identity, parent, ACCESS.WRITE | ACCESS.EXECUTE);
+  }
+
+  /**
+   * Removing an entry writes its parent. In a sticky directory (like /tmp)
+   * only the entry's or the directory's owner may do it.
+   */
+  private async assertCanRemove(identity: FileSystemIdentity, path: string): Promise<void> {
+    const parent = await this.assertAccess(identity, dirname(path), ACCESS.WRITE | ACCESS.EXECUTE);
+    const inode = await this.statRaw(path);
+    if (
+      parent.mode & STICKY_BIT &&
+      !identity.isRoot &&
+      inode.owner !== identity.user &&
+      parent.owner !== identity.user
+    ) {
+      throw new FileSystemError('EACCES', path);
+    }
+  }
+
+  /**
+   * Check every directory and file below `path` (inclusive) for the given access
+   */
+  private async assertTreeAccess(
+    identity: FileSystemIdentity,
+    path: string,
+    directoryAccess: number,
+    fileAccess: number
+  ): Promise<void> {
+    if (identity.isRoot) return;
+
+    const inode = await this.lookUp(identity, path);
+    const check = async (current: Inode, currentPath: string): Promise<void> => {
+      const access = current.type === 'directory' ? directoryAccess : fileAccess;
+      if (!canAccess(current, identity, access)) {
+        throw new FileSystemError('EACCES', currentPath);
+      }
+      if (current.type !== 'directory') return;
+
+      const location = this.locate(currentPath);
+      for (const entry of await this.call(location, (provider, path) => provider.readdir(path))) {
+        await check(entry.inode, this.toAbsolute(location.mount, entry.path));
+      }
+    };
+    await check(inode, path);
+  }
+
+  /**
+   * Fail with EDQUOT when growing `owner`'s files by `growth` bytes would
+   * take them over their quota. Root is not held to quotas.
+   */
+  private async assertQuota(identity: FileSystemIdentity, owner: string, growth: number, path: string): Promise<void> {
+    if (identity.isRoot || growth <= 0) return;
+
+    const limit = await quotaManager.getLimit(owner);
+    if (limit === null) return;
+
+    const used = (await this.getOwnerUsage()).get(owner)?.size ?? 0;
+    if (used + growth > limit) {
+      throw new FileSystemError('EDQUOT', path);
+    }
+  }
+
+  private getOwnerUsage(): Promise<Map<string, DiskUsage>> {
+    if (!this.ownerUsage) {
+      const computing = this.computeOwnerUsage();
+      this.ownerUsage = computing;
+      computing.catch(() => {
+        if (this.ownerUsage === computing) this.ownerUsage = null;
+      });
+    }
+    return this.ownerUsage;
+  }
+
+  private async computeOwnerUsage(): Promise<Map<string, DiskUsage>> {
+    const owners = new Map<string, DiskUsage>();
+    await this.walkTree(ROOT_PATH, await this.statRaw(ROOT_PATH), (path, inode) => {
+      // Mounted archives take up no space of their own
+      if (this.locate(path).mount.readOnly) return false;
+
+      let usage = owners.get(inode.owner);
+      if (!usage) {
+        usage = emptyUsage();
+        owners.set(inode.owner, usage);
+      }
+      addToUsage(usage, inode);
+    });
+    return owners;
+  }
+
+  private async treeSize(path: string): Promise<number> {
+    let size = 0;
+    await this.walkTree(path, await this.statRaw(path), (_, inode) => {
+      size += inode.size;
+    });
+    return size;
+  }
+
+  /**
+   * Visit `path` and everything below it, across mounts and without
+   * permission checks. Returning false from `visit` skips a directory's contents.
+   */
+  private async walkTree(path: string, inode: Inode, visit: (path: string, inode: Inode) => boolean | void): Promise<void> {
+    if (visit(path, inode) === false || inode.type !== 'directory') return;
+
+    const location = this.locate(path);
+    for (const entry of await this.call(location, (provider, path) => provider.readdir(path))) {
+      const childPath = this.toAbsolute(location.mount, entry.path);
+      // A mount point shows the root of what is mounted there
+      const child = this.mounts.has(childPath) ? await this.statRaw(childPath) : entry.inode;
+      await this.walkTree(childPath, child, visit);
+    }
+  }
+
+  /**
+   * Inode at `path` without any permission checks
+   */
+  private async statRaw(path: string): Promise<Inode> {
+    const location = this.locate(path);
+    const inode = await this.call(location, (provider, path) => provider.stat(path));
+
+    // A mounted root is named after its mount point
+    return location.path === ROOT_PATH && location.mount.mountPoint !== ROOT_PATH
+      ? { ...inode, name: basename(location.mount.mountPoint) }
+      : inode;
+  }
+
+  /**
+   * Run a provider operation, reporting errors with absolute paths
+   */
+  private async call<T>(location: Location, operation: (provider: FileSystemProvider, path: string) => Promise<T>): Promise<T> {
+    try {
+      return await operation(location.mount.provider, location.path);
+    } catch (error) {
+      if (!isFileSystemError(error) || location.mount.mountPoint === ROOT_PATH) throw error;
+
+      const path = this.toAbsolute(location.mount, error.path);
+      const message = error.path === ROOT_PATH ? error.message : error.message.split(error.path).join(path);
+      throw new FileSystemError(error.code, path, message);
+    }
+  }
+
+  private toAbsolute(mount: Mount, path: string): string {
+    if (mount.mountPoint === ROOT_PATH) return path;
+    return path === ROOT_PATH ? mount.mountPoint : mount.mountPoint + path;
+  }
+
+  private toMountInfo({ mountPoint, type, source, readOnly, removable }: Mount): MountInfo {
+    return { mountPoint, type, source, readOnly, removable };
+  }
+
+  private async copyAcross(source: Location, target: Location, creator?: InodeCreator): Promise<void> {
+    await this.copyBetween(source.mount.provider, source.path, target.mount.provider, target.path, creator);
+  }
+
+  /**
+   * Copy a tree between providers. Copies belong to `creator`; without one
+   * (moves) the original owners and modes are kept.
+   */
+  private async copyBetween(
+    source: FileSystemProvider,
+    sourcePath: string,
+    target: FileSystemProvider,
+    targetPath: string,
+    creator?: InodeCreator
+  ): Promise<void> {
+    const inode = await source.stat(sourcePath);
+    const owner = creator ?? { owner: inode.owner, group: inode.group, umask: 0 };
+    const mode = inode.mode & ~owner.umask;
+
+    if (inode.type === 'directory') {
+      await target.mkdir(targetPath, { creator: owner, mode });
+      for (const entry of await source.readdir(sourcePath)) {
+        await this.copyBetween(source, entry.path, target, joinPath(targetPath, entry.inode.name), creator);
+      }
+    } else {
+      const stored = await source.readContent(sourcePath);
+      await target.writeFile(targetPath, typeof stored === 'string' ? stored : decodeBytes(stored), { creator: owner, mode });
+    }
+  }
+
+  private async readContent(path: string): Promise<StoredFileContent | null> {
+    await this.ready();
+    await this.assertAccess(currentIdentity(), normalizePath(path), ACCESS.READ);
+    const location = this.locate(path);
+    return this.call(location, (provider, path) => provider.readContent(path));
+  }
+
+  private async runOverwriteHooks(location: Location, path: string, identity: FileSystemIdentity): Promise<void> {
+    if (this.overwriteHooks.size === 0) return;
+
+    const inode = await this.call(location, (provider, path) => provider.stat(path));
+    if (inode.type !== 'file') return;
+    const content = await this.call(location, (provider, path) => provider.readContent(path));
+
+    for (const hook of this.overwriteHooks) {
+      try {
+        await hook({ path, inode, content, writer: identity.user });
+      } catch (error) {
+        console.error('[VFS] Overwrite hook failed:', error);
+      }
+    }
+  }
+
+  private notify(changes: FileSystemChange[]): void {
+    this.ownerUsage = null;
+    for (const change of changes) {
+      for (const listener of this.changeListeners) {
+        try {
+          listener(change);
+        } catch (error) {
+          console.error('[VFS] Change listener failed:', error);
+        }
+      }
+
+      const event: FileSystemEvent = { ...change, timestamp: Date.now() };
+      const name: FileSystemEventName = `fs:${change.type}`;
+      eventBus.emitSync(name, event);
+    }
+  }
+
+  private emitMountsChanged(): void {
+    this.ownerUsage = null;
+    eventBus.emitSync('mounts:changed', { mounts: this.getMounts() });
+  }
+}
+
+// Singleton instance
+export const fileSystem = new VirtualFileSystem();
+
+export type { VirtualFileSystem };
@@ -0,0 +1,346 @@
+import { eventBus } from '@core/event-bus';
+import { createFSM, registerFSM, unregisterFSM } from '@core/fsm';
+import type { FSM } from '@core/fsm';
+
+/**
+ * Jobs - long-running work done in the background
+ *
+ * Copies, archive extraction, imports and the like are submitted as jobs
+ * instead of being awaited by the UI. A few run at a time, the rest wait
+ * in line. A job reports its progress, can be paused between steps and is
+ * cancelled through its AbortSignal. Every job's lifecycle is an FSM in
+ * the registry, so it shows up in the FSM inspector; changes are announced
+ * as `jobs:changed`.
+ */
+
+export type JobState = 'queued' | 'running' | 'paused' | 'completed' | 'failed' | 'cancelled';
+
+export type JobEvent = 'start' | 'pause' | 'resume' | 'complete' | 'fail' | 'cancel';
+
+export interface JobProgress {
+  processed: number;
+  total: number;
+  /**
+   * What is being worked on, e.g. the current file
+   */
+  detail?: string;
+}
+
+export interface JobInfo {
+  id: string;
+  title: string;
+  /**
+   * App that submitted it
+   */
+  source?: string;
+  state: JobState;
+  progress: JobProgress;
+  error?: string;
+  createdAt: number;
+  startedAt?: number;
+  finishedAt?: number;
+}
+
+/**
+ * Handed to a running job
+ */
+export interface JobContext {
+  id: string;
+  /**
+   * Aborted when the job is cancelled
+   */
+  signal: AbortSignal;
+  report: (progress: JobProgress) => void;
+  /**
+   * Await between steps; resolves right away unless the job is paused,
+   * and as soon as it is resumed and has a slot again, or is cancelled
+   */
+  waitIfPaused: () => Promise<void>;
+}
+
+export interface JobOptions {
+  /**
+   * Generated when omitted
+   */
+  id?: string;
+  source?: string;
+}
+
+export interface Job<T> {
+  id: string;
+  /**
+   * Settles with the job; a cancelled job rejects with its signal's reason
+   */
+  result: Promise<T>;
+}
+
+/**
+ * Job transition table - paused jobs resume or are cancelled, finished
+ * jobs stay where they are. A resumed job waits in line for a slot like a
+ * new one, and may settle while it does.
+ */
+const JOB_TRANSITIONS: Record<JobState, Partial<Record<JobEvent, JobState>>> = {
+  queued: {
+    start: 'running',
+    complete: 'completed',
+    fail: 'failed',
+    cancel: 'cancelled'
+  },
+  running: {
+    pause: 'paused',
+    complete: 'completed',
+    fail: 'failed',
+    cancel: 'cancelled'
+  },
+  paused: {
+    resume: 'queued',
+    complete: 'completed',
+    fail: 'failed',
+    cancel: 'cancelled'
+  },
+  completed: {},
+  failed: {},
+  cancelled: {}
+};
+
+// Jobs running at once; paused ones don't take a slot
+const MAX_CONCURRENT = 2;
+
+// Finished jobs kept for the activity panel
+const MAX_FINISHED = 20;
+
+const FINISHED_STATES: JobState[] = ['completed', 'failed', 'cancelled'];
+
+interface JobRecord {
+  info: Omit<JobInfo, 'state'>;
+  fsm: FSM<JobState, JobEvent>;
+  controller: AbortController;
+  run: (context: JobContext) => Promise<unknown>;
+  resolve: (value: unknown) => void;
+  reject: (reason: unknown) => void;
+  resumeWaiters: (() => void)[];
+}
+
+class JobQueue {
+  // Submission order, oldest first
+  private jobs: JobRecord[] = [];
+  private lastId = 0;
+
+  /**
+   * Queue `run`; it starts as soon as a slot is free
+   */
+  submit<T>(title: string, run: (context: JobContext) => Promise<T>, options: JobOptions = {}): Job<T> {
+    const id = options.id ?? `job-${Date.now().toString(36)}-${++this.lastId}`;
+    if (this.find(id)) {
+      throw new Error(`Job "${id}" already exists`);
+    }
+
+    const fsm = createFSM<JobState, JobEvent>(`job:${id}`, 'queued', JOB_TRANSITIONS, {
+      metadata: { type: 'job', title, source: options.source }
+    });
+    registerFSM(fsm);
+
+    let resolve!: (value: unknown) => void;
+    let reject!: (reason: unknown) => void;
+    const result = new Promise<T>((onResolve, onReject) => {
+      resolve = onResolve as (value: unknown) => void;
+      reject = onReject;
+    });
+
+    this.jobs.push({
+      info: { id, title, source: options.source, progress: { processed: 0, total: 0 }, createdAt: Date.now() },
+      fsm,
+      controller: new AbortController(),
+      run,
+      resolve,
+      reject,
+      resumeWaiters: []
+    });
+    console.log(`[Jobs] Queued "${title}" (${id})`);
+
+    this.emitChanged();
+    this.startNext();
+    return { id, result };
+  }
+
+  /**
+   * Jobs in submission order: waiting, active and recently finished
+   */
+  list(): JobInfo[] {
+    return this.jobs.map(job => this.describe(job));
+  }
+
+  get(id: string): JobInfo | null {
+    const job = this.find(id);
+    return job ? this.describe(job) : null;
+  }
+
+  /**
+   * Hold a running job at its next step
+   */
+  pause(id: string): void {
+    const job = this.find(id);
+    if (job?.fsm.can('pause')) {
+      job.fsm.transition('pause');
+      this.emitChanged();
+      this.startNext();
+    }
+  }
+
+  /**
+   * Put a paused job back in line; it continues once a slot is free
+   */
+  resume(id: string): void {
+    const job = this.find(id);
+    if (job?.fsm.can('resume')) {
+      job.fsm.transition('resume');
+      this.emitChanged();
+      this.startNext();
+    }
+  }
+
+  /**
+   * A job that hasn't started is dropped; one that has is aborted and
+   * settles once it notices
+   */
+  cancel(id: string): void {
+    const job = this.find(id);
+    if (!job || this.isFinished(job)) return;
+
+    job.controller.abort();
+    if (job.fsm.getState() === 'queued' && job.info.startedAt === undefined) {
+      this.finish(job, 'cancel');
+      job.reject(job.controller.signal.reason);
+      return;
+    }
+    this.wake(job);
+  }
+
+  /**
+   * Forget finished jobs
+   */
+  clearFinished(): void {
+    const finished = this.jobs.filter(job => this.isFinished(job));
+    if (finished.length === 0) return;
+
+    finished.forEach(job => unregisterFSM(job.fsm.getId()));
+    this.jobs = this.jobs.filter(job => !this.isFinished(job));
+    this.emitChanged();
+  }
+
+  inspect(): Record<JobState, number> {
+    const counts: Record<JobState, number> = { queued: 0, running: 0, paused: 0, completed: 0, failed: 0, cancelled: 0 };
+    this.jobs.forEach(job => counts[job.fsm.getState()]++);
+    return counts;
+  }
+
+  // ==== Internals ====
+
+  /**
+   * Start waiting jobs, oldest first, while slots are free; resumed jobs
+   * carry on where they paused
+   */
+  private startNext(): void {
+    let running = this.jobs.filter(job => job.fsm.getState() === 'running').length;
+    for (const job of this.jobs) {
+      if (running >= MAX_CONCURRENT) break;
+      if (job.fsm.getState() !== 'queued') continue;
+
+      running++;
+      if (job.info.startedAt === undefined) {
+        this.start(job);
+      } else {
+        job.fsm.transition('start');
+        this.wake(job);
+        this.emitChanged();
+      }
+    }
+  }
+
+  private start(job: JobRecord): void {
+    job.fsm.transition('start');
+    job.info.startedAt = Date.now();
+    this.emitChanged();
+
+    const context: JobContext = {
+      id: job.info.id,
+      signal: job.controller.signal,
+      report: progress => {
+        if (this.isFinished(job)) return;
+        job.info.progress = { ...progress };
+        this.emitChanged();
+      },
+      waitIfPaused: () => {
+        const state = job.fsm.getState();
+        if ((state !== 'paused' && state !== 'queued') || job.controller.signal.aborted) return Promise.resolve();
+        return new Promise(resolve => job.resumeWaiters.push(resolve));
+      }
+    };
+
+    // Run on a later tick so a job never settles inside submit()
+    Promise.resolve()
+      .then(() => job.run(context))
+      .then(
+        value => {
+          this.finish(job, 'complete');
+          job.resolve(value);
+        },
+        error => {
+          if (job.controller.signal.aborted) {
+            this.finish(job, 'cancel');
+          } else {
+            job.info.error = error instanceof Error ? error.message : String(error);
+            this.finish(job, 'fail');
+          }
+          job.reject(error);
+        }
+      )
+      .finally(() => this.startNext());
+  }
+
+  private finish(job: JobRecord, event: 'complete' | 'fail' | 'cancel'): void {
+    job.fsm.transition(event);
+    job.info.finishedAt = Date.now();
+    this.wake(job);
+    console.log(`[Jobs] "${job.info.title}" ${job.fsm.getState()}`);
+
+    this.trimFinished();
+    this.emitChanged();
+  }
+
+  private trimFinished(): void {
+    const finished = this.jobs.filter(job => this.isFinished(job));
+    const dropped = finished.slice(0, Math.max(0, finished.length - MAX_FINISHED));
+    if (dropped.length === 0) return;
+
+    dropped.forEach(job => unregisterFSM(job.fsm.getId()));
+    this.jobs = this.jobs.filter(job => !dropped.includes(job));
+  }
+
+  private wake(job: JobRecord): void {
+    const waiters = job.resumeWaiters;
+    job.resumeWaiters = [];
+    waiters.forEach(resolve => resolve());
+  }
+
+  private isFinished(job: JobRecord): boolean {
+    return FINISHED_STATES.includes(job.fsm.getState());
+  }
+
+  private find(id: string): JobRecord | undefined {
+    return this.jobs.find(job => job.info.id === id);
+  }
+
+  private describe(job: JobRecord): JobInfo {
+    return { ...job.info, progress: { ...job.info.progress }, state: job.fsm.getState() };
+  }
+
+  private emitChanged(): void {
+    eventBus.emitSync('jobs:changed', { jobs: this.list(), timestamp: Date.now() });
+  }
+}
+
+// Singleton instance
+export const jobQueue = new JobQueue();
+
+export type { JobQueue };
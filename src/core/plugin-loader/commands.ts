@@ -0,0 +1,171 @@
+import { eventBus } from '../event-bus';
+import { authEngine } from '../auth-permissions';
+
+/**
+ * Plugin Commands - terminal commands contributed by plugins
+ *
+ * A plugin declares its commands in the manifest and provides a handler for
+ * each one. They are registered while the plugin is started and removed when
+ * it stops; commands declared at boot stay available as a fallback, with a
+ * handler that starts the plugin. Running one checks the declared permission
+ * and the argument count before the handler is called, so handlers only deal
+ * with valid input.
+ */
+
+export interface PluginCommandArgument {
+  name: string;
+  description?: string;
+  optional?: boolean;
+  /**
+   * Takes the rest of the arguments, e.g. an expression with spaces
+   */
+  variadic?: boolean;
+  /**
+   * Known values, e.g. theme ids. A hint, not a restriction.
+   */
+  values?: string[];
+}
+
+export interface PluginCommandDeclaration {
+  name: string;
+  /**
+   * One line for `help`
+   */
+  description: string;
+  /**
+   * e.g. "theme set <theme-id>"
+   */
+  usage: string;
+  /**
+   * Offered by tab completion, e.g. "--verbose"
+   */
+  flags?: string[];
+  args?: PluginCommandArgument[];
+  /**
+   * Needed to run the command; holders of `admin.system` always may
+   */
+  permission?: string;
+}
+
+export interface PluginCommandIO {
+  stdin: string | null;
+  env: Record<string, string>;
+  stdout: { write: (text: string) => void };
+  stderr: { write: (text: string) => void };
+}
+
+/**
+ * Resolves with the exit status
+ */
+export type PluginCommandHandler = (args: string[], io: PluginCommandIO) => Promise<number>;
+
+export interface PluginCommand {
+  pluginId: string;
+  declaration: PluginCommandDeclaration;
+  handler: PluginCommandHandler;
+}
+
+// Exit statuses, as in other shells
+const USAGE_STATUS = 2;
+const PERMISSION_DENIED_STATUS = 126;
+
+const ROOT_PERMISSION = 'admin.system';
+
+class PluginCommandRegistry {
+  private commands = new Map<string, PluginCommand>();
+  private declared = new Map<string, PluginCommand>();
+
+  register(pluginId: string, declaration: PluginCommandDeclaration, handler: PluginCommandHandler): void {
+    const existing = this.commands.get(declaration.name);
+    if (existing && existing.pluginId !== pluginId) {
+      console.warn(`[PluginCommands] ${pluginId} replaces "${declaration.name}" from ${existing.pluginId}`);
+    }
+
+    this.commands.set(declaration.name, { pluginId, declaration, handler });
+    this.emitChanged(pluginId);
+  }
+
+  /**
+   * Make a command available before its plugin starts. Used when no started
+   * plugin serves the name, and kept when the plugin stops.
+   */
+  declare(pluginId: string, declaration: PluginCommandDeclaration, handler: PluginCommandHandler): void {
+    this.declared.set(declaration.name, { pluginId, declaration, handler });
+    this.emitChanged(pluginId);
+  }
+
+  /**
+   * Remove every command a plugin contributed
+   */
+  unregisterPlugin(pluginId: string): void {
+    let removed = false;
+    for (const [name, command] of this.commands) {
+      if (command.pluginId === pluginId) {
+        this.commands.delete(name);
+        removed = true;
+      }
+    }
+    if (removed) this.emitChanged(pluginId);
+  }
+
+  get(name: string): PluginCommand | undefined {
+    return this.commands.get(name) ?? this.declared.get(name);
+  }
+
+  /**
+   * Every command, sorted by name
+   */
+  list(): PluginCommand[] {
+    const commands = new Map([...this.declared, ...this.commands]);
+    return Array.from(commands.values()).sort((a, b) => a.declaration.name.localeCompare(b.declaration.name));
+  }
+
+  /**
+   * Run a command after checking its permission and arguments
+   */
+  async execute(name: string, args: string[], io: PluginCommandIO): Promise<number> {
+    const command = this.get(name);
+    if (!command) {
+      io.stderr.write(`${name}: command not available\n`);
+      return 1;
+    }
+
+    const { declaration, handler } = command;
+    if (declaration.permission && !this.isAllowed(declaration.permission)) {
+      io.stderr.write(`${name}: permission denied (requires ${declaration.permission})\n`);
+      return PERMISSION_DENIED_STATUS;
+    }
+
+    if (!this.acceptsArgs(declaration, args)) {
+      io.stderr.write(`usage: ${declaration.usage}\n`);
+      return USAGE_STATUS;
+    }
+
+    return handler(args, io);
+  }
+
+  // ==== Internals ====
+
+  private isAllowed(permission: string): boolean {
+    return authEngine.hasPermission(permission) || authEngine.hasPermission(ROOT_PERMISSION);
+  }
+
+  private acceptsArgs(declaration: PluginCommandDeclaration, args: string[]): boolean {
+    const spec = declaration.args ?? [];
+    const positional = args.filter(arg => !declaration.flags?.includes(arg));
+    const required = spec.filter(arg => !arg.optional).length;
+    const variadic = spec.some(arg => arg.variadic);
+    return positional.length >= required && (variadic || positional.length <= spec.length);
+  }
+
+  private emitChanged(pluginId: string): void {
+    eventBus.emitSync('plugin:commands-changed', {
+      pluginId,
+      commands: this.list().map(command => command.declaration.name),
+      timestamp: Date.now()
+    });
+  }
+}
+
+export const pluginCommands = new PluginCommandRegistry();
+export type { PluginCommandRegistry };
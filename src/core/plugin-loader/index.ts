@@ -1,6 +1,10 @@
 import { createStore } from 'solid-js/store';
 import { Component } from 'solid-js';
 import { eventBus } from '../event-bus';
+import { pluginCommands } from './commands';
+import type { PluginCommandDeclaration, PluginCommandHandler } from './commands';
+
+export * from './commands';
 
 export interface PluginWindow {
   id: string;
@@ -11,6 +15,21 @@ export interface PluginWindow {
   minHeight?: number;
 }
 
+/**
+ * Files a plugin can open. Matching files are offered to it in the
+ * file manager and passed in as the `filePath` window prop.
+ */
+export interface PluginFileAssociations {
+  /**
+   * MIME types, `type/*` wildcards allowed
+   */
+  mimeTypes?: string[];
+  /**
+   * Extensions without the leading dot
+   */
+  extensions?: string[];
+}
+
 export interface PluginManifest {
   id: string;
   displayName: string;
@@ -22,6 +41,11 @@ export interface PluginManifest {
   dependencies?: string[];
   configSchema?: string;
   windows?: PluginWindow[];
+  fileAssociations?: PluginFileAssociations;
+  /**
+   * Terminal commands; running one starts the plugin if it isn't yet
+   */
+  commands?: PluginCommandDeclaration[];
 }
 
 export interface PluginLifecycle {
@@ -37,6 +61,10 @@ export interface Plugin {
   ui?: Component;
   services?: Record<string, any>;
   lifecycle?: PluginLifecycle;
+  /**
+   * Handlers for the manifest's commands, by command name
+   */
+  commands?: Record<string, PluginCommandHandler>;
   isLoaded: boolean;
   isInitialized: boolean;
   isStarted: boolean;
@@ -174,6 +202,15 @@ export const pluginLoader: PluginLoader = {
       }
       setPlugins(p => p.manifest.id === pluginId, 'isStarted', true);
 
+      for (const declaration of plugin.manifest.commands ?? []) {
+        const handler = plugin.commands?.[declaration.name];
+        if (handler) {
+          pluginCommands.register(pluginId, declaration, handler);
+        } else {
+          console.warn(`[PluginLoader] ${pluginId} declares command "${declaration.name}" without a handler`);
+        }
+      }
+
       // Emit plugin started event
       eventBus.emitSync('plugin:started', {
         pluginId,
@@ -200,6 +237,7 @@ export const pluginLoader: PluginLoader = {
         await plugin.lifecycle.onStop();
       }
       setPlugins(p => p.manifest.id === pluginId, 'isStarted', false);
+      pluginCommands.unregisterPlugin(pluginId);
 
       // Emit plugin stopped event
       eventBus.emitSync('plugin:stopped', {
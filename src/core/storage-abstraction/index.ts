@@ -27,10 +27,14 @@ export interface StorageEngine {
 // IndexedDB Adapter
 class IndexedDBAdapter implements StorageAdapter {
   name = 'indexeddb';
-  private dbName = 'dineapp_os';
+  private dbName: string;
   private version = 1;
   private db: IDBDatabase | null = null;
 
+  constructor(dbName = 'dineapp_os') {
+    this.dbName = dbName;
+  }
+
   async init(): Promise<void> {
     return new Promise((resolve, reject) => {
       const request = indexedDB.open(this.dbName, this.version);
@@ -567,9 +567,13 @@ class WallpaperManager {
     }
 
     /**
-     * Generate thumbnail for image with better quality
+     * Generate thumbnail for image with better quality. Also used for file
+     * previews, which pass a smaller size and a format that keeps transparency.
      */
-    private async generateThumbnail(file: File): Promise<string> {
+    async generateThumbnail(
+        file: Blob,
+        options: { maxSize?: number; type?: string } = {}
+    ): Promise<string> {
         return new Promise((resolve, reject) => {
             const canvas = document.createElement('canvas');
             const ctx = canvas.getContext('2d');
@@ -577,7 +581,7 @@ class WallpaperManager {
 
             img.onload = () => {
                 try {
-                    const maxSize = CONSTANTS.THUMBNAIL_SIZE;
+                    const maxSize = options.maxSize ?? CONSTANTS.THUMBNAIL_SIZE;
                     let width = img.width;
                     let height = img.height;
 
@@ -606,7 +610,7 @@ class WallpaperManager {
                         ctx.drawImage(img, 0, 0, width, height);
                     }
 
-                    const thumbnail = canvas.toDataURL('image/jpeg', CONSTANTS.THUMBNAIL_QUALITY);
+                    const thumbnail = canvas.toDataURL(options.type ?? 'image/jpeg', CONSTANTS.THUMBNAIL_QUALITY);
                     console.log('[WallpaperManager] Generated thumbnail, size:', thumbnail.length, 'bytes');
                     resolve(thumbnail);
                 } catch (error) {
@@ -721,5 +725,7 @@ export const WallpaperAPI = {
     applyWallpaper: (config: WallpaperConfig) => wallpaperManager.applyWallpaper(config),
     getCachedImage: (url: string) => wallpaperManager.getCachedImage(url),
     getWallpaperBlobURL: (wallpaper: WallpaperSource) => wallpaperManager.getWallpaperBlobURL(wallpaper),
-    validateWallpaper: (wallpaper: WallpaperSource) => wallpaperManager.validateWallpaper(wallpaper)
+    validateWallpaper: (wallpaper: WallpaperSource) => wallpaperManager.validateWallpaper(wallpaper),
+    generateThumbnail: (image: Blob, options?: { maxSize?: number; type?: string }) =>
+        wallpaperManager.generateThumbnail(image, options)
 };
\ No newline at end of file
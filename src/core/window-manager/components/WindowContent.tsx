@@ -20,7 +20,7 @@ const WindowContent: Component<WindowContentProps> = (props) => {
     >
       {(() => {
         const PluginComponent = props.window.component || pluginComponents[props.window.pluginId];
-        return PluginComponent ? <PluginComponent /> : (
+        return PluginComponent ? <PluginComponent windowId={props.window.id} {...props.window.props} /> : (
             <div class="flex flex-col items-center justify-center p-4 min-h-[150px]">
               <div class="text-center max-w-full">
                 <div class="text-3xl mb-2">📱</div>
@@ -55,7 +55,11 @@ export const windowManager: WindowManager = {
     return windowService.openWindow(pluginId, title, options);
   },
 
-  closeWindow: (id: string) => windowService.closeWindow(id),
+  closeWindow: (id: string, options?) => windowService.closeWindow(id, options),
+
+  setCloseGuard: (id: string, guard) => windowService.setCloseGuard(id, guard),
+
+  setWindowTitle: (id: string, title: string) => windowService.setWindowTitle(id, title),
 
   minimizeWindow: (id: string) => windowService.minimizeWindow(id),
 
@@ -58,6 +58,18 @@ export interface WindowOptions {
   resizable?: boolean;
 }
 
+/**
+ * Returns false to keep the window open
+ */
+export type WindowCloseGuard = () => boolean;
+
+export interface CloseWindowOptions {
+  /**
+   * Skip the close guard
+   */
+  force?: boolean;
+}
+
 export interface WindowStore {
   state: Window;
   set: (updates: Partial<Window>) => void;
@@ -67,7 +79,9 @@ export interface WindowStore {
 export interface WindowManager {
   get windows(): Window[];
   openWindow: (pluginId: string, title: string, options?: WindowOptions) => Window;
-  closeWindow: (id: string) => void;
+  closeWindow: (id: string, options?: CloseWindowOptions) => void;
+  setCloseGuard: (id: string, guard: WindowCloseGuard | null) => void;
+  setWindowTitle: (id: string, title: string) => void;
   minimizeWindow: (id: string) => Promise<void>;
   maximizeWindow: (id: string) => void;
   toggleMaximizeWindow: (id: string) => void;
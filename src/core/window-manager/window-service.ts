@@ -1,7 +1,7 @@
 import { eventBus } from '../event-bus';
 import { createWindow, getWindow, destroyWindow, windowFSMManager } from '@core/fsm';
 import type { FSM } from '@core/fsm';
-import { Window, WindowOptions, WindowStore, WindowState, SnapEdge } from './types';
+import { Window, WindowOptions, WindowStore, WindowState, SnapEdge, WindowCloseGuard, CloseWindowOptions } from './types';
 import {
     getWindowStore,
     getAllWindows,
@@ -32,6 +32,9 @@ export class WindowService {
 
     // FSM state management is now handled globally by windowFSMManager
 
+    // Per-window veto on closing (e.g. unsaved changes)
+    private closeGuards = new Map<string, WindowCloseGuard>();
+
     // Animation tracking is now handled internally by the genie functions
 
     // ==== Small Utils ====
@@ -128,6 +131,10 @@ export class WindowService {
         const windows = this.getWindowsSnapshot();
         const existing = windows.find(w => w.pluginId === pluginId);
         if (existing) {
+            // Hand new props (e.g. a file to open) to the running instance
+            if (options.props) {
+                this.withStore(existing.id, (store) => store.update('props', options.props));
+            }
             if (existing.state === 'minimized') {
                 this.restoreWindow(existing.id);
             } else {
@@ -197,10 +204,18 @@ export class WindowService {
         });
     }
 
-    closeWindow(id: string) {
+    closeWindow(id: string, options: CloseWindowOptions = {}) {
         const store = getWindowStore(id);
         if (!store) return;
         const win = store.state;
+
+        const guard = this.closeGuards.get(id);
+        if (guard && !options.force && !guard()) {
+            this.emit('window:close-cancelled', { id, pluginId: win.pluginId, title: win.title });
+            return;
+        }
+        this.closeGuards.delete(id);
+
         const fsm = this.getFSM(id);
 
         // Use FSM to handle the close operation
@@ -458,6 +473,26 @@ export class WindowService {
         });
     }
 
+    /**
+     * Register a guard that can veto closing the window; pass null to remove it
+     */
+    setCloseGuard(id: string, guard: WindowCloseGuard | null) {
+        if (guard) {
+            this.closeGuards.set(id, guard);
+        } else {
+            this.closeGuards.delete(id);
+        }
+    }
+
+    setWindowTitle(id: string, title: string) {
+        this.withStore(id, (store) => {
+            if (store.state.title === title) return;
+            store.update('title', title);
+            updateWindowsSignal();
+            this.emit('window:title-changed', { id, pluginId: store.state.pluginId, title });
+        });
+    }
+
     updateWindowPosition(id: string, x: number, y: number) {
         this.withStore(id, (store) => {
             const win = store.state;
@@ -1,8 +1,17 @@
-import { Component, createSignal, createMemo, For } from 'solid-js';
+import { Component, createSignal, createMemo, onMount, onCleanup, For } from 'solid-js';
+import { eventBus } from '@core/event-bus';
+import { clipboard, CLIPBOARD_TYPES } from '@core/clipboard';
 
 type Operator = '+' | '-' | '*' | '/';
 
-const Calculator: Component = () => {
+// Structured form of a copied result, for apps that want the number itself
+const RESULT_MIME_TYPE = 'application/x-calculator-result';
+
+interface CalculatorProps {
+  windowId?: string;
+}
+
+const Calculator: Component<CalculatorProps> = (props) => {
   const [display, setDisplay] = createSignal('0');
   const [previousValue, setPreviousValue] = createSignal<number | null>(null);
   const [operation, setOperation] = createSignal<Operator | null>(null);
@@ -111,6 +120,61 @@ const Calculator: Component = () => {
     }
   };
 
+  // Each calculator window listens on its own
+  const eventScope = `calculator:${props.windowId ?? 'app'}`;
+
+  onMount(() => {
+    eventBus.on('menu:command', handleMenuCommand, { scope: eventScope });
+  });
+
+  onCleanup(() => eventBus.offAll(eventScope));
+
+  // The menu bar's Edit menu acts on whichever window is focused
+  const handleMenuCommand = (payload: { command: string; windowId: string | null }) => {
+    if (!props.windowId || payload.windowId !== props.windowId) return;
+    if (payload.command === 'copy') copyResult();
+    if (payload.command === 'paste') pasteNumber();
+  };
+
+  const copyResult = () => {
+    const value = parseFloat(display());
+    if (Number.isNaN(value)) return;
+    clipboard.write({
+      [CLIPBOARD_TYPES.TEXT]: String(value),
+      [RESULT_MIME_TYPE]: JSON.stringify({ value })
+    }, { source: 'calculator' }).catch(error => console.error('[Calculator] Copy failed:', error));
+  };
+
+  /**
+   * Take a copied result as is, or the first number in copied text
+   */
+  const pasteNumber = async () => {
+    try {
+      const result = await clipboard.readJSON<{ value: number }>(RESULT_MIME_TYPE);
+      const text = result ? String(result.value) : await clipboard.readText();
+      const match = text?.replace(/,/g, '').match(/-?\d+(\.\d+)?(e[+-]?\d+)?/i);
+      if (!match) return;
+
+      setDisplay(String(parseFloat(match[0])));
+      setWaitingForNewValue(false);
+      setIsAllClear(false);
+      setActiveOperator(null);
+    } catch (error) {
+      console.error('[Calculator] Paste failed:', error);
+    }
+  };
+
+  const handleKeyDown = (e: KeyboardEvent) => {
+    const mod = e.ctrlKey || e.metaKey;
+    if (mod && e.key.toLowerCase() === 'c') {
+      e.preventDefault();
+      copyResult();
+    } else if (mod && e.key.toLowerCase() === 'v') {
+      e.preventDefault();
+      pasteNumber();
+    }
+  };
+
   const buttons = [
     [isAllClear() ? 'AC' : 'C', '±', '%', '/'],
     ['7', '8', '9', '*'],
@@ -163,7 +227,7 @@ const Calculator: Component = () => {
   };
 
   return (
-    <div class="calculator rounded-lg overflow-hidden h-full flex flex-col">
+    <div class="calculator rounded-lg overflow-hidden h-full flex flex-col outline-none" tabIndex={0} onKeyDown={handleKeyDown}>
       <div class="calculator-display font-thin p-5 text-right w-full box-border flex-1 flex items-end justify-end" style={{ "font-size": fontSize() }}>
         {currentDisplay()}
       </div>
@@ -0,0 +1,19 @@
+import type { PluginCommandHandler } from '@core/plugin-loader';
+import { evaluateExpression } from './features/calculations';
+
+/**
+ * Terminal commands declared in the calculator's manifest
+ */
+export const commands: Record<string, PluginCommandHandler> = {
+  // calc <expression> - words are joined, so "calc 2 + 3" works too
+  calc: async (args, io) => {
+    const { result, error } = evaluateExpression(args.join(' '));
+    if (error) {
+      io.stderr.write(`calc: ${error}\n`);
+      return 1;
+    }
+    // Rounded so 0.1+0.2 prints 0.3
+    io.stdout.write(`${parseFloat(result.toPrecision(12))}\n`);
+    return 0;
+  }
+};
@@ -0,0 +1,65 @@
+import type { CalculationResult } from './calculator-engine';
+
+/**
+ * Arithmetic on a typed expression, e.g. "2+3*(4-1)". Supports + - * / %
+ * and ^ (power, right-associative), parentheses, unary minus, and the
+ * constants pi and e.
+ */
+export function evaluateExpression(expression: string): CalculationResult {
+  const tokens = expression.match(/\d*\.?\d+(?:e[+-]?\d+)?|[a-z]+|\S/gi) ?? [];
+  let position = 0;
+
+  const peek = () => tokens[position];
+  const next = () => tokens[position++];
+
+  const primary = (): number => {
+    const token = next();
+    if (token === undefined) throw new Error('unexpected end of expression');
+    if (token === '(') {
+      const value = sum();
+      if (next() !== ')') throw new Error("missing ')'");
+      return value;
+    }
+    if (token === '-') return -power();
+    if (token === '+') return power();
+    if (/^(pi|e)$/i.test(token)) return token.toLowerCase() === 'pi' ? Math.PI : Math.E;
+
+    const value = Number(token);
+    if (Number.isNaN(value)) throw new Error(`unexpected '${token}'`);
+    return value;
+  };
+
+  const power = (): number => {
+    const base = primary();
+    if (peek() !== '^') return base;
+    next();
+    return base ** power();
+  };
+
+  const product = (): number => {
+    let value = power();
+    while (peek() === '*' || peek() === '/' || peek() === '%') {
+      const operator = next();
+      const operand = power();
+      if (operator !== '*' && operand === 0) throw new Error('division by zero');
+      value = operator === '*' ? value * operand : operator === '/' ? value / operand : value % operand;
+    }
+    return value;
+  };
+
+  const sum = (): number => {
+    let value = product();
+    while (peek() === '+' || peek() === '-') {
+      value = next() === '+' ? value + product() : value - product();
+    }
+    return value;
+  };
+
+  try {
+    const result = sum();
+    if (position < tokens.length) throw new Error(`unexpected '${peek()}'`);
+    return { result };
+  } catch (error) {
+    return { result: NaN, error: error instanceof Error ? error.message : String(error) };
+  }
+}
@@ -1 +1,2 @@
-export * from './calculator-engine';
\ No newline at end of file
+export * from './calculator-engine';
+export * from './expression';
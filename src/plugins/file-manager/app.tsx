@@ -1,67 +1,371 @@
-import { Component, createSignal, onMount, createEffect, Show } from 'solid-js';
-import { navigationModel } from './features/navigation';
-import { NavigationAPI } from './features/navigation';
+import { Component, createSignal, createMemo, onMount, onCleanup, createEffect, on, For, Show } from 'solid-js';
+import { eventBus } from '@core/event-bus';
+import { windowManager } from '@core/window-manager';
+import { hostTransfer, TRASH_PATH, basename, dirname, isSubPath, isArchivePath } from '@core/file-system';
+import type { HostDrop, SearchResult } from '@core/file-system';
+import { createTabsModel, navigationRequests, NavigationAPI } from './features/navigation';
+import type { FolderPane } from './features/navigation';
 import { FileOperationsAPI } from './features/file-operations';
+import type { PermissionChanges } from './features/file-operations';
 import { fileOperationsModel } from './features/file-operations';
+import { OpenWithAPI } from './features/open-with';
+import { createSearchModel, SearchAPI } from './features/search';
+import { createVersionsModel, VersionsAPI } from './features/versions';
+import { createPreviewPaneModel, previewModel, PreviewAPI } from './features/preview';
+import { createGetInfoModel, GetInfoAPI } from './features/get-info';
+import { storageModel, StorageAPI } from './features/storage';
+import { trashModel, TrashAPI } from './features/trash';
+import { batchRenameModel, BatchRenameAPI } from './features/batch-rename';
+import { sortingModel, SortingAPI } from './features/sorting';
+import { tagsModel, TagsAPI } from './features/tags';
+import { favoritesModel, FavoritesAPI } from './features/favorites';
 import { FileList } from './widgets/file-list';
 import { Toolbar } from './widgets/toolbar';
 import { Sidebar } from './widgets/sidebar';
-import type { FileItem } from './entities/file';
+import { ConflictDialog } from './widgets/conflict-dialog';
+import { ContextMenu } from './widgets/context-menu';
+import type { ContextMenuItem } from './widgets/context-menu';
+import { TrashBanner } from './widgets/trash-banner';
+import { SearchResults } from './widgets/search-results';
+import { OperationProgressList } from './widgets/operation-progress';
+import { GetInfoPanel } from './widgets/get-info';
+import { VersionsPanel } from './widgets/versions';
+import { PreviewPane } from './widgets/preview-pane';
+import { BatchRenameDialog } from './widgets/batch-rename';
+import { TabBar } from './widgets/tab-bar';
+import { ColumnView } from './widgets/column-view';
+import { createFileItemFromSearch, sortFileItems, FILE_DRAG_TYPE, TAG_COLORS } from './entities/file';
+import type { FileItem, FileSystemError, TagColor } from './entities/file';
 
+// Undo history of a file manager shown outside a window
+const STANDALONE_HISTORY = 'file-manager';
 
-const FileManager: Component = () => {
-  const [files, setFiles] = createSignal<FileItem[]>([]);
-  const [viewMode, setViewMode] = createSignal<'list' | 'grid'>('grid');
-  const [isLoading, setIsLoading] = createSignal(false);
+interface FileManagerProps {
+  windowId?: string;
+  /**
+   * Folder to show, e.g. when a folder is opened from the desktop
+   */
+  filePath?: string;
+  /**
+   * When `filePath` was requested, so asking for the same folder again goes back to it
+   */
+  openedAt?: number;
+}
+
+const FileManager: Component<FileManagerProps> = (props) => {
   const [isSidebarOpen, setIsSidebarOpen] = createSignal(false);
+  const [operationError, setOperationError] = createSignal<FileSystemError | null>(null);
+  const [contextMenu, setContextMenu] = createSignal<{ x: number; y: number; items: ContextMenuItem[] } | null>(null);
+  let rootRef: HTMLDivElement | undefined;
 
   const navigationAPI = NavigationAPI.getInstance();
   const fileOpsAPI = FileOperationsAPI.getInstance();
+  const openWithAPI = OpenWithAPI.getInstance();
+  const searchAPI = SearchAPI.getInstance();
+  const versionsAPI = VersionsAPI.getInstance();
+  const previewAPI = PreviewAPI.getInstance();
+  const getInfoAPI = GetInfoAPI.getInstance();
+  const storageAPI = StorageAPI.getInstance();
+  const trashAPI = TrashAPI.getInstance();
+  const batchRenameAPI = BatchRenameAPI.getInstance();
+  const sortingAPI = SortingAPI.getInstance();
+  const tagsAPI = TagsAPI.getInstance();
+  const favoritesAPI = FavoritesAPI.getInstance();
+
+  // Each tab (and each side of a split) navigates on its own; everything
+  // below acts on the pane that was used last
+  const tabsModel = createTabsModel();
+  const activePane = tabsModel.activePane;
+  const navigation = () => activePane().navigation;
 
-  // Load files when current path changes
-  createEffect(async () => {
-    const path = navigationModel.currentPath();
-    await loadFiles(path);
+  // Search and the side panels belong to this window too
+  const searchModel = createSearchModel();
+  const versionsModel = createVersionsModel();
+  const previewPane = createPreviewPaneModel();
+  const getInfoModel = createGetInfoModel();
+
+  /**
+   * Items carrying the current user's tags
+   */
+  const withTags = (items: FileItem[]) => items.map(file => {
+    const tags = tagsModel.tagsFor(file.path);
+    return tags.length > 0 ? { ...file, tags } : file;
   });
 
-  const loadFiles = async (path: string) => {
-    setIsLoading(true);
+  /**
+   * A pane's folder contents in the order the folder is sorted by
+   */
+  const listedFiles = (pane: FolderPane) =>
+    withTags(sortFileItems(pane.files(), sortingModel.orderFor(pane.navigation.currentPath())));
+
+  const files = () => listedFiles(activePane());
+
+  const isInTrash = () => navigation().currentPath() === TRASH_PATH;
+
+  // Operations are recorded on this window's undo history
+  const historyOptions = { windowId: props.windowId ?? STANDALONE_HISTORY };
+  const eventScope = `file-manager:${historyOptions.windowId}`;
+
+  onMount(() => {
+    searchAPI.warmUp();
+    sortingAPI.load();
+    loadUserSettings();
+    eventBus.on('auth:session-changed', handleSessionChanged, { scope: eventScope });
+    eventBus.on('menu:command', handleMenuCommand, { scope: eventScope });
+
+    const stopWatching = [
+      fileOpsAPI.watch(),
+      storageAPI.watch(),
+      // Items can leave the Trash on their own through the retention policy
+      trashAPI.watch(() => { if (isInTrash()) handleRefresh(); }),
+      versionsAPI.watch(versionsModel, reportError),
+      searchAPI.watch(searchModel)
+    ];
+    onCleanup(() => stopWatching.forEach(stop => stop()));
+  });
+
+  onCleanup(() => {
+    eventBus.offAll(eventScope);
+    fileOperationsModel.clearHistory(historyOptions.windowId);
+    fileOperationsModel.cancelConflicts(historyOptions.windowId);
+    if (batchRenameModel.isOpenIn(historyOptions.windowId)) batchRenameModel.close();
+  });
+
+  // The menu bar's Edit menu acts on whichever window is focused
+  const handleMenuCommand = (payload: { command: string; windowId: string | null }) => {
+    if (!props.windowId || payload.windowId !== props.windowId) return;
+    if (payload.command === 'undo') handleUndo();
+    if (payload.command === 'redo') handleRedo();
+    if (payload.command === 'copy') handleCopy();
+    if (payload.command === 'cut') handleCut();
+    if (payload.command === 'paste') handlePaste();
+  };
+
+  /**
+   * Favorites, tags and smart folders belong to whoever is signed in
+   */
+  const loadUserSettings = () => {
+    favoritesAPI.load();
+    tagsAPI.load();
+    searchAPI.loadSmartFolders();
+  };
+
+  const handleSessionChanged = () => {
+    loadUserSettings();
+    // Whatever was showing was the previous user's
+    if (searchModel.openSmartFolderId() || searchModel.filters().tag !== 'any') searchModel.clear();
+  };
+
+  const handleEject = (mountPoint: string) => {
+    // Step out of the device first so the listing doesn't point into nothing
+    if (isSubPath(mountPoint, navigation().currentPath())) {
+      navigation().navigateToPath(dirname(mountPoint));
+    }
+    storageAPI.eject(mountPoint).catch(reportError);
+  };
+
+  const handleMountArchive = async (file: FileItem) => {
     try {
-      const fileItems = await navigationAPI.navigateToPath(path);
-      setFiles(fileItems);
+      const mount = await storageAPI.mountArchive(file.path);
+      navigation().navigateToPath(mount.mountPoint);
     } catch (error) {
-      console.error('Failed to load files:', error);
-      setFiles([]);
-    } finally {
-      setIsLoading(false);
+      reportError(error);
+    }
+  };
+
+  createEffect(on(() => [props.filePath, props.openedAt] as const, ([path]) => {
+    if (path) navigation().navigateToPath(path);
+  }));
+
+  // A request from elsewhere in the OS (e.g. the Dock's Trash) to show a
+  // folder is taken up by the focused window
+  const isFocusedWindow = () =>
+    !props.windowId || windowManager.windows.some(window => window.id === props.windowId && window.focused);
+
+  createEffect(() => {
+    if (!navigationRequests.requestedPath() || !isFocusedWindow()) return;
+    const path = navigationRequests.take();
+    if (path) navigation().navigateToPath(path);
+  });
+
+  /**
+   * Keep a pane's listing current while it is on screen: load it whenever
+   * it navigates and follow changes made elsewhere
+   */
+  const watchPane = (pane: FolderPane) => {
+    createEffect(on(pane.navigation.currentPath, (path) => {
+      navigationAPI.loadPane(pane, path);
+    }));
+
+    createEffect(() => {
+      onCleanup(navigationAPI.watchFolder(pane, pane.navigation.currentPath()));
+    });
+
+    // The column view also lists every folder above the current one
+    createEffect(on(() => [pane.navigation.currentPath(), pane.viewMode()] as const, ([path, mode]) => {
+      if (mode === 'columns') navigationAPI.loadColumns(pane, path);
+    }));
+
+    // Thumbnails for the grid; a newer listing supersedes a load still running
+    let previewGeneration = 0;
+    createEffect(on(() => [pane.files(), pane.viewMode()] as const, ([items, mode]) => {
+      const generation = ++previewGeneration;
+      if (mode === 'grid') previewAPI.cachePreviews(items, () => generation === previewGeneration);
+    }));
+  };
+
+  // The preview pane shows the selected item
+  const paneFile = () => {
+    const selected = navigation().selectedItems();
+    return selected.length === 1 ? files().find(file => file.path === selected[0]) ?? null : null;
+  };
+
+  createEffect(on(() => [previewPane.isOpen(), paneFile()] as const, ([isOpen, file]) => {
+    if (isOpen && file) previewAPI.cachePreview(file);
+  }));
+
+  // Results as you type, kept current while files change
+  createEffect(() => {
+    const { tag } = searchModel.filters();
+    const folder = searchModel.openSmartFolder()?.folder ?? navigation().currentPath();
+    searchModel.revision();
+    onCleanup(searchAPI.schedule(searchModel, folder, tag === 'any' ? undefined : tagsModel.pathsWith(tag)));
+  });
+
+  const handleSearchOpen = async (result: SearchResult) => {
+    const file = createFileItemFromSearch(result);
+    if (file.type === 'folder') {
+      searchModel.clear();
+      navigation().navigateToPath(file.path);
+    } else {
+      await handleOpenWith(file);
     }
   };
 
+  const handleSearchReveal = (result: SearchResult) => {
+    searchModel.clear();
+    navigation().navigateToPath(dirname(result.path));
+    navigation().selectItem(result.path);
+  };
+
+  /**
+   * Saving a search that isn't a smart folder yet asks for a name
+   */
+  const handleSaveSmartFolder = () => {
+    const name = searchModel.openSmartFolder()?.name
+      ?? prompt('Smart folder name:', searchModel.query().trim() || searchModel.title() || 'Smart Folder')?.trim();
+    if (!name) return;
+    searchAPI.saveSearch(searchModel, name, navigation().currentPath()).catch(reportError);
+  };
+
+  const handleRemoveSmartFolder = async (id: string) => {
+    if (searchModel.openSmartFolderId() === id) searchModel.clear();
+    await searchAPI.removeSmartFolder(id);
+  };
+
+  const handleToggleTag = (paths: string[], tag: TagColor) => {
+    tagsAPI.toggleTag(paths, tag).catch(reportError);
+  };
+
   const handleFileSelect = (file: FileItem, multiSelect: boolean) => {
-    navigationModel.selectItem(file.path, multiSelect);
+    navigation().selectItem(file.path, multiSelect);
+  };
+
+  // In the column view a folder opens as soon as it is clicked, and a file
+  // in a column further up takes the view back to its folder
+  const handleColumnSelect = (file: FileItem, multiSelect: boolean) => {
+    if (multiSelect) {
+      if (dirname(file.path) === navigation().currentPath()) navigation().selectItem(file.path, true);
+      return;
+    }
+    if (file.type === 'folder') {
+      navigation().navigateToPath(file.path);
+      return;
+    }
+    if (dirname(file.path) !== navigation().currentPath()) {
+      navigation().navigateToPath(dirname(file.path));
+    }
+    navigation().selectItem(file.path);
   };
 
   const handleFileDoubleClick = async (file: FileItem) => {
     if (file.type === 'folder') {
-      navigationModel.navigateToPath(file.path);
+      navigation().navigateToPath(file.path);
     } else {
-      // Handle file opening - would integrate with other apps
-      console.log('Open file:', file.path);
+      await handleOpenWith(file);
+    }
+  };
+
+  const handleOpenWith = async (file: FileItem, pluginId?: string) => {
+    try {
+      await openWithAPI.openFile(file, pluginId);
+    } catch (error) {
+      reportError(error);
     }
   };
 
+  const handleSetDefaultHandler = async (file: FileItem, pluginId: string | null) => {
+    try {
+      await openWithAPI.setDefaultHandler(file, pluginId);
+    } catch (error) {
+      reportError(error);
+    }
+  };
+
+  /**
+   * "Open With" submenu: every capable plugin, then options to change the
+   * default for this kind of file
+   */
+  const getOpenWithItems = async (file: FileItem): Promise<ContextMenuItem[]> => {
+    const handlers = openWithAPI.getHandlers(file);
+    if (handlers.length === 0) {
+      return [{ label: 'No Applications Available', disabled: true }];
+    }
+
+    const defaultHandler = await openWithAPI.getDefaultHandler(file);
+    const items: ContextMenuItem[] = handlers.map(handler => ({
+      label: handler.pluginId === defaultHandler?.pluginId ? `${handler.displayName} (default)` : handler.displayName,
+      action: () => handleOpenWith(file, handler.pluginId)
+    }));
+
+    if (!file.extension) return items;
+
+    const alternatives = handlers.filter(handler => handler.pluginId !== defaultHandler?.pluginId);
+    const hasCustomDefault = await openWithAPI.hasCustomDefault(file);
+    if (alternatives.length > 0 || hasCustomDefault) {
+      items.push({ separator: true });
+    }
+    for (const handler of alternatives) {
+      items.push({
+        label: `Always Open .${file.extension} Files With ${handler.displayName}`,
+        action: () => handleSetDefaultHandler(file, handler.pluginId)
+      });
+    }
+    if (hasCustomDefault) {
+      items.push({
+        label: `Reset Default for .${file.extension} Files`,
+        action: () => handleSetDefaultHandler(file, null)
+      });
+    }
+
+    return items;
+  };
+
+  // Both sides of a split view, as operations often touch both
   const handleRefresh = async () => {
-    await loadFiles(navigationModel.currentPath());
+    await Promise.all(tabsModel.activeTab().panes.map(pane =>
+      navigationAPI.loadPane(pane, pane.navigation.currentPath(), { quiet: pane !== activePane() })
+    ));
   };
 
   const handleNewFolder = async () => {
     const name = prompt('Enter folder name:');
     if (name) {
       try {
-        await fileOpsAPI.createFolder(navigationModel.currentPath(), name);
+        await fileOpsAPI.createFolder(navigation().currentPath(), name, historyOptions);
         await handleRefresh();
       } catch (error) {
-        console.error('Failed to create folder:', error);
+        reportError(error);
       }
     }
   };
@@ -70,17 +374,493 @@ const FileManager: Component = () => {
     const name = prompt('Enter file name:');
     if (name) {
       try {
-        await fileOpsAPI.createFile(navigationModel.currentPath(), name);
+        await fileOpsAPI.createFile(navigation().currentPath(), name, historyOptions);
         await handleRefresh();
       } catch (error) {
-        console.error('Failed to create file:', error);
+        reportError(error);
+      }
+    }
+  };
+
+  const handleCompress = async () => {
+    const selected = navigation().selectedItems();
+    if (selected.length === 0) return;
+
+    try {
+      const archive = await fileOpsAPI.compressItems(selected, historyOptions);
+      await handleRefresh();
+      navigation().selectItem(archive.path);
+    } catch (error) {
+      reportError(error);
+    }
+  };
+
+  const handleExtract = async (file: FileItem) => {
+    try {
+      const folder = await fileOpsAPI.extractHere(file.path, historyOptions);
+      await handleRefresh();
+      navigation().selectItem(folder.path);
+    } catch (error) {
+      reportError(error);
+    }
+  };
+
+  // Drops land in the pane they are made on, which need not be the active one
+  const handleHostDrop = async (pane: FolderPane, drop: HostDrop, folder: FileItem | null) => {
+    const path = pane.navigation.currentPath();
+    if (path === TRASH_PATH || drop.entries.length === 0) return;
+
+    try {
+      const imported = await fileOpsAPI.importFromHost(drop, folder?.path ?? path, historyOptions);
+      await handleRefresh();
+      if (!folder) pane.navigation.setSelectedItems(imported);
+    } catch (error) {
+      reportError(error);
+    }
+  };
+
+  const handleDownload = async (file: FileItem) => {
+    try {
+      await fileOpsAPI.downloadItem(file.path);
+    } catch (error) {
+      reportError(error);
+    }
+  };
+
+  // Dragging out of the browser needs the file read before dragstart
+  const handleFilePointerDown = (file: FileItem) => {
+    if (file.type !== 'file' || isInTrash()) return;
+    hostTransfer.prepareDragOut(file.path).catch(error => {
+      console.warn('[FileManager] Could not prepare drag:', error);
+    });
+  };
+
+  /**
+   * Dragged items can be pinned or tagged in the sidebar; prepared files
+   * can also be dropped onto the host desktop
+   */
+  const handleFileDragStart = (file: FileItem, event: DragEvent) => {
+    if (!event.dataTransfer) return;
+    const selected = navigation().selectedItems();
+    const paths = selected.includes(file.path) ? selected : [file.path];
+    event.dataTransfer.setData(FILE_DRAG_TYPE, JSON.stringify(paths));
+    hostTransfer.setDragData(event.dataTransfer, file.path);
+    event.dataTransfer.effectAllowed = 'copyLink';
+  };
+
+  const handleApplyPermissions = async (file: FileItem, changes: PermissionChanges) => {
+    try {
+      await fileOpsAPI.changePermissions(file.path, changes, historyOptions);
+      getInfoModel.close();
+    } catch (error) {
+      reportError(error);
+    }
+  };
+
+  const reportError = (error: unknown) => {
+    // Cancelling is the user's choice, not a failure
+    if ((error as FileSystemError).code === 'ECANCELED') return;
+    console.error('File operation failed:', error);
+    setOperationError(error as FileSystemError);
+  };
+
+  const handleCopy = () => {
+    const selected = navigation().selectedItems();
+    if (selected.length > 0) fileOpsAPI.copyToClipboard(selected, 'copy').catch(reportError);
+  };
+
+  const handleCut = () => {
+    const selected = navigation().selectedItems();
+    if (selected.length > 0) fileOpsAPI.copyToClipboard(selected, 'cut').catch(reportError);
+  };
+
+  const handlePaste = async () => {
+    if (fileOperationsModel.clipboard().items.length === 0) return;
+
+    const options = { ...historyOptions, onConflict: fileOperationsModel.conflictResolver(historyOptions.windowId) };
+    try {
+      await fileOpsAPI.pasteFromClipboard(navigation().currentPath(), options);
+    } catch (error) {
+      reportError(error);
+    } finally {
+      await handleRefresh();
+    }
+  };
+
+  const handleDelete = async () => {
+    const selected = navigation().selectedItems();
+    if (selected.length === 0) return;
+
+    // Inside the Trash, deleting is permanent
+    if (isInTrash()) {
+      const label = selected.length === 1 ? `"${basename(selected[0])}"` : `${selected.length} items`;
+      if (!confirm(`Delete ${label} permanently? This cannot be undone.`)) return;
+    }
+
+    try {
+      if (isInTrash()) {
+        for (const path of selected) {
+          await fileOpsAPI.deletePermanently(path);
+        }
+      } else {
+        await fileOpsAPI.deleteItems(selected, historyOptions);
+      }
+      navigation().clearSelection();
+    } catch (error) {
+      reportError(error);
+    } finally {
+      await handleRefresh();
+    }
+  };
+
+  const handlePutBack = async () => {
+    const selected = navigation().selectedItems();
+    if (selected.length === 0) return;
+
+    try {
+      for (const path of selected) {
+        await fileOpsAPI.restoreItem(path, historyOptions);
+      }
+      navigation().clearSelection();
+    } catch (error) {
+      reportError(error);
+    } finally {
+      await handleRefresh();
+    }
+  };
+
+  const handleEmptyTrash = async () => {
+    if (trashModel.count() === 0) return;
+    if (!confirm('Are you sure you want to permanently erase the items in the Trash? This cannot be undone.')) return;
+
+    try {
+      await fileOpsAPI.emptyTrash();
+      navigation().clearSelection();
+    } catch (error) {
+      reportError(error);
+    } finally {
+      await handleRefresh();
+    }
+  };
+
+  const getContextMenuItems = async (file: FileItem | null): Promise<ContextMenuItem[]> => {
+    if (!file) {
+      return isInTrash()
+        ? [{ label: 'Empty Trash', action: handleEmptyTrash, disabled: trashModel.count() === 0, danger: true }]
+        : [
+            { label: 'New Folder', action: handleNewFolder },
+            { label: 'New File', action: handleNewFile },
+            { separator: true },
+            { label: 'Paste', action: handlePaste, disabled: fileOperationsModel.clipboard().items.length === 0 }
+          ];
+    }
+
+    const open: ContextMenuItem[] = [{ label: 'Open', action: () => handleFileDoubleClick(file) }];
+    if (file.type === 'folder') {
+      open.push({ label: 'Open in New Tab', action: () => tabsModel.openTab(file.path) });
+    }
+    if (file.type === 'file') {
+      open.push({ label: 'Open With', submenu: await getOpenWithItems(file) });
+    }
+    if (file.type === 'file' && isArchivePath(file.path)) {
+      open.push({ label: 'Extract Here', action: () => handleExtract(file) });
+      open.push({ label: 'Mount Archive', action: () => handleMountArchive(file) });
+    }
+
+    open.push({ label: 'Get Info', action: () => getInfoAPI.show(getInfoModel, file.path).catch(reportError) });
+    if (file.type === 'folder' && !isInTrash()) {
+      open.push(favoritesModel.isFavorite(file.path)
+        ? { label: 'Remove from Sidebar', action: () => favoritesAPI.removeFavorite(file.path) }
+        : { label: 'Add to Sidebar', action: () => favoritesAPI.addFavorites([file.path]) });
+    }
+    if (!isInTrash()) {
+      open.push({ label: file.type === 'folder' ? 'Download as ZIP' : 'Download', action: () => handleDownload(file) });
+    }
+    if (file.type === 'file' && !isInTrash()) {
+      open.push({ label: 'Versions…', action: () => versionsAPI.open(versionsModel, file.path).catch(reportError) });
+    }
+
+    if (isInTrash()) {
+      return [
+        ...open,
+        { separator: true },
+        { label: 'Put Back', action: handlePutBack },
+        { label: 'Delete Immediately…', action: handleDelete, danger: true }
+      ];
+    }
+
+    return [
+      ...open,
+      { separator: true },
+      { label: renameLabel(), action: handleRename },
+      { label: 'Copy', action: handleCopy },
+      { label: 'Cut', action: handleCut },
+      ...getOtherPaneItems(),
+      { separator: true },
+      { label: 'Tags', submenu: getTagItems() },
+      { label: compressLabel(), action: handleCompress },
+      { separator: true },
+      { label: 'Move to Trash', action: handleDelete, danger: true }
+    ];
+  };
+
+  /**
+   * Checked when every selected item has the tag; choosing it toggles it
+   */
+  const getTagItems = (): ContextMenuItem[] => {
+    const selected = navigation().selectedItems();
+    return TAG_COLORS.map(({ color, label }) => {
+      const applied = selected.length > 0 && selected.every(path => tagsModel.tagsFor(path).includes(color));
+      return { label: applied ? `✓ ${label}` : label, action: () => handleToggleTag(selected, color) };
+    });
+  };
+
+  /**
+   * Copy or move the selection across a split view
+   */
+  const getOtherPaneItems = (): ContextMenuItem[] => {
+    const other = tabsModel.otherPane();
+    if (!other) return [];
+
+    const disabled = other.navigation.currentPath() === navigation().currentPath() || other.navigation.currentPath() === TRASH_PATH;
+    return [
+      { separator: true },
+      { label: 'Copy to Other Pane', action: () => handleSendToOtherPane('copy'), disabled },
+      { label: 'Move to Other Pane', action: () => handleSendToOtherPane('move'), disabled }
+    ];
+  };
+
+  const handleSendToOtherPane = async (operation: 'copy' | 'move') => {
+    const other = tabsModel.otherPane();
+    const selected = navigation().selectedItems();
+    if (!other || selected.length === 0 || isInTrash()) return;
+
+    const destination = other.navigation.currentPath();
+    if (destination === navigation().currentPath() || destination === TRASH_PATH) return;
+
+    const options = { ...historyOptions, onConflict: fileOperationsModel.conflictResolver(historyOptions.windowId) };
+    try {
+      if (operation === 'move') {
+        await fileOpsAPI.moveItems(selected, destination, options);
+        navigation().clearSelection();
+      } else {
+        await fileOpsAPI.copyItems(selected, destination, options);
+      }
+    } catch (error) {
+      reportError(error);
+    } finally {
+      await handleRefresh();
+    }
+  };
+
+  const renameLabel = () => {
+    const selected = navigation().selectedItems();
+    return selected.length > 1 ? `Rename ${selected.length} Items…` : 'Rename…';
+  };
+
+  const compressLabel = () => {
+    const selected = navigation().selectedItems();
+    return selected.length === 1 ? `Compress "${basename(selected[0])}"` : `Compress ${selected.length} Items`;
+  };
+
+  const handleContextMenu = async (file: FileItem | null, event: MouseEvent) => {
+    if (file && !navigation().selectedItems().includes(file.path)) {
+      navigation().selectItem(file.path);
+    }
+
+    const bounds = rootRef?.getBoundingClientRect();
+    const x = event.clientX - (bounds?.left ?? 0);
+    const y = event.clientY - (bounds?.top ?? 0);
+    setContextMenu({ x, y, items: await getContextMenuItems(file) });
+  };
+
+  const handleRename = async () => {
+    const selected = navigation().selectedItems();
+    if (selected.length > 1) {
+      // Numbered in the order they are listed
+      batchRenameModel.open(historyOptions.windowId, files().filter(file => selected.includes(file.path)));
+      return;
+    }
+    if (selected.length !== 1) return;
+
+    const currentName = selected[0].split('/').pop() || '';
+    const newName = prompt('Rename to:', currentName);
+    if (!newName || newName === currentName) return;
+
+    try {
+      const renamed = await fileOpsAPI.renameItem(selected[0], newName, historyOptions);
+      navigation().selectItem(renamed.path);
+    } catch (error) {
+      reportError(error);
+    } finally {
+      await handleRefresh();
+    }
+  };
+
+  // Recomputed as the rules are edited, for the dialog's before/after table
+  const batchRenamePlan = createMemo(() => batchRenameAPI.plan(
+    batchRenameModel.items(),
+    batchRenameModel.rules(),
+    files().map(file => file.path)
+  ));
+
+  const handleBatchRename = async () => {
+    const renames = batchRenamePlan().previews
+      .filter(preview => preview.status === 'renamed')
+      .map(preview => ({ path: preview.file.path, newName: preview.newName }));
+
+    try {
+      const renamed = await fileOpsAPI.renameItems(renames, historyOptions);
+      batchRenameModel.close();
+      navigation().setSelectedItems(renamed.map(item => item.path));
+    } catch (error) {
+      reportError(error);
+    } finally {
+      await handleRefresh();
+    }
+  };
+
+  const handleUndo = async () => {
+    try {
+      if (await fileOpsAPI.undo(historyOptions.windowId)) await handleRefresh();
+    } catch (error) {
+      reportError(error);
+    }
+  };
+
+  const handleRedo = async () => {
+    try {
+      if (await fileOpsAPI.redo(historyOptions.windowId)) await handleRefresh();
+    } catch (error) {
+      reportError(error);
+    }
+  };
+
+  /**
+   * One side of the folder area. Using a pane in any way makes it the one
+   * the toolbar, menus and keyboard act on.
+   */
+  const renderPane = (pane: FolderPane, index: number) => {
+    watchPane(pane);
+    const listed = createMemo(() => listedFiles(pane));
+    const columns = () => [
+      ...pane.columns().map(column => ({ ...column, files: withTags(sortFileItems(column.files, sortingModel.orderFor(column.path))) })),
+      { path: pane.navigation.currentPath(), files: listed() }
+    ];
+
+    return (
+      <div
+        class="flex-1 min-w-0 overflow-auto scrollbar-thin"
+        classList={{
+          'border-l border-border': index > 0,
+          'ring-1 ring-inset ring-brand-primary/40': tabsModel.isSplit() && pane === activePane()
+        }}
+        onPointerDown={() => tabsModel.focusPane(pane.id)}
+        onContextMenu={() => tabsModel.focusPane(pane.id)}
+      >
+        <Show when={pane.isLoading()}>
+          <div class="flex items-center justify-center h-full">
+            <div class="loading-spinner"></div>
+          </div>
+        </Show>
+        <Show when={!pane.isLoading()}>
+          <Show
+            when={pane.viewMode() === 'columns'}
+            fallback={
+              <FileList
+                files={listed()}
+                viewMode={pane.viewMode() === 'list' ? 'list' : 'grid'}
+                selectedItems={pane.navigation.selectedItems()}
+                sortOrder={sortingModel.orderFor(pane.navigation.currentPath())}
+                onSortChange={(order) => sortingAPI.setOrder(pane.navigation.currentPath(), order)}
+                previews={previewModel.previews()}
+                onFileSelect={handleFileSelect}
+                onFileDoubleClick={handleFileDoubleClick}
+                onContextMenu={handleContextMenu}
+                onHostDrop={(drop, folder) => handleHostDrop(pane, drop, folder)}
+                onFilePointerDown={handleFilePointerDown}
+                onFileDragStart={handleFileDragStart}
+              />
+            }
+          >
+            <ColumnView
+              columns={columns()}
+              currentPath={pane.navigation.currentPath()}
+              selectedItems={pane.navigation.selectedItems()}
+              onFileSelect={handleColumnSelect}
+              onFileDoubleClick={handleFileDoubleClick}
+              onContextMenu={handleContextMenu}
+              onFilePointerDown={handleFilePointerDown}
+              onFileDragStart={handleFileDragStart}
+            />
+          </Show>
+        </Show>
+      </div>
+    );
+  };
+
+  const handleKeyDown = (e: KeyboardEvent) => {
+    // Leave text fields (search, dialogs) alone
+    if ((e.target as HTMLElement).closest('input, textarea')) return;
+
+    const mod = e.ctrlKey || e.metaKey;
+    if (mod && e.key.toLowerCase() === 'z') {
+      e.preventDefault();
+      if (e.shiftKey) {
+        handleRedo();
+      } else {
+        handleUndo();
       }
+    } else if (mod && e.key.toLowerCase() === 'y') {
+      e.preventDefault();
+      handleRedo();
+    } else if (mod && e.key.toLowerCase() === 'c') {
+      e.preventDefault();
+      handleCopy();
+    } else if (mod && e.key.toLowerCase() === 'x') {
+      e.preventDefault();
+      handleCut();
+    } else if (mod && e.key.toLowerCase() === 'v') {
+      e.preventDefault();
+      handlePaste();
+    } else if (e.key === 'Delete' || (mod && e.key === 'Backspace')) {
+      e.preventDefault();
+      handleDelete();
+    } else if (e.key === 'F2') {
+      e.preventDefault();
+      handleRename();
+    } else if ((e.key === 'F5' || e.key === 'F6') && tabsModel.isSplit()) {
+      // Commander-style copy and move across the split
+      e.preventDefault();
+      handleSendToOtherPane(e.key === 'F5' ? 'copy' : 'move');
     }
   };
 
   return (
-    <div class="file-manager h-full flex bg-background relative">
-      <Sidebar isOpen={isSidebarOpen()} onClose={() => setIsSidebarOpen(false)} />
+    <div ref={rootRef} class="file-manager h-full flex bg-background relative outline-none" tabIndex={0} onKeyDown={handleKeyDown}>
+      <Sidebar
+        isOpen={isSidebarOpen()}
+        currentPath={navigation().currentPath()}
+        isTrashEmpty={trashModel.count() === 0}
+        devices={storageModel.devices()}
+        storage={storageModel.usage()}
+        favorites={favoritesModel.favorites()}
+        smartFolders={searchModel.smartFolders()}
+        activeTag={searchModel.shownTag()}
+        activeSmartFolderId={searchModel.openSmartFolderId()}
+        onEject={handleEject}
+        onNavigate={(path) => {
+          searchModel.clear();
+          navigation().navigateToPath(path);
+        }}
+        onAddFavorites={(paths, index) => favoritesAPI.addFavorites(paths, index)}
+        onRemoveFavorite={(path) => favoritesAPI.removeFavorite(path)}
+        onShowTag={searchModel.showTag}
+        onTag={handleToggleTag}
+        onOpenSmartFolder={searchModel.showSmartFolderById}
+        onRemoveSmartFolder={handleRemoveSmartFolder}
+        onClose={() => setIsSidebarOpen(false)}
+      />
 
       {/* Sidebar overlay for mobile */}
       <Show when={isSidebarOpen()}>
@@ -89,33 +869,154 @@ const FileManager: Component = () => {
 
       <main class="flex-1 flex flex-col overflow-hidden">
         {/* Toolbar */}
+        <Show when={tabsModel.tabs().length > 1}>
+          <TabBar
+            tabs={tabsModel.titles()}
+            activeId={tabsModel.activeTab().id}
+            onSelect={tabsModel.selectTab}
+            onClose={tabsModel.closeTab}
+            onNew={() => tabsModel.openTab()}
+          />
+        </Show>
+
         <Toolbar
-          currentPath={navigationModel.currentPath()}
-          viewMode={viewMode()}
-          onViewModeChange={setViewMode}
+          currentPath={navigation().currentPath()}
+          canGoBack={navigation().pathHistory().length > 1}
+          onBack={() => navigation().goBack()}
+          onNavigate={(path) => navigation().navigateToPath(path)}
+          viewMode={activePane().viewMode()}
+          onViewModeChange={(mode) => activePane().setViewMode(mode)}
+          sortOrder={sortingModel.orderFor(navigation().currentPath())}
+          onSortChange={(order) => sortingAPI.setOrder(navigation().currentPath(), order)}
+          isSplit={tabsModel.isSplit()}
+          onToggleSplit={tabsModel.toggleSplit}
+          onNewTab={() => tabsModel.openTab()}
+          isPreviewOpen={previewPane.isOpen()}
+          onTogglePreview={previewPane.toggle}
           onRefresh={handleRefresh}
           onNewFolder={handleNewFolder}
           onNewFile={handleNewFile}
           onToggleSidebar={() => setIsSidebarOpen(!isSidebarOpen())}
+          searchQuery={searchModel.query()}
+          onSearchChange={searchModel.setQuery}
         />
 
-        {/* File List */}
-        <div class="flex-1 overflow-auto scrollbar-thin">
-          <Show when={isLoading()}>
-            <div class="flex items-center justify-center h-full">
-              <div class="loading-spinner"></div>
-            </div>
-          </Show>
-          <Show when={!isLoading()}>
-            <FileList
-              files={files()}
-              viewMode={viewMode()}
-              onFileSelect={handleFileSelect}
-              onFileDoubleClick={handleFileDoubleClick}
+        {/* Operation errors */}
+        <Show when={operationError()}>
+          <div class="flex items-center justify-between gap-2 px-3 py-1.5 text-xs bg-error/10 text-error border-b border-border">
+            <span class="truncate">
+              {operationError()!.code}: {operationError()!.message}
+            </span>
+            <button class="px-1.5 rounded hover:bg-error/20" onClick={() => setOperationError(null)}>Dismiss</button>
+          </div>
+        </Show>
+
+        <Show when={fileOperationsModel.operationProgress().length > 0}>
+          <OperationProgressList
+            operations={fileOperationsModel.operationProgress()}
+            onCancel={(id) => fileOpsAPI.cancelOperation(id)}
+          />
+        </Show>
+
+        <Show when={isInTrash() && !searchModel.isActive()}>
+          <TrashBanner
+            itemCount={trashModel.count()}
+            retentionDays={trashModel.retentionDays()}
+            onRetentionChange={(days) => trashAPI.setRetentionDays(days).catch(reportError)}
+            onEmptyTrash={handleEmptyTrash}
+          />
+        </Show>
+
+        {/* Search results replace the folder contents while searching */}
+        <Show when={searchModel.isActive()}>
+          <div class="flex-1 min-h-0">
+            <SearchResults
+              query={searchModel.query()}
+              results={searchModel.results()}
+              filters={searchModel.filters()}
+              isSearching={searchModel.isSearching()}
+              currentFolderName={basename(searchModel.openSmartFolder()?.folder ?? navigation().currentPath()) || 'Macintosh HD'}
+              title={searchModel.title()}
+              tagsFor={tagsModel.tagsFor}
+              saveLabel={searchModel.saveLabel()}
+              onSave={handleSaveSmartFolder}
+              onClose={searchModel.clear}
+              onFilterChange={searchModel.setFilter}
+              onOpen={handleSearchOpen}
+              onReveal={handleSearchReveal}
             />
+          </div>
+        </Show>
+
+        {/* File List */}
+        <div class="flex flex-1 min-h-0" classList={{ hidden: searchModel.isActive() }}>
+          <For each={tabsModel.activeTab().panes}>
+            {(pane, index) => renderPane(pane, index())}
+          </For>
+
+          <Show when={previewPane.isOpen()}>
+            <PreviewPane file={paneFile()} preview={paneFile() ? previewAPI.previewFor(paneFile()!) : null} />
           </Show>
         </div>
       </main>
+
+      <Show when={contextMenu()}>
+        {(menu) => (
+          <ContextMenu x={menu().x} y={menu().y} items={menu().items} onClose={() => setContextMenu(null)} />
+        )}
+      </Show>
+
+      <Show when={getInfoModel.item()}>
+        {(file) => (
+          <GetInfoPanel
+            file={file()}
+            stats={getInfoModel.stats()}
+            canChangeMode={getInfoAPI.canChangeMode(file())}
+            canChangeOwner={getInfoAPI.canChangeOwner()}
+            onApply={(changes) => handleApplyPermissions(file(), changes)}
+            onClose={getInfoModel.close}
+          />
+        )}
+      </Show>
+
+      <Show when={versionsModel.path()}>
+        {(path) => (
+          <VersionsPanel
+            path={path()}
+            versions={versionsModel.versions()}
+            fromId={versionsModel.fromId()}
+            toId={versionsModel.toId()}
+            diff={versionsModel.diff()}
+            budgetBytes={versionsModel.budgetBytes()}
+            usedBytes={versionsModel.usedBytes()}
+            onCompare={(from, to) => versionsAPI.compare(versionsModel, from, to).catch(reportError)}
+            onRestore={(version) => versionsAPI.restoreVersion(versionsModel, version).catch(reportError)}
+            onBudgetChange={(bytes) => versionsAPI.setBudget(bytes).catch(reportError)}
+            onClose={versionsModel.close}
+          />
+        )}
+      </Show>
+
+      <Show when={batchRenameModel.isOpenIn(historyOptions.windowId)}>
+        <BatchRenameDialog
+          rules={batchRenameModel.rules()}
+          plan={batchRenamePlan()}
+          canApply={batchRenameAPI.canApply(batchRenamePlan())}
+          onChange={batchRenameModel.updateRules}
+          onApply={handleBatchRename}
+          onClose={batchRenameModel.close}
+        />
+      </Show>
+
+      {/* Name collision prompt for copy/move */}
+      <Show when={fileOperationsModel.pendingConflict(historyOptions.windowId)} keyed>
+        {(conflict) => (
+          <ConflictDialog
+            conflict={conflict}
+            onResolve={(resolution) => fileOperationsModel.resolveConflict(historyOptions.windowId, resolution)}
+          />
+        )}
+      </Show>
     </div>
   );
 };
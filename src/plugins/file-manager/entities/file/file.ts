@@ -1,15 +1,35 @@
+import { extname, canAccess, currentIdentity, isSubPath, ACCESS } from '@core/file-system';
+import type { DirectoryEntry, FileSystemChange, SearchIndexEntry } from '@core/file-system';
+
 export interface FileItem {
+  id?: string;
   name: string;
   type: 'file' | 'folder';
   size?: number;
   modified?: string;
+  /**
+   * Modification time in milliseconds, for sorting
+   */
+  modifiedAt?: number;
+  created?: string;
   path: string;
   extension?: string;
+  mimeType?: string;
+  /**
+   * What the current user may do with the item
+   */
   permissions?: {
     read: boolean;
     write: boolean;
     execute: boolean;
   };
+  owner?: string;
+  group?: string;
+  mode?: number;
+  /**
+   * Colored tags the current user gave the item
+   */
+  tags?: TagColor[];
 }
 
 export interface FileSystemError {
@@ -18,8 +38,126 @@ export interface FileSystemError {
   path?: string;
 }
 
+export type SortKey = 'name' | 'size' | 'kind' | 'date';
+
+export interface SortOrder {
+  key: SortKey;
+  direction: 'asc' | 'desc';
+}
+
+export const DEFAULT_SORT_ORDER: SortOrder = { key: 'name', direction: 'asc' };
+
+/**
+ * Drag data type carrying the JSON array of dragged paths between views
+ */
+export const FILE_DRAG_TYPE = 'application/x-file-manager-paths';
+
+export type TagColor = 'red' | 'orange' | 'yellow' | 'green' | 'blue' | 'purple' | 'gray';
+
+export const TAG_COLORS: { color: TagColor; label: string }[] = [
+  { color: 'red', label: 'Red' },
+  { color: 'orange', label: 'Orange' },
+  { color: 'yellow', label: 'Yellow' },
+  { color: 'green', label: 'Green' },
+  { color: 'blue', label: 'Blue' },
+  { color: 'purple', label: 'Purple' },
+  { color: 'gray', label: 'Gray' }
+];
+
 export interface FileSystemStats {
   totalFiles: number;
   totalFolders: number;
   totalSize: number;
-}
\ No newline at end of file
+}
+
+const formatDate = (timestamp: number) => new Date(timestamp).toISOString().split('T')[0];
+
+/**
+ * Map a VFS directory entry onto the file manager's FileItem shape
+ */
+export function createFileItem({ path, inode }: DirectoryEntry): FileItem {
+  const isFolder = inode.type === 'directory';
+  const identity = currentIdentity();
+
+  return {
+    id: inode.id,
+    name: inode.name,
+    type: isFolder ? 'folder' : 'file',
+    size: isFolder ? undefined : inode.size,
+    modified: formatDate(inode.modifiedAt),
+    modifiedAt: inode.modifiedAt,
+    created: formatDate(inode.createdAt),
+    path,
+    extension: isFolder ? undefined : extname(inode.name) || undefined,
+    mimeType: inode.mimeType,
+    permissions: {
+      read: canAccess(inode, identity, ACCESS.READ),
+      write: canAccess(inode, identity, ACCESS.WRITE),
+      execute: canAccess(inode, identity, ACCESS.EXECUTE)
+    },
+    owner: inode.owner,
+    group: inode.group,
+    mode: inode.mode
+  };
+}
+
+/**
+ * Map a search index hit onto a FileItem, e.g. to open it
+ */
+export function createFileItemFromSearch(entry: SearchIndexEntry): FileItem {
+  const isFolder = entry.type === 'directory';
+
+  return {
+    name: entry.name,
+    type: isFolder ? 'folder' : 'file',
+    size: isFolder ? undefined : entry.size,
+    modified: formatDate(entry.modifiedAt),
+    modifiedAt: entry.modifiedAt,
+    path: entry.path,
+    extension: isFolder ? undefined : extname(entry.name) || undefined,
+    mimeType: entry.mimeType
+  };
+}
+
+/**
+ * Folders first, then case-insensitive by name
+ */
+export function compareFileItems(a: FileItem, b: FileItem): number {
+  if (a.type !== b.type) return a.type === 'folder' ? -1 : 1;
+  return a.name.localeCompare(b.name, undefined, { sensitivity: 'base' });
+}
+
+const compareNames = (a: FileItem, b: FileItem) => a.name.localeCompare(b.name, undefined, { sensitivity: 'base' });
+
+const SORT_COMPARATORS: Record<SortKey, (a: FileItem, b: FileItem) => number> = {
+  name: compareNames,
+  size: (a, b) => (a.size ?? 0) - (b.size ?? 0),
+  kind: (a, b) => (a.extension ?? '').localeCompare(b.extension ?? ''),
+  date: (a, b) => (a.modifiedAt ?? 0) - (b.modifiedAt ?? 0)
+};
+
+/**
+ * Folders first, then by the chosen key; ties go by name
+ */
+export function sortFileItems(items: FileItem[], order: SortOrder): FileItem[] {
+  const compare = SORT_COMPARATORS[order.key];
+  const sign = order.direction === 'asc' ? 1 : -1;
+  return [...items].sort((a, b) => {
+    if (a.type !== b.type) return a.type === 'folder' ? -1 : 1;
+    return sign * (compare(a, b) || compareNames(a, b));
+  });
+}
+
+/**
+ * Where `path` is after `change`: its new location when it or a parent
+ * moved, null when it was deleted, otherwise `path` itself
+ */
+export function followChange(path: string, change: FileSystemChange): string | null {
+  if (change.type === 'moved' && change.oldPath && isSubPath(change.oldPath, path)) {
+    return change.path + path.substring(change.oldPath.length);
+  }
+  if (change.type === 'deleted' && isSubPath(change.path, path)) {
+    return null;
+  }
+  return path;
+}
@@ -0,0 +1,120 @@
+import { dirname, joinPath, isValidFileName } from '@core/file-system';
+import type { FileItem } from '../../entities/file';
+import type { CaseTransform, RenamePreview, RenameRules } from './model';
+
+export interface BatchRenamePlan {
+  previews: RenamePreview[];
+  /**
+   * Why the rules can't be applied, e.g. an invalid regular expression
+   */
+  error: string | null;
+}
+
+const TOKEN_PATTERN = /\{(n|date|yyyy|mm|dd)\}/g;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+export class BatchRenameAPI {
+  private static instance: BatchRenameAPI;
+
+  static getInstance(): BatchRenameAPI {
+    if (!BatchRenameAPI.instance) {
+      BatchRenameAPI.instance = new BatchRenameAPI();
+    }
+    return BatchRenameAPI.instance;
+  }
+
+  /**
+   * New names for `items` under `rules`. A name is a collision when two
+   * items would get it, or when it is taken by anything in `existingPaths`
+   * that is not itself being renamed.
+   */
+  plan(items: FileItem[], rules: RenameRules, existingPaths: string[]): BatchRenamePlan {
+    let pattern: RegExp | null = null;
+    if (rules.find) {
+      try {
+        pattern = new RegExp(rules.useRegex ? rules.find : escapeRegExp(rules.find), rules.matchCase ? 'g' : 'gi');
+      } catch (error) {
+        return {
+          previews: items.map(file => ({ file, newName: file.name, status: 'unchanged' })),
+          error: error instanceof Error ? error.message : 'Invalid regular expression'
+        };
+      }
+    }
+
+    const targets = items.map((file, index) => this.rename(file, index, rules, pattern));
+    const renamedPaths = new Set(items.map(file => file.path));
+    const taken = new Set(existingPaths.filter(path => !renamedPaths.has(path)));
+    const counts = new Map<string, number>();
+    for (const [index, file] of items.entries()) {
+      const target = joinPath(dirname(file.path), targets[index]);
+      counts.set(target, (counts.get(target) ?? 0) + 1);
+    }
+
+    const previews = items.map((file, index): RenamePreview => {
+      const newName = targets[index];
+      const target = joinPath(dirname(file.path), newName);
+      if (!isValidFileName(newName)) return { file, newName, status: 'invalid' };
+      if (counts.get(target)! > 1 || taken.has(target)) return { file, newName, status: 'collision' };
+      return { file, newName, status: newName === file.name ? 'unchanged' : 'renamed' };
+    });
+    return { previews, error: null };
+  }
+
+  /**
+   * Whether a plan renames anything and is free of problems
+   */
+  canApply(plan: BatchRenamePlan): boolean {
+    return !plan.error
+      && plan.previews.some(preview => preview.status === 'renamed')
+      && plan.previews.every(preview => preview.status === 'renamed' || preview.status === 'unchanged');
+  }
+
+  // ==== Internals ====
+
+  private rename(file: FileItem, index: number, rules: RenameRules, pattern: RegExp | null): string {
+    const expand = (text: string) => text.replace(TOKEN_PATTERN, (_, token: string) => this.token(token, file, index, rules));
+
+    // Folders and dot-files have no extension to keep
+    const dot = file.name.lastIndexOf('.');
+    const keepsExtension = !rules.includeExtension && file.type === 'file' && dot > 0;
+    let stem = keepsExtension ? file.name.substring(0, dot) : file.name;
+    const extension = keepsExtension ? file.name.substring(dot) : '';
+
+    if (pattern) {
+      stem = stem.replace(pattern, expand(rules.replace));
+    }
+    stem = this.transformCase(stem, rules.caseTransform);
+    return expand(rules.prefix) + stem + expand(rules.suffix) + extension;
+  }
+
+  private token(token: string, file: FileItem, index: number, rules: RenameRules): string {
+    // `modified` is an ISO date (YYYY-MM-DD)
+    const [yyyy = '', mm = '', dd = ''] = (file.modified ?? '').split('-');
+    switch (token) {
+      case 'n':
+        return String(rules.start + index).padStart(rules.padding, '0');
+      case 'date':
+        return file.modified ?? '';
+      case 'yyyy':
+        return yyyy;
+      case 'mm':
+        return mm;
+      default:
+        return dd;
+    }
+  }
+
+  private transformCase(name: string, transform: CaseTransform): string {
+    switch (transform) {
+      case 'lower':
+        return name.toLowerCase();
+      case 'upper':
+        return name.toUpperCase();
+      case 'title':
+        return name.toLowerCase().replace(/(^|[\s_-])(\p{L})/gu, (_, separator: string, letter: string) => separator + letter.toUpperCase());
+      default:
+        return name;
+    }
+  }
+}
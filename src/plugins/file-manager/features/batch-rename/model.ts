@@ -0,0 +1,81 @@
+import { createSignal } from 'solid-js';
+import type { FileItem } from '../../entities/file';
+
+export type CaseTransform = 'none' | 'lower' | 'upper' | 'title';
+
+/**
+ * How new names are made. Prefix, suffix and replacement may contain the
+ * tokens `{n}` (sequence number) and `{date}`, `{yyyy}`, `{mm}`, `{dd}`
+ * (the item's modification date).
+ */
+export interface RenameRules {
+  find: string;
+  replace: string;
+  useRegex: boolean;
+  matchCase: boolean;
+  prefix: string;
+  suffix: string;
+  /**
+   * First `{n}`, zero-padded to `padding` digits
+   */
+  start: number;
+  padding: number;
+  caseTransform: CaseTransform;
+  /**
+   * Rename the extension too instead of keeping it as it is
+   */
+  includeExtension: boolean;
+}
+
+export type RenameStatus = 'unchanged' | 'renamed' | 'invalid' | 'collision';
+
+export interface RenamePreview {
+  file: FileItem;
+  newName: string;
+  status: RenameStatus;
+}
+
+export const DEFAULT_RENAME_RULES: RenameRules = {
+  find: '',
+  replace: '',
+  useRegex: false,
+  matchCase: false,
+  prefix: '',
+  suffix: '',
+  start: 1,
+  padding: 0,
+  caseTransform: 'none',
+  includeExtension: false
+};
+
+const [windowId, setWindowId] = createSignal<string | null>(null);
+const [items, setItems] = createSignal<FileItem[]>([]);
+const [rules, setRules] = createSignal<RenameRules>(DEFAULT_RENAME_RULES);
+
+export const batchRenameModel = {
+  /**
+   * Items the dialog renames, in the order they are numbered
+   */
+  items,
+  rules,
+
+  /**
+   * Whether the dialog belongs to this window; other file managers leave it alone
+   */
+  isOpenIn: (id: string) => windowId() === id && items().length > 0,
+
+  updateRules: (changes: Partial<RenameRules>) => {
+    setRules(prev => ({ ...prev, ...changes }));
+  },
+
+  open: (id: string, files: FileItem[]) => {
+    setRules(DEFAULT_RENAME_RULES);
+    setWindowId(id);
+    setItems(files);
+  },
+
+  close: () => {
+    setWindowId(null);
+    setItems([]);
+  }
+};
@@ -0,0 +1,104 @@
+import { storageEngine } from '@core/storage-abstraction';
+import { fileSystem, currentIdentity, HOME_PATH, TRASH_PATH, isSubPath } from '@core/file-system';
+import type { FileSystemChange } from '@core/file-system';
+import { followChange } from '../../entities/file';
+import { favoritesModel } from './model';
+
+const STORAGE_KEY_PREFIX = 'file_manager_favorites_';
+
+// What a user who never changed their favorites sees
+const DEFAULT_FAVORITES = [
+  HOME_PATH,
+  `${HOME_PATH}/Desktop`,
+  `${HOME_PATH}/Documents`,
+  `${HOME_PATH}/Downloads`
+];
+
+export class FavoritesAPI {
+  private static instance: FavoritesAPI;
+  private loadPromise: Promise<void> | null = null;
+  private owner: string | null = null;
+  private isWatching = false;
+
+  static getInstance(): FavoritesAPI {
+    if (!FavoritesAPI.instance) {
+      FavoritesAPI.instance = new FavoritesAPI();
+    }
+    return FavoritesAPI.instance;
+  }
+
+  /**
+   * Read the signed-in user's favorites; reads again only when the user changed
+   */
+  load(): Promise<void> {
+    const owner = currentIdentity().user;
+    if (!this.loadPromise || this.owner !== owner) {
+      this.owner = owner;
+      if (!this.isWatching) {
+        fileSystem.onChange(change => this.handleChange(change));
+        this.isWatching = true;
+      }
+      this.loadPromise = this.readFavorites(owner).catch(error => {
+        this.loadPromise = null;
+        console.error('[FileManager] Failed to load favorites:', error);
+      });
+    }
+    return this.loadPromise;
+  }
+
+  /**
+   * Pin folders to the sidebar; anything that is not a folder is skipped
+   */
+  async addFavorites(paths: string[], index?: number): Promise<void> {
+    await this.load();
+    let at = index;
+    for (const path of paths) {
+      try {
+        const inode = await fileSystem.stat(path);
+        if (inode.type !== 'directory' || isSubPath(TRASH_PATH, path)) continue;
+      } catch {
+        continue;
+      }
+      favoritesModel.add(path, at);
+      if (at !== undefined) at++;
+    }
+    await this.save();
+  }
+
+  async removeFavorite(path: string): Promise<void> {
+    await this.load();
+    favoritesModel.remove(path);
+    await this.save();
+  }
+
+  /**
+   * Favorites follow their folder when it is moved or renamed, and are
+   * unpinned when it is deleted or put in the Trash
+   */
+  private handleChange(change: FileSystemChange): void {
+    if (change.type !== 'moved' && change.type !== 'deleted') return;
+
+    const current = favoritesModel.favorites();
+    const next = current
+      .map(path => followChange(path, change))
+      .filter((path): path is string => !!path && !isSubPath(TRASH_PATH, path));
+
+    if (next.length !== current.length || next.some((path, i) => path !== current[i])) {
+      favoritesModel.setFavorites(next);
+      this.save();
+    }
+  }
+
+  private async readFavorites(owner: string): Promise<void> {
+    const stored = await storageEngine.get(`${STORAGE_KEY_PREFIX}${owner}`) as string[] | null;
+    if (owner === this.owner) favoritesModel.setFavorites(stored ?? DEFAULT_FAVORITES);
+  }
+
+  private async save(): Promise<void> {
+    try {
+      await storageEngine.set(`${STORAGE_KEY_PREFIX}${this.owner}`, favoritesModel.favorites());
+    } catch (error) {
+      console.error('[FileManager] Failed to save favorites:', error);
+    }
+  }
+}
@@ -0,0 +1,28 @@
+import { createSignal } from 'solid-js';
+
+// Folders pinned to the sidebar, in the order shown
+const [favorites, setFavorites] = createSignal<string[]>([]);
+
+export const favoritesModel = {
+  favorites,
+  setFavorites,
+
+  isFavorite: (path: string) => favorites().includes(path),
+
+  /**
+   * Pin `path` before the item at `index` (at the end by default);
+   * a folder that is already pinned moves there
+   */
+  add: (path: string, index?: number) => {
+    setFavorites(prev => {
+      const next = prev.filter(item => item !== path);
+      const at = index === undefined ? next.length : Math.min(index, next.length);
+      next.splice(at, 0, path);
+      return next;
+    });
+  },
+
+  remove: (path: string) => {
+    setFavorites(prev => prev.filter(item => item !== path));
+  }
+};
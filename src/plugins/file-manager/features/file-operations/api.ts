@@ -1,7 +1,60 @@
+import {
+  fileSystem,
+  trashManager,
+  archiveService,
+  hostTransfer,
+  TRASH_PATH,
+  joinPath,
+  dirname,
+  basename,
+  extname,
+  isSubPath,
+  isValidFileName,
+  isFileSystemError,
+  FileSystemError as FsError
+} from '@core/file-system';
+import type { HostDrop, Inode, TrashEntry } from '@core/file-system';
+import { eventBus } from '@core/event-bus';
+import { clipboard } from '@core/clipboard';
+import { jobQueue } from '@core/jobs';
+import type { JobContext } from '@core/jobs';
+import { createFileItem } from '../../entities/file';
 import type { FileItem, FileSystemError } from '../../entities/file';
+import { fileOperationsModel } from './model';
+import type { ConflictResolution, ConflictResolver, FileCommand, FileConflict, HistoryDirection, OperationProgress } from './model';
+
+export interface HistoryOptions {
+  /**
+   * Record the operation on this window's undo history
+   */
+  windowId?: string;
+}
+
+export interface TransferOptions extends HistoryOptions {
+  /**
+   * Asked whenever a target name is already taken. Without a resolver,
+   * conflicts fail with EEXIST.
+   */
+  onConflict?: ConflictResolver;
+}
+
+export interface PermissionChanges {
+  owner?: string;
+  group?: string;
+  mode?: number;
+}
+
+export interface CancellableActionOptions extends HistoryOptions {
+  /**
+   * Job and progress id, also used to cancel the operation
+   */
+  id?: string;
+}
 
 export class FileOperationsAPI {
   private static instance: FileOperationsAPI;
+  // Windows with an undo or redo under way
+  private busyHistories = new Set<string>();
 
   static getInstance(): FileOperationsAPI {
     if (!FileOperationsAPI.instance) {
@@ -10,149 +63,633 @@ export class FileOperationsAPI {
     return FileOperationsAPI.instance;
   }
 
-  async createFolder(parentPath: string, name: string): Promise<FileItem> {
+  async createFolder(parentPath: string, name: string, options: HistoryOptions = {}): Promise<FileItem> {
+    const path = joinPath(parentPath, name);
     try {
-      // Mock API call
-      await new Promise(resolve => setTimeout(resolve, 200));
-
-      const newFolder: FileItem = {
-        name,
-        type: 'folder',
-        path: `${parentPath}/${name}`,
-        modified: new Date().toISOString().split('T')[0],
-        permissions: {
-          read: true,
-          write: true,
-          execute: true
-        }
-      };
+      const inode = await fileSystem.mkdir(path);
+      this.record(options, this.createdCommand('New Folder', [path]));
+      return createFileItem({ path, inode });
+    } catch (error) {
+      throw this.handleError(error, path);
+    }
+  }
 
-      return newFolder;
+  async createFile(parentPath: string, name: string, options: HistoryOptions = {}): Promise<FileItem> {
+    const path = joinPath(parentPath, name);
+    try {
+      if (await fileSystem.exists(path)) {
+        throw new FsError('EEXIST', path);
+      }
+      const inode = await fileSystem.writeFile(path, '');
+      this.record(options, this.createdCommand('New File', [path]));
+      return createFileItem({ path, inode });
     } catch (error) {
-      throw this.handleError(error);
+      throw this.handleError(error, path);
     }
   }
 
-  async createFile(parentPath: string, name: string): Promise<FileItem> {
+  /**
+   * Move an item to the Trash
+   */
+  async deleteItem(path: string, options: HistoryOptions = {}): Promise<void> {
+    return this.deleteItems([path], options);
+  }
+
+  /**
+   * Move items to the Trash, undone together as one step
+   */
+  async deleteItems(paths: string[], options: HistoryOptions = {}): Promise<void> {
+    const trashed: TrashEntry[] = [];
+    let currentPath = paths[0] ?? '';
     try {
-      // Mock API call
-      await new Promise(resolve => setTimeout(resolve, 200));
-
-      const extension = name.split('.').pop();
-      const newFile: FileItem = {
-        name,
-        type: 'file',
-        path: `${parentPath}/${name}`,
-        size: 0,
-        modified: new Date().toISOString().split('T')[0],
-        extension,
-        permissions: {
-          read: true,
-          write: true,
-          execute: false
-        }
-      };
+      for (const path of paths) {
+        currentPath = path;
+        trashed.push(await trashManager.moveToTrash(path));
+      }
+    } catch (error) {
+      throw this.handleError(error, currentPath);
+    } finally {
+      if (trashed.length > 0) {
+        this.record(options, this.trashedCommand(trashed.map(entry => entry.trashPath)));
+      }
+    }
+  }
+
+  /**
+   * Delete an item for good, bypassing the Trash
+   */
+  async deletePermanently(path: string): Promise<void> {
+    try {
+      if (dirname(path) === TRASH_PATH) {
+        await trashManager.delete(path);
+      } else {
+        await fileSystem.remove(path, { recursive: true });
+      }
+    } catch (error) {
+      throw this.handleError(error, path);
+    }
+  }
 
-      return newFile;
+  /**
+   * Put a trashed item back at its original location
+   */
+  async restoreItem(trashPath: string, options: HistoryOptions = {}): Promise<FileItem> {
+    try {
+      const path = await trashManager.restore(trashPath);
+      this.record(options, this.createdCommand('Put Back', [path]));
+      const inode = await fileSystem.stat(path);
+      return createFileItem({ path, inode });
     } catch (error) {
-      throw this.handleError(error);
+      throw this.handleError(error, trashPath);
     }
   }
 
-  async deleteItem(path: string): Promise<void> {
+  async emptyTrash(): Promise<void> {
     try {
-      // Mock API call
-      await new Promise(resolve => setTimeout(resolve, 300));
-      // In real implementation, this would call file system API
+      await trashManager.empty();
     } catch (error) {
-      throw this.handleError(error);
+      throw this.handleError(error, TRASH_PATH);
     }
   }
 
-  async renameItem(path: string, newName: string): Promise<FileItem> {
+  async renameItem(path: string, newName: string, options: HistoryOptions = {}): Promise<FileItem> {
+    const newPath = joinPath(dirname(path), newName);
     try {
-      // Mock API call
-      await new Promise(resolve => setTimeout(resolve, 200));
-
-      const parentPath = path.substring(0, path.lastIndexOf('/'));
-      const renamedItem: FileItem = {
-        name: newName,
-        type: path.endsWith('/') ? 'folder' : 'file',
-        path: `${parentPath}/${newName}`,
-        modified: new Date().toISOString().split('T')[0],
-        permissions: {
-          read: true,
-          write: true,
-          execute: path.endsWith('/')
-        }
-      };
+      if (newName.includes('/')) {
+        throw new FsError('EINVAL', newPath, `Invalid file name: ${newName}`);
+      }
+      const inode = await fileSystem.rename(path, newPath);
+      this.record(options, this.movedCommand('Rename', [{ from: path, to: newPath }]));
+      return createFileItem({ path: newPath, inode });
+    } catch (error) {
+      throw this.handleError(error, path);
+    }
+  }
 
-      return renamedItem;
+  /**
+   * Rename several items as one step of the undo history. Items may trade
+   * names with each other; if any rename fails, none of them happen.
+   */
+  async renameItems(renames: { path: string; newName: string }[], options: HistoryOptions = {}): Promise<FileItem[]> {
+    const moves = renames
+      .map(({ path, newName }) => ({ from: path, to: joinPath(dirname(path), newName), newName }))
+      .filter(move => move.from !== move.to);
+    try {
+      const invalid = moves.find(move => !isValidFileName(move.newName));
+      if (invalid) {
+        throw new FsError('EINVAL', invalid.to, `Invalid file name: ${invalid.newName}`);
+      }
+      const inodes = await this.renameAll(moves);
+      if (moves.length > 0) {
+        this.record(options, this.renamedCommand(moves));
+      }
+      return moves.map((move, index) => createFileItem({ path: move.to, inode: inodes[index] }));
     } catch (error) {
-      throw this.handleError(error);
+      throw this.handleError(error, renames[0]?.path);
     }
   }
 
-  async copyItems(sourcePaths: string[], destinationPath: string): Promise<FileItem[]> {
+  /**
+   * Change owner, group and/or mode. Fails with EPERM unless the user owns
+   * the item (or acts as root).
+   */
+  async changePermissions(path: string, changes: PermissionChanges, options: HistoryOptions = {}): Promise<FileItem> {
     try {
-      // Mock API call
-      await new Promise(resolve => setTimeout(resolve, 500));
-
-      // Mock copied items
-      const copiedItems: FileItem[] = sourcePaths.map(path => {
-        const name = path.split('/').pop() || '';
-        return {
-          name,
-          type: 'file', // Simplified for mock
-          path: `${destinationPath}/${name}`,
-          size: 1024,
-          modified: new Date().toISOString().split('T')[0],
-          permissions: {
-            read: true,
-            write: true,
-            execute: false
-          }
-        };
+      const { owner, group, mode } = await fileSystem.stat(path);
+      const inode = await this.applyPermissions(path, changes);
+
+      const previous: PermissionChanges = {
+        owner: changes.owner !== undefined ? owner : undefined,
+        group: changes.group !== undefined ? group : undefined,
+        mode: changes.mode !== undefined ? mode : undefined
+      };
+      this.record(options, {
+        label: 'Change Permissions',
+        path,
+        undo: async () => { await this.applyPermissions(path, previous); },
+        redo: async () => { await this.applyPermissions(path, changes); }
       });
+      return createFileItem({ path, inode });
+    } catch (error) {
+      throw this.handleError(error, path);
+    }
+  }
 
-      return copiedItems;
+  /**
+   * Copy in the background; settles once the job has finished
+   */
+  async copyItems(sourcePaths: string[], destinationPath: string, options: TransferOptions = {}): Promise<FileItem[]> {
+    const title = `Copying ${this.describeItems(sourcePaths)} to "${basename(destinationPath) || '/'}"`;
+    return this.runJob(title, {}, context => this.transferItems('copy', sourcePaths, destinationPath, options, context), () => destinationPath);
+  }
+
+  async moveItems(sourcePaths: string[], destinationPath: string, options: TransferOptions = {}): Promise<FileItem[]> {
+    const title = `Moving ${this.describeItems(sourcePaths)} to "${basename(destinationPath) || '/'}"`;
+    return this.runJob(title, {}, context => this.transferItems('move', sourcePaths, destinationPath, options, context), () => destinationPath);
+  }
+
+  /**
+   * Put file references on the system clipboard for any app to paste
+   */
+  async copyToClipboard(paths: string[], operation: 'copy' | 'cut'): Promise<void> {
+    await clipboard.writeFiles(paths, operation, { source: 'file-manager' });
+  }
+
+  /**
+   * Copy or move the files on the system clipboard into `destinationPath`.
+   * Cut files are taken off the clipboard once moved.
+   */
+  async pasteFromClipboard(destinationPath: string, options: TransferOptions = {}): Promise<FileItem[]> {
+    const entry = await clipboard.current();
+    const references = await clipboard.readFiles();
+    if (!entry || !references?.paths.length) return [];
+
+    if (references.operation === 'cut') {
+      const moved = await this.moveItems(references.paths, destinationPath, options);
+      await clipboard.remove(entry.id);
+      return moved;
+    }
+    return this.copyItems(references.paths, destinationPath, options);
+  }
+
+  /**
+   * Keep operation progress and the clipboard mirrored in the model while
+   * a window shows them. Returns a function that stops.
+   */
+  watch(): () => void {
+    const updateProgress = (progress: OperationProgress) => fileOperationsModel.updateOperationProgress(progress);
+    const syncClipboard = () => {
+      this.syncClipboard().catch(error => console.error('[FileManager] Failed to read the clipboard:', error));
+    };
+    const unsubscribers = [
+      eventBus.on('archive:progress', updateProgress),
+      eventBus.on('transfer:progress', updateProgress),
+      eventBus.on('clipboard:changed', syncClipboard),
+      // Each user has a clipboard of their own
+      eventBus.on('auth:session-changed', syncClipboard)
+    ];
+    syncClipboard();
+
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }
+
+  /**
+   * Mirror the clipboard's file references into the model, e.g. to enable Paste
+   */
+  async syncClipboard(): Promise<void> {
+    const references = await clipboard.readFiles();
+    fileOperationsModel.setClipboard(references?.paths.length
+      ? { items: references.paths, operation: references.operation }
+      : { items: [], operation: null });
+  }
+
+  /**
+   * Pack the items into a ZIP next to the first one: "<name>.zip" for a
+   * single item, "Archive.zip" for several
+   */
+  async compressItems(paths: string[], options: CancellableActionOptions = {}): Promise<FileItem> {
+    const name = paths.length === 1 ? `${basename(paths[0])}.zip` : 'Archive.zip';
+    let path = joinPath(dirname(paths[0] ?? ''), name);
+
+    return this.runJob(`Compressing ${this.describeItems(paths)}`, options, async context => {
+      path = await fileSystem.getAvailablePath(path);
+      const inode = await archiveService.compress(paths, path, this.archiveOptions(context));
+      this.record(options, this.createdCommand('Compress', [path]));
+      return createFileItem({ path, inode });
+    }, () => path);
+  }
+
+  /**
+   * Unpack an archive into a new folder named after it. An archive holding
+   * a single top-level folder does not get nested twice.
+   */
+  async extractHere(archivePath: string, options: CancellableActionOptions = {}): Promise<FileItem> {
+    const name = basename(archivePath);
+    const extension = extname(archivePath);
+    const stem = extension ? name.slice(0, -(extension.length + 1)) : name;
+    let path = joinPath(dirname(archivePath), stem || name);
+
+    return this.runJob(`Extracting "${name}"`, options, async context => {
+      path = await fileSystem.getAvailablePath(path);
+      await archiveService.extract(archivePath, path, { ...this.archiveOptions(context), stripSingleRoot: true });
+      this.record(options, this.createdCommand('Extract', [path]));
+      return createFileItem({ path, inode: await fileSystem.stat(path) });
+    }, () => archivePath);
+  }
+
+  /**
+   * Write files and folders dropped from the host desktop into `destination`
+   */
+  async importFromHost(drop: HostDrop, destination: string, options: CancellableActionOptions = {}): Promise<string[]> {
+    return this.runJob(`Importing into "${basename(destination) || '/'}"`, options, async context => {
+      const imported = await hostTransfer.import(drop, destination, this.archiveOptions(context));
+      if (imported.length > 0) {
+        this.record(options, this.createdCommand('Import', imported));
+      }
+      return imported;
+    }, () => destination);
+  }
+
+  /**
+   * Save a file, or a folder as a ZIP archive, to the host's downloads
+   */
+  async downloadItem(path: string, options: CancellableActionOptions = {}): Promise<void> {
+    return this.runJob(`Downloading "${basename(path)}"`, options, context => hostTransfer.download(path, this.archiveOptions(context)), () => path);
+  }
+
+  /**
+   * Revert the window's most recent operation. Returns what was undone,
+   * or null when there was nothing to undo.
+   */
+  async undo(windowId: string): Promise<FileCommand | null> {
+    return this.stepHistory(windowId, 'undo');
+  }
+
+  /**
+   * Apply the most recently undone operation again
+   */
+  async redo(windowId: string): Promise<FileCommand | null> {
+    return this.stepHistory(windowId, 'redo');
+  }
+
+  /**
+   * Stop a queued or running operation; it fails with ECANCELED
+   */
+  cancelOperation(id: string): void {
+    jobQueue.cancel(id);
+  }
+
+  /**
+   * Run `run` as a background job. Settles with the job, so callers can
+   * await it without holding up anything else.
+   */
+  private async runJob<T>(
+    title: string,
+    options: CancellableActionOptions,
+    run: (context: JobContext) => Promise<T>,
+    errorPath: () => string
+  ): Promise<T> {
+    const job = jobQueue.submit(title, run, { id: options.id, source: 'file-manager' });
+    try {
+      return await job.result;
     } catch (error) {
-      throw this.handleError(error);
+      // Cancelled while still queued, before it could fail with ECANCELED
+      const cancelled = jobQueue.get(job.id)?.state === 'cancelled' && !isFileSystemError(error);
+      throw this.handleError(cancelled ? new FsError('ECANCELED', errorPath()) : error, errorPath());
     }
   }
 
-  async moveItems(sourcePaths: string[], destinationPath: string): Promise<FileItem[]> {
+  /**
+   * Progress ids, cancellation and pausing for the archive and transfer services
+   */
+  private archiveOptions(context: JobContext) {
+    return {
+      id: context.id,
+      signal: context.signal,
+      waitIfPaused: context.waitIfPaused,
+      onProgress: (progress: OperationProgress) => context.report({
+        processed: progress.processed,
+        total: progress.total,
+        detail: progress.currentPath
+      })
+    };
+  }
+
+  private describeItems(paths: string[]): string {
+    return paths.length === 1 ? `"${basename(paths[0])}"` : `${paths.length} items`;
+  }
+
+  /**
+   * Copy or move each source into the destination folder, asking the
+   * resolver about name collisions. An "apply to all" answer is reused for
+   * the remaining conflicts of the same call. A replaced item goes to the
+   * Trash, and comes back if its replacement can't be transferred or is
+   * undone. Pausing and cancelling take effect between items.
+   */
+  private async transferItems(
+    operation: FileConflict['operation'],
+    sourcePaths: string[],
+    destinationPath: string,
+    options: TransferOptions,
+    context: JobContext
+  ): Promise<FileItem[]> {
+    const results: FileItem[] = [];
+    const transferred: { from: string; to: string }[] = [];
+    // Trash paths of the items that were replaced
+    const replaced: string[] = [];
+    let rememberedResolution: ConflictResolution | null = null;
+
     try {
-      // Mock API call
-      await new Promise(resolve => setTimeout(resolve, 500));
-
-      // Mock moved items
-      const movedItems: FileItem[] = sourcePaths.map(path => {
-        const name = path.split('/').pop() || '';
-        return {
-          name,
-          type: 'file', // Simplified for mock
-          path: `${destinationPath}/${name}`,
-          modified: new Date().toISOString().split('T')[0],
-          permissions: {
-            read: true,
-            write: true,
-            execute: false
+      const destination = await fileSystem.stat(destinationPath);
+      if (destination.type !== 'directory') {
+        throw new FsError('ENOTDIR', destinationPath);
+      }
+
+      for (const [index, sourcePath] of sourcePaths.entries()) {
+        context.report({ processed: index, total: sourcePaths.length, detail: sourcePath });
+        await context.waitIfPaused();
+        if (context.signal.aborted) {
+          throw new FsError('ECANCELED', sourcePath);
+        }
+
+        const source = await fileSystem.stat(sourcePath);
+        let targetPath = joinPath(destinationPath, basename(sourcePath));
+
+        // Moving an item onto itself is a no-op
+        if (operation === 'move' && targetPath === sourcePath) {
+          results.push(createFileItem({ path: sourcePath, inode: source }));
+          continue;
+        }
+
+        let replacedTrashPath: string | null = null;
+
+        // Duplicating inside the same folder always keeps both
+        if (operation === 'copy' && targetPath === sourcePath) {
+          targetPath = await fileSystem.getAvailablePath(targetPath);
+        } else if (await fileSystem.exists(targetPath)) {
+          const target = await fileSystem.stat(targetPath);
+          const conflict: FileConflict = {
+            operation,
+            sourcePath,
+            targetPath,
+            sourceType: source.type === 'directory' ? 'folder' : 'file',
+            targetType: target.type === 'directory' ? 'folder' : 'file'
+          };
+
+          const resolution: ConflictResolution = rememberedResolution ?? await this.resolveConflict(conflict, options, context);
+          if (resolution.applyToAll) {
+            rememberedResolution = resolution;
           }
-        };
-      });
 
-      return movedItems;
+          if (resolution.action === 'skip') {
+            continue;
+          }
+          if (resolution.action === 'keep-both') {
+            targetPath = await fileSystem.getAvailablePath(targetPath);
+          } else if (isSubPath(targetPath, sourcePath)) {
+            // Replacing a folder that contains the source would destroy the source
+            throw new FsError('EINVAL', targetPath, `Cannot replace '${targetPath}' with an item it contains`);
+          } else {
+            replacedTrashPath = (await trashManager.moveToTrash(targetPath)).trashPath;
+          }
+        }
+
+        let inode: Inode;
+        try {
+          inode = operation === 'copy'
+            ? await fileSystem.copy(sourcePath, targetPath)
+            : await fileSystem.rename(sourcePath, targetPath);
+        } catch (error) {
+          if (replacedTrashPath) {
+            await fileSystem.remove(targetPath, { recursive: true }).catch(() => undefined);
+            await trashManager.restore(replacedTrashPath).catch(() => undefined);
+          }
+          throw error;
+        }
+
+        if (replacedTrashPath) replaced.push(replacedTrashPath);
+        transferred.push({ from: sourcePath, to: targetPath });
+        results.push(createFileItem({ path: targetPath, inode }));
+      }
+
+      context.report({ processed: sourcePaths.length, total: sourcePaths.length });
+      return results;
+    } finally {
+      // Whatever was done before a failure can still be undone
+      if (transferred.length > 0) {
+        const command = operation === 'copy'
+          ? this.createdCommand('Copy', transferred.map(item => item.to))
+          : this.movedCommand('Move', transferred);
+        this.record(options, replaced.length > 0 ? this.replacingCommand(command, replaced) : command);
+      }
+    }
+  }
+
+  private async stepHistory(windowId: string, direction: HistoryDirection): Promise<FileCommand | null> {
+    const command = fileOperationsModel.nextCommand(windowId, direction);
+    if (!command || this.busyHistories.has(windowId)) return null;
+
+    this.busyHistories.add(windowId);
+    try {
+      await command[direction]();
+      fileOperationsModel.completeCommand(windowId, direction);
+      return command;
+    } catch (error) {
+      throw this.handleError(error, command.path);
+    } finally {
+      this.busyHistories.delete(windowId);
+    }
+  }
+
+  private record(options: HistoryOptions, command: FileCommand): void {
+    if (options.windowId) {
+      fileOperationsModel.recordCommand(options.windowId, command);
+    }
+  }
+
+  /**
+   * Items that were created (or put back). Undoing moves them to the Trash,
+   * redoing puts them back from there.
+   */
+  private createdCommand(label: string, paths: string[]): FileCommand {
+    let current = paths;
+    let trashed: string[] = [];
+
+    return {
+      label,
+      path: paths[0],
+      undo: async () => {
+        trashed = [];
+        for (const path of current) {
+          trashed.push((await trashManager.moveToTrash(path)).trashPath);
+        }
+      },
+      redo: async () => {
+        current = [];
+        for (const trashPath of trashed) {
+          current.push(await trashManager.restore(trashPath));
+        }
+      }
+    };
+  }
+
+  /**
+   * Items moved to the Trash; the reverse of createdCommand
+   */
+  private trashedCommand(trashPaths: string[]): FileCommand {
+    let trashed = trashPaths;
+    let restored: string[] = [];
+
+    return {
+      label: 'Move to Trash',
+      path: TRASH_PATH,
+      undo: async () => {
+        restored = [];
+        for (const trashPath of trashed) {
+          restored.push(await trashManager.restore(trashPath));
+        }
+      },
+      redo: async () => {
+        trashed = [];
+        for (const path of restored) {
+          trashed.push((await trashManager.moveToTrash(path)).trashPath);
+        }
+      }
+    };
+  }
+
+  /**
+   * Items moved or renamed
+   */
+  private movedCommand(label: string, moves: { from: string; to: string }[]): FileCommand {
+    return {
+      label,
+      path: moves[0].to,
+      undo: async () => {
+        for (const { from, to } of [...moves].reverse()) {
+          await fileSystem.rename(to, from);
+        }
+      },
+      redo: async () => {
+        for (const { from, to } of moves) {
+          await fileSystem.rename(from, to);
+        }
+      }
+    };
+  }
+
+  /**
+   * A copy or move that sent the items it replaced to the Trash. Undoing
+   * puts them back once the transferred items are out of the way.
+   */
+  private replacingCommand(command: FileCommand, replacedTrashPaths: string[]): FileCommand {
+    const replaced = this.trashedCommand(replacedTrashPaths);
+
+    return {
+      label: command.label,
+      path: command.path,
+      undo: async () => {
+        await command.undo();
+        await replaced.undo();
+      },
+      redo: async () => {
+        await replaced.redo();
+        await command.redo();
+      }
+    };
+  }
+
+  /**
+   * A batch rename, which may have swapped names around
+   */
+  private renamedCommand(moves: { from: string; to: string }[]): FileCommand {
+    return {
+      label: 'Rename',
+      path: moves[0].to,
+      undo: async () => {
+        await this.renameAll(moves.map(({ from, to }) => ({ from: to, to: from })));
+      },
+      redo: async () => {
+        await this.renameAll(moves);
+      }
+    };
+  }
+
+  /**
+   * Everything is moved aside to a temporary name before taking its new
+   * one, so a name can pass from one item to another. A failure puts
+   * back whatever was already renamed.
+   */
+  private async renameAll(moves: { from: string; to: string }[]): Promise<Inode[]> {
+    const done: { from: string; to: string }[] = [];
+    try {
+      const staged: string[] = [];
+      for (const { from } of moves) {
+        const temporary = await fileSystem.getAvailablePath(joinPath(dirname(from), `.${basename(from)}.renaming`));
+        await fileSystem.rename(from, temporary);
+        done.push({ from, to: temporary });
+        staged.push(temporary);
+      }
+
+      const inodes: Inode[] = [];
+      for (const [index, { to }] of moves.entries()) {
+        inodes.push(await fileSystem.rename(staged[index], to));
+        done.push({ from: staged[index], to });
+      }
+      return inodes;
     } catch (error) {
-      throw this.handleError(error);
+      for (const { from, to } of done.reverse()) {
+        await fileSystem.rename(to, from).catch(() => undefined);
+      }
+      throw error;
+    }
+  }
+
+  private async applyPermissions(path: string, changes: PermissionChanges): Promise<Inode> {
+    if (changes.owner !== undefined || changes.group !== undefined) {
+      await fileSystem.chown(path, changes.owner, changes.group);
+    }
+    return changes.mode !== undefined
+      ? await fileSystem.chmod(path, changes.mode)
+      : await fileSystem.stat(path);
+  }
+
+  private async resolveConflict(
+    conflict: FileConflict,
+    options: TransferOptions,
+    context: JobContext
+  ): Promise<ConflictResolution> {
+    if (!options.onConflict) {
+      throw new FsError('EEXIST', conflict.targetPath);
     }
+    return options.onConflict(conflict, context.signal);
   }
 
-  private handleError(error: unknown): FileSystemError {
+  private handleError(error: unknown, path = ''): FileSystemError {
     return {
-      code: 'FILE_OPERATION_ERROR',
+      code: isFileSystemError(error) ? error.code : 'FILE_OPERATION_ERROR',
       message: error instanceof Error ? error.message : 'File operation failed',
-      path: ''
+      path: isFileSystemError(error) ? error.path : path
     };
   }
-}
\ No newline at end of file
+}
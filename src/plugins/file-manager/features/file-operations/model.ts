@@ -1,8 +1,10 @@
 import { createSignal } from 'solid-js';
+import { FileSystemError as FsError } from '@core/file-system';
+import type { ArchiveProgress, HostImportProgress } from '@core/file-system';
 import type { FileItem, FileSystemError } from '../../entities/file';
 
 export interface FileOperation {
-  type: 'copy' | 'move' | 'delete' | 'create' | 'rename';
+  type: 'copy' | 'move' | 'delete' | 'create' | 'rename' | 'compress' | 'extract';
   source: string;
   destination?: string;
   status: 'pending' | 'in-progress' | 'completed' | 'error';
@@ -10,8 +12,71 @@ export interface FileOperation {
   error?: FileSystemError;
 }
 
+export type ConflictAction = 'replace' | 'keep-both' | 'skip';
+
+export interface FileConflict {
+  operation: 'copy' | 'move';
+  sourcePath: string;
+  targetPath: string;
+  sourceType: FileItem['type'];
+  targetType: FileItem['type'];
+}
+
+export interface ConflictResolution {
+  action: ConflictAction;
+  applyToAll?: boolean;
+}
+
+/**
+ * Rejects with ECANCELED once `signal` aborts
+ */
+export type ConflictResolver = (conflict: FileConflict, signal?: AbortSignal) => Promise<ConflictResolution>;
+
+/**
+ * A long-running operation shown with a progress bar
+ */
+export type OperationProgress = ArchiveProgress | HostImportProgress;
+
+/**
+ * A recorded mutation that can be reverted and applied again
+ */
+export interface FileCommand {
+  /**
+   * What was done, e.g. "Move" for "Undo Move"
+   */
+  label: string;
+  /**
+   * The item it acts on (the first, for several), for error reports
+   */
+  path: string;
+  undo: () => Promise<void>;
+  redo: () => Promise<void>;
+}
+
+export type HistoryDirection = 'undo' | 'redo';
+
+interface CommandHistory {
+  undo: FileCommand[];
+  redo: FileCommand[];
+}
+
+// Oldest commands are forgotten beyond this
+const MAX_HISTORY = 50;
+
+const EMPTY_HISTORY: CommandHistory = { undo: [], redo: [] };
+
+interface PendingConflict {
+  windowId: string;
+  conflict: FileConflict;
+  resolve: (resolution: ConflictResolution) => void;
+  reject: (error: Error) => void;
+}
+
 export interface FileOperationsState {
   operations: FileOperation[];
+  /**
+   * Files on the system clipboard
+   */
   clipboard: {
     items: string[];
     operation: 'copy' | 'cut' | null;
@@ -23,6 +88,23 @@ const [clipboard, setClipboard] = createSignal<FileOperationsState['clipboard']>
   items: [],
   operation: null
 });
+// Unanswered conflicts, oldest first; each window shows its first one
+const [pendingConflicts, setPendingConflicts] = createSignal<PendingConflict[]>([]);
+const [operationProgress, setOperationProgress] = createSignal<OperationProgress[]>([]);
+// Undo/redo stacks per window, newest last
+const [histories, setHistories] = createSignal<Record<string, CommandHistory>>({});
+
+const dropConflict = (pending: PendingConflict): boolean => {
+  const queued = pendingConflicts().includes(pending);
+  if (queued) setPendingConflicts(prev => prev.filter(item => item !== pending));
+  return queued;
+};
+
+const cancelledConflict = (conflict: FileConflict) => new FsError('ECANCELED', conflict.sourcePath);
+
+const updateHistory = (windowId: string, update: (history: CommandHistory) => CommandHistory) => {
+  setHistories(prev => ({ ...prev, [windowId]: update(prev[windowId] ?? EMPTY_HISTORY) }));
+};
 
 export const fileOperationsModel = {
   operations,
@@ -30,16 +112,60 @@ export const fileOperationsModel = {
   clipboard,
   setClipboard,
 
-  copyToClipboard: (paths: string[]) => {
-    setClipboard({ items: paths, operation: 'copy' });
+  /**
+   * The conflict a window's dialog should ask about next
+   */
+  pendingConflict: (windowId: string) =>
+    pendingConflicts().find(pending => pending.windowId === windowId)?.conflict ?? null,
+
+  /**
+   * Conflict resolver for FileOperationsAPI - queues the conflict until the
+   * user answers it through the window's conflict dialog. Conflicts from
+   * concurrent transfers are asked one after another.
+   */
+  conflictResolver: (windowId: string): ConflictResolver => (conflict, signal) => {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(cancelledConflict(conflict));
+        return;
+      }
+
+      const pending: PendingConflict = { windowId, conflict, resolve, reject };
+      signal?.addEventListener('abort', () => {
+        if (dropConflict(pending)) reject(cancelledConflict(conflict));
+      }, { once: true });
+      setPendingConflicts(prev => [...prev, pending]);
+    });
   },
 
-  cutToClipboard: (paths: string[]) => {
-    setClipboard({ items: paths, operation: 'cut' });
+  /**
+   * Answer the conflict a window is showing
+   */
+  resolveConflict: (windowId: string, resolution: ConflictResolution) => {
+    const pending = pendingConflicts().find(item => item.windowId === windowId);
+    if (pending && dropConflict(pending)) pending.resolve(resolution);
   },
 
-  clearClipboard: () => {
-    setClipboard({ items: [], operation: null });
+  /**
+   * Fail every conflict a window still has queued, e.g. when it closes
+   */
+  cancelConflicts: (windowId: string) => {
+    const cancelled = pendingConflicts().filter(pending => pending.windowId === windowId);
+    setPendingConflicts(prev => prev.filter(pending => pending.windowId !== windowId));
+    cancelled.forEach(pending => pending.reject(cancelledConflict(pending.conflict)));
+  },
+
+  operationProgress,
+
+  /**
+   * Track an `archive:progress` or `transfer:progress` event; finished
+   * operations drop out
+   */
+  updateOperationProgress: (progress: OperationProgress) => {
+    setOperationProgress(prev => {
+      const others = prev.filter(item => item.id !== progress.id);
+      return progress.status === 'running' ? [...others, progress] : others;
+    });
   },
 
   addOperation: (operation: Omit<FileOperation, 'status'>) => {
@@ -61,5 +187,43 @@ export const fileOperationsModel = {
 
   removeOperation: (id: string) => {
     setOperations(prev => prev.filter(op => op.source !== id));
+  },
+
+  /**
+   * The command the next undo (or redo) in a window would apply
+   */
+  nextCommand: (windowId: string, direction: HistoryDirection): FileCommand | null => {
+    const stack = histories()[windowId]?.[direction] ?? [];
+    return stack[stack.length - 1] ?? null;
+  },
+
+  /**
+   * Record a new command; anything that could be redone is forgotten
+   */
+  recordCommand: (windowId: string, command: FileCommand) => {
+    updateHistory(windowId, history => ({ undo: [...history.undo, command].slice(-MAX_HISTORY), redo: [] }));
+  },
+
+  /**
+   * Move the next command over to the other stack once it has been applied
+   */
+  completeCommand: (windowId: string, direction: HistoryDirection) => {
+    updateHistory(windowId, history => {
+      const from = history[direction];
+      const command = from[from.length - 1];
+      if (!command) return history;
+
+      return direction === 'undo'
+        ? { undo: from.slice(0, -1), redo: [...history.redo, command] }
+        : { undo: [...history.undo, command], redo: from.slice(0, -1) };
+    });
+  },
+
+  clearHistory: (windowId: string) => {
+    setHistories(prev => {
+      const next = { ...prev };
+      delete next[windowId];
+      return next;
+    });
   }
 };
\ No newline at end of file
@@ -0,0 +1,70 @@
+import { fileSystem, currentIdentity, isFileSystemError } from '@core/file-system';
+import { createFileItem } from '../../entities/file';
+import type { FileItem, FileSystemError, FileSystemStats } from '../../entities/file';
+import type { GetInfoModel } from './model';
+
+export class GetInfoAPI {
+  private static instance: GetInfoAPI;
+
+  static getInstance(): GetInfoAPI {
+    if (!GetInfoAPI.instance) {
+      GetInfoAPI.instance = new GetInfoAPI();
+    }
+    return GetInfoAPI.instance;
+  }
+
+  /**
+   * Open the panel on fresh details of an item; a folder's totals follow
+   */
+  async show(model: GetInfoModel, path: string): Promise<void> {
+    model.setStats(null);
+    const info = await this.getInfo(path);
+    model.setItem(info);
+    if (info.type === 'folder') {
+      model.setStats(await this.getFolderStats(info.path));
+    }
+  }
+
+  async getInfo(path: string): Promise<FileItem> {
+    try {
+      return createFileItem({ path, inode: await fileSystem.stat(path) });
+    } catch (error) {
+      throw this.handleError(error, path);
+    }
+  }
+
+  /**
+   * Totals for everything inside a folder
+   */
+  async getFolderStats(path: string): Promise<FileSystemStats> {
+    try {
+      const usage = await fileSystem.diskUsage(path);
+      return { totalFiles: usage.files, totalFolders: usage.folders, totalSize: usage.size };
+    } catch (error) {
+      throw this.handleError(error, path);
+    }
+  }
+
+  /**
+   * Owners (and root) may change the mode
+   */
+  canChangeMode(file: FileItem): boolean {
+    const identity = currentIdentity();
+    return identity.isRoot || identity.user === file.owner;
+  }
+
+  /**
+   * Only root may hand items to someone else
+   */
+  canChangeOwner(): boolean {
+    return currentIdentity().isRoot;
+  }
+
+  private handleError(error: unknown, path: string): FileSystemError {
+    return {
+      code: isFileSystemError(error) ? error.code : 'FILE_OPERATION_ERROR',
+      message: error instanceof Error ? error.message : 'Failed to get info',
+      path: isFileSystemError(error) ? error.path : path
+    };
+  }
+}
@@ -0,0 +1,28 @@
+import { createSignal } from 'solid-js';
+import type { FileItem, FileSystemStats } from '../../entities/file';
+
+/**
+ * The Get Info panel of one file manager window
+ */
+export function createGetInfoModel() {
+  const [item, setItem] = createSignal<FileItem | null>(null);
+  const [stats, setStats] = createSignal<FileSystemStats | null>(null);
+
+  return {
+    item,
+    setItem,
+
+    /**
+     * Contents of a folder, once counted
+     */
+    stats,
+    setStats,
+
+    close: () => {
+      setItem(null);
+      setStats(null);
+    }
+  };
+}
+
+export type GetInfoModel = ReturnType<typeof createGetInfoModel>;
@@ -1,4 +1,11 @@
+import { fileSystem, isFileSystemError, isHiddenName, dirname, normalizePath, splitPath, isSubPath, TRASH_PATH } from '@core/file-system';
+import type { FileSystemChange } from '@core/file-system';
+import { createFileItem, compareFileItems } from '../../entities/file';
 import type { FileItem, FileSystemError } from '../../entities/file';
+import type { FolderListing, FolderPane } from './model';
+
+// Coalesce bursts of file system changes (extracting, pasting) into one reload
+const REFRESH_DEBOUNCE_MS = 50;
 
 export class NavigationAPI {
   private static instance: NavigationAPI;
@@ -12,53 +19,101 @@ export class NavigationAPI {
 
   async navigateToPath(path: string): Promise<FileItem[]> {
     try {
-      // Mock API call - in real implementation, this would call file system API
-      await new Promise(resolve => setTimeout(resolve, 100));
+      const entries = await fileSystem.readdir(path);
+      // Everything in the Trash is shown, hidden or not
+      const showHidden = normalizePath(path) === TRASH_PATH;
+      return entries
+        .filter(entry => showHidden || !isHiddenName(entry.inode.name))
+        .map(createFileItem)
+        .sort(compareFileItems);
+    } catch (error) {
+      throw this.handleError(error, path);
+    }
+  }
 
-      const mockFiles = this.getMockFiles(path);
-      return mockFiles;
+  /**
+   * Reload a pane's listing; quiet reloads keep the current one on screen meanwhile
+   */
+  async loadPane(pane: FolderPane, path: string, options: { quiet?: boolean } = {}): Promise<void> {
+    if (!options.quiet) pane.setIsLoading(true);
+    try {
+      const fileItems = await this.navigateToPath(path);
+      // A slow listing must not replace the one for a folder navigated to since
+      if (path === pane.navigation.currentPath()) pane.setFiles(fileItems);
     } catch (error) {
-      throw this.handleError(error);
+      console.error('[FileManager] Failed to load files:', error);
+      if (path === pane.navigation.currentPath()) pane.setFiles([]);
+    } finally {
+      if (!options.quiet) pane.setIsLoading(false);
     }
   }
 
-  async getParentPath(path: string): Promise<string> {
-    if (path === '/' || path === '') return '/';
-    const parts = path.split('/').filter(part => part !== '');
-    parts.pop();
-    return '/' + parts.join('/');
+  /**
+   * List the folders above `path` for the column view, root first; the
+   * current folder itself is the pane's own listing
+   */
+  async loadColumns(pane: FolderPane, path: string): Promise<void> {
+    const parts = splitPath(path);
+    const columns: FolderListing[] = [];
+    for (let depth = 0; depth < parts.length; depth++) {
+      const folder = '/' + parts.slice(0, depth).join('/');
+      try {
+        columns.push({ path: folder, files: await this.navigateToPath(folder) });
+      } catch {
+        // A folder we can't read above this one still gets its column
+        columns.push({ path: folder, files: [] });
+      }
+    }
+    if (path === pane.navigation.currentPath()) pane.setColumns(columns);
   }
 
-  private getMockFiles(path: string): FileItem[] {
-    // Mock file system data based on path
-    const baseFiles: FileItem[] = [
-      { name: 'Documents', type: 'folder', modified: '2024-01-15', path: `${path}/Documents` },
-      { name: 'Downloads', type: 'folder', modified: '2024-01-14', path: `${path}/Downloads` },
-      { name: 'Pictures', type: 'folder', modified: '2024-01-13', path: `${path}/Pictures` },
-      { name: 'Music', type: 'folder', modified: '2024-01-12', path: `${path}/Music` },
-      { name: 'Videos', type: 'folder', modified: '2024-01-11', path: `${path}/Videos` },
-      { name: 'readme.txt', type: 'file', size: 1024, modified: '2024-01-10', path: `${path}/readme.txt`, extension: 'txt' },
-      { name: 'config.json', type: 'file', size: 2048, modified: '2024-01-09', path: `${path}/config.json`, extension: 'json' },
-      { name: 'app.log', type: 'file', size: 5120, modified: '2024-01-08', path: `${path}/app.log`, extension: 'log' },
-    ];
+  /**
+   * Follow changes to the folder a pane shows, made anywhere - other
+   * windows, the terminal, the desktop. Returns a function that stops.
+   */
+  watchFolder(pane: FolderPane, path: string): () => void {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const unwatch = fileSystem.watch(path, {}, (change) => {
+      if (this.followFolder(pane, path, change)) return;
+      clearTimeout(timer);
+      timer = setTimeout(() => this.loadPane(pane, path, { quiet: true }), REFRESH_DEBOUNCE_MS);
+    });
 
-    // Add special items for specific paths
-    if (path === '/') {
-      baseFiles.unshift(
-        { name: 'home', type: 'folder', modified: '2024-01-16', path: '/home' },
-        { name: 'usr', type: 'folder', modified: '2024-01-16', path: '/usr' },
-        { name: 'etc', type: 'folder', modified: '2024-01-16', path: '/etc' }
+    return () => {
+      unwatch();
+      clearTimeout(timer);
+    };
+  }
+
+  async getParentPath(path: string): Promise<string> {
+    return dirname(path || '/');
+  }
+
+  /**
+   * Keep showing the folder when it is moved, or step out of it when it is
+   * deleted. Returns true when the change was handled that way.
+   */
+  private followFolder(pane: FolderPane, path: string, change: FileSystemChange): boolean {
+    if (change.type === 'moved' && change.oldPath && isSubPath(change.oldPath, path)) {
+      // Moving to the Trash reads as deleting
+      const trashed = isSubPath(TRASH_PATH, change.path) && !isSubPath(TRASH_PATH, path);
+      pane.navigation.navigateToPath(
+        trashed ? dirname(change.oldPath) : change.path + path.substring(change.oldPath.length)
       );
+      return true;
     }
-
-    return baseFiles;
+    if (change.type === 'deleted' && isSubPath(change.path, path)) {
+      pane.navigation.navigateToPath(dirname(change.path));
+      return true;
+    }
+    return false;
   }
 
-  private handleError(error: unknown): FileSystemError {
+  private handleError(error: unknown, path: string): FileSystemError {
     return {
-      code: 'NAVIGATION_ERROR',
+      code: isFileSystemError(error) ? error.code : 'NAVIGATION_ERROR',
       message: error instanceof Error ? error.message : 'Failed to navigate to path',
-      path: ''
+      path: isFileSystemError(error) ? error.path : path
     };
   }
-}
\ No newline at end of file
+}
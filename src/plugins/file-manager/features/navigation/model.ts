@@ -1,57 +1,240 @@
 import { createSignal } from 'solid-js';
+import type { Accessor, Setter } from 'solid-js';
+import { basename, TRASH_PATH } from '@core/file-system';
 import type { FileItem } from '../../entities/file';
 
+export type ViewMode = 'grid' | 'list' | 'columns';
+
 export interface NavigationState {
   currentPath: string;
   pathHistory: string[];
   selectedItems: string[];
 }
 
-const [currentPath, setCurrentPath] = createSignal<string>('/');
-const [pathHistory, setPathHistory] = createSignal<string[]>(['/']);
-const [selectedItems, setSelectedItems] = createSignal<string[]>([]);
-
-export const navigationModel = {
-  currentPath,
-  setCurrentPath,
-  pathHistory,
-  setPathHistory,
-  selectedItems,
-  setSelectedItems,
-
-  navigateToPath: (path: string) => {
-    const history = pathHistory();
-    if (history[history.length - 1] !== path) {
-      setPathHistory([...history, path]);
-    }
-    setCurrentPath(path);
-    setSelectedItems([]);
-  },
+/**
+ * Navigation state of one folder view; every tab and split pane has its own
+ */
+export function createNavigationModel(initialPath = '/') {
+  const [currentPath, setCurrentPath] = createSignal<string>(initialPath);
+  const [pathHistory, setPathHistory] = createSignal<string[]>([initialPath]);
+  const [selectedItems, setSelectedItems] = createSignal<string[]>([]);
 
-  goBack: () => {
-    const history = pathHistory();
-    if (history.length > 1) {
-      const newHistory = history.slice(0, -1);
-      setPathHistory(newHistory);
-      setCurrentPath(newHistory[newHistory.length - 1]);
+  return {
+    currentPath,
+    setCurrentPath,
+    pathHistory,
+    setPathHistory,
+    selectedItems,
+    setSelectedItems,
+
+    navigateToPath: (path: string) => {
+      const history = pathHistory();
+      if (history[history.length - 1] !== path) {
+        setPathHistory([...history, path]);
+      }
+      setCurrentPath(path);
       setSelectedItems([]);
-    }
-  },
+    },
+
+    goBack: () => {
+      const history = pathHistory();
+      if (history.length > 1) {
+        const newHistory = history.slice(0, -1);
+        setPathHistory(newHistory);
+        setCurrentPath(newHistory[newHistory.length - 1]);
+        setSelectedItems([]);
+      }
+    },
 
-  selectItem: (path: string, multiSelect = false) => {
-    if (multiSelect) {
-      const selected = selectedItems();
-      if (selected.includes(path)) {
-        setSelectedItems(selected.filter(item => item !== path));
+    selectItem: (path: string, multiSelect = false) => {
+      if (multiSelect) {
+        const selected = selectedItems();
+        if (selected.includes(path)) {
+          setSelectedItems(selected.filter(item => item !== path));
+        } else {
+          setSelectedItems([...selected, path]);
+        }
       } else {
-        setSelectedItems([...selected, path]);
+        setSelectedItems([path]);
+      }
+    },
+
+    clearSelection: () => {
+      setSelectedItems([]);
+    }
+  };
+}
+
+export type NavigationModel = ReturnType<typeof createNavigationModel>;
+
+export interface FolderListing {
+  path: string;
+  files: FileItem[];
+}
+
+/**
+ * A folder view within a tab: where it is and what it lists
+ */
+export interface FolderPane {
+  id: string;
+  navigation: NavigationModel;
+  files: Accessor<FileItem[]>;
+  setFiles: Setter<FileItem[]>;
+  isLoading: Accessor<boolean>;
+  setIsLoading: Setter<boolean>;
+  viewMode: Accessor<ViewMode>;
+  setViewMode: Setter<ViewMode>;
+  /**
+   * The current folder and its ancestors, root first, for the column view
+   */
+  columns: Accessor<FolderListing[]>;
+  setColumns: Setter<FolderListing[]>;
+}
+
+export interface FolderTab {
+  id: string;
+  /**
+   * One pane, or two side by side when split
+   */
+  panes: FolderPane[];
+  activePaneId: string;
+}
+
+let lastId = 0;
+const createId = (prefix: string) => `${prefix}-${++lastId}`;
+
+export function createFolderPane(path: string, initialViewMode: ViewMode = 'grid'): FolderPane {
+  const [files, setFiles] = createSignal<FileItem[]>([]);
+  const [isLoading, setIsLoading] = createSignal(false);
+  const [viewMode, setViewMode] = createSignal<ViewMode>(initialViewMode);
+  const [columns, setColumns] = createSignal<FolderListing[]>([]);
+
+  return {
+    id: createId('pane'),
+    navigation: createNavigationModel(path),
+    files,
+    setFiles,
+    isLoading,
+    setIsLoading,
+    viewMode,
+    setViewMode,
+    columns,
+    setColumns
+  };
+}
+
+/**
+ * How a folder is named on its tab
+ */
+export const folderTitle = (path: string) => (path === TRASH_PATH ? 'Trash' : basename(path) || 'Macintosh HD');
+
+const createTab = (path: string, viewMode?: ViewMode): FolderTab => {
+  const pane = createFolderPane(path, viewMode);
+  return { id: createId('tab'), panes: [pane], activePaneId: pane.id };
+};
+
+/**
+ * The tabs of one file manager window. Actions apply to the active pane of
+ * the active tab.
+ */
+export function createTabsModel(initialPath = '/') {
+  const first = createTab(initialPath);
+  const [tabs, setTabs] = createSignal<FolderTab[]>([first]);
+  const [activeTabId, setActiveTabId] = createSignal(first.id);
+
+  const activeTab = () => tabs().find(tab => tab.id === activeTabId()) ?? tabs()[0];
+
+  const activePaneOf = (tab: FolderTab) => tab.panes.find(pane => pane.id === tab.activePaneId) ?? tab.panes[0];
+
+  const activePane = () => activePaneOf(activeTab());
+
+  const updateActiveTab = (update: (tab: FolderTab) => FolderTab) => {
+    const id = activeTab().id;
+    setTabs(prev => prev.map(tab => (tab.id === id ? update(tab) : tab)));
+  };
+
+  return {
+    tabs,
+    activeTab,
+    activePane,
+
+    /**
+     * The active pane's neighbour in a split tab
+     */
+    otherPane: (): FolderPane | null => activeTab().panes.find(pane => pane !== activePane()) ?? null,
+
+    isSplit: () => activeTab().panes.length > 1,
+
+    selectTab: (id: string) => {
+      setActiveTabId(id);
+    },
+
+    /**
+     * Each tab named after the folder its active pane shows, for the tab bar
+     */
+    titles: () => tabs().map(tab => ({ id: tab.id, title: folderTitle(activePaneOf(tab).navigation.currentPath()) })),
+
+    /**
+     * Open `path`, or the active pane's folder, in a new tab
+     */
+    openTab: (path = activePane().navigation.currentPath()) => {
+      const tab = createTab(path, activePane().viewMode());
+      setTabs(prev => [...prev, tab]);
+      setActiveTabId(tab.id);
+    },
+
+    /**
+     * The last tab stays open
+     */
+    closeTab: (id: string) => {
+      const current = tabs();
+      if (current.length <= 1) return;
+
+      const index = current.findIndex(tab => tab.id === id);
+      const remaining = current.filter(tab => tab.id !== id);
+      setTabs(remaining);
+      if (activeTabId() === id) {
+        setActiveTabId(remaining[Math.min(index, remaining.length - 1)].id);
+      }
+    },
+
+    focusPane: (id: string) => {
+      if (activeTab().activePaneId !== id) {
+        updateActiveTab(tab => ({ ...tab, activePaneId: id }));
       }
-    } else {
-      setSelectedItems([path]);
+    },
+
+    /**
+     * Split the active tab into two panes on the same folder, or go back
+     * to just the active pane
+     */
+    toggleSplit: () => {
+      const active = activePane();
+      updateActiveTab(tab => tab.panes.length > 1
+        ? { ...tab, panes: [active], activePaneId: active.id }
+        : { ...tab, panes: [active, createFolderPane(active.navigation.currentPath(), active.viewMode())] });
     }
+  };
+}
+
+export type TabsModel = ReturnType<typeof createTabsModel>;
+
+// A folder other parts of the OS asked the file manager to show
+const [requestedPath, setRequestedPath] = createSignal<string | null>(null);
+
+export const navigationRequests = {
+  requestedPath,
+
+  request: (path: string) => {
+    setRequestedPath(path);
   },
 
-  clearSelection: () => {
-    setSelectedItems([]);
+  /**
+   * Claim the pending request so only one window acts on it
+   */
+  take: (): string | null => {
+    const path = requestedPath();
+    setRequestedPath(null);
+    return path;
   }
-};
\ No newline at end of file
+};
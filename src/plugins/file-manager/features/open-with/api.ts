@@ -0,0 +1,64 @@
+import { eventBus } from '@core/event-bus';
+import { fileAssociations } from '@core/file-system';
+import type { FileHandler } from '@core/file-system';
+import type { FileItem, FileSystemError } from '../../entities/file';
+
+export class OpenWithAPI {
+  private static instance: OpenWithAPI;
+
+  static getInstance(): OpenWithAPI {
+    if (!OpenWithAPI.instance) {
+      OpenWithAPI.instance = new OpenWithAPI();
+    }
+    return OpenWithAPI.instance;
+  }
+
+  /**
+   * Plugins that can open the file, best match first
+   */
+  getHandlers(file: FileItem): FileHandler[] {
+    return fileAssociations.getHandlers(file.path, file.mimeType);
+  }
+
+  async getDefaultHandler(file: FileItem): Promise<FileHandler | undefined> {
+    return fileAssociations.getDefaultHandler(file.path, file.mimeType);
+  }
+
+  /**
+   * Launch a plugin window for the file, using the default handler unless
+   * one is given. The plugin receives the path as its `filePath` prop.
+   */
+  async openFile(file: FileItem, pluginId?: string): Promise<void> {
+    const handlerId = pluginId ?? (await this.getDefaultHandler(file))?.pluginId;
+    if (!handlerId) {
+      const error: FileSystemError = {
+        code: 'NO_HANDLER',
+        message: `There is no application set to open "${file.name}"`,
+        path: file.path
+      };
+      throw error;
+    }
+
+    eventBus.emitSync('app:open', {
+      pluginId: handlerId,
+      props: { filePath: file.path }
+    });
+  }
+
+  /**
+   * Whether the user pinned a default for this file's extension
+   */
+  async hasCustomDefault(file: FileItem): Promise<boolean> {
+    if (!file.extension) return false;
+    const overrides = await fileAssociations.getDefaultOverrides();
+    return file.extension in overrides;
+  }
+
+  /**
+   * Pin (or with null, unpin) the default plugin for all files with this extension
+   */
+  async setDefaultHandler(file: FileItem, pluginId: string | null): Promise<void> {
+    if (!file.extension) return;
+    await fileAssociations.setDefaultHandler(file.extension, pluginId);
+  }
+}
@@ -0,0 +1,75 @@
+import { filePreviews, isFileSystemError } from '@core/file-system';
+import type { FilePreview } from '@core/file-system';
+import type { FileItem, FileSystemError } from '../../entities/file';
+import { previewModel } from './model';
+
+export class PreviewAPI {
+  private static instance: PreviewAPI;
+
+  static getInstance(): PreviewAPI {
+    if (!PreviewAPI.instance) {
+      PreviewAPI.instance = new PreviewAPI();
+    }
+    return PreviewAPI.instance;
+  }
+
+  /**
+   * Whether the item can be shown as a thumbnail or text preview
+   */
+  supports(file: FileItem): boolean {
+    return file.type === 'file' && file.permissions?.read !== false && filePreviews.supports(file.mimeType);
+  }
+
+  async getPreview(file: FileItem): Promise<FilePreview | null> {
+    try {
+      return await filePreviews.get(file.path);
+    } catch (error) {
+      throw this.handleError(error, file.path);
+    }
+  }
+
+  /**
+   * The cached preview of a file: undefined until loaded, null if it has none
+   */
+  previewFor(file: FileItem): FilePreview | null | undefined {
+    return this.supports(file) ? previewModel.previews()[file.path] : null;
+  }
+
+  /**
+   * Load a file's preview into the cache, e.g. for the preview pane. It is
+   * fetched again each time, which is cheap while the cached one is current.
+   */
+  async cachePreview(file: FileItem): Promise<void> {
+    if (!this.supports(file)) return;
+    try {
+      previewModel.setPreview(file.path, await this.getPreview(file));
+    } catch (error) {
+      previewModel.setPreview(file.path, null);
+      console.warn(`[FileManager] No preview for ${file.path}:`, error);
+    }
+  }
+
+  /**
+   * Previews of several files, one at a time so a large folder doesn't
+   * decode all its images at once. Stops when `isCurrent` turns false,
+   * e.g. after navigating elsewhere; files that fail are skipped.
+   */
+  async cachePreviews(files: FileItem[], isCurrent: () => boolean): Promise<void> {
+    for (const file of files.filter(item => this.supports(item))) {
+      if (!isCurrent()) return;
+      try {
+        previewModel.setPreview(file.path, await filePreviews.get(file.path));
+      } catch (error) {
+        console.warn(`[FileManager] No preview for ${file.path}:`, error);
+      }
+    }
+  }
+
+  private handleError(error: unknown, path = ''): FileSystemError {
+    return {
+      code: isFileSystemError(error) ? error.code : 'FILE_OPERATION_ERROR',
+      message: error instanceof Error ? error.message : 'Preview failed',
+      path: isFileSystemError(error) ? error.path : path
+    };
+  }
+}
@@ -0,0 +1,47 @@
+import { createSignal } from 'solid-js';
+import type { FilePreview } from '@core/file-system';
+
+// Previews of folders left behind are dropped oldest first beyond this
+const MAX_PREVIEWS = 500;
+
+const [previews, setPreviews] = createSignal<Record<string, FilePreview | null>>({});
+
+/**
+ * Whether one file manager window shows the preview pane
+ */
+export function createPreviewPaneModel() {
+  const [isOpen, setIsOpen] = createSignal(false);
+
+  return {
+    isOpen,
+    setIsOpen,
+
+    toggle: () => {
+      setIsOpen(open => !open);
+    }
+  };
+}
+
+export type PreviewPaneModel = ReturnType<typeof createPreviewPaneModel>;
+
+// The cache serves every window
+export const previewModel = {
+  /**
+   * Previews of files recently on screen by path; null for files without one
+   */
+  previews,
+
+  setPreview: (path: string, preview: FilePreview | null) => {
+    setPreviews(prev => {
+      const next = { ...prev };
+      // Re-inserted so the newest come last
+      delete next[path];
+      next[path] = preview;
+      const paths = Object.keys(next);
+      for (const stale of paths.slice(0, Math.max(0, paths.length - MAX_PREVIEWS))) {
+        delete next[stale];
+      }
+      return next;
+    });
+  }
+};
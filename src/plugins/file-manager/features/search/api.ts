@@ -0,0 +1,187 @@
+import { storageEngine } from '@core/storage-abstraction';
+import { fileSystem, searchIndex, currentIdentity } from '@core/file-system';
+import type { SearchQuery, SearchResult } from '@core/file-system';
+import { DEFAULT_FILTERS, smartFoldersModel } from './model';
+import type { DateFilter, SearchFilters, SearchModel, SizeFilter, SmartFolder } from './model';
+
+const STORAGE_KEY_PREFIX = 'file_manager_smart_folders_';
+
+// Wait for a pause in typing before querying the index
+const SEARCH_DEBOUNCE_MS = 150;
+
+// Coalesce bursts of file system changes (extracting, pasting) into one search
+const REFRESH_DEBOUNCE_MS = 50;
+
+const KB = 1024;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const SIZE_FILTERS: Record<SizeFilter, { label: string; minSize?: number; maxSize?: number }> = {
+  any: { label: 'Any Size' },
+  small: { label: 'Under 1 KB', maxSize: KB - 1 },
+  medium: { label: '1 KB – 100 KB', minSize: KB, maxSize: 100 * KB },
+  large: { label: 'Over 100 KB', minSize: 100 * KB + 1 }
+};
+
+export const DATE_FILTERS: Record<DateFilter, { label: string; days?: number }> = {
+  any: { label: 'Any Date' },
+  today: { label: 'Today', days: 1 },
+  week: { label: 'Past Week', days: 7 },
+  month: { label: 'Past Month', days: 30 },
+  year: { label: 'Past Year', days: 365 }
+};
+
+export class SearchAPI {
+  private static instance: SearchAPI;
+  private loadPromise: Promise<void> | null = null;
+  private owner: string | null = null;
+
+  static getInstance(): SearchAPI {
+    if (!SearchAPI.instance) {
+      SearchAPI.instance = new SearchAPI();
+    }
+    return SearchAPI.instance;
+  }
+
+  /**
+   * Start building the index in the background so the first search is fast
+   */
+  warmUp(): void {
+    searchIndex.ready().catch(error => console.error('[FileManager] Failed to build search index:', error));
+  }
+
+  /**
+   * Names and text contents matching `text`, narrowed by the filter bar.
+   * `taggedPaths` are the items with the tag the filters ask for.
+   */
+  async search(text: string, filters: SearchFilters, currentPath: string, taggedPaths?: string[]): Promise<SearchResult[]> {
+    const size = SIZE_FILTERS[filters.size];
+    const days = DATE_FILTERS[filters.modified].days;
+
+    const query: SearchQuery = {
+      text,
+      scope: filters.scope === 'folder' ? currentPath : undefined,
+      kinds: filters.kind === 'any' ? undefined : [filters.kind],
+      extensions: filters.extension ? [filters.extension.replace(/^\./, '').toLowerCase()] : undefined,
+      paths: filters.tag === 'any' ? undefined : taggedPaths ?? [],
+      minSize: size.minSize,
+      maxSize: size.maxSize,
+      modifiedAfter: days ? Date.now() - days * DAY_MS : undefined
+    };
+
+    return searchIndex.search(query);
+  }
+
+  /**
+   * Fill a window's results for its search after a pause in typing.
+   * `folder` is searched for the 'folder' scope. Returns a function that
+   * abandons the search, e.g. for a newer one.
+   */
+  schedule(model: SearchModel, folder: string, taggedPaths?: string[]): () => void {
+    const text = model.query().trim();
+    const filters = model.filters();
+    if (!model.isActive()) {
+      model.setResults([]);
+      model.setIsSearching(false);
+      return () => {};
+    }
+
+    let abandoned = false;
+    model.setIsSearching(true);
+    const timer = setTimeout(async () => {
+      try {
+        const results = await this.search(text, filters, folder, taggedPaths);
+        if (!abandoned) model.setResults(results);
+      } catch (error) {
+        console.error('[FileManager] Search failed:', error);
+      } finally {
+        if (!abandoned) model.setIsSearching(false);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      abandoned = true;
+      clearTimeout(timer);
+    };
+  }
+
+  /**
+   * Keep a window's results current while files change. Returns a
+   * function that stops.
+   */
+  watch(model: SearchModel): () => void {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const unsubscribe = fileSystem.onChange(() => {
+      if (!model.isActive()) return;
+      clearTimeout(timer);
+      timer = setTimeout(model.invalidate, REFRESH_DEBOUNCE_MS);
+    });
+
+    return () => {
+      clearTimeout(timer);
+      unsubscribe();
+    };
+  }
+
+  /**
+   * Save a window's search into the smart folder it shows, or else as a new
+   * smart folder called `name` that searches `folder`, and show that
+   */
+  async saveSearch(model: SearchModel, name: string, folder: string): Promise<void> {
+    const smartFolder = model.openSmartFolder();
+    if (smartFolder) {
+      await this.updateSmartFolder(smartFolder.id, { query: model.query().trim(), filters: model.filters() });
+      return;
+    }
+    model.showSmartFolder(await this.saveSmartFolder(name, model.query(), model.filters(), folder));
+  }
+
+  /**
+   * Read the signed-in user's smart folders; reads again only when the user changed
+   */
+  loadSmartFolders(): Promise<void> {
+    const owner = currentIdentity().user;
+    if (!this.loadPromise || this.owner !== owner) {
+      this.owner = owner;
+      this.loadPromise = this.readSmartFolders(owner).catch(error => {
+        this.loadPromise = null;
+        console.error('[FileManager] Failed to load smart folders:', error);
+      });
+    }
+    return this.loadPromise;
+  }
+
+  async saveSmartFolder(name: string, query: string, filters: SearchFilters, folder: string): Promise<SmartFolder> {
+    await this.loadSmartFolders();
+    const smartFolder: SmartFolder = { id: `smart-${Date.now()}`, name, query: query.trim(), filters, folder };
+    smartFoldersModel.setSmartFolders(prev => [...prev, smartFolder]);
+    await this.persist();
+    return smartFolder;
+  }
+
+  async updateSmartFolder(id: string, changes: Partial<Omit<SmartFolder, 'id'>>): Promise<void> {
+    await this.loadSmartFolders();
+    smartFoldersModel.setSmartFolders(prev => prev.map(folder => (folder.id === id ? { ...folder, ...changes } : folder)));
+    await this.persist();
+  }
+
+  async removeSmartFolder(id: string): Promise<void> {
+    await this.loadSmartFolders();
+    smartFoldersModel.setSmartFolders(prev => prev.filter(folder => folder.id !== id));
+    await this.persist();
+  }
+
+  private async readSmartFolders(owner: string): Promise<void> {
+    const stored = await storageEngine.get(`${STORAGE_KEY_PREFIX}${owner}`) as SmartFolder[] | null;
+    if (owner !== this.owner) return;
+    // Folders saved before a filter existed get its default
+    smartFoldersModel.setSmartFolders((stored ?? []).map(folder => ({ ...folder, filters: { ...DEFAULT_FILTERS, ...folder.filters } })));
+  }
+
+  private async persist(): Promise<void> {
+    try {
+      await storageEngine.set(`${STORAGE_KEY_PREFIX}${this.owner}`, smartFoldersModel.smartFolders());
+    } catch (error) {
+      console.error('[FileManager] Failed to save smart folders:', error);
+    }
+  }
+}
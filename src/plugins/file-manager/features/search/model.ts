@@ -0,0 +1,161 @@
+import { createSignal } from 'solid-js';
+import type { FileKind, SearchResult } from '@core/file-system';
+import { TAG_COLORS } from '../../entities/file';
+import type { TagColor } from '../../entities/file';
+
+export type SizeFilter = 'any' | 'small' | 'medium' | 'large';
+export type DateFilter = 'any' | 'today' | 'week' | 'month' | 'year';
+export type SearchScope = 'folder' | 'everywhere';
+
+export interface SearchFilters {
+  kind: FileKind | 'any';
+  /**
+   * File extension without the dot, or '' for any
+   */
+  extension: string;
+  size: SizeFilter;
+  modified: DateFilter;
+  tag: TagColor | 'any';
+  scope: SearchScope;
+}
+
+/**
+ * A saved search shown in the sidebar, whose results follow the file system
+ */
+export interface SmartFolder {
+  id: string;
+  name: string;
+  query: string;
+  filters: SearchFilters;
+  /**
+   * Folder searched when the scope is 'folder'
+   */
+  folder: string;
+}
+
+export const DEFAULT_FILTERS: SearchFilters = {
+  kind: 'any',
+  extension: '',
+  size: 'any',
+  modified: 'any',
+  tag: 'any',
+  scope: 'everywhere'
+};
+
+// Saved searches belong to the signed-in user and are shared by every window
+const [smartFolders, setSmartFolders] = createSignal<SmartFolder[]>([]);
+
+export const smartFoldersModel = {
+  smartFolders,
+  setSmartFolders
+};
+
+/**
+ * Search state of one file manager window
+ */
+export function createSearchModel() {
+  const [query, setQuery] = createSignal('');
+  const [filters, setFilters] = createSignal<SearchFilters>(DEFAULT_FILTERS);
+  const [results, setResults] = createSignal<SearchResult[]>([]);
+  const [isSearching, setIsSearching] = createSignal(false);
+  const [openSmartFolderId, setOpenSmartFolderId] = createSignal<string | null>(null);
+  const [revision, setRevision] = createSignal(0);
+
+  const openSmartFolder = () => smartFolders().find(folder => folder.id === openSmartFolderId()) ?? null;
+
+  /**
+   * Tag whose items are showing, when browsing one from the sidebar
+   */
+  const shownTag = (): TagColor | null => {
+    const tag = filters().tag;
+    if (tag === 'any' || openSmartFolderId() || query().trim()) return null;
+    return tag;
+  };
+
+  const showSmartFolder = (folder: SmartFolder) => {
+    setQuery(folder.query);
+    setResults([]);
+    setFilters(folder.filters);
+    setOpenSmartFolderId(folder.id);
+  };
+
+  return {
+    query,
+    setQuery,
+    filters,
+    results,
+    setResults,
+    isSearching,
+    setIsSearching,
+    smartFolders,
+    openSmartFolderId,
+
+    /**
+     * Browsing a tag or a smart folder shows results without any text
+     */
+    isActive: () => query().trim().length > 0 || filters().tag !== 'any' || openSmartFolderId() !== null,
+
+    openSmartFolder,
+    shownTag,
+
+    /**
+     * Changes whenever the results may be out of date, e.g. after files changed
+     */
+    revision,
+    invalidate: () => {
+      setRevision(value => value + 1);
+    },
+
+    /**
+     * Name of the smart folder or tag being browsed
+     */
+    title: () => {
+      const smartFolder = openSmartFolder();
+      if (smartFolder) return smartFolder.name;
+      const tag = shownTag();
+      return tag ? TAG_COLORS.find(item => item.color === tag)?.label : undefined;
+    },
+
+    /**
+     * "Save" once a smart folder's search was changed, "Save as Smart Folder"
+     * for anything else
+     */
+    saveLabel: () => {
+      const smartFolder = openSmartFolder();
+      if (!smartFolder) return 'Save as Smart Folder…';
+      const unchanged = smartFolder.query === query().trim()
+        && JSON.stringify(smartFolder.filters) === JSON.stringify(filters());
+      return unchanged ? undefined : 'Save';
+    },
+
+    setFilter: <K extends keyof SearchFilters>(key: K, value: SearchFilters[K]) => {
+      setFilters(prev => ({ ...prev, [key]: value }));
+    },
+
+    /**
+     * Show everything with the tag
+     */
+    showTag: (tag: TagColor) => {
+      setQuery('');
+      setResults([]);
+      setOpenSmartFolderId(null);
+      setFilters({ ...DEFAULT_FILTERS, tag });
+    },
+
+    showSmartFolder,
+
+    showSmartFolderById: (id: string) => {
+      const folder = smartFolders().find(item => item.id === id);
+      if (folder) showSmartFolder(folder);
+    },
+
+    clear: () => {
+      setQuery('');
+      setResults([]);
+      setFilters(DEFAULT_FILTERS);
+      setOpenSmartFolderId(null);
+    }
+  };
+}
+
+export type SearchModel = ReturnType<typeof createSearchModel>;
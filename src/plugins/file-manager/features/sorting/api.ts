@@ -0,0 +1,47 @@
+import { storageEngine } from '@core/storage-abstraction';
+import type { SortOrder } from '../../entities/file';
+import { sortingModel } from './model';
+
+const STORAGE_KEY = 'file_manager_sort_orders';
+
+export class SortingAPI {
+  private static instance: SortingAPI;
+  private loadPromise: Promise<void> | null = null;
+
+  static getInstance(): SortingAPI {
+    if (!SortingAPI.instance) {
+      SortingAPI.instance = new SortingAPI();
+    }
+    return SortingAPI.instance;
+  }
+
+  /**
+   * Read the remembered sort orders; only the first call hits storage
+   */
+  load(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = this.readOrders().catch(error => {
+        this.loadPromise = null;
+        console.error('[FileManager] Failed to load sort orders:', error);
+      });
+    }
+    return this.loadPromise;
+  }
+
+  /**
+   * Sort a folder this way from now on, in every window
+   */
+  async setOrder(path: string, order: SortOrder): Promise<void> {
+    sortingModel.setOrder(path, order);
+    try {
+      await storageEngine.set(STORAGE_KEY, sortingModel.orders());
+    } catch (error) {
+      console.error('[FileManager] Failed to save sort orders:', error);
+    }
+  }
+
+  private async readOrders(): Promise<void> {
+    const stored = await storageEngine.get(STORAGE_KEY) as Record<string, SortOrder> | null;
+    sortingModel.setOrders(stored ?? {});
+  }
+}
@@ -0,0 +1,25 @@
+import { createSignal } from 'solid-js';
+import { DEFAULT_SORT_ORDER } from '../../entities/file';
+import type { SortOrder } from '../../entities/file';
+
+// Folders sorted some other way than the default, by path
+const [orders, setOrders] = createSignal<Record<string, SortOrder>>({});
+
+export const sortingModel = {
+  orders,
+  setOrders,
+
+  orderFor: (path: string): SortOrder => orders()[path] ?? DEFAULT_SORT_ORDER,
+
+  setOrder: (path: string, order: SortOrder) => {
+    setOrders(prev => {
+      const next = { ...prev };
+      if (order.key === DEFAULT_SORT_ORDER.key && order.direction === DEFAULT_SORT_ORDER.direction) {
+        delete next[path];
+      } else {
+        next[path] = order;
+      }
+      return next;
+    });
+  }
+};
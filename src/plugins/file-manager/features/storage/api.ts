@@ -0,0 +1,96 @@
+import { eventBus } from '@core/event-bus';
+import { fileSystem, isFileSystemError } from '@core/file-system';
+import type { MountInfo, UserDiskUsage } from '@core/file-system';
+import type { FileSystemError } from '../../entities/file';
+import { storageModel } from './model';
+
+// Totalling usage walks the whole tree, so it waits for things to settle
+const USAGE_REFRESH_DEBOUNCE_MS = 500;
+
+export class StorageAPI {
+  private static instance: StorageAPI;
+
+  static getInstance(): StorageAPI {
+    if (!StorageAPI.instance) {
+      StorageAPI.instance = new StorageAPI();
+    }
+    return StorageAPI.instance;
+  }
+
+  /**
+   * Keep usage and devices current while a window shows them. Returns a
+   * function that stops.
+   */
+  watch(): () => void {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    // Anything written anywhere may change how much of the quota is used
+    const unsubscribeChanges = fileSystem.onChange(() => {
+      clearTimeout(timer);
+      timer = setTimeout(() => this.refreshUsage(), USAGE_REFRESH_DEBOUNCE_MS);
+    });
+    const refresh = () => this.refreshUsage();
+    const unsubscribers = [
+      eventBus.on('quota:changed', refresh),
+      eventBus.on('auth:session-changed', refresh),
+      eventBus.on('mounts:changed', (payload: { mounts: MountInfo[] }) => this.setDevices(payload.mounts))
+    ];
+
+    fileSystem.ready()
+      .then(() => {
+        this.setDevices(fileSystem.getMounts());
+        this.refreshUsage();
+      })
+      .catch(error => console.error('[FileManager] Failed to read devices:', error));
+
+    return () => {
+      clearTimeout(timer);
+      unsubscribeChanges();
+      unsubscribers.forEach(unsubscribe => unsubscribe());
+    };
+  }
+
+  refreshUsage(): void {
+    this.getUsage()
+      .then(storageModel.setUsage)
+      .catch(error => console.error('[FileManager] Failed to total storage usage:', error));
+  }
+
+  async getUsage(): Promise<UserDiskUsage> {
+    try {
+      return await fileSystem.userUsage();
+    } catch (error) {
+      throw this.handleError(error, '/');
+    }
+  }
+
+  /**
+   * Show an archive's contents as a read-only device
+   */
+  async mountArchive(path: string): Promise<MountInfo> {
+    try {
+      return await fileSystem.mountArchive(path);
+    } catch (error) {
+      throw this.handleError(error, path);
+    }
+  }
+
+  async eject(mountPoint: string): Promise<void> {
+    try {
+      await fileSystem.unmount(mountPoint);
+    } catch (error) {
+      throw this.handleError(error, mountPoint);
+    }
+  }
+
+  private setDevices(mounts: MountInfo[]): void {
+    storageModel.setDevices(mounts.filter(mount => mount.removable));
+  }
+
+  private handleError(error: unknown, path: string): FileSystemError {
+    return {
+      code: isFileSystemError(error) ? error.code : 'FILE_OPERATION_ERROR',
+      message: error instanceof Error ? error.message : 'Storage operation failed',
+      path: isFileSystemError(error) ? error.path : path
+    };
+  }
+}
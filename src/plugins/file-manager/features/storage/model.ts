@@ -0,0 +1,19 @@
+import { createSignal } from 'solid-js';
+import type { MountInfo, UserDiskUsage } from '@core/file-system';
+
+const [usage, setUsage] = createSignal<UserDiskUsage | null>(null);
+const [devices, setDevices] = createSignal<MountInfo[]>([]);
+
+export const storageModel = {
+  /**
+   * How much the signed-in user's files take up, against their quota
+   */
+  usage,
+  setUsage,
+
+  /**
+   * Mounted removable devices, e.g. USB sticks and archives
+   */
+  devices,
+  setDevices
+};
@@ -0,0 +1,81 @@
+import { storageEngine } from '@core/storage-abstraction';
+import { fileSystem, currentIdentity } from '@core/file-system';
+import type { FileSystemChange } from '@core/file-system';
+import { followChange } from '../../entities/file';
+import type { TagColor } from '../../entities/file';
+import { tagsModel } from './model';
+
+const STORAGE_KEY_PREFIX = 'file_manager_tags_';
+
+export class TagsAPI {
+  private static instance: TagsAPI;
+  private loadPromise: Promise<void> | null = null;
+  private owner: string | null = null;
+  private isWatching = false;
+
+  static getInstance(): TagsAPI {
+    if (!TagsAPI.instance) {
+      TagsAPI.instance = new TagsAPI();
+    }
+    return TagsAPI.instance;
+  }
+
+  /**
+   * Read the signed-in user's tags; reads again only when the user changed
+   */
+  load(): Promise<void> {
+    const owner = currentIdentity().user;
+    if (!this.loadPromise || this.owner !== owner) {
+      this.owner = owner;
+      if (!this.isWatching) {
+        fileSystem.onChange(change => this.handleChange(change));
+        this.isWatching = true;
+      }
+      this.loadPromise = this.readTags(owner).catch(error => {
+        this.loadPromise = null;
+        console.error('[FileManager] Failed to load tags:', error);
+      });
+    }
+    return this.loadPromise;
+  }
+
+  async toggleTag(paths: string[], color: TagColor): Promise<void> {
+    await this.load();
+    tagsModel.toggle(paths, color);
+    await this.save();
+  }
+
+  /**
+   * Tags stay with items that are moved or renamed and go with deleted ones
+   */
+  private handleChange(change: FileSystemChange): void {
+    if (change.type !== 'moved' && change.type !== 'deleted') return;
+
+    const current = tagsModel.tags();
+    const next: Record<string, TagColor[]> = {};
+    let changed = false;
+    for (const [path, colors] of Object.entries(current)) {
+      const target = followChange(path, change);
+      if (target !== path) changed = true;
+      if (target) next[target] = colors;
+    }
+
+    if (changed) {
+      tagsModel.setTags(next);
+      this.save();
+    }
+  }
+
+  private async readTags(owner: string): Promise<void> {
+    const stored = await storageEngine.get(`${STORAGE_KEY_PREFIX}${owner}`) as Record<string, TagColor[]> | null;
+    if (owner === this.owner) tagsModel.setTags(stored ?? {});
+  }
+
+  private async save(): Promise<void> {
+    try {
+      await storageEngine.set(`${STORAGE_KEY_PREFIX}${this.owner}`, tagsModel.tags());
+    } catch (error) {
+      console.error('[FileManager] Failed to save tags:', error);
+    }
+  }
+}
@@ -0,0 +1,35 @@
+import { createSignal } from 'solid-js';
+import type { TagColor } from '../../entities/file';
+
+// The current user's tags, by path
+const [tags, setTags] = createSignal<Record<string, TagColor[]>>({});
+
+export const tagsModel = {
+  tags,
+  setTags,
+
+  tagsFor: (path: string): TagColor[] => tags()[path] ?? [],
+
+  pathsWith: (color: TagColor): string[] =>
+    Object.keys(tags()).filter(path => tags()[path].includes(color)),
+
+  /**
+   * Tag all of `paths`, or untag them when every one already has the tag
+   */
+  toggle: (paths: string[], color: TagColor) => {
+    setTags(prev => {
+      const remove = paths.every(path => prev[path]?.includes(color));
+      const next = { ...prev };
+      for (const path of paths) {
+        const current = (next[path] ?? []).filter(tag => tag !== color);
+        if (!remove) current.push(color);
+        if (current.length > 0) {
+          next[path] = current;
+        } else {
+          delete next[path];
+        }
+      }
+      return next;
+    });
+  }
+};
@@ -0,0 +1,63 @@
+import { eventBus } from '@core/event-bus';
+import { trashManager, isFileSystemError, TRASH_PATH } from '@core/file-system';
+import type { FileSystemError } from '../../entities/file';
+import { trashModel } from './model';
+
+export class TrashAPI {
+  private static instance: TrashAPI;
+
+  static getInstance(): TrashAPI {
+    if (!TrashAPI.instance) {
+      TrashAPI.instance = new TrashAPI();
+    }
+    return TrashAPI.instance;
+  }
+
+  /**
+   * Keep the item count current while a window shows it. `onChange` runs
+   * whenever the Trash changes, including through the retention policy.
+   * Returns a function that stops.
+   */
+  watch(onChange?: () => void): () => void {
+    const unsubscribers = [
+      eventBus.on('trash:changed', (payload: { count: number }) => {
+        trashModel.setCount(payload.count);
+        onChange?.();
+      }),
+      // Another user sees other items
+      eventBus.on('auth:session-changed', () => this.refreshCount())
+    ];
+
+    trashManager.ready()
+      .then(() => {
+        trashModel.setRetentionDays(trashManager.getSettings().retentionDays);
+        this.refreshCount();
+      })
+      .catch(error => console.error('[FileManager] Failed to read the Trash:', error));
+
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }
+
+  async setRetentionDays(days: number | null): Promise<void> {
+    try {
+      await trashManager.setRetentionDays(days);
+      trashModel.setRetentionDays(days);
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+
+  private refreshCount(): void {
+    trashManager.count()
+      .then(trashModel.setCount)
+      .catch(error => console.error('[FileManager] Failed to count Trash items:', error));
+  }
+
+  private handleError(error: unknown): FileSystemError {
+    return {
+      code: isFileSystemError(error) ? error.code : 'FILE_OPERATION_ERROR',
+      message: error instanceof Error ? error.message : 'Trash operation failed',
+      path: isFileSystemError(error) ? error.path : TRASH_PATH
+    };
+  }
+}
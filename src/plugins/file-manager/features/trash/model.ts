@@ -0,0 +1,18 @@
+import { createSignal } from 'solid-js';
+
+const [count, setCount] = createSignal(0);
+const [retentionDays, setRetentionDays] = createSignal<number | null>(null);
+
+export const trashModel = {
+  /**
+   * Items in the Trash the signed-in user may see
+   */
+  count,
+  setCount,
+
+  /**
+   * Days trashed items are kept, or null to keep them until emptied
+   */
+  retentionDays,
+  setRetentionDays
+};
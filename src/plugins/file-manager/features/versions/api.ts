@@ -0,0 +1,146 @@
+import { eventBus } from '@core/event-bus';
+import { versionHistory, isFileSystemError, CURRENT_VERSION } from '@core/file-system';
+import type { DiffLine, FileVersion, VersionSettings } from '@core/file-system';
+import { createFileItem } from '../../entities/file';
+import type { FileItem, FileSystemError } from '../../entities/file';
+import type { VersionsModel } from './model';
+
+const MB = 1024 * 1024;
+
+export const VERSION_BUDGETS: { label: string; bytes: number }[] = [
+  { label: '1 MB', bytes: MB },
+  { label: '5 MB', bytes: 5 * MB },
+  { label: '20 MB', bytes: 20 * MB },
+  { label: '50 MB', bytes: 50 * MB }
+];
+
+export class VersionsAPI {
+  private static instance: VersionsAPI;
+
+  static getInstance(): VersionsAPI {
+    if (!VersionsAPI.instance) {
+      VersionsAPI.instance = new VersionsAPI();
+    }
+    return VersionsAPI.instance;
+  }
+
+  /**
+   * Versions of a file, newest first, starting with its current contents
+   */
+  async list(path: string): Promise<FileVersion[]> {
+    try {
+      return await versionHistory.list(path);
+    } catch (error) {
+      throw this.handleError(error, path);
+    }
+  }
+
+  async diff(path: string, fromId: string, toId: string): Promise<DiffLine[]> {
+    try {
+      return await versionHistory.diff(path, fromId, toId);
+    } catch (error) {
+      throw this.handleError(error, path);
+    }
+  }
+
+  async restore(path: string, versionId: string): Promise<FileItem> {
+    try {
+      const inode = await versionHistory.restore(path, versionId);
+      return createFileItem({ path, inode });
+    } catch (error) {
+      throw this.handleError(error, path);
+    }
+  }
+
+  /**
+   * Open a window's Versions panel on a file, comparing nothing yet
+   */
+  async open(model: VersionsModel, path: string): Promise<void> {
+    model.compare(CURRENT_VERSION, CURRENT_VERSION);
+    await this.load(model, path);
+    model.setPath(path);
+  }
+
+  /**
+   * Compare two versions in the panel; the diff goes from `from` to `to`
+   */
+  async compare(model: VersionsModel, from: string, to: string): Promise<void> {
+    model.compare(from, to);
+    await this.refreshDiff(model);
+  }
+
+  /**
+   * Restore a version and show what changed: what was current a moment
+   * ago is now the newest version
+   */
+  async restoreVersion(model: VersionsModel, version: FileVersion): Promise<void> {
+    await this.restore(version.path, version.id);
+    await this.load(model, version.path);
+    await this.compare(model, model.versions()[1]?.id ?? CURRENT_VERSION, CURRENT_VERSION);
+  }
+
+  /**
+   * Follow new versions of the file the panel shows; failures go to
+   * `onError`. Returns a function that stops.
+   */
+  watch(model: VersionsModel, onError: (error: unknown) => void): () => void {
+    return eventBus.on('versions:changed', (payload: { path?: string }) => {
+      const path = model.path();
+      if (path && (!payload.path || payload.path === path)) {
+        this.load(model, path).catch(onError);
+      }
+    });
+  }
+
+  async getSettings(): Promise<VersionSettings & { usedBytes: number }> {
+    await versionHistory.ready();
+    return { ...versionHistory.getSettings(), usedBytes: await versionHistory.getUsage() };
+  }
+
+  async setBudget(bytes: number): Promise<void> {
+    try {
+      await versionHistory.setSettings({ budgetBytes: bytes });
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Read a file's versions into the panel, keeping the comparison if both
+   * sides still exist
+   */
+  private async load(model: VersionsModel, path: string): Promise<void> {
+    const versions = await this.list(path);
+    model.setVersions(versions);
+
+    const ids = versions.map(version => version.id);
+    if (!ids.includes(model.fromId()) || !ids.includes(model.toId())) {
+      model.compare(versions[1]?.id ?? CURRENT_VERSION, CURRENT_VERSION);
+    }
+    await this.refreshDiff(model, path);
+
+    const settings = await this.getSettings();
+    model.setStorage(settings.budgetBytes, settings.usedBytes);
+  }
+
+  /**
+   * A slower diff must not replace one for a comparison chosen since
+   */
+  private async refreshDiff(model: VersionsModel, path = model.path()): Promise<void> {
+    if (!path) return;
+    const fromId = model.fromId();
+    const toId = model.toId();
+    const diff = await this.diff(path, fromId, toId);
+    if (model.fromId() === fromId && model.toId() === toId) {
+      model.setDiff(diff);
+    }
+  }
+
+  private handleError(error: unknown, path = ''): FileSystemError {
+    return {
+      code: isFileSystemError(error) ? error.code : 'FILE_OPERATION_ERROR',
+      message: error instanceof Error ? error.message : 'Version operation failed',
+      path: isFileSystemError(error) ? error.path : path
+    };
+  }
+}
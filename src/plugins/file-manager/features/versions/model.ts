@@ -0,0 +1,50 @@
+import { createSignal } from 'solid-js';
+import { CURRENT_VERSION } from '@core/file-system';
+import type { DiffLine, FileVersion } from '@core/file-system';
+
+/**
+ * The Versions panel of one file manager window
+ */
+export function createVersionsModel() {
+  const [path, setPath] = createSignal<string | null>(null);
+  const [versions, setVersions] = createSignal<FileVersion[]>([]);
+  const [fromId, setFromId] = createSignal<string>(CURRENT_VERSION);
+  const [toId, setToId] = createSignal<string>(CURRENT_VERSION);
+  const [diff, setDiff] = createSignal<DiffLine[] | null>(null);
+  const [budgetBytes, setBudgetBytes] = createSignal(0);
+  const [usedBytes, setUsedBytes] = createSignal(0);
+
+  return {
+    path,
+    setPath,
+    versions,
+    setVersions,
+    fromId,
+    toId,
+    diff,
+    setDiff,
+    budgetBytes,
+    usedBytes,
+
+    setStorage: (budget: number, used: number) => {
+      setBudgetBytes(budget);
+      setUsedBytes(used);
+    },
+
+    /**
+     * Compare two versions; the diff goes from `from` to `to`
+     */
+    compare: (from: string, to: string) => {
+      setFromId(from);
+      setToId(to);
+    },
+
+    close: () => {
+      setPath(null);
+      setVersions([]);
+      setDiff(null);
+    }
+  };
+}
+
+export type VersionsModel = ReturnType<typeof createVersionsModel>;
@@ -1,4 +1,5 @@
 import { eventBus } from '@core/event-bus';
+import { navigationRequests } from './features/navigation';
 
 const scope = '@dineapp/file-manager';
 
@@ -6,6 +7,7 @@ export async function init() {
   // Register scoped event listeners
   eventBus.on('file:selected', handleFileSelected, { scope });
   eventBus.on('folder:navigated', handleFolderNavigated, { scope });
+  eventBus.on('file-manager:navigate', handleNavigateRequest, { scope });
 
   // Emit plugin loaded event
   eventBus.emit('plugin:loaded', {
@@ -20,4 +22,12 @@ function handleFileSelected(event: any) {
 
 function handleFolderNavigated(event: any) {
   console.log('Folder navigated to:', event.data);
+}
+
+// Other parts of the OS (e.g. the Dock's Trash) ask the file manager to show
+// a folder; the focused file manager window picks it up
+function handleNavigateRequest(payload: { path: string }) {
+  if (payload?.path) {
+    navigationRequests.request(payload.path);
+  }
 }
\ No newline at end of file
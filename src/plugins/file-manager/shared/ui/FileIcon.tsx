@@ -0,0 +1,50 @@
+import { Component } from 'solid-js';
+import { cn } from '../../../../utils/cn';
+import type { FileItem } from '../../entities/file';
+
+// Import icons using unplugin-icons (Heroicons for macOS-style)
+import IconFolder from '~icons/heroicons-outline/folder';
+import IconFileText from '~icons/heroicons-outline/document-text';
+import IconFileCode from '~icons/heroicons-outline/code';
+import IconFileWarning from '~icons/heroicons-outline/exclamation';
+import IconImage from '~icons/heroicons-outline/photograph';
+import IconVideo from '~icons/heroicons-outline/film';
+import IconMusic from '~icons/heroicons-outline/music-note';
+import IconFile from '~icons/heroicons-outline/document';
+
+interface FileIconProps {
+  file: FileItem;
+  class?: string;
+}
+
+const FileIcon: Component<FileIconProps> = (props) => {
+  const size = () => props.class ?? 'w-6 h-6';
+
+  if (props.file.type === 'folder') {
+    return <IconFolder class={cn(size(), 'text-brand-primary')} />;
+  }
+
+  switch (props.file.extension?.toLowerCase()) {
+    case 'txt':
+      return <IconFileText class={cn(size(), 'text-foreground')} />;
+    case 'json':
+      return <IconFileCode class={cn(size(), 'text-success')} />;
+    case 'log':
+      return <IconFileWarning class={cn(size(), 'text-warning')} />;
+    case 'jpg':
+    case 'png':
+    case 'gif':
+      return <IconImage class={cn(size(), 'text-info')} />;
+    case 'mp4':
+    case 'avi':
+    case 'mkv':
+      return <IconVideo class={cn(size(), 'text-error')} />;
+    case 'mp3':
+    case 'wav':
+      return <IconMusic class={cn(size(), 'text-brand-primary')} />;
+    default:
+      return <IconFile class={cn(size(), 'text-muted-foreground')} />;
+  }
+};
+
+export default FileIcon;
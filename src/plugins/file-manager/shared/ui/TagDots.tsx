@@ -0,0 +1,35 @@
+import { Component, For, Show } from 'solid-js';
+import { cn } from '../../../../utils/cn';
+import type { TagColor } from '../../entities/file';
+
+export const TAG_DOT_CLASSES: Record<TagColor, string> = {
+  red: 'bg-red-500',
+  orange: 'bg-orange-500',
+  yellow: 'bg-yellow-500',
+  green: 'bg-green-500',
+  blue: 'bg-blue-500',
+  purple: 'bg-purple-500',
+  gray: 'bg-gray-400'
+};
+
+interface TagDotsProps {
+  tags?: TagColor[];
+  class?: string;
+}
+
+/**
+ * Overlapping colored dots, one per tag
+ */
+const TagDots: Component<TagDotsProps> = (props) => {
+  return (
+    <Show when={props.tags?.length}>
+      <span class={cn('inline-flex flex-shrink-0 -space-x-1', props.class)}>
+        <For each={props.tags}>
+          {(tag) => <span class={cn('w-2 h-2 rounded-full ring-1 ring-background', TAG_DOT_CLASSES[tag])}></span>}
+        </For>
+      </span>
+    </Show>
+  );
+};
+
+export default TagDots;
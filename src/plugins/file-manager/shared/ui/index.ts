@@ -1 +1,3 @@
-export { default as Button } from './Button';
\ No newline at end of file
+export { default as Button } from './Button';
+export { default as FileIcon } from './FileIcon';
+export { default as TagDots, TAG_DOT_CLASSES } from './TagDots';
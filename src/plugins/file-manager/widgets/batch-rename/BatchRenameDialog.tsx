@@ -0,0 +1,143 @@
+import { Component, For, Show } from 'solid-js';
+import { Button } from '../../shared/ui';
+import type { BatchRenamePlan, CaseTransform, RenameRules, RenameStatus } from '../../features/batch-rename';
+
+interface BatchRenameDialogProps {
+  rules: RenameRules;
+  plan: BatchRenamePlan;
+  canApply: boolean;
+  onChange: (changes: Partial<RenameRules>) => void;
+  onApply: () => void;
+  onClose: () => void;
+}
+
+const CASE_OPTIONS: { value: CaseTransform; label: string }[] = [
+  { value: 'none', label: 'Keep case' },
+  { value: 'lower', label: 'lowercase' },
+  { value: 'upper', label: 'UPPERCASE' },
+  { value: 'title', label: 'Title Case' }
+];
+
+const STATUS_CLASSES: Record<RenameStatus, string> = {
+  unchanged: 'text-muted-foreground',
+  renamed: 'text-foreground',
+  invalid: 'text-error',
+  collision: 'text-error'
+};
+
+const STATUS_HINTS: Partial<Record<RenameStatus, string>> = {
+  invalid: 'Not a valid name',
+  collision: 'Name already taken'
+};
+
+const BatchRenameDialog: Component<BatchRenameDialogProps> = (props) => {
+  const problems = () => props.plan.previews.filter(preview => preview.status === 'invalid' || preview.status === 'collision').length;
+
+  const inputClass = 'w-full bg-background border border-border rounded px-1.5 py-0.5 text-xs text-foreground';
+
+  const textField = (label: string, key: 'find' | 'replace' | 'prefix' | 'suffix') => (
+    <label class="flex flex-col gap-1">
+      <span class="text-muted-foreground">{label}</span>
+      <input class={inputClass} value={props.rules[key]} onInput={(e) => props.onChange({ [key]: e.currentTarget.value })} />
+    </label>
+  );
+
+  const numberField = (label: string, key: 'start' | 'padding', min: number) => (
+    <label class="flex flex-col gap-1">
+      <span class="text-muted-foreground">{label}</span>
+      <input
+        type="number"
+        min={min}
+        class={inputClass}
+        value={props.rules[key]}
+        onInput={(e) => props.onChange({ [key]: Math.max(min, Math.floor(e.currentTarget.valueAsNumber) || min) })}
+      />
+    </label>
+  );
+
+  const checkbox = (label: string, key: 'useRegex' | 'matchCase' | 'includeExtension') => (
+    <label class="flex items-center gap-1.5">
+      <input type="checkbox" checked={props.rules[key]} onChange={(e) => props.onChange({ [key]: e.currentTarget.checked })} />
+      {label}
+    </label>
+  );
+
+  return (
+    <div class="absolute inset-0 z-40 flex items-center justify-center bg-overlay/30">
+      <div class="w-[560px] max-w-[95%] max-h-[90%] flex flex-col rounded-lg border border-border bg-surface p-4 shadow-2xl text-foreground">
+        <h3 class="text-sm font-semibold mb-3">Rename {props.plan.previews.length} Items</h3>
+
+        <div class="grid grid-cols-2 gap-2 text-xs mb-2">
+          {textField('Find', 'find')}
+          {textField('Replace with', 'replace')}
+        </div>
+        <div class="flex flex-wrap gap-x-4 gap-y-1 text-xs mb-3">
+          {checkbox('Regular expression', 'useRegex')}
+          {checkbox('Match case', 'matchCase')}
+          {checkbox('Include extension', 'includeExtension')}
+        </div>
+
+        <div class="grid grid-cols-2 gap-2 text-xs mb-2">
+          {textField('Prefix', 'prefix')}
+          {textField('Suffix', 'suffix')}
+        </div>
+        <div class="grid grid-cols-3 gap-2 text-xs mb-2">
+          {numberField('Start at', 'start', 0)}
+          {numberField('Digits', 'padding', 0)}
+          <label class="flex flex-col gap-1">
+            <span class="text-muted-foreground">Case</span>
+            <select
+              class={inputClass}
+              value={props.rules.caseTransform}
+              onChange={(e) => props.onChange({ caseTransform: e.currentTarget.value as CaseTransform })}
+            >
+              <For each={CASE_OPTIONS}>{(option) => <option value={option.value}>{option.label}</option>}</For>
+            </select>
+          </label>
+        </div>
+        <p class="text-xs text-muted-foreground mb-3">
+          Use <code>{'{n}'}</code> for the sequence number and <code>{'{date}'}</code>, <code>{'{yyyy}'}</code>, <code>{'{mm}'}</code>, <code>{'{dd}'}</code> for the modification date.
+        </p>
+
+        <Show when={props.plan.error}>
+          {(error) => <p class="text-xs text-error mb-2">{error()}</p>}
+        </Show>
+
+        <div class="flex-1 min-h-0 overflow-auto border border-border rounded mb-3">
+          <table class="w-full text-xs">
+            <thead class="sticky top-0 bg-surface">
+              <tr class="text-muted-foreground">
+                <th class="text-left font-normal px-2 py-1">Before</th>
+                <th class="text-left font-normal px-2 py-1">After</th>
+              </tr>
+            </thead>
+            <tbody>
+              <For each={props.plan.previews}>
+                {(preview) => (
+                  <tr class="border-t border-border">
+                    <td class="px-2 py-0.5 break-all">{preview.file.name}</td>
+                    <td class={`px-2 py-0.5 break-all ${STATUS_CLASSES[preview.status]}`} title={STATUS_HINTS[preview.status]}>
+                      {preview.newName || '—'}
+                    </td>
+                  </tr>
+                )}
+              </For>
+            </tbody>
+          </table>
+        </div>
+
+        <div class="flex items-center justify-end gap-2">
+          <Show when={problems() > 0}>
+            <span class="mr-auto text-xs text-error">
+              {problems() === 1 ? '1 name conflicts or is invalid' : `${problems()} names conflict or are invalid`}
+            </span>
+          </Show>
+          <Button variant="secondary" size="sm" onClick={props.onClose}>Cancel</Button>
+          <Button size="sm" disabled={!props.canApply} onClick={props.onApply}>Rename</Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export { BatchRenameDialog };
@@ -0,0 +1,84 @@
+import { Component, createEffect, For, on, Show } from 'solid-js';
+import { isSubPath } from '@core/file-system';
+import type { FileItem } from '../../entities/file';
+import type { FolderListing } from '../../features/navigation';
+import { FileIcon, TagDots } from '../../shared/ui';
+
+import IconChevronRight from '~icons/heroicons-outline/chevron-right';
+
+interface ColumnViewProps {
+  /**
+   * One column per folder from the root down to the current one
+   */
+  columns: FolderListing[];
+  currentPath: string;
+  selectedItems: string[];
+  onFileSelect: (file: FileItem, multiSelect: boolean) => void;
+  onFileDoubleClick: (file: FileItem) => void;
+  onContextMenu?: (file: FileItem | null, event: MouseEvent) => void;
+  onFilePointerDown?: (file: FileItem) => void;
+  onFileDragStart?: (file: FileItem, event: DragEvent) => void;
+}
+
+const ColumnView: Component<ColumnViewProps> = (props) => {
+  let containerRef: HTMLDivElement | undefined;
+
+  // Keep the deepest column in sight
+  createEffect(on(() => props.columns.length, () => {
+    if (containerRef) containerRef.scrollLeft = containerRef.scrollWidth;
+  }));
+
+  // Folders leading to the current one stay highlighted in their columns
+  const isOnPath = (file: FileItem) => file.type === 'folder' && isSubPath(file.path, props.currentPath);
+
+  const handleContextMenu = (file: FileItem | null, event: MouseEvent) => {
+    if (!props.onContextMenu) return;
+    event.preventDefault();
+    event.stopPropagation();
+    props.onContextMenu(file, event);
+  };
+
+  return (
+    <div ref={containerRef} class="h-full flex overflow-x-auto overflow-y-hidden text-foreground">
+      <For each={props.columns}>
+        {(column) => (
+          <div
+            class="w-56 flex-shrink-0 h-full overflow-y-auto border-r border-border py-1"
+            onContextMenu={(e) => handleContextMenu(null, e)}
+          >
+            <For each={column.files}>
+              {(file) => (
+                <div
+                  class="flex items-center gap-2 mx-1 px-2 py-1 rounded text-sm cursor-default select-none"
+                  classList={{
+                    'bg-brand-primary/10 text-foreground': props.selectedItems.includes(file.path),
+                    'bg-muted': !props.selectedItems.includes(file.path) && isOnPath(file),
+                    'hover:bg-muted/50': !props.selectedItems.includes(file.path) && !isOnPath(file)
+                  }}
+                  draggable={!!props.onFileDragStart}
+                  onClick={(e) => props.onFileSelect(file, e.ctrlKey || e.metaKey)}
+                  onDblClick={() => props.onFileDoubleClick(file)}
+                  onContextMenu={(e) => handleContextMenu(file, e)}
+                  onPointerDown={() => props.onFilePointerDown?.(file)}
+                  onDragStart={(e) => props.onFileDragStart?.(file, e)}
+                >
+                  <FileIcon file={file} class="w-4 h-4 flex-shrink-0" />
+                  <span class="flex-1 truncate">{file.name}</span>
+                  <TagDots tags={file.tags} />
+                  <Show when={file.type === 'folder'}>
+                    <IconChevronRight class="w-3 h-3 text-muted-foreground flex-shrink-0" />
+                  </Show>
+                </div>
+              )}
+            </For>
+            <Show when={column.files.length === 0}>
+              <p class="px-3 py-2 text-xs text-muted-foreground">Empty</p>
+            </Show>
+          </div>
+        )}
+      </For>
+    </div>
+  );
+};
+
+export { ColumnView };
@@ -0,0 +1,55 @@
+import { Component, createSignal, Show } from 'solid-js';
+import { basename, dirname } from '@core/file-system';
+import { Button } from '../../shared/ui';
+import type { ConflictAction, ConflictResolution, FileConflict } from '../../features/file-operations';
+
+interface ConflictDialogProps {
+  conflict: FileConflict;
+  onResolve: (resolution: ConflictResolution) => void;
+}
+
+const ConflictDialog: Component<ConflictDialogProps> = (props) => {
+  const [applyToAll, setApplyToAll] = createSignal(false);
+
+  const resolve = (action: ConflictAction) => {
+    props.onResolve({ action, applyToAll: applyToAll() });
+    setApplyToAll(false);
+  };
+
+  const kind = () => props.conflict.targetType === 'folder' ? 'folder' : 'item';
+
+  return (
+    <div class="absolute inset-0 z-40 flex items-center justify-center bg-overlay/30">
+      <div class="w-[360px] max-w-[90%] rounded-lg border border-border bg-surface p-4 shadow-2xl text-foreground">
+        <h3 class="text-sm font-semibold mb-2">
+          An {kind()} named “{basename(props.conflict.targetPath)}” already exists
+        </h3>
+        <p class="text-xs text-muted-foreground mb-3 break-all">
+          Do you want to replace it with the one you’re {props.conflict.operation === 'copy' ? 'copying' : 'moving'} to “{dirname(props.conflict.targetPath)}”?
+        </p>
+        <Show when={props.conflict.sourceType !== props.conflict.targetType}>
+          <p class="text-xs text-warning mb-3">
+            Replacing will overwrite a {props.conflict.targetType} with a {props.conflict.sourceType}.
+          </p>
+        </Show>
+
+        <label class="flex items-center gap-2 text-xs mb-4">
+          <input
+            type="checkbox"
+            checked={applyToAll()}
+            onChange={(e) => setApplyToAll(e.currentTarget.checked)}
+          />
+          <span>Apply to all</span>
+        </label>
+
+        <div class="flex justify-end gap-2">
+          <Button variant="secondary" size="sm" onClick={() => resolve('skip')}>Skip</Button>
+          <Button variant="secondary" size="sm" onClick={() => resolve('keep-both')}>Keep Both</Button>
+          <Button variant="danger" size="sm" onClick={() => resolve('replace')}>Replace</Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export { ConflictDialog };
@@ -0,0 +1,100 @@
+import { Component, For, Show } from 'solid-js';
+
+export interface ContextMenuItem {
+  label?: string;
+  action?: () => void;
+  disabled?: boolean;
+  danger?: boolean;
+  separator?: boolean;
+  submenu?: ContextMenuItem[];
+}
+
+interface ContextMenuProps {
+  x: number;
+  y: number;
+  items: ContextMenuItem[];
+  onClose: () => void;
+}
+
+const MenuItems: Component<{ items: ContextMenuItem[]; onItemClick: (item: ContextMenuItem) => void }> = (props) => {
+  return (
+    <For each={props.items}>
+      {(item) => (
+        <div class="relative group">
+          <Show when={item.separator}>
+            <div class="h-px bg-black/10 dark:bg-white/10 my-1"></div>
+          </Show>
+          <Show when={!item.separator}>
+            <div
+              class={`flex items-center justify-between px-2 py-0.5 text-xs rounded-sm cursor-default ${
+                item.disabled
+                  ? 'opacity-50'
+                  : item.danger
+                    ? 'text-error hover:bg-error hover:text-error-foreground'
+                    : 'hover:bg-accent hover:text-accent-foreground'
+              }`}
+              onClick={() => props.onItemClick(item)}
+            >
+              <span>{item.label}</span>
+              <Show when={item.submenu}>
+                <span class="text-xs ml-4">›</span>
+              </Show>
+            </div>
+          </Show>
+          <Show when={item.submenu && !item.disabled}>
+            <div class="absolute left-full top-0 hidden group-hover:block min-w-[180px] bg-secondary/80 backdrop-blur-xl rounded-md shadow-2xl border border-black/10 dark:border-white/10 p-1">
+              <For each={item.submenu}>
+                {(child) => (
+                  <Show
+                    when={!child.separator}
+                    fallback={<div class="h-px bg-black/10 dark:bg-white/10 my-1"></div>}
+                  >
+                    <div
+                      class={`px-2 py-0.5 text-xs rounded-sm cursor-default whitespace-nowrap ${
+                        child.disabled ? 'opacity-50' : 'hover:bg-accent hover:text-accent-foreground'
+                      }`}
+                      onClick={() => props.onItemClick(child)}
+                    >
+                      {child.label}
+                    </div>
+                  </Show>
+                )}
+              </For>
+            </div>
+          </Show>
+        </div>
+      )}
+    </For>
+  );
+};
+
+const ContextMenu: Component<ContextMenuProps> = (props) => {
+  const handleItemClick = (item: ContextMenuItem) => {
+    if (item.disabled || item.submenu) return;
+    props.onClose();
+    item.action?.();
+  };
+
+  return (
+    <>
+      {/* Click-away layer */}
+      <div
+        class="absolute inset-0 z-40"
+        onClick={props.onClose}
+        onContextMenu={(e) => {
+          e.preventDefault();
+          props.onClose();
+        }}
+      ></div>
+
+      <div
+        class="absolute z-50 min-w-[200px] bg-secondary/80 backdrop-blur-xl rounded-md shadow-2xl border border-black/10 dark:border-white/10 p-1 text-foreground"
+        style={{ left: `${props.x}px`, top: `${props.y}px` }}
+      >
+        <MenuItems items={props.items} onItemClick={handleItemClick} />
+      </div>
+    </>
+  );
+};
+
+export { ContextMenu };
@@ -1,25 +1,52 @@
-import { Component, For, Show } from 'solid-js';
-import type { FileItem } from '../../entities/file';
-import { navigationModel } from '../../features/navigation';
-
-// Import icons using unplugin-icons (Heroicons for macOS-style)
-import IconFolder from '~icons/heroicons-outline/folder';
-import IconFileText from '~icons/heroicons-outline/document-text';
-import IconFileCode from '~icons/heroicons-outline/code';
-import IconFileWarning from '~icons/heroicons-outline/exclamation';
-import IconImage from '~icons/heroicons-outline/photograph';
-import IconVideo from '~icons/heroicons-outline/film';
-import IconMusic from '~icons/heroicons-outline/music-note';
-import IconFile from '~icons/heroicons-outline/document';
+import { Component, createSignal, For, Show } from 'solid-js';
+import { hostTransfer } from '@core/file-system';
+import type { FilePreview, HostDrop } from '@core/file-system';
+import type { FileItem, SortKey, SortOrder } from '../../entities/file';
+import { FileIcon, TagDots } from '../../shared/ui';
 
 interface FileListProps {
   files: FileItem[];
   viewMode: 'list' | 'grid';
+  selectedItems: string[];
+  /**
+   * Shown on the list's column headers, which change it when clicked
+   */
+  sortOrder?: SortOrder;
+  onSortChange?: (order: SortOrder) => void;
   onFileDoubleClick: (file: FileItem) => void;
   onFileSelect: (file: FileItem, multiSelect: boolean) => void;
+  onContextMenu?: (file: FileItem | null, event: MouseEvent) => void;
+  /**
+   * Thumbnails shown instead of icons in the grid, by path
+   */
+  previews?: Record<string, FilePreview | null>;
+  /**
+   * Files dropped from the host, onto a folder or (null) the list itself
+   */
+  onHostDrop?: (drop: HostDrop, folder: FileItem | null) => void;
+  onFilePointerDown?: (file: FileItem) => void;
+  /**
+   * Makes items draggable, e.g. out onto the host desktop
+   */
+  onFileDragStart?: (file: FileItem, event: DragEvent) => void;
 }
 
+// Drop target id for the list itself rather than one of its folders
+const LIST_DROP_TARGET = '';
+
+// Lines of a text preview that fit on a grid thumbnail
+const THUMBNAIL_LINES = 12;
+
+const LIST_COLUMNS: { label: string; key: SortKey }[] = [
+  { label: 'Name', key: 'name' },
+  { label: 'Size', key: 'size' },
+  { label: 'Kind', key: 'kind' },
+  { label: 'Modified', key: 'date' }
+];
+
 const FileList: Component<FileListProps> = (props) => {
+  const [dropTarget, setDropTarget] = createSignal<string | null>(null);
+
   const formatFileSize = (bytes?: number) => {
     if (!bytes) return '--';
     const sizes = ['B', 'KB', 'MB', 'GB'];
@@ -27,33 +54,33 @@ const FileList: Component<FileListProps> = (props) => {
     return Math.round(bytes / Math.pow(1024, i) * 100) / 100 + ' ' + sizes[i];
   };
 
-  const getFileIcon = (file: FileItem) => {
-    if (file.type === 'folder') {
-      return <IconFolder class="w-6 h-6 text-brand-primary" />;
+  const getThumbnail = (file: FileItem, preview: FilePreview) => {
+    if (preview.type === 'image') {
+      return <img src={preview.thumbnail} alt={file.name} class="w-16 h-16 object-contain" draggable={false} />;
     }
+    return (
+      <div class="w-12 h-16 overflow-hidden rounded-sm border border-border bg-background p-1 text-left font-mono text-[4px] leading-[5px] whitespace-pre text-muted-foreground">
+        {preview.text.split('\n').slice(0, THUMBNAIL_LINES).join('\n')}
+      </div>
+    );
+  };
 
-    const extension = file.extension?.toLowerCase();
-    switch (extension) {
-      case 'txt':
-        return <IconFileText class="w-6 h-6 text-foreground" />;
-      case 'json':
-        return <IconFileCode class="w-6 h-6 text-success" />;
-      case 'log':
-        return <IconFileWarning class="w-6 h-6 text-warning" />;
-      case 'jpg':
-      case 'png':
-      case 'gif':
-        return <IconImage class="w-6 h-6 text-info" />;
-      case 'mp4':
-      case 'avi':
-      case 'mkv':
-        return <IconVideo class="w-6 h-6 text-error" />;
-      case 'mp3':
-      case 'wav':
-        return <IconMusic class="w-6 h-6 text-brand-primary" />;
-      default:
-        return <IconFile class="w-6 h-6 text-muted-foreground" />;
-    }
+  const isSelected = (file: FileItem) => props.selectedItems.includes(file.path);
+
+  const kindOf = (file: FileItem) => (file.type === 'folder' ? 'Folder' : file.extension?.toUpperCase() ?? 'Document');
+
+  // Clicking the sorted column again reverses it
+  const handleHeaderClick = (key: SortKey) => {
+    const order = props.sortOrder;
+    props.onSortChange?.({
+      key,
+      direction: order?.key === key && order.direction === 'asc' ? 'desc' : 'asc'
+    });
+  };
+
+  const sortIndicator = (key: SortKey) => {
+    if (props.sortOrder?.key !== key) return '';
+    return props.sortOrder.direction === 'asc' ? ' ▲' : ' ▼';
   };
 
   const handleItemClick = (file: FileItem, event: MouseEvent) => {
@@ -65,15 +92,73 @@ const FileList: Component<FileListProps> = (props) => {
     props.onFileDoubleClick(file);
   };
 
+  const handleContextMenu = (file: FileItem | null, event: MouseEvent) => {
+    if (!props.onContextMenu) return;
+    event.preventDefault();
+    event.stopPropagation();
+    props.onContextMenu(file, event);
+  };
+
+  const acceptsDrop = (event: DragEvent) => !!props.onHostDrop && hostTransfer.hasFiles(event.dataTransfer);
+
+  const handleDragOver = (folder: FileItem | null, event: DragEvent) => {
+    if (!acceptsDrop(event)) return;
+    event.preventDefault();
+    event.stopPropagation();
+    event.dataTransfer!.dropEffect = 'copy';
+    setDropTarget(folder?.path ?? LIST_DROP_TARGET);
+  };
+
+  const handleDragLeave = (event: DragEvent) => {
+    const container = event.currentTarget as HTMLElement;
+    if (!container.contains(event.relatedTarget as Node | null)) {
+      setDropTarget(null);
+    }
+  };
+
+  const handleDrop = (folder: FileItem | null, event: DragEvent) => {
+    if (!acceptsDrop(event)) return;
+    event.preventDefault();
+    event.stopPropagation();
+    setDropTarget(null);
+    props.onHostDrop!(hostTransfer.capture(event.dataTransfer!), folder);
+  };
+
+  // Folders take host drops themselves; files leave them to the list
+  const handleItemDragOver = (file: FileItem, event: DragEvent) => {
+    if (file.type === 'folder') handleDragOver(file, event);
+  };
+
+  const handleItemDrop = (file: FileItem, event: DragEvent) => {
+    if (file.type === 'folder') handleDrop(file, event);
+  };
+
+  const isDropTarget = (file: FileItem) => dropTarget() === file.path;
+
   return (
-    <div class="h-full overflow-auto p-4 text-foreground">
+    <div
+      class="h-full overflow-auto p-4 text-foreground"
+      classList={{ 'ring-2 ring-inset ring-brand-primary': dropTarget() === LIST_DROP_TARGET }}
+      onContextMenu={(e) => handleContextMenu(null, e)}
+      onDragOver={(e) => handleDragOver(null, e)}
+      onDragLeave={handleDragLeave}
+      onDrop={(e) => handleDrop(null, e)}
+    >
       <Show when={props.viewMode === 'list'}>
         <table class="min-w-full divide-y divide-border">
           <thead class="bg-surface">
             <tr>
-              <th scope="col" class="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Name</th>
-              <th scope="col" class="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Size</th>
-              <th scope="col" class="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Modified</th>
+              <For each={LIST_COLUMNS}>
+                {(column) => (
+                  <th
+                    scope="col"
+                    class="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider cursor-pointer select-none hover:text-foreground"
+                    onClick={() => handleHeaderClick(column.key)}
+                  >
+                    {column.label}{sortIndicator(column.key)}
+                  </th>
+                )}
+              </For>
             </tr>
           </thead>
           <tbody class="bg-background divide-y divide-border">
@@ -81,18 +166,29 @@ const FileList: Component<FileListProps> = (props) => {
               {(file) => (
                 <tr
                   class={`hover:bg-muted/50 ${
-                    navigationModel.selectedItems().includes(file.path) ? 'bg-brand-primary/10 border-l-2 border-brand-primary' : ''
+                    isSelected(file) ? 'bg-brand-primary/10 border-l-2 border-brand-primary' : ''
                   }`}
+                  classList={{ 'ring-2 ring-inset ring-brand-primary': isDropTarget(file) }}
+                  draggable={!!props.onFileDragStart}
                   onClick={(e) => handleItemClick(file, e)}
                   onDblClick={() => handleItemDoubleClick(file)}
+                  onContextMenu={(e) => handleContextMenu(file, e)}
+                  onPointerDown={() => props.onFilePointerDown?.(file)}
+                  onDragStart={(e) => props.onFileDragStart?.(file, e)}
+                  onDragOver={(e) => handleItemDragOver(file, e)}
+                  onDrop={(e) => handleItemDrop(file, e)}
                 >
                   <td class="px-6 py-3 whitespace-nowrap text-sm font-medium flex items-center gap-2">
-                    <span class="flex-shrink-0 w-6 h-6">{getFileIcon(file)}</span>
+                    <span class="flex-shrink-0 w-6 h-6"><FileIcon file={file} /></span>
                     <span>{file.name}</span>
+                    <TagDots tags={file.tags} />
                   </td>
                   <td class="px-6 py-3 whitespace-nowrap text-sm text-muted-foreground">
                     {file.type === 'folder' ? '--' : formatFileSize(file.size)}
                   </td>
+                  <td class="px-6 py-3 whitespace-nowrap text-sm text-muted-foreground">
+                    {kindOf(file)}
+                  </td>
                   <td class="px-6 py-3 whitespace-nowrap text-sm text-muted-foreground">
                     {file.modified || '--'}
                   </td>
@@ -109,15 +205,30 @@ const FileList: Component<FileListProps> = (props) => {
             {(file) => (
               <div
                 class={`flex flex-col items-center p-4 rounded-lg cursor-pointer transition-all duration-200 ease-in-out border-2 border-transparent ${
-                  navigationModel.selectedItems().includes(file.path)
+                  isSelected(file)
                     ? 'bg-brand-primary/10 border-brand-primary'
                     : 'hover:bg-muted/50'
                 }`}
+                classList={{ 'ring-2 ring-brand-primary': isDropTarget(file) }}
+                draggable={!!props.onFileDragStart}
                 onClick={(e) => handleItemClick(file, e)}
                 onDblClick={() => handleItemDoubleClick(file)}
+                onContextMenu={(e) => handleContextMenu(file, e)}
+                onPointerDown={() => props.onFilePointerDown?.(file)}
+                onDragStart={(e) => props.onFileDragStart?.(file, e)}
+                onDragOver={(e) => handleItemDragOver(file, e)}
+                onDrop={(e) => handleItemDrop(file, e)}
               >
-                <div class="flex-shrink-0 w-12 h-12 mb-2">{getFileIcon(file)}</div>
-                <div class="text-xs text-center break-all leading-tight">{file.name}</div>
+                <Show
+                  when={props.previews?.[file.path]}
+                  fallback={<div class="flex-shrink-0 w-12 h-12 mb-2"><FileIcon file={file} /></div>}
+                >
+                  {(preview) => <div class="flex-shrink-0 flex items-center justify-center h-16 mb-2">{getThumbnail(file, preview())}</div>}
+                </Show>
+                <div class="text-xs text-center break-all leading-tight">
+                  {file.name}
+                  <TagDots tags={file.tags} class="ml-1 align-middle" />
+                </div>
               </div>
             )}
           </For>
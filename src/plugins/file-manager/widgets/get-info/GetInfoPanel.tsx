@@ -0,0 +1,147 @@
+import { Component, createSignal, For, Show } from 'solid-js';
+import { dirname, formatMode } from '@core/file-system';
+import { Button } from '../../shared/ui';
+import type { FileItem, FileSystemStats } from '../../entities/file';
+import type { PermissionChanges } from '../../features/file-operations';
+
+interface GetInfoPanelProps {
+  file: FileItem;
+  /**
+   * Contents of a folder, once counted
+   */
+  stats?: FileSystemStats | null;
+  /**
+   * Owners (and root) may change the mode
+   */
+  canChangeMode: boolean;
+  /**
+   * Only root may hand items to someone else
+   */
+  canChangeOwner: boolean;
+  onApply: (changes: PermissionChanges) => void;
+  onClose: () => void;
+}
+
+const CLASSES = [
+  { label: 'Owner', shift: 6 },
+  { label: 'Group', shift: 3 },
+  { label: 'Everyone', shift: 0 }
+];
+
+const BITS = [
+  { label: 'Read', bit: 4 },
+  { label: 'Write', bit: 2 },
+  { label: 'Execute', bit: 1 }
+];
+
+const formatFileSize = (bytes?: number) => {
+  if (!bytes) return 'Zero bytes';
+  const sizes = ['B', 'KB', 'MB', 'GB'];
+  const i = Math.floor(Math.log(bytes) / Math.log(1024));
+  return Math.round(bytes / Math.pow(1024, i) * 100) / 100 + ' ' + sizes[i];
+};
+
+const GetInfoPanel: Component<GetInfoPanelProps> = (props) => {
+  const [owner, setOwner] = createSignal(props.file.owner ?? '');
+  const [group, setGroup] = createSignal(props.file.group ?? '');
+  const [mode, setMode] = createSignal(props.file.mode ?? 0);
+
+  const toggleBit = (mask: number, checked: boolean) => {
+    setMode(current => (checked ? current | mask : current & ~mask));
+  };
+
+  const apply = () => {
+    const changes: PermissionChanges = {};
+    if (mode() !== props.file.mode) changes.mode = mode();
+    if (owner().trim() && owner().trim() !== props.file.owner) changes.owner = owner().trim();
+    if (group().trim() && group().trim() !== props.file.group) changes.group = group().trim();
+    props.onApply(changes);
+  };
+
+  const inputClass = 'w-full bg-background border border-border rounded px-1.5 py-0.5 text-xs text-foreground disabled:opacity-60';
+
+  return (
+    <div class="absolute inset-0 z-40 flex items-center justify-center bg-overlay/30">
+      <div class="w-[380px] max-w-[90%] rounded-lg border border-border bg-surface p-4 shadow-2xl text-foreground">
+        <h3 class="text-sm font-semibold mb-3 truncate">{props.file.name} Info</h3>
+
+        <dl class="grid grid-cols-[80px_1fr] gap-x-3 gap-y-1 text-xs mb-4">
+          <dt class="text-muted-foreground">Kind</dt>
+          <dd>{props.file.type === 'folder' ? 'Folder' : props.file.mimeType ?? 'Document'}</dd>
+          <Show when={props.file.type === 'file'}>
+            <dt class="text-muted-foreground">Size</dt>
+            <dd>{formatFileSize(props.file.size)}</dd>
+          </Show>
+          <Show when={props.file.type === 'folder'}>
+            <dt class="text-muted-foreground">Size</dt>
+            <dd>
+              <Show when={props.stats} fallback="Calculating…">
+                {(stats) => `${formatFileSize(stats().totalSize)} for ${stats().totalFiles + stats().totalFolders} items`}
+              </Show>
+            </dd>
+          </Show>
+          <dt class="text-muted-foreground">Where</dt>
+          <dd class="break-all">{dirname(props.file.path)}</dd>
+          <dt class="text-muted-foreground">Created</dt>
+          <dd>{props.file.created ?? '--'}</dd>
+          <dt class="text-muted-foreground">Modified</dt>
+          <dd>{props.file.modified ?? '--'}</dd>
+        </dl>
+
+        <h4 class="text-xs font-semibold mb-2">Sharing &amp; Permissions</h4>
+        <div class="grid grid-cols-2 gap-2 mb-3 text-xs">
+          <label class="flex flex-col gap-1">
+            <span class="text-muted-foreground">Owner</span>
+            <input class={inputClass} value={owner()} disabled={!props.canChangeOwner} onInput={(e) => setOwner(e.currentTarget.value)} />
+          </label>
+          <label class="flex flex-col gap-1">
+            <span class="text-muted-foreground">Group</span>
+            <input class={inputClass} value={group()} disabled={!props.canChangeMode} onInput={(e) => setGroup(e.currentTarget.value)} />
+          </label>
+        </div>
+
+        <table class="w-full text-xs mb-2">
+          <thead>
+            <tr class="text-muted-foreground">
+              <th class="text-left font-normal"></th>
+              <For each={BITS}>{(bit) => <th class="font-normal">{bit.label}</th>}</For>
+            </tr>
+          </thead>
+          <tbody>
+            <For each={CLASSES}>
+              {(cls) => (
+                <tr>
+                  <td class="py-0.5">{cls.label}</td>
+                  <For each={BITS}>
+                    {(bit) => (
+                      <td class="text-center">
+                        <input
+                          type="checkbox"
+                          checked={(mode() & (bit.bit << cls.shift)) !== 0}
+                          disabled={!props.canChangeMode}
+                          onChange={(e) => toggleBit(bit.bit << cls.shift, e.currentTarget.checked)}
+                        />
+                      </td>
+                    )}
+                  </For>
+                </tr>
+              )}
+            </For>
+          </tbody>
+        </table>
+        <p class="text-xs text-muted-foreground font-mono mb-4">
+          {formatMode(props.file.type === 'folder' ? 'directory' : 'file', mode())} ({(mode() & 0o7777).toString(8).padStart(4, '0')})
+        </p>
+
+        <div class="flex justify-end gap-2">
+          <Button variant="secondary" size="sm" onClick={props.onClose}>Close</Button>
+          <Show when={props.canChangeMode || props.canChangeOwner}>
+            <Button size="sm" onClick={apply}>Apply</Button>
+          </Show>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export { GetInfoPanel };
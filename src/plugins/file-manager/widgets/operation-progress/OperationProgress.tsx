@@ -0,0 +1,53 @@
+import { Component, For } from 'solid-js';
+import { basename } from '@core/file-system';
+import type { OperationProgress } from '../../features/file-operations';
+import { Button } from '../../shared/ui';
+
+interface OperationProgressListProps {
+  operations: OperationProgress[];
+  onCancel: (id: string) => void;
+}
+
+const percent = (progress: OperationProgress) =>
+  progress.total === 0 ? 0 : Math.round((progress.processed / progress.total) * 100);
+
+const describe = (progress: OperationProgress) => {
+  switch (progress.operation) {
+    case 'compress':
+      return `Compressing "${basename(progress.archivePath)}"`;
+    case 'extract':
+      return `Extracting "${basename(progress.archivePath)}"`;
+    case 'import':
+      return `Importing into "${basename(progress.destination) || '/'}"`;
+  }
+};
+
+const targetPath = (progress: OperationProgress) =>
+  progress.operation === 'import' ? progress.destination : progress.archivePath;
+
+const OperationProgressList: Component<OperationProgressListProps> = (props) => {
+  return (
+    <div class="flex flex-col border-b border-border bg-surface text-foreground">
+      <For each={props.operations}>
+        {(progress) => (
+          <div class="flex items-center gap-3 px-3 py-1.5 text-xs">
+            <span class="w-48 truncate" title={progress.currentPath ?? targetPath(progress)}>
+              {describe(progress)}
+            </span>
+            <div class="flex-1 h-1.5 rounded-full bg-muted overflow-hidden">
+              <div class="h-full bg-primary transition-all" style={{ width: `${percent(progress)}%` }}></div>
+            </div>
+            <span class="w-16 text-right text-muted-foreground">
+              {progress.processed}/{progress.total}
+            </span>
+            <Button variant="secondary" size="sm" onClick={() => props.onCancel(progress.id)}>
+              Cancel
+            </Button>
+          </div>
+        )}
+      </For>
+    </div>
+  );
+};
+
+export { OperationProgressList };
@@ -0,0 +1,85 @@
+import { Component, Match, Show, Switch } from 'solid-js';
+import type { FilePreview } from '@core/file-system';
+import type { FileItem } from '../../entities/file';
+
+interface PreviewPaneProps {
+  /**
+   * The selected item; null when nothing or several items are selected
+   */
+  file: FileItem | null;
+  /**
+   * Undefined while loading, null when the file has no preview
+   */
+  preview: FilePreview | null | undefined;
+}
+
+const formatFileSize = (bytes?: number) => {
+  if (!bytes) return 'Zero bytes';
+  const sizes = ['B', 'KB', 'MB', 'GB'];
+  const i = Math.floor(Math.log(bytes) / Math.log(1024));
+  return Math.round(bytes / Math.pow(1024, i) * 100) / 100 + ' ' + sizes[i];
+};
+
+type ImagePreview = Extract<FilePreview, { type: 'image' }>;
+type TextPreview = Extract<FilePreview, { type: 'text' | 'json' }>;
+
+const asImage = (preview: FilePreview | null | undefined): ImagePreview | null =>
+  preview?.type === 'image' ? preview : null;
+
+const asText = (preview: FilePreview | null | undefined): TextPreview | null =>
+  preview && preview.type !== 'image' ? preview : null;
+
+const PreviewPane: Component<PreviewPaneProps> = (props) => {
+  return (
+    <aside class="w-72 shrink-0 flex flex-col border-l border-border bg-surface text-foreground overflow-hidden">
+      <Show
+        when={props.file}
+        fallback={<p class="p-4 text-xs text-muted-foreground text-center">Select a file to preview it.</p>}
+      >
+        {(file) => (
+          <>
+            <div class="flex-1 min-h-0 overflow-auto p-3">
+              <Switch fallback={<p class="text-xs text-muted-foreground text-center mt-8">No preview available</p>}>
+                <Match when={file().type === 'file' && props.preview === undefined}>
+                  <p class="text-xs text-muted-foreground text-center mt-8">Loading preview…</p>
+                </Match>
+                <Match when={asImage(props.preview)}>
+                  {(image) => (
+                    <img
+                      src={image().thumbnail}
+                      alt={file().name}
+                      class="max-w-full max-h-64 mx-auto rounded border border-border object-contain"
+                    />
+                  )}
+                </Match>
+                <Match when={asText(props.preview)}>
+                  {(text) => (
+                    <pre class="text-[11px] leading-snug font-mono whitespace-pre-wrap break-words bg-background rounded border border-border p-2">
+                      {text().text}
+                      <Show when={text().truncated}>{'\n…'}</Show>
+                    </pre>
+                  )}
+                </Match>
+              </Switch>
+            </div>
+
+            <dl class="grid grid-cols-[70px_1fr] gap-x-3 gap-y-1 text-xs p-3 border-t border-border">
+              <dt class="text-muted-foreground">Name</dt>
+              <dd class="truncate" title={file().name}>{file().name}</dd>
+              <dt class="text-muted-foreground">Kind</dt>
+              <dd class="truncate">{file().type === 'folder' ? 'Folder' : file().mimeType ?? 'Document'}</dd>
+              <Show when={file().type === 'file'}>
+                <dt class="text-muted-foreground">Size</dt>
+                <dd>{formatFileSize(file().size)}</dd>
+              </Show>
+              <dt class="text-muted-foreground">Modified</dt>
+              <dd>{file().modified ?? '--'}</dd>
+            </dl>
+          </>
+        )}
+      </Show>
+    </aside>
+  );
+};
+
+export { PreviewPane };
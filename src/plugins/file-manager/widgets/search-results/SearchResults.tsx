@@ -0,0 +1,184 @@
+import { Component, For, Show } from 'solid-js';
+import { dirname } from '@core/file-system';
+import type { FileKind, SearchResult, TextRange } from '@core/file-system';
+import { DATE_FILTERS, SIZE_FILTERS } from '../../features/search';
+import type { DateFilter, SearchFilters, SizeFilter } from '../../features/search';
+import { TAG_COLORS } from '../../entities/file';
+import type { TagColor } from '../../entities/file';
+import { TagDots } from '../../shared/ui';
+
+import IconFolder from '~icons/heroicons-outline/folder';
+import IconFile from '~icons/heroicons-outline/document';
+import IconX from '~icons/heroicons-outline/x';
+
+const KIND_OPTIONS: { label: string; kind: FileKind | 'any' }[] = [
+  { label: 'Any Kind', kind: 'any' },
+  { label: 'Folders', kind: 'folder' },
+  { label: 'Documents', kind: 'document' },
+  { label: 'Images', kind: 'image' },
+  { label: 'Audio', kind: 'audio' },
+  { label: 'Movies', kind: 'video' },
+  { label: 'Archives', kind: 'archive' },
+  { label: 'Other', kind: 'other' }
+];
+
+interface SearchResultsProps {
+  query: string;
+  results: SearchResult[];
+  filters: SearchFilters;
+  isSearching: boolean;
+  currentFolderName: string;
+  /**
+   * Name of the smart folder or tag being shown instead of a typed search
+   */
+  title?: string;
+  tagsFor: (path: string) => TagColor[];
+  /**
+   * Label of the button that saves the search as a smart folder; hidden when unset
+   */
+  saveLabel?: string;
+  onSave?: () => void;
+  onClose: () => void;
+  onFilterChange: <K extends keyof SearchFilters>(key: K, value: SearchFilters[K]) => void;
+  onOpen: (result: SearchResult) => void;
+  onReveal: (result: SearchResult) => void;
+}
+
+/**
+ * Split `text` into plain and highlighted parts
+ */
+const Highlighted: Component<{ text: string; ranges: TextRange[] }> = (props) => {
+  const parts = () => {
+    const result: { text: string; match: boolean }[] = [];
+    let index = 0;
+    for (const range of props.ranges) {
+      if (range.start > index) result.push({ text: props.text.slice(index, range.start), match: false });
+      result.push({ text: props.text.slice(range.start, range.end), match: true });
+      index = range.end;
+    }
+    if (index < props.text.length) result.push({ text: props.text.slice(index), match: false });
+    return result;
+  };
+
+  return (
+    <For each={parts()}>
+      {(part) => (part.match ? <mark class="bg-warning/40 text-inherit rounded-sm">{part.text}</mark> : part.text)}
+    </For>
+  );
+};
+
+const SearchResults: Component<SearchResultsProps> = (props) => {
+  const selectClass = 'bg-background border border-border rounded px-1 py-0.5 text-xs text-foreground';
+  const scopeClass = (active: boolean) =>
+    `px-2 py-0.5 rounded ${active ? 'bg-primary text-primary-foreground' : 'hover:bg-muted'}`;
+
+  return (
+    <div class="h-full flex flex-col text-foreground">
+      {/* Filter bar */}
+      <div class="flex flex-wrap items-center gap-2 px-3 py-1.5 text-xs bg-surface border-b border-border">
+        <Show when={props.title}>
+          <span class="font-semibold">{props.title}</span>
+        </Show>
+        <span class="text-muted-foreground">Search:</span>
+        <button class={scopeClass(props.filters.scope === 'everywhere')} onClick={() => props.onFilterChange('scope', 'everywhere')}>
+          Everywhere
+        </button>
+        <button class={scopeClass(props.filters.scope === 'folder')} onClick={() => props.onFilterChange('scope', 'folder')}>
+          "{props.currentFolderName}"
+        </button>
+
+        <div class="flex-grow"></div>
+
+        <select
+          class={selectClass}
+          value={props.filters.kind}
+          onChange={(e) => props.onFilterChange('kind', e.currentTarget.value as SearchFilters['kind'])}
+        >
+          <For each={KIND_OPTIONS}>{(option) => <option value={option.kind}>{option.label}</option>}</For>
+        </select>
+        <select
+          class={selectClass}
+          value={props.filters.size}
+          onChange={(e) => props.onFilterChange('size', e.currentTarget.value as SizeFilter)}
+        >
+          <For each={Object.entries(SIZE_FILTERS)}>{([value, option]) => <option value={value}>{option.label}</option>}</For>
+        </select>
+        <select
+          class={selectClass}
+          value={props.filters.modified}
+          onChange={(e) => props.onFilterChange('modified', e.currentTarget.value as DateFilter)}
+        >
+          <For each={Object.entries(DATE_FILTERS)}>{([value, option]) => <option value={value}>{option.label}</option>}</For>
+        </select>
+        <select
+          class={selectClass}
+          value={props.filters.tag}
+          onChange={(e) => props.onFilterChange('tag', e.currentTarget.value as SearchFilters['tag'])}
+        >
+          <option value="any">Any Tag</option>
+          <For each={TAG_COLORS}>{(tag) => <option value={tag.color}>{tag.label}</option>}</For>
+        </select>
+        <input
+          class={`${selectClass} w-20`}
+          placeholder="Extension"
+          value={props.filters.extension}
+          onInput={(e) => props.onFilterChange('extension', e.currentTarget.value.trim())}
+        />
+        <Show when={props.saveLabel}>
+          <button class="px-2 py-0.5 rounded border border-border hover:bg-muted" onClick={() => props.onSave?.()}>
+            {props.saveLabel}
+          </button>
+        </Show>
+        <button class="p-0.5 rounded hover:bg-muted" title="Close" onClick={props.onClose}>
+          <IconX class="w-3.5 h-3.5" />
+        </button>
+      </div>
+
+      {/* Results */}
+      <div class="flex-1 overflow-auto scrollbar-thin p-2">
+        <Show when={props.results.length === 0 && !props.isSearching}>
+          <div class="flex items-center justify-center h-full text-sm text-muted-foreground">
+            {props.query ? `No results for "${props.query}"` : 'No items'}
+          </div>
+        </Show>
+
+        <For each={props.results}>
+          {(result) => (
+            <div
+              class="flex items-start gap-2 px-2 py-1.5 rounded-md hover:bg-muted/50 cursor-default"
+              onDblClick={() => props.onOpen(result)}
+            >
+              <span class="flex-shrink-0 w-5 h-5 mt-0.5">
+                {result.type === 'directory'
+                  ? <IconFolder class="w-5 h-5 text-brand-primary" />
+                  : <IconFile class="w-5 h-5 text-muted-foreground" />}
+              </span>
+              <div class="min-w-0 flex-1">
+                <div class="text-sm truncate flex items-center gap-1.5">
+                  <span class="truncate"><Highlighted text={result.name} ranges={result.nameMatches} /></span>
+                  <TagDots tags={props.tagsFor(result.path)} />
+                </div>
+                <Show when={result.contentMatch}>
+                  {(match) => (
+                    <div class="text-xs text-muted-foreground truncate font-mono">
+                      {match().line}: <Highlighted text={match().text} ranges={match().matches} />
+                    </div>
+                  )}
+                </Show>
+                <button
+                  class="text-xs text-muted-foreground truncate hover:underline"
+                  title="Show in Enclosing Folder"
+                  onClick={() => props.onReveal(result)}
+                >
+                  {dirname(result.path)}
+                </button>
+              </div>
+            </div>
+          )}
+        </For>
+      </div>
+    </div>
+  );
+};
+
+export { SearchResults };
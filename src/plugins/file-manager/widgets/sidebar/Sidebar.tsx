@@ -1,71 +1,206 @@
-import { Component, For, Show } from 'solid-js';
+import { Component, createSignal, For, Show } from 'solid-js';
+import { HOME_PATH, ROOT_PATH, TRASH_PATH, basename } from '@core/file-system';
+import type { MountInfo, UserDiskUsage } from '@core/file-system';
+import { FILE_DRAG_TYPE, TAG_COLORS } from '../../entities/file';
+import type { TagColor } from '../../entities/file';
+import { TAG_DOT_CLASSES } from '../../shared/ui';
 
 // Import icons using unplugin-icons (Heroicons for macOS-style)
 import IconXMark from '~icons/heroicons-outline/x-mark';
-import IconClock from '~icons/heroicons-outline/clock';
-import IconSquares2X2 from '~icons/heroicons-outline/squares-2x2';
+import IconHome from '~icons/heroicons-outline/home';
 import IconComputerDesktop from '~icons/heroicons-outline/computer-desktop';
 import IconDocumentText from '~icons/heroicons-outline/document-text';
 import IconArrowDownTray from '~icons/heroicons-outline/arrow-down-tray';
-import IconCloud from '~icons/heroicons-outline/cloud';
 import IconServer from '~icons/heroicons-outline/server';
-import IconGlobeAlt from '~icons/heroicons-outline/globe-alt';
+import IconTrash from '~icons/heroicons-outline/trash';
+import IconTrashFull from '~icons/heroicons-solid/trash';
+import IconArchiveBox from '~icons/heroicons-outline/archive-box';
+import IconCircleStack from '~icons/heroicons-outline/circle-stack';
+import IconEject from '~icons/heroicons-outline/arrow-up-tray';
+import IconFolder from '~icons/heroicons-outline/folder';
+import IconCog from '~icons/heroicons-outline/cog';
 
 interface SidebarItem {
   name: string;
   icon: any; // JSX element or string
-  path: string;
-  active?: boolean;
+  path?: string;
+  /**
+   * For items that are not folders, e.g. tags and smart folders
+   */
+  isActive?: boolean;
+  onSelect?: () => void;
+  onEject?: () => void;
+  onRemove?: () => void;
+  /**
+   * Accepts file manager items dropped onto it
+   */
+  onDropPaths?: (paths: string[]) => void;
+  draggable?: boolean;
 }
 
 interface SidebarSection {
   title: string;
   items: SidebarItem[];
+  /**
+   * Items dropped on the section's empty space
+   */
+  onDropPaths?: (paths: string[]) => void;
+  /**
+   * Shown even when there are no items
+   */
+  alwaysShown?: boolean;
 }
 
+export interface SidebarSmartFolder {
+  id: string;
+  name: string;
+}
+
+const FAVORITE_ICONS: Record<string, any> = {
+  [HOME_PATH]: IconHome,
+  [`${HOME_PATH}/Desktop`]: IconComputerDesktop,
+  [`${HOME_PATH}/Documents`]: IconDocumentText,
+  [`${HOME_PATH}/Downloads`]: IconArrowDownTray
+};
+
+const readDraggedPaths = (event: DragEvent): string[] => {
+  try {
+    const paths = JSON.parse(event.dataTransfer?.getData(FILE_DRAG_TYPE) || '[]');
+    return Array.isArray(paths) ? paths.filter((path): path is string => typeof path === 'string') : [];
+  } catch {
+    return [];
+  }
+};
+
+const carriesPaths = (event: DragEvent) => !!event.dataTransfer?.types.includes(FILE_DRAG_TYPE);
+
+const formatFileSize = (bytes: number) => {
+  if (bytes === 0) return '0 B';
+  const sizes = ['B', 'KB', 'MB', 'GB'];
+  const i = Math.floor(Math.log(bytes) / Math.log(1024));
+  return Math.round(bytes / Math.pow(1024, i) * 100) / 100 + ' ' + sizes[i];
+};
+
 interface SidebarProps {
   isOpen: boolean;
+  currentPath: string;
+  isTrashEmpty: boolean;
+  devices: MountInfo[];
+  /**
+   * The current user's usage against their quota
+   */
+  storage: UserDiskUsage | null;
+  favorites: string[];
+  smartFolders: SidebarSmartFolder[];
+  /**
+   * Tag or smart folder whose items are showing, if any
+   */
+  activeTag: TagColor | null;
+  activeSmartFolderId: string | null;
+  onEject: (mountPoint: string) => void;
+  onNavigate: (path: string) => void;
+  /**
+   * Pin folders before the favorite at `index`, or at the end
+   */
+  onAddFavorites: (paths: string[], index?: number) => void;
+  onRemoveFavorite: (path: string) => void;
+  onShowTag: (tag: TagColor) => void;
+  onTag: (paths: string[], tag: TagColor) => void;
+  onOpenSmartFolder: (id: string) => void;
+  onRemoveSmartFolder: (id: string) => void;
   onClose: () => void;
 }
 
 const Sidebar: Component<SidebarProps> = (props) => {
-  const sections: SidebarSection[] = [
+  // Section or item a drag is hovering, to highlight it
+  const [dropTarget, setDropTarget] = createSignal<object | null>(null);
+
+  const favoriteItem = (path: string, index: number): SidebarItem => {
+    const Icon = FAVORITE_ICONS[path] ?? IconFolder;
+    return {
+      name: path === HOME_PATH ? 'Home' : basename(path) || 'Macintosh HD',
+      icon: <Icon class="w-4 h-4" />,
+      path,
+      draggable: true,
+      onRemove: () => props.onRemoveFavorite(path),
+      onDropPaths: (paths) => props.onAddFavorites(paths, index)
+    };
+  };
+
+  const sections = (): SidebarSection[] => [
     {
       title: 'Favorites',
-      items: [
-        { name: 'Recents', icon: <IconClock class="w-4 h-4" />, path: '/recents', active: true },
-        { name: 'Applications', icon: <IconSquares2X2 class="w-4 h-4" />, path: '/applications' },
-        { name: 'Desktop', icon: <IconComputerDesktop class="w-4 h-4" />, path: '/desktop' },
-        { name: 'Documents', icon: <IconDocumentText class="w-4 h-4" />, path: '/documents' },
-        { name: 'Downloads', icon: <IconArrowDownTray class="w-4 h-4" />, path: '/downloads' },
-      ],
+      items: props.favorites.map(favoriteItem),
+      onDropPaths: (paths) => props.onAddFavorites(paths),
+      alwaysShown: true
     },
     {
-      title: 'iCloud',
+      title: 'Locations',
       items: [
-        { name: 'iCloud Drive', icon: <IconCloud class="w-4 h-4" />, path: '/icloud-drive' },
+        { name: 'Macintosh HD', icon: <IconServer class="w-4 h-4" />, path: ROOT_PATH },
+        {
+          name: 'Trash',
+          icon: props.isTrashEmpty ? <IconTrash class="w-4 h-4" /> : <IconTrashFull class="w-4 h-4" />,
+          path: TRASH_PATH
+        },
       ],
     },
     {
-      title: 'Locations',
-      items: [
-        { name: 'Macintosh HD', icon: <IconServer class="w-4 h-4" />, path: '/' },
-        { name: 'Network', icon: <IconGlobeAlt class="w-4 h-4" />, path: '/network' },
-      ],
+      title: 'Devices',
+      items: props.devices.map(device => ({
+        name: basename(device.mountPoint),
+        icon: device.type === 'archive' ? <IconArchiveBox class="w-4 h-4" /> : <IconCircleStack class="w-4 h-4" />,
+        path: device.mountPoint,
+        onEject: () => props.onEject(device.mountPoint)
+      })),
+    },
+    {
+      title: 'Smart Folders',
+      items: props.smartFolders.map(folder => ({
+        name: folder.name,
+        icon: <IconCog class="w-4 h-4" />,
+        isActive: folder.id === props.activeSmartFolderId,
+        onSelect: () => props.onOpenSmartFolder(folder.id),
+        onRemove: () => props.onRemoveSmartFolder(folder.id)
+      })),
     },
     {
       title: 'Tags',
-      items: [
-        { name: 'Red', icon: <div class="w-4 h-4 rounded-full bg-red-500"></div>, path: '/tags/red' },
-        { name: 'Orange', icon: <div class="w-4 h-4 rounded-full bg-orange-500"></div>, path: '/tags/orange' },
-        { name: 'Yellow', icon: <div class="w-4 h-4 rounded-full bg-yellow-500"></div>, path: '/tags/yellow' },
-        { name: 'Green', icon: <div class="w-4 h-4 rounded-full bg-green-500"></div>, path: '/tags/green' },
-        { name: 'Blue', icon: <div class="w-4 h-4 rounded-full bg-blue-500"></div>, path: '/tags/blue' },
-        { name: 'Purple', icon: <div class="w-4 h-4 rounded-full bg-purple-500"></div>, path: '/tags/purple' },
-      ],
+      items: TAG_COLORS.map(({ color, label }) => ({
+        name: label,
+        icon: <div class={`w-4 h-4 rounded-full ${TAG_DOT_CLASSES[color]}`}></div>,
+        isActive: color === props.activeTag,
+        onSelect: () => props.onShowTag(color),
+        onDropPaths: (paths) => props.onTag(paths, color)
+      })),
     },
   ];
 
+  const isActive = (item: SidebarItem) =>
+    item.isActive ?? (!!item.path && item.path === props.currentPath && !props.activeTag && !props.activeSmartFolderId);
+
+  const dropHandlers = (target: SidebarItem | SidebarSection) => ({
+    onDragOver: (e: DragEvent) => {
+      if (!target.onDropPaths || !carriesPaths(e)) return;
+      e.preventDefault();
+      e.stopPropagation();
+      e.dataTransfer!.dropEffect = 'link';
+      setDropTarget(target);
+    },
+    onDragLeave: (e: DragEvent) => {
+      const element = e.currentTarget as HTMLElement;
+      if (!element.contains(e.relatedTarget as Node | null) && dropTarget() === target) setDropTarget(null);
+    },
+    onDrop: (e: DragEvent) => {
+      if (!target.onDropPaths || !carriesPaths(e)) return;
+      e.preventDefault();
+      e.stopPropagation();
+      setDropTarget(null);
+      const paths = readDraggedPaths(e);
+      if (paths.length > 0) target.onDropPaths(paths);
+    }
+  });
+
   return (
     <div class={`
       absolute top-0 left-0 h-full z-30
@@ -81,28 +216,73 @@ const Sidebar: Component<SidebarProps> = (props) => {
           <IconXMark class="w-5 h-5 text-foreground" />
         </button>
       </div>
-      <For each={sections}>{(section) => (
-          <div>
+      <For each={sections().filter(section => section.items.length > 0 || section.alwaysShown)}>{(section) => (
+          <div
+            class="rounded-md"
+            classList={{ 'ring-2 ring-brand-primary': dropTarget() === section }}
+            {...dropHandlers(section)}
+          >
             <h3 class="text-xs font-semibold text-muted-foreground uppercase px-2 mb-1">
               {section.title}
             </h3>
             <ul class="flex flex-col gap-0.5">
+              <Show when={section.items.length === 0 && section.onDropPaths}>
+                <li class="px-2 py-1.5 text-xs text-muted-foreground">Drag folders here</li>
+              </Show>
               <For each={section.items}>{(item) => (
-                  <li>
+                  <li {...dropHandlers(item)}>
                     <a
                       href="#"
-                      class={`flex items-center gap-2.5 px-2 py-1.5 text-sm font-medium rounded-md transition-colors ${
-                        item.active
+                      class={`group flex items-center gap-2.5 px-2 py-1.5 text-sm font-medium rounded-md transition-colors ${
+                        isActive(item)
                           ? 'bg-primary text-primary-foreground'
                           : 'text-foreground hover:bg-muted'
                       }`}
-                      onClick={() => {
-                        console.log(`Navigate to ${item.path}`);
+                      classList={{ 'ring-2 ring-brand-primary': dropTarget() === item }}
+                      draggable={item.draggable ?? false}
+                      onDragStart={(e) => {
+                        if (!item.path || !e.dataTransfer) return;
+                        e.dataTransfer.setData(FILE_DRAG_TYPE, JSON.stringify([item.path]));
+                        e.dataTransfer.effectAllowed = 'link';
+                      }}
+                      onClick={(e) => {
+                        e.preventDefault();
+                        if (item.onSelect) {
+                          item.onSelect();
+                        } else if (item.path) {
+                          props.onNavigate(item.path);
+                        }
                         props.onClose(); // Close sidebar on navigation
                       }}
                     >
                       <span class="text-base flex items-center justify-center">{item.icon}</span>
-                      <span>{item.name}</span>
+                      <span class="flex-1 truncate">{item.name}</span>
+                      <Show when={item.onEject}>
+                        <button
+                          class="p-0.5 rounded hover:bg-background/40"
+                          title={`Eject "${item.name}"`}
+                          onClick={(e) => {
+                            e.preventDefault();
+                            e.stopPropagation();
+                            item.onEject?.();
+                          }}
+                        >
+                          <IconEject class="w-3.5 h-3.5" />
+                        </button>
+                      </Show>
+                      <Show when={item.onRemove}>
+                        <button
+                          class="p-0.5 rounded opacity-0 group-hover:opacity-100 hover:bg-background/40"
+                          title={`Remove "${item.name}" from the Sidebar`}
+                          onClick={(e) => {
+                            e.preventDefault();
+                            e.stopPropagation();
+                            item.onRemove?.();
+                          }}
+                        >
+                          <IconXMark class="w-3.5 h-3.5" />
+                        </button>
+                      </Show>
                     </a>
                   </li>
                 )}
@@ -111,6 +291,33 @@ const Sidebar: Component<SidebarProps> = (props) => {
           </div>
         )}
       </For>
+
+      <Show when={props.storage}>
+        {(storage) => {
+          const percent = () => {
+            const { size, limit } = storage();
+            return limit ? Math.min(100, Math.round((size / limit) * 100)) : 0;
+          };
+          return (
+            <div class="mt-auto px-2 text-xs text-muted-foreground">
+              <Show when={storage().limit !== null}>
+                <div class="h-1.5 mb-1 rounded-full bg-muted overflow-hidden">
+                  <div
+                    class="h-full transition-all"
+                    classList={{ 'bg-primary': percent() < 90, 'bg-red-500': percent() >= 90 }}
+                    style={{ width: `${percent()}%` }}
+                  ></div>
+                </div>
+              </Show>
+              <span>
+                {storage().limit === null
+                  ? `${formatFileSize(storage().size)} used`
+                  : `${formatFileSize(storage().size)} of ${formatFileSize(storage().limit!)} used`}
+              </span>
+            </div>
+          );
+        }}
+      </Show>
     </div>
   );
 };
@@ -0,0 +1,56 @@
+import { Component, For } from 'solid-js';
+
+import IconX from '~icons/heroicons-outline/x';
+import IconPlus from '~icons/heroicons-outline/plus';
+
+export interface TabBarItem {
+  id: string;
+  title: string;
+}
+
+interface TabBarProps {
+  tabs: TabBarItem[];
+  activeId: string;
+  onSelect: (id: string) => void;
+  onClose: (id: string) => void;
+  onNew: () => void;
+}
+
+const TabBar: Component<TabBarProps> = (props) => {
+  return (
+    <div class="flex items-stretch gap-px bg-border border-b border-border text-foreground text-xs">
+      <For each={props.tabs}>
+        {(tab) => (
+          <div
+            class="group flex-1 min-w-0 flex items-center gap-1 px-2 py-1 cursor-default select-none"
+            classList={{
+              'bg-background font-medium': tab.id === props.activeId,
+              'bg-muted/80 text-muted-foreground hover:bg-muted': tab.id !== props.activeId
+            }}
+            onClick={() => props.onSelect(tab.id)}
+            onAuxClick={(e) => {
+              if (e.button === 1) props.onClose(tab.id);
+            }}
+          >
+            <button
+              class="p-0.5 rounded opacity-0 group-hover:opacity-100 hover:bg-background/70 transition-opacity"
+              title="Close Tab"
+              onClick={(e) => {
+                e.stopPropagation();
+                props.onClose(tab.id);
+              }}
+            >
+              <IconX class="w-3 h-3" />
+            </button>
+            <span class="flex-1 truncate text-center" title={tab.title}>{tab.title}</span>
+          </div>
+        )}
+      </For>
+      <button class="px-2 bg-muted/80 hover:bg-muted" title="New Tab" onClick={props.onNew}>
+        <IconPlus class="w-3.5 h-3.5" />
+      </button>
+    </div>
+  );
+};
+
+export { TabBar };
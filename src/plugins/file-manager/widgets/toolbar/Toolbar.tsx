@@ -1,6 +1,6 @@
 import { Component, For, Show } from 'solid-js';
-import { navigationModel } from '../../features/navigation';
-import { fileOperationsModel } from '../../features/file-operations';
+import type { ViewMode } from '../../features/navigation';
+import type { SortKey, SortOrder } from '../../entities/file';
 import Breadcrumb from '../breadcrumb';
 
 // Import icons using unplugin-icons (Heroicons for macOS-style)
@@ -12,21 +12,49 @@ import IconArrowPath from '~icons/heroicons-outline/arrow-path';
 import IconSquares2X2 from '~icons/heroicons-outline/squares-2x2';
 import IconFolderPlus from '~icons/heroicons-outline/folder-plus';
 import IconDocumentPlus from '~icons/heroicons-outline/document-plus';
+import IconEye from '~icons/heroicons-outline/eye';
+import IconViewColumns from '~icons/heroicons-outline/view-columns';
+import IconRectangleGroup from '~icons/heroicons-outline/rectangle-group';
+import IconPlus from '~icons/heroicons-outline/plus';
+import IconSortAscending from '~icons/heroicons-outline/sort-ascending';
+import IconSortDescending from '~icons/heroicons-outline/sort-descending';
 
 
 interface ToolbarProps {
   currentPath: string;
-  viewMode: 'list' | 'grid';
-  onViewModeChange: (mode: 'list' | 'grid') => void;
+  canGoBack: boolean;
+  onBack: () => void;
+  onNavigate: (path: string) => void;
+  viewMode: ViewMode;
+  onViewModeChange: (mode: ViewMode) => void;
+  /**
+   * How the current folder is sorted
+   */
+  sortOrder: SortOrder;
+  onSortChange: (order: SortOrder) => void;
+  isSplit: boolean;
+  onToggleSplit: () => void;
+  onNewTab: () => void;
+  isPreviewOpen: boolean;
+  onTogglePreview: () => void;
   onRefresh: () => void;
   onNewFolder: () => void;
   onNewFile: () => void;
   onToggleSidebar: () => void;
+  searchQuery: string;
+  onSearchChange: (query: string) => void;
 }
 
+const SORT_OPTIONS: { key: SortKey; label: string }[] = [
+  { key: 'name', label: 'Name' },
+  { key: 'size', label: 'Size' },
+  { key: 'kind', label: 'Kind' },
+  { key: 'date', label: 'Date Modified' }
+];
+
 const Toolbar: Component<ToolbarProps> = (props) => {
-  const handlePathChange = (path: string) => {
-    navigationModel.navigateToPath(path);
+  const toggleDirection = () => {
+    props.onSortChange({ ...props.sortOrder, direction: props.sortOrder.direction === 'asc' ? 'desc' : 'asc' });
   };
 
   return (
@@ -41,8 +69,8 @@ const Toolbar: Component<ToolbarProps> = (props) => {
           <IconBars3 class="w-[18px] h-[18px]" />
         </button>
         <button
-          onClick={() => navigationModel.goBack()}
-          disabled={navigationModel.pathHistory().length <= 1}
+          onClick={props.onBack}
+          disabled={!props.canGoBack}
           class="p-1.5 rounded-md hover:bg-background/70 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
           title="Back"
         >
@@ -60,11 +88,16 @@ const Toolbar: Component<ToolbarProps> = (props) => {
 
       {/* Center section: Breadcrumbs and Search */}
       <div class="flex items-center flex-grow mx-4 gap-4">
-        <Breadcrumb path={props.currentPath} onPathChange={handlePathChange} />
+        <Breadcrumb path={props.currentPath} onPathChange={props.onNavigate} />
         <div class="relative flex-grow hidden sm:block">
           <input
             type="text"
             placeholder="Search"
+            value={props.searchQuery}
+            onInput={(e) => props.onSearchChange(e.currentTarget.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Escape') props.onSearchChange('');
+            }}
             class="w-full pl-8 pr-2 py-1.5 text-sm bg-background/70 rounded-md focus:outline-none focus:ring-2 focus:ring-primary"
           />
           <span class="absolute left-2 top-1/2 -translate-y-1/2 text-muted-foreground">
@@ -104,6 +137,61 @@ const Toolbar: Component<ToolbarProps> = (props) => {
           >
             <IconSquares2X2 class="w-[18px] h-[18px]" />
           </button>
+          <button
+            onClick={() => props.onViewModeChange('columns')}
+            class={`p-1.5 rounded-md hover:bg-background/70 transition-colors ${
+              props.viewMode === 'columns' ? 'bg-primary text-primary-foreground' : ''
+            }`}
+            title="Column View"
+          >
+            <IconViewColumns class="w-[18px] h-[18px]" />
+          </button>
+
+          <select
+            value={props.sortOrder.key}
+            onChange={(e) => props.onSortChange({ ...props.sortOrder, key: e.currentTarget.value as SortKey })}
+            class="ml-1 py-1 px-1.5 text-xs bg-background/70 rounded-md focus:outline-none focus:ring-2 focus:ring-primary"
+            title="Sort By"
+          >
+            <For each={SORT_OPTIONS}>{(option) => <option value={option.key}>{option.label}</option>}</For>
+          </select>
+          <button
+            onClick={toggleDirection}
+            class="p-1.5 rounded-md hover:bg-background/70 transition-colors"
+            title={props.sortOrder.direction === 'asc' ? 'Ascending' : 'Descending'}
+          >
+            <Show when={props.sortOrder.direction === 'asc'} fallback={<IconSortDescending class="w-[18px] h-[18px]" />}>
+              <IconSortAscending class="w-[18px] h-[18px]" />
+            </Show>
+          </button>
+
+          <div class="h-6 w-px bg-border mx-1"></div>
+
+          <button
+            onClick={props.onToggleSplit}
+            class={`p-1.5 rounded-md hover:bg-background/70 transition-colors ${
+              props.isSplit ? 'bg-primary text-primary-foreground' : ''
+            }`}
+            title="Split View"
+          >
+            <IconRectangleGroup class="w-[18px] h-[18px]" />
+          </button>
+          <button
+            onClick={props.onNewTab}
+            class="p-1.5 rounded-md hover:bg-background/70 transition-colors"
+            title="New Tab"
+          >
+            <IconPlus class="w-[18px] h-[18px]" />
+          </button>
+          <button
+            onClick={props.onTogglePreview}
+            class={`p-1.5 rounded-md hover:bg-background/70 transition-colors ${
+              props.isPreviewOpen ? 'bg-primary text-primary-foreground' : ''
+            }`}
+            title="Preview Pane"
+          >
+            <IconEye class="w-[18px] h-[18px]" />
+          </button>
         </div>
 
         <div class="h-6 w-px bg-border mx-1"></div>
@@ -0,0 +1,51 @@
+import { Component, For } from 'solid-js';
+import { Button } from '../../shared/ui';
+
+const RETENTION_OPTIONS: { label: string; days: number | null }[] = [
+  { label: 'Never', days: null },
+  { label: 'After 7 days', days: 7 },
+  { label: 'After 30 days', days: 30 },
+  { label: 'After 90 days', days: 90 }
+];
+
+interface TrashBannerProps {
+  itemCount: number;
+  retentionDays: number | null;
+  onRetentionChange: (days: number | null) => void;
+  onEmptyTrash: () => void;
+}
+
+const TrashBanner: Component<TrashBannerProps> = (props) => {
+  return (
+    <div class="flex items-center justify-between gap-3 px-3 py-1.5 text-xs bg-surface border-b border-border text-foreground">
+      <span class="text-muted-foreground truncate">
+        {props.itemCount === 0 ? 'Trash is empty' : `${props.itemCount} item${props.itemCount === 1 ? '' : 's'} in Trash`}
+      </span>
+
+      <div class="flex items-center gap-2">
+        <label class="flex items-center gap-1.5 text-muted-foreground">
+          <span>Remove items</span>
+          <select
+            class="bg-background border border-border rounded px-1 py-0.5 text-xs text-foreground"
+            value={props.retentionDays === null ? '' : String(props.retentionDays)}
+            onChange={(e) => {
+              const value = e.currentTarget.value;
+              props.onRetentionChange(value === '' ? null : Number(value));
+            }}
+          >
+            <For each={RETENTION_OPTIONS}>
+              {(option) => (
+                <option value={option.days === null ? '' : String(option.days)}>{option.label}</option>
+              )}
+            </For>
+          </select>
+        </label>
+        <Button variant="secondary" size="sm" disabled={props.itemCount === 0} onClick={props.onEmptyTrash}>
+          Empty Trash
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export { TrashBanner };
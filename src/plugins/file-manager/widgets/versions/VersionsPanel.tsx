@@ -0,0 +1,138 @@
+import { Component, For, Show } from 'solid-js';
+import { basename } from '@core/file-system';
+import type { DiffLine, FileVersion } from '@core/file-system';
+import { VERSION_BUDGETS } from '../../features/versions';
+import { Button } from '../../shared/ui';
+
+interface VersionsPanelProps {
+  path: string;
+  /**
+   * Newest first, starting with the current contents
+   */
+  versions: FileVersion[];
+  fromId: string;
+  toId: string;
+  diff: DiffLine[] | null;
+  budgetBytes: number;
+  usedBytes: number;
+  onCompare: (fromId: string, toId: string) => void;
+  onRestore: (version: FileVersion) => void;
+  onBudgetChange: (bytes: number) => void;
+  onClose: () => void;
+}
+
+const formatFileSize = (bytes: number) => {
+  if (bytes === 0) return '0 B';
+  const sizes = ['B', 'KB', 'MB', 'GB'];
+  const i = Math.floor(Math.log(bytes) / Math.log(1024));
+  return Math.round(bytes / Math.pow(1024, i) * 100) / 100 + ' ' + sizes[i];
+};
+
+const versionLabel = (version: FileVersion) =>
+  version.current ? 'Current' : new Date(version.savedAt).toLocaleString();
+
+const lineClasses = {
+  equal: 'text-foreground',
+  added: 'bg-green-500/15 text-green-700 dark:text-green-400',
+  removed: 'bg-red-500/15 text-red-700 dark:text-red-400'
+};
+
+const linePrefix = { equal: ' ', added: '+', removed: '-' };
+
+const VersionsPanel: Component<VersionsPanelProps> = (props) => {
+  const selectClass = 'bg-background border border-border rounded px-1 py-0.5 text-xs text-foreground max-w-[180px]';
+
+  return (
+    <div class="absolute inset-0 z-40 flex items-center justify-center bg-overlay/30">
+      <div class="flex flex-col w-[640px] max-w-[95%] h-[480px] max-h-[95%] rounded-lg border border-border bg-surface shadow-2xl text-foreground">
+        <div class="px-4 pt-4 pb-2">
+          <h3 class="text-sm font-semibold truncate">Versions of "{basename(props.path)}"</h3>
+        </div>
+
+        <div class="flex flex-1 min-h-0 border-y border-border">
+          <ul class="w-56 shrink-0 overflow-auto border-r border-border text-xs">
+            <For each={props.versions}>
+              {(version) => (
+                <li
+                  class="flex items-center gap-2 px-3 py-1.5 cursor-pointer hover:bg-muted"
+                  classList={{ 'bg-primary/10': version.id === props.fromId }}
+                  onClick={() => props.onCompare(version.id, props.toId)}
+                >
+                  <div class="flex-1 min-w-0">
+                    <div class="truncate" classList={{ 'font-semibold': version.current }}>{versionLabel(version)}</div>
+                    <div class="text-muted-foreground truncate">{version.author} · {formatFileSize(version.size)}</div>
+                  </div>
+                  <Show when={!version.current}>
+                    {/* Restoring shouldn't also select the row */}
+                    <span onClick={(e) => e.stopPropagation()}>
+                      <Button variant="secondary" size="sm" onClick={() => props.onRestore(version)}>
+                        Restore
+                      </Button>
+                    </span>
+                  </Show>
+                </li>
+              )}
+            </For>
+          </ul>
+
+          <div class="flex flex-col flex-1 min-w-0">
+            <div class="flex items-center gap-2 px-3 py-1.5 border-b border-border text-xs text-muted-foreground">
+              <span>Compare</span>
+              <select class={selectClass} value={props.fromId} onChange={(e) => props.onCompare(e.currentTarget.value, props.toId)}>
+                <For each={props.versions}>{(version) => <option value={version.id}>{versionLabel(version)}</option>}</For>
+              </select>
+              <span>with</span>
+              <select class={selectClass} value={props.toId} onChange={(e) => props.onCompare(props.fromId, e.currentTarget.value)}>
+                <For each={props.versions}>{(version) => <option value={version.id}>{versionLabel(version)}</option>}</For>
+              </select>
+            </div>
+
+            <div class="flex-1 overflow-auto font-mono text-xs">
+              <Show
+                when={props.versions.length > 1}
+                fallback={<p class="p-3 text-muted-foreground font-sans">No earlier versions yet. They are kept each time the file is saved.</p>}
+              >
+                <Show when={props.diff}>
+                  {(diff) => (
+                    <Show
+                      when={diff().some(line => line.type !== 'equal')}
+                      fallback={<p class="p-3 text-muted-foreground font-sans">These versions are identical.</p>}
+                    >
+                      <For each={diff()}>
+                        {(line) => (
+                          <div class={`flex whitespace-pre ${lineClasses[line.type]}`}>
+                            <span class="w-10 shrink-0 text-right pr-2 text-muted-foreground select-none">{line.oldLine ?? ''}</span>
+                            <span class="w-10 shrink-0 text-right pr-2 text-muted-foreground select-none">{line.newLine ?? ''}</span>
+                            <span class="select-none pr-1">{linePrefix[line.type]}</span>
+                            <span>{line.text}</span>
+                          </div>
+                        )}
+                      </For>
+                    </Show>
+                  )}
+                </Show>
+              </Show>
+            </div>
+          </div>
+        </div>
+
+        <div class="flex items-center justify-between gap-2 px-4 py-3 text-xs">
+          <label class="flex items-center gap-1.5 text-muted-foreground">
+            <span>Keep old versions up to</span>
+            <select
+              class={selectClass}
+              value={String(props.budgetBytes)}
+              onChange={(e) => props.onBudgetChange(Number(e.currentTarget.value))}
+            >
+              <For each={VERSION_BUDGETS}>{(budget) => <option value={String(budget.bytes)}>{budget.label}</option>}</For>
+            </select>
+            <span>({formatFileSize(props.usedBytes)} used)</span>
+          </label>
+          <Button variant="secondary" size="sm" onClick={props.onClose}>Close</Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export { VersionsPanel };
@@ -1,5 +1,6 @@
-import { pluginLoader } from '@core/plugin-loader';
-import type { PluginManifest } from '@core/plugin-loader';
+import { pluginLoader, pluginCommands } from '@core/plugin-loader';
+import { fileAssociations } from '@core/file-system';
+import type { PluginManifest, PluginCommandHandler } from '@core/plugin-loader';
 
 // Import plugin UI components and init functions
 import FileManagerUI from './file-manager/app';
@@ -8,8 +9,12 @@ import TerminalUI from './terminal/app';
 import { init as terminalInit } from './terminal/init';
 import CalculatorUI from './calculator/app';
 import { init as calculatorInit } from './calculator/init';
+import { commands as calculatorCommands } from './calculator/commands';
 import SettingsUI from './settings/app';
 import { init as settingsInit } from './settings/init';
+import { commands as settingsCommands } from './settings/commands';
+import TextEditorUI from './text-editor/app';
+import { init as textEditorInit } from './text-editor/init';
 
 // Map of plugin components
 export const pluginComponents: Record<string, any> = {
@@ -17,6 +22,7 @@ export const pluginComponents: Record<string, any> = {
   '@dineapp/terminal': TerminalUI,
   '@dineapp/calculator': CalculatorUI,
   '@dineapp/settings': SettingsUI,
+  '@dineapp/text-editor': TextEditorUI,
 };
 
 
@@ -81,6 +87,14 @@ const calculatorManifest: PluginManifest = {
   entry: "./index.tsx",
   permissions: [],
   dependencies: [],
+  commands: [
+    {
+      name: "calc",
+      description: "Evaluate an arithmetic expression",
+      usage: "calc <expression>",
+      args: [{ name: "expression", variadic: true }]
+    }
+  ],
    windows: [
      {
        id: "calculator-main",
@@ -107,6 +121,18 @@ const settingsManifest: PluginManifest = {
     "settings.update"
   ],
   dependencies: [],
+  commands: [
+    {
+      name: "theme",
+      description: "List themes or switch the theme",
+      usage: "theme [list | set <theme-id>]",
+      args: [
+        { name: "action", optional: true, values: ["list", "set"] },
+        { name: "theme-id", optional: true }
+      ],
+      permission: "settings.update"
+    }
+  ],
    windows: [
      {
        id: "settings-main",
@@ -119,14 +145,67 @@ const settingsManifest: PluginManifest = {
    ]
 };
 
-// Plugin manifests and init functions mapping
-const pluginConfigs: Record<string, { manifest: PluginManifest; init: () => Promise<void> }> = {
+const textEditorManifest: PluginManifest = {
+  id: "@dineapp/text-editor",
+  displayName: "Text Editor",
+  version: "1.0.0",
+  description: "Plain text editor for files in the virtual file system",
+  icon: "text-editor",
+  entry: "./index.tsx",
+  permissions: [
+    "fs.read",
+    "fs.write"
+  ],
+  dependencies: [],
+  fileAssociations: {
+    mimeTypes: ["text/*", "application/json", "application/xml"],
+    extensions: ["txt", "md", "log", "csv", "json", "xml", "html", "css", "js", "ts", "yml", "yaml", "ini", "conf"]
+  },
+   windows: [
+     {
+       id: "text-editor-main",
+       title: "Text Editor",
+       defaultWidth: 700,
+       defaultHeight: 550,
+       minWidth: 400,
+       minHeight: 300
+     }
+   ]
+};
+
+// Plugin manifests, init functions and command handlers mapping
+const pluginConfigs: Record<string, {
+  manifest: PluginManifest;
+  init: () => Promise<void>;
+  commands?: Record<string, PluginCommandHandler>;
+}> = {
   '@dineapp/file-manager': { manifest: fileManagerManifest, init: fileManagerInit },
   '@dineapp/terminal': { manifest: terminalManifest, init: terminalInit },
-  '@dineapp/calculator': { manifest: calculatorManifest, init: calculatorInit },
-  '@dineapp/settings': { manifest: settingsManifest, init: settingsInit }
+  '@dineapp/calculator': { manifest: calculatorManifest, init: calculatorInit, commands: calculatorCommands },
+  '@dineapp/settings': { manifest: settingsManifest, init: settingsInit, commands: settingsCommands },
+  '@dineapp/text-editor': { manifest: textEditorManifest, init: textEditorInit }
 };
 
+// Register file associations up front so files can be opened before their plugin loads
+for (const { manifest } of Object.values(pluginConfigs)) {
+  fileAssociations.register(manifest);
+}
+
+// Declare terminal commands up front too; their plugin starts on the first call
+for (const [pluginId, { manifest, commands }] of Object.entries(pluginConfigs)) {
+  for (const declaration of manifest.commands ?? []) {
+    const handler = commands?.[declaration.name];
+    if (!handler) continue;
+
+    pluginCommands.declare(pluginId, declaration, async (args, io) => {
+      if (!pluginLoader.getPlugin(pluginId)?.isStarted) {
+        await loadPlugin(pluginId);
+      }
+      return handler(args, io);
+    });
+  }
+}
+
 // Lazy load individual plugin
 export const loadPlugin = async (pluginId: string) => {
   const config = pluginConfigs[pluginId];
@@ -143,10 +222,11 @@ export const loadPlugin = async (pluginId: string) => {
         onStart: async () => {},
         onStop: async () => {},
         onUnload: async () => {}
-      }
+      },
+      commands: config.commands
     });
 
-    // Start the plugin to initialize event listeners
+    // Start the plugin to initialize event listeners and register its commands
     await pluginLoader.startPlugin(plugin.manifest.id);
 
     return plugin;
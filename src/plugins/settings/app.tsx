@@ -1,5 +1,6 @@
 import { Component, createSignal, Show } from 'solid-js';
 import AppearancePage from './pages/appearance';
+import StorageUsage from './widgets/storage-usage';
 
 // Import icons using unplugin-icons (Heroicons for macOS-style)
 import IconSwatch from '~icons/heroicons-outline/swatch';
@@ -198,6 +199,8 @@ const SettingsApp: Component = () => {
                     </div>
                   </div>
 
+                  <StorageUsage />
+
                   <div class="bg-background p-4 md:p-6 rounded-lg border border-border">
                     <h3 class="text-lg font-semibold mb-4">Debug Mode</h3>
                     <label class="flex items-center">
@@ -0,0 +1,35 @@
+import type { PluginCommandHandler } from '@core/plugin-loader';
+import { ThemeAPI } from '@core/themes/theme-engine';
+
+/**
+ * Terminal commands declared in the settings manifest
+ */
+export const commands: Record<string, PluginCommandHandler> = {
+  // theme [list | set <theme-id>]
+  theme: async (args, io) => {
+    const [action = 'list', themeId] = args;
+    const current = ThemeAPI.getCurrentTheme()?.id;
+
+    if (action === 'list') {
+      for (const theme of ThemeAPI.getAllThemes()) {
+        io.stdout.write(`${theme.id === current ? '*' : ' '} ${theme.id.padEnd(12)} ${theme.displayName}\n`);
+      }
+      return 0;
+    }
+
+    if (action === 'set' && themeId) {
+      if (!ThemeAPI.getAllThemes().some(theme => theme.id === themeId)) {
+        io.stderr.write(`theme: unknown theme '${themeId}'\n`);
+        return 1;
+      }
+      if (!(await ThemeAPI.loadTheme(themeId))) {
+        io.stderr.write(`theme: could not apply '${themeId}'\n`);
+        return 1;
+      }
+      return 0;
+    }
+
+    io.stderr.write('usage: theme [list | set <theme-id>]\n');
+    return 2;
+  }
+};
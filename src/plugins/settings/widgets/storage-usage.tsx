@@ -0,0 +1,209 @@
+import { Component, createSignal, For, onCleanup, onMount, Show } from 'solid-js';
+import { eventBus } from '@core/event-bus';
+import { fileSystem, quotaManager, currentIdentity, ROOT_USER } from '@core/file-system';
+import type { DiskUsage, FileKind, QuotaSettings, UserDiskUsage } from '@core/file-system';
+
+const MB = 1024 * 1024;
+
+const KIND_SEGMENTS: { kind: FileKind; label: string; color: string }[] = [
+  { kind: 'document', label: 'Documents', color: 'bg-blue-500' },
+  { kind: 'image', label: 'Images', color: 'bg-purple-500' },
+  { kind: 'audio', label: 'Audio', color: 'bg-orange-500' },
+  { kind: 'video', label: 'Video', color: 'bg-red-500' },
+  { kind: 'archive', label: 'Archives', color: 'bg-yellow-500' },
+  { kind: 'other', label: 'Other', color: 'bg-gray-400' }
+];
+
+const QUOTA_OPTIONS: { label: string; bytes: number | null }[] = [
+  { label: 'Unlimited', bytes: null },
+  { label: '10 MB', bytes: 10 * MB },
+  { label: '50 MB', bytes: 50 * MB },
+  { label: '100 MB', bytes: 100 * MB },
+  { label: '500 MB', bytes: 500 * MB },
+  { label: '1 GB', bytes: 1024 * MB }
+];
+
+// Usage is totalled by walking the tree, so bursts of changes are coalesced
+const REFRESH_DEBOUNCE_MS = 500;
+
+const formatFileSize = (bytes: number) => {
+  if (bytes === 0) return '0 B';
+  const sizes = ['B', 'KB', 'MB', 'GB', 'TB'];
+  const i = Math.floor(Math.log(bytes) / Math.log(1024));
+  return Math.round(bytes / Math.pow(1024, i) * 100) / 100 + ' ' + sizes[i];
+};
+
+const quotaValue = (bytes: number | null | undefined) =>
+  bytes === undefined ? 'default' : bytes === null ? 'unlimited' : String(bytes);
+
+const parseQuotaValue = (value: string) =>
+  value === 'default' ? undefined : value === 'unlimited' ? null : Number(value);
+
+const StorageUsage: Component = () => {
+  const [usage, setUsage] = createSignal<DiskUsage | null>(null);
+  const [mine, setMine] = createSignal<UserDiskUsage | null>(null);
+  const [users, setUsers] = createSignal<UserDiskUsage[]>([]);
+  const [quotas, setQuotas] = createSignal<QuotaSettings | null>(null);
+  const [estimate, setEstimate] = createSignal<StorageEstimate | null>(null);
+  const [error, setError] = createSignal<string | null>(null);
+  const isAdmin = () => currentIdentity().isRoot;
+
+  const load = async () => {
+    try {
+      await quotaManager.ready();
+      const [total, own] = await Promise.all([fileSystem.diskUsage('/'), fileSystem.userUsage()]);
+      setUsage(total);
+      setMine(own);
+      setQuotas(quotaManager.getSettings());
+      setUsers(isAdmin() ? await fileSystem.usageByUser() : []);
+      setEstimate(await navigator.storage?.estimate?.() ?? null);
+    } catch (err) {
+      console.error('[StorageUsage] Failed to load usage:', err);
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  onMount(() => {
+    load();
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const unsubscribe = fileSystem.onChange(() => {
+      clearTimeout(timer);
+      timer = setTimeout(load, REFRESH_DEBOUNCE_MS);
+    });
+    eventBus.on('quota:changed', load, { scope: 'settings:storage-usage' });
+    eventBus.on('auth:session-changed', load, { scope: 'settings:storage-usage' });
+
+    onCleanup(() => {
+      unsubscribe();
+      clearTimeout(timer);
+      eventBus.offAll('settings:storage-usage');
+    });
+  });
+
+  const setDefaultQuota = async (value: string) => {
+    try {
+      await quotaManager.setDefaultLimit(parseQuotaValue(value) ?? null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const setUserQuota = async (user: string, value: string) => {
+    try {
+      await quotaManager.setLimit(user, parseQuotaValue(value));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const percentOf = (part: number, whole: number) => (whole > 0 ? Math.min(100, (part / whole) * 100) : 0);
+  const selectClass = 'border rounded px-2 py-1 text-sm bg-secondary border-border';
+
+  return (
+    <div class="bg-background p-4 md:p-6 rounded-lg border border-border">
+      <h3 class="text-lg font-semibold mb-4">Storage</h3>
+
+      <Show when={error()}>
+        <p class="text-sm text-red-500 mb-3">{error()}</p>
+      </Show>
+
+      <Show when={usage()} fallback={<p class="text-sm text-muted-foreground">Calculating…</p>}>
+        {(total) => (
+          <div class="space-y-4">
+            <div>
+              <div class="flex justify-between text-sm mb-1">
+                <span>Files</span>
+                <span class="text-muted-foreground">
+                  {formatFileSize(total().size)} in {total().files} files and {total().folders} folders
+                </span>
+              </div>
+              <div class="flex h-3 rounded-full bg-muted overflow-hidden">
+                <For each={KIND_SEGMENTS}>
+                  {(segment) => (
+                    <div
+                      class={segment.color}
+                      style={{ width: `${percentOf(total().byKind[segment.kind], total().size)}%` }}
+                      title={`${segment.label}: ${formatFileSize(total().byKind[segment.kind])}`}
+                    ></div>
+                  )}
+                </For>
+              </div>
+              <div class="flex flex-wrap gap-x-4 gap-y-1 mt-2 text-xs text-muted-foreground">
+                <For each={KIND_SEGMENTS}>
+                  {(segment) => (
+                    <span class="flex items-center gap-1.5">
+                      <span class={`w-2.5 h-2.5 rounded-full ${segment.color}`}></span>
+                      {segment.label} {formatFileSize(total().byKind[segment.kind])}
+                    </span>
+                  )}
+                </For>
+              </div>
+            </div>
+
+            <Show when={mine()}>
+              {(own) => (
+                <div class="text-sm flex justify-between">
+                  <span>Your files ({own().user})</span>
+                  <span class="text-muted-foreground">
+                    {own().limit === null
+                      ? `${formatFileSize(own().size)} (no quota)`
+                      : `${formatFileSize(own().size)} of ${formatFileSize(own().limit!)}`}
+                  </span>
+                </div>
+              )}
+            </Show>
+
+            <Show when={estimate()}>
+              {(browser) => (
+                <div>
+                  <div class="flex justify-between text-sm mb-1">
+                    <span>Browser storage</span>
+                    <span class="text-muted-foreground">
+                      {formatFileSize(browser().usage ?? 0)} of {formatFileSize(browser().quota ?? 0)} available to this site
+                    </span>
+                  </div>
+                  <div class="h-2 rounded-full bg-muted overflow-hidden">
+                    <div class="h-full bg-accent" style={{ width: `${percentOf(browser().usage ?? 0, browser().quota ?? 0)}%` }}></div>
+                  </div>
+                </div>
+              )}
+            </Show>
+          </div>
+        )}
+      </Show>
+
+      <Show when={isAdmin() && quotas()}>
+        {(settings) => (
+          <div class="mt-6 space-y-2">
+            <h4 class="text-sm font-semibold">Disk Quotas</h4>
+            <label class="flex items-center justify-between text-sm">
+              <span>Default for every user</span>
+              <select class={selectClass} value={quotaValue(settings().defaultLimit)} onChange={(e) => setDefaultQuota(e.currentTarget.value)}>
+                <For each={QUOTA_OPTIONS}>{(option) => <option value={quotaValue(option.bytes)}>{option.label}</option>}</For>
+              </select>
+            </label>
+            <For each={users().filter(user => user.user !== ROOT_USER)}>
+              {(user) => (
+                <label class="flex items-center justify-between gap-4 text-sm">
+                  <span class="flex-1 truncate">{user.user}</span>
+                  <span class="text-muted-foreground">{formatFileSize(user.size)}</span>
+                  <select
+                    class={selectClass}
+                    value={quotaValue(user.user in settings().limits ? settings().limits[user.user] : undefined)}
+                    onChange={(e) => setUserQuota(user.user, e.currentTarget.value)}
+                  >
+                    <option value="default">Default</option>
+                    <For each={QUOTA_OPTIONS}>{(option) => <option value={quotaValue(option.bytes)}>{option.label}</option>}</For>
+                  </select>
+                </label>
+              )}
+            </For>
+          </div>
+        )}
+      </Show>
+    </div>
+  );
+};
+
+export default StorageUsage;
@@ -1,4 +1,7 @@
-import { Component, createSignal, onMount, createEffect, For } from 'solid-js';
+import { Component, createSignal, createMemo, onMount, onCleanup, createEffect, For } from 'solid-js';
+import { eventBus } from '@core/event-bus';
+import { clipboard, CLIPBOARD_TYPES } from '@core/clipboard';
+import { CommandProcessor, CLEAR_SCREEN, complete, candidateLabel, escapeWord, suggestFromHistory } from './features/commands';
 
 interface TerminalLine {
   type: 'input' | 'output' | 'error' | 'success';
@@ -6,14 +9,48 @@ interface TerminalLine {
   timestamp: number;
 }
 
-const Terminal: Component = () => {
+/**
+ * Ctrl+R state: the line at `index` is the latest one containing `query`
+ */
+interface HistorySearch {
+  query: string;
+  index: number;
+  failed: boolean;
+  // Input to restore when the search is cancelled
+  original: string;
+}
+
+interface TerminalProps {
+  windowId?: string;
+}
+
+// Paths with spaces or quotes are quoted when pasted as arguments
+const quoteArgument = (value: string) => (/[\s'"]/.test(value) ? `'${value.replace(/'/g, `'\\''`)}'` : value);
+
+const Terminal: Component<TerminalProps> = (props) => {
   const [history, setHistory] = createSignal<TerminalLine[]>([]);
   const [currentInput, setCurrentInput] = createSignal('');
-  const [currentDirectory, setCurrentDirectory] = createSignal('~');
-  const [commandHistory, setCommandHistory] = createSignal<string[]>([]);
   const [historyIndex, setHistoryIndex] = createSignal(-1);
+  const [isRunning, setIsRunning] = createSignal(false);
+  const [search, setSearch] = createSignal<HistorySearch | null>(null);
+  // Each window is its own shell, with its own directory and variables; history is shared
+  const processor = new CommandProcessor();
+  const [prompt, setPrompt] = createSignal(processor.session.displayCwd());
   let terminalRef: HTMLDivElement;
-  let inputRef: HTMLInputElement;
+  let inputRef: HTMLInputElement | undefined;
+  // The input at the last Tab that didn't complete anything; a second Tab lists the candidates
+  let pendingTab: string | null = null;
+
+  // The rest of the latest matching history line, shown grayed out after the input
+  const suggestion = createMemo(() =>
+    search() ? '' : suggestFromHistory(processor.session.history.entries(), currentInput())
+  );
+
+  const promptText = () => {
+    const state = search();
+    if (!state) return `${prompt()} $`;
+    return `(${state.failed ? 'failed ' : ''}reverse-i-search)'${state.query}':`;
+  };
 
   // Initialize terminal with welcome message
   onMount(() => {
@@ -36,8 +73,50 @@ const Terminal: Component = () => {
     ];
     setHistory(welcomeLines);
     inputRef?.focus();
+    processor.session.history.ready().catch(error => console.error('[Terminal] Failed to load history:', error));
+    eventBus.on('menu:command', handleMenuCommand, { scope: eventScope });
   });
 
+  // Each terminal window listens on its own
+  const eventScope = `terminal:${props.windowId ?? 'app'}`;
+  onCleanup(() => eventBus.offAll(eventScope));
+
+  // The menu bar's Edit menu acts on whichever window is focused
+  const handleMenuCommand = (payload: { command: string; windowId: string | null }) => {
+    if (!props.windowId || payload.windowId !== props.windowId) return;
+    if (payload.command === 'copy') copySelection();
+    if (payload.command === 'paste') pasteFromClipboard();
+  };
+
+  const copySelection = () => {
+    const text = window.getSelection()?.toString() ?? '';
+    if (text) {
+      clipboard.writeText(text, { source: 'terminal' }).catch(error => console.error('[Terminal] Copy failed:', error));
+    }
+  };
+
+  /**
+   * Insert the clipboard at the cursor: copied files as their paths, text
+   * on one line
+   */
+  const pasteFromClipboard = async () => {
+    try {
+      const text = await clipboard.readText();
+      const files = (await clipboard.has(CLIPBOARD_TYPES.FILES)) ? await clipboard.readFiles() : null;
+      const pasted = files ? files.paths.map(quoteArgument).join(' ') : (text ?? '').replace(/\r?\n/g, ' ');
+      if (!pasted) return;
+
+      const input = currentInput();
+      const start = inputRef?.selectionStart ?? input.length;
+      const end = inputRef?.selectionEnd ?? input.length;
+      setCurrentInput(input.slice(0, start) + pasted + input.slice(end));
+      inputRef?.focus();
+      inputRef?.setSelectionRange(start + pasted.length, start + pasted.length);
+    } catch (error) {
+      console.error('[Terminal] Paste failed:', error);
+    }
+  };
+
   // Auto-scroll to bottom when history changes
   createEffect(() => {
     if (terminalRef) {
@@ -45,190 +124,157 @@ const Terminal: Component = () => {
     }
   });
 
-  const executeCommand = (command: string) => {
-    if (!command.trim()) return;
+  const toLines = (text: string, type: TerminalLine['type']): TerminalLine[] =>
+    text ? [{ type, content: text, timestamp: Date.now() }] : [];
 
-    // Add command to history
-    setCommandHistory(prev => [...prev, command]);
+  const executeCommand = async (command: string) => {
     setHistoryIndex(-1);
+    setCurrentInput('');
+    setHistory(prev => [...prev, { type: 'input', content: `${prompt()} $ ${command}`, timestamp: Date.now() }]);
+    if (!command.trim()) return;
 
-    // Add input line to history
-    const inputLine: TerminalLine = {
-      type: 'input',
-      content: `${currentDirectory()} $ ${command}`,
-      timestamp: Date.now()
-    };
-
-    const outputLines = [inputLine];
-
-    // Parse and execute command
-    const [cmd, ...args] = command.trim().toLowerCase().split(' ');
-
-    switch (cmd) {
-      case 'help':
-        outputLines.push({
-          type: 'output',
-          content: `Available commands:\n  help     - Show this help message\n  clear    - Clear terminal screen\n  ls       - List directory contents\n  cd       - Change directory\n  pwd      - Print working directory\n  mkdir    - Create directory\n  touch    - Create file\n  echo     - Display message\n  date     - Show current date and time\n  whoami   - Display current user\n  uname    - Display system information\n  cat      - Display file contents\n  cal      - Display calendar\n  neofetch - Display system information (stylized)`,
-          timestamp: Date.now()
-        });
-        break;
-
-      case 'clear':
-        setHistory([]);
-        setCurrentInput('');
-        inputRef?.focus();
-        return;
-
-      case 'pwd':
-        outputLines.push({
-          type: 'output',
-          content: `/home/user/${currentDirectory()}`,
-          timestamp: Date.now()
-        });
-        break;
-
-      case 'ls':
-        const mockFiles = ['Documents', 'Downloads', 'Pictures', 'Music', 'Videos', 'readme.txt', 'config.json'];
-        outputLines.push({
-          type: 'output',
-          content: mockFiles.join('  '),
-          timestamp: Date.now()
-        });
-        break;
-
-      case 'cd':
-        if (args[0] === '..') {
-          setCurrentDirectory('~');
-        } else if (args[0] && args[0] !== '/') {
-          setCurrentDirectory(args[0]);
-        }
-        break;
-
-      case 'mkdir':
-        if (args[0]) {
-          outputLines.push({
-            type: 'success',
-            content: `Directory '${args[0]}' created successfully`,
-            timestamp: Date.now()
-          });
-        } else {
-          outputLines.push({
-            type: 'error',
-            content: 'mkdir: missing operand',
-            timestamp: Date.now()
-          });
-        }
-        break;
-
-      case 'touch':
-        if (args[0]) {
-          outputLines.push({
-            type: 'success',
-            content: `File '${args[0]}' created successfully`,
-            timestamp: Date.now()
-          });
-        } else {
-          outputLines.push({
-            type: 'error',
-            content: 'touch: missing file operand',
-            timestamp: Date.now()
-          });
-        }
-        break;
-
-      case 'echo':
-        const message = args.join(' ');
-        outputLines.push({
-          type: 'output',
-          content: message,
-          timestamp: Date.now()
-        });
-        break;
-
-      case 'date':
-        outputLines.push({
-          type: 'output',
-          content: new Date().toString(),
-          timestamp: Date.now()
-        });
-        break;
-
-      case 'whoami':
-        outputLines.push({
-          type: 'output',
-          content: 'user',
-          timestamp: Date.now()
-        });
-        break;
-
-      case 'uname':
-        outputLines.push({
-          type: 'output',
-          content: 'WebOS 1.0.0',
-          timestamp: Date.now()
-        });
-        break;
-
-      case 'cat':
-        if (args[0]) {
-          outputLines.push({
-            type: 'output',
-            content: `Contents of ${args[0]}:\nThis is a sample file content.\nIn a real implementation, this would read the actual file.`,
-            timestamp: Date.now()
-          });
-        } else {
-          outputLines.push({
-            type: 'error',
-            content: 'cat: missing file operand',
-            timestamp: Date.now()
-          });
-        }
-        break;
-
-      case 'cal':
-        const now = new Date();
-        const month = now.toLocaleString('default', { month: 'long' });
-        const year = now.getFullYear();
-        outputLines.push({
-          type: 'output',
-          content: `     ${month} ${year}\nSu Mo Tu We Th Fr Sa\n 1  2  3  4  5  6  7\n 8  9 10 11 12 13 14\n15 16 17 18 19 20 21\n22 23 24 25 26 27 28\n29 30 31`,
-          timestamp: Date.now()
-        });
-        break;
-
-      case 'neofetch':
-        outputLines.push({
-          type: 'output',
-          content: `       _____       user@webos\n      /     \      -------\n     /  Web  \     OS: WebOS 1.0.0\n    |   OS    |    Kernel: JavaScript\n    |  v1.0.0  |    Shell: Terminal\n     \         /    Resolution: 1920x1080\n      \_____/     Theme: System Default\n                   Terminal: WebOS Terminal`,
-          timestamp: Date.now()
-        });
-        break;
-
-      default:
-        outputLines.push({
-          type: 'error',
-          content: `Command not found: ${cmd}. Type 'help' for available commands.`,
-          timestamp: Date.now()
-        });
+    setIsRunning(true);
+    try {
+      const result = await processor.executeCommand(command);
+
+      // `clear` wipes everything printed before it
+      const cleared = result.output.lastIndexOf(CLEAR_SCREEN);
+      const output = cleared === -1 ? result.output : result.output.slice(cleared + CLEAR_SCREEN.length);
+      const lines = [...toLines(output, 'output'), ...toLines(result.error ?? '', 'error')];
+      if (cleared === -1) {
+        setHistory(prev => [...prev, ...lines]);
+      } else {
+        setHistory(lines);
+        eventBus.emit('terminal:cleared', { windowId: props.windowId, timestamp: Date.now() });
+      }
+
+      eventBus.emit('command:executed', {
+        command,
+        exitCode: result.exitCode,
+        windowId: props.windowId,
+        timestamp: Date.now()
+      });
+    } finally {
+      setPrompt(processor.session.displayCwd());
+      setIsRunning(false);
+      inputRef?.focus();
     }
+  };
 
-    setHistory(prev => [...prev, ...outputLines]);
-    setCurrentInput('');
+  const setInputAndCaret = (input: string, caret: number) => {
+    setCurrentInput(input);
     inputRef?.focus();
+    inputRef?.setSelectionRange(caret, caret);
+  };
+
+  /**
+   * Complete the word before the caret as far as it is unambiguous; when
+   * it already is, a second Tab lists the candidates
+   */
+  const completeInput = async () => {
+    const input = currentInput();
+    const caret = inputRef?.selectionStart ?? input.length;
+    const before = input.slice(0, caret);
+    const { start, candidates, commonPrefix } = await complete(before, processor.session);
+    if (currentInput() !== input || candidates.length === 0) return;
+
+    const [only] = candidates;
+    const word = candidates.length === 1 ? escapeWord(only) + (only.endsWith('/') ? '' : ' ') : commonPrefix;
+    const completed = before.slice(0, start) + word;
+    if (completed.length > before.length) {
+      pendingTab = null;
+      setInputAndCaret(completed + input.slice(caret), completed.length);
+    } else if (pendingTab === input) {
+      pendingTab = null;
+      setHistory(prev => [
+        ...prev,
+        { type: 'input', content: `${prompt()} $ ${input}`, timestamp: Date.now() },
+        { type: 'output', content: candidates.map(candidateLabel).join('  '), timestamp: Date.now() }
+      ]);
+    } else {
+      pendingTab = input;
+    }
+  };
+
+  /**
+   * Show the latest history line before `before` that contains `query`;
+   * without one the previous match stays
+   */
+  const findInHistory = (query: string, before?: number) => {
+    const state = search();
+    const previous = state?.index ?? processor.session.history.entries().length;
+    const index = processor.session.history.search(query, before);
+    const match = index === -1 ? previous : index;
+
+    setSearch({ query, index: match, failed: index === -1, original: state?.original ?? currentInput() });
+    setCurrentInput(processor.session.history.entries()[match] ?? '');
+  };
+
+  const handleSearchKey = (e: KeyboardEvent, state: HistorySearch) => {
+    const match = processor.session.history.entries()[state.index] ?? '';
+    const key = e.key.toLowerCase();
+    if (['shift', 'control', 'alt', 'meta'].includes(key)) return;
+
+    e.preventDefault();
+    if (e.ctrlKey && key === 'r') {
+      findInHistory(state.query, state.index);
+    } else if (e.key === 'Escape' || (e.ctrlKey && (key === 'g' || key === 'c'))) {
+      setSearch(null);
+      setInputAndCaret(state.original, state.original.length);
+    } else if (e.key === 'Backspace') {
+      findInHistory(state.query.slice(0, -1));
+    } else if (e.key.length === 1 && !e.ctrlKey && !e.metaKey && !e.altKey) {
+      findInHistory(state.query + e.key);
+    } else if (e.key === 'Enter') {
+      setSearch(null);
+      if (!isRunning()) executeCommand(match);
+    } else {
+      // Any other key keeps the match for editing
+      setSearch(null);
+      setInputAndCaret(match, match.length);
+    }
   };
 
   const handleKeyDown = (e: KeyboardEvent) => {
-    if (e.key === 'Enter') {
-      executeCommand(currentInput());
+    const mod = e.ctrlKey || e.metaKey;
+    if (e.key !== 'Tab') pendingTab = null;
+
+    const state = search();
+    if (state) {
+      handleSearchKey(e, state);
+      return;
+    }
+
+    const atEnd = inputRef?.selectionStart === currentInput().length;
+    if (e.ctrlKey && e.key.toLowerCase() === 'r') {
+      e.preventDefault();
+      setSearch({ query: '', index: processor.session.history.entries().length, failed: false, original: currentInput() });
+      setCurrentInput('');
+    } else if (e.key === 'Tab') {
+      e.preventDefault();
+      completeInput();
+    } else if (e.key === 'ArrowRight' && atEnd && suggestion()) {
+      e.preventDefault();
+      const input = currentInput() + suggestion();
+      setInputAndCaret(input, input.length);
+    } else if (mod && e.key.toLowerCase() === 'v') {
+      e.preventDefault();
+      pasteFromClipboard();
+    } else if (mod && e.shiftKey && e.key.toLowerCase() === 'c') {
+      e.preventDefault();
+      copySelection();
+    } else if (e.key === 'Enter') {
+      if (!isRunning()) executeCommand(currentInput());
     } else if (e.key === 'ArrowUp') {
       e.preventDefault();
-      const history = commandHistory();
+      const history = processor.session.history.entries();
+      if (history.length === 0) return;
       const index = Math.min(historyIndex() + 1, history.length - 1);
       setHistoryIndex(index);
       setCurrentInput(history[history.length - 1 - index]);
     } else if (e.key === 'ArrowDown') {
       e.preventDefault();
-      const history = commandHistory();
+      const history = processor.session.history.entries();
       const index = Math.max(historyIndex() - 1, -1);
       setHistoryIndex(index);
       if (index === -1) {
@@ -247,7 +293,14 @@ const Terminal: Component = () => {
   };
 
   return (
-    <div class="h-full flex flex-col bg-black font-mono selection:bg-gray-700 selection:text-gray-200" onClick={() => inputRef?.focus()}>
+    <div
+      class="h-full flex flex-col bg-black font-mono selection:bg-gray-700 selection:text-gray-200"
+      onClick={() => {
+        // Clicking to focus the prompt would lose a selection about to be copied
+        if (!window.getSelection()?.toString()) inputRef?.focus();
+      }}
+      onCopy={copySelection}
+    >
   
       {/* Terminal Content */}
       <div
@@ -266,20 +319,30 @@ const Terminal: Component = () => {
         {/* Input Line */}
         <div class="flex items-center">
           <span class="text-green-400 mr-2 select-none">
-            {currentDirectory()} $
+            {promptText()}
           </span>
-          <input
-            ref={inputRef!}
-            type="text"
-            value={currentInput()}
-            onInput={(e) => setCurrentInput(e.target.value)}
-            onKeyDown={handleKeyDown}
-            class="flex-1 bg-transparent outline-none text-green-400 caret-green-500"
-            spellcheck={false}
-            autocomplete="off"
-            autocorrect="off"
-            autocapitalize="off"
-          />
+          <div class="relative flex-1">
+            {/* History suggestion behind the input; → accepts it */}
+            <div class="absolute inset-0 whitespace-pre overflow-hidden pointer-events-none select-none">
+              <span class="invisible">{currentInput()}</span>
+              <span class="text-gray-500">{suggestion()}</span>
+            </div>
+            <input
+              ref={inputRef!}
+              type="text"
+              value={currentInput()}
+              onInput={(e) => {
+                setSearch(null);
+                setCurrentInput(e.target.value);
+              }}
+              onKeyDown={handleKeyDown}
+              class="relative w-full bg-transparent outline-none text-green-400 caret-green-500"
+              spellcheck={false}
+              autocomplete="off"
+              autocorrect="off"
+              autocapitalize="off"
+            />
+          </div>
         </div>
       </div>
     </div>
@@ -0,0 +1,882 @@
+import {
+  fileSystem,
+  searchIndex,
+  archiveService,
+  currentIdentity,
+  joinPath,
+  basename,
+  extname,
+  formatMode,
+  parseMode,
+  isHiddenName,
+  TRASH_PATH
+} from '@core/file-system';
+import type { DiskUsage, Inode } from '@core/file-system';
+import { clipboard } from '@core/clipboard';
+import { ThemeAPI } from '@core/themes';
+import { globToRegExp } from './glob';
+import { completePaths } from './completion';
+import type { CompletionProvider } from './completion';
+import type { CommandIO, CommandRegistry } from './registry';
+
+/**
+ * Printed by `clear`; the terminal wipes the screen when it sees it
+ */
+export const CLEAR_SCREEN = '\x1b[2J\x1b[H';
+
+const SHELL_HELP = [
+  'Commands can be combined with | pipes, >, >> and < redirection, and',
+  '&&, || and ; sequencing. $NAME and $? expand variables, * and ? match files.'
+];
+
+/**
+ * The commands every terminal has
+ */
+export function registerBuiltinCommands(registry: CommandRegistry): void {
+  registry.register({
+    name: 'help',
+    description: 'Show available commands',
+    execute: async (_args, io) => {
+      const commands = registry.list();
+      const width = Math.max(...commands.map(command => command.name.length));
+      const lines = commands.map(command => `  ${command.name.padEnd(width)} - ${command.description}`);
+      return finish(io, ['Available commands:', ...lines, '', ...SHELL_HELP], []);
+    }
+  });
+
+  registry.register({
+    name: 'clear',
+    description: 'Clear terminal screen',
+    execute: async (_args, io) => {
+      io.stdout.write(CLEAR_SCREEN);
+      return 0;
+    }
+  });
+
+  registry.register({
+    name: 'ls',
+    description: 'List directory contents',
+    flags: ['-a', '-l'],
+    execute: async (args, io) => ls(args, io)
+  });
+
+  registry.register({
+    name: 'cd',
+    description: 'Change directory',
+    execute: async (args, io) => cd(args, io)
+  });
+
+  registry.register({
+    name: 'pwd',
+    description: 'Print working directory',
+    execute: async (_args, io) => finish(io, [io.session.cwd], [])
+  });
+
+  registry.register({
+    name: 'date',
+    description: 'Show current date and time',
+    execute: async (_args, io) => finish(io, [new Date().toString()], [])
+  });
+
+  registry.register({
+    name: 'cal',
+    description: 'Display calendar',
+    execute: async (_args, io) => finish(io, calendar(new Date()), [])
+  });
+
+  registry.register({
+    name: 'whoami',
+    description: 'Display current user',
+    execute: async (_args, io) => finish(io, [currentIdentity().user], [])
+  });
+
+  registry.register({
+    name: 'uname',
+    description: 'Display system information',
+    execute: async (_args, io) => finish(io, ['WebOS 1.0.0'], [])
+  });
+
+  registry.register({
+    name: 'neofetch',
+    description: 'Display system information (stylized)',
+    execute: async (_args, io) => finish(io, neofetch(), [])
+  });
+
+  registry.register({
+    name: 'echo',
+    description: 'Display message',
+    execute: async (args, io) => {
+      io.stdout.write(`${args.join(' ')}\n`);
+      return 0;
+    }
+  });
+
+  registry.register({
+    name: 'cat',
+    description: 'Print files or the input',
+    execute: async (args, io) => cat(args, io)
+  });
+
+  registry.register({
+    name: 'env',
+    description: 'List variables',
+    execute: async (_args, io) => finish(io, Object.entries(io.env).map(([name, value]) => `${name}=${value}`), [])
+  });
+
+  registry.register({
+    name: 'export',
+    description: 'Set variables',
+    execute: async (args, io) => {
+      if (args.length === 0) {
+        return finish(io, Object.entries(io.session.variables()).map(([name, value]) => `export ${name}=${value}`), []);
+      }
+
+      const errors: string[] = [];
+      for (const arg of args) {
+        const match = /^([A-Za-z_][A-Za-z0-9_]*)(?:=(.*))?$/s.exec(arg);
+        if (!match) {
+          errors.push(`export: '${arg}': not a valid identifier`);
+        } else {
+          io.session.env[match[1]] = match[2] ?? io.env[match[1]] ?? '';
+        }
+      }
+      return finish(io, [], errors);
+    }
+  });
+
+  registry.register({
+    name: 'unset',
+    description: 'Remove variables',
+    execute: async (args, io) => {
+      args.forEach(name => delete io.session.env[name]);
+      return 0;
+    }
+  });
+
+  registry.register({
+    name: 'find',
+    description: 'Find files by name or type',
+    flags: ['-name', '-iname', '-type'],
+    execute: async (args, io) => find(args, io)
+  });
+
+  registry.register({
+    name: 'grep',
+    description: 'Search file contents for text',
+    flags: ['-i'],
+    execute: async (args, io) => grep(args, io)
+  });
+
+  registry.register({
+    name: 'mount',
+    description: 'List or attach file systems',
+    flags: ['-t'],
+    execute: async (args, io) => mount(args, io)
+  });
+
+  registry.register({
+    name: 'umount',
+    description: 'Detach a file system',
+    execute: async (args, io) => {
+      if (args.length === 0) {
+        return finish(io, [], ['usage: umount <directory>']);
+      }
+      try {
+        await fileSystem.unmount(io.session.resolve(args[0]));
+        return 0;
+      } catch (error) {
+        return finish(io, [], [`umount: ${error instanceof Error ? error.message : error}`]);
+      }
+    }
+  });
+
+  registry.register({
+    name: 'zip',
+    description: 'Package files into a ZIP archive',
+    flags: ['-r'],
+    execute: async (args, io) => zip(args, io)
+  });
+
+  registry.register({
+    name: 'unzip',
+    description: 'List or extract a ZIP archive',
+    flags: ['-l', '-o', '-d'],
+    execute: async (args, io) => unzip(args, io)
+  });
+
+  registry.register({
+    name: 'mkdir',
+    description: 'Create directory',
+    flags: ['-p'],
+    execute: async (args, io) => mkdir(args, io)
+  });
+
+  registry.register({
+    name: 'touch',
+    description: 'Create file',
+    execute: async (args, io) => touch(args, io)
+  });
+
+  registry.register({
+    name: 'chmod',
+    description: 'Change file mode bits',
+    flags: ['-R'],
+    execute: async (args, io) => chmod(args, io)
+  });
+
+  registry.register({
+    name: 'chown',
+    description: 'Change file owner and group',
+    flags: ['-R'],
+    execute: async (args, io) => chown(args, io)
+  });
+
+  registry.register({
+    name: 'du',
+    description: 'Show disk usage of files and folders',
+    flags: ['-s', '-x'],
+    execute: async (args, io) => du(args, io)
+  });
+
+  registry.register({
+    name: 'df',
+    description: 'Show file system usage and your quota',
+    execute: async (_args, io) => df(io)
+  });
+
+  registry.register({
+    name: 'history',
+    description: 'Show or clear (-c) command history',
+    flags: ['-c'],
+    execute: async (args, io) => history(args, io)
+  });
+
+  registry.register({
+    name: 'pbcopy',
+    description: 'Copy text to the clipboard',
+    execute: async (args, io) => {
+      // Piped text is copied as is; arguments are joined like echo
+      await clipboard.writeText(io.stdin ?? args.join(' '), { source: 'terminal' });
+      return 0;
+    }
+  });
+
+  registry.register({
+    name: 'pbpaste',
+    description: "Print the clipboard's text",
+    execute: async (_args, io) => {
+      const text = (await clipboard.readText()) ?? '';
+      io.stdout.write(text.endsWith('\n') || !text ? text : `${text}\n`);
+      return 0;
+    }
+  });
+
+  registerBuiltinCompleters(registry);
+}
+
+/**
+ * Completion for arguments that aren't plain paths
+ */
+function registerBuiltinCompleters(registry: CommandRegistry): void {
+  const variableNames: CompletionProvider = ({ session }) => Object.keys(session.variables());
+
+  registry.registerCompleter('cd', ({ current, session }) => completePaths(current, session, { directoriesOnly: true }));
+  registry.registerCompleter('export', variableNames);
+  registry.registerCompleter('unset', variableNames);
+  registry.registerCompleter('find', ({ args, current, session }) => {
+    const previous = args[args.length - 1];
+    if (previous === '-type') return ['f', 'd'];
+    if (previous === '-name' || previous === '-iname') return [];
+    return current.startsWith('-') ? ['-name', '-iname', '-type'] : completePaths(current, session, { directoriesOnly: true });
+  });
+  // The settings plugin's command; themes can be added at runtime
+  registry.registerCompleter('theme', ({ args }) => {
+    if (args.length === 0) return ['list', 'set'];
+    return args.length === 1 && args[0] === 'set' ? ThemeAPI.getAllThemes().map(theme => theme.id) : [];
+  });
+}
+
+/**
+ * ls [-a] [-l] [paths...] - folder contents, dot-files only with -a. Names
+ * share a line on the screen and get one line each in pipes and files.
+ */
+async function ls(args: string[], io: CommandIO): Promise<number> {
+  const flags = args.filter(arg => arg.startsWith('-')).join('');
+  const showHidden = flags.includes('a');
+  const long = flags.includes('l');
+  const targets = args.filter(arg => !arg.startsWith('-'));
+  const lines: string[] = [];
+  const errors: string[] = [];
+
+  for (const [index, arg] of (targets.length > 0 ? targets : ['.']).entries()) {
+    const path = io.session.resolve(arg);
+    try {
+      const inode = await fileSystem.stat(path);
+      const items = inode.type === 'directory'
+        ? (await fileSystem.readdir(path))
+          .map(entry => entry.inode)
+          .filter(item => showHidden || !isHiddenName(item.name))
+          .sort((a, b) => a.name.localeCompare(b.name))
+        : [{ ...inode, name: arg }];
+
+      if (targets.length > 1 && inode.type === 'directory') {
+        if (index > 0) lines.push('');
+        lines.push(`${arg}:`);
+      }
+      if (long) {
+        lines.push(...items.map(formatLong));
+      } else if (!io.interactive) {
+        lines.push(...items.map(item => item.name));
+      } else if (items.length > 0) {
+        lines.push(items.map(item => item.name).join('  '));
+      }
+    } catch (error) {
+      errors.push(`ls: cannot access '${arg}': ${error instanceof Error ? error.message : error}`);
+    }
+  }
+  return finish(io, lines, errors);
+}
+
+function formatLong(inode: Inode): string {
+  const date = new Date(inode.modifiedAt).toLocaleString('en-US', {
+    month: 'short',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    hour12: false
+  });
+  const size = inode.type === 'directory' ? '-' : formatSize(inode.size);
+  return `${formatMode(inode.type, inode.mode)}  ${inode.owner.padEnd(8)} ${inode.group.padEnd(8)} ${size.padStart(6)}  ${date}  ${inode.name}`;
+}
+
+/**
+ * cd [dir] - home without a directory, the previous one with "-"
+ */
+async function cd(args: string[], io: CommandIO): Promise<number> {
+  const arg = args[0] ?? io.env.HOME;
+  const target = arg === '-' ? io.session.env.OLDPWD : arg;
+  if (!target) {
+    return finish(io, [], ['cd: OLDPWD not set']);
+  }
+
+  const path = io.session.resolve(target);
+  try {
+    if ((await fileSystem.stat(path)).type !== 'directory') {
+      return finish(io, [], [`cd: not a directory: ${target}`]);
+    }
+  } catch {
+    return finish(io, [], [`cd: ${target}: No such file or directory`]);
+  }
+
+  io.session.env.OLDPWD = io.session.cwd;
+  io.session.cwd = path;
+  return finish(io, arg === '-' ? [path] : [], []);
+}
+
+/**
+ * history [-c] [n] - numbered lines, the last n only when given; -c clears
+ */
+async function history(args: string[], io: CommandIO): Promise<number> {
+  if (args.includes('-c')) {
+    await io.session.history.clear();
+    return 0;
+  }
+
+  const count = args[0] === undefined ? null : Number(args[0]);
+  if (count !== null && !(Number.isInteger(count) && count >= 0)) {
+    return finish(io, [], ['usage: history [-c] [n]'], 2);
+  }
+
+  const entries = io.session.history.entries();
+  const first = count === null ? 0 : Math.max(entries.length - count, 0);
+  return finish(io, entries.slice(first).map((line, index) => `${String(first + index + 1).padStart(5)}  ${line}`), []);
+}
+
+/**
+ * The month of `date`, weeks starting on Sunday
+ */
+function calendar(date: Date): string[] {
+  const year = date.getFullYear();
+  const month = date.getMonth();
+  const firstDay = new Date(year, month, 1).getDay();
+  const days = new Date(year, month + 1, 0).getDate();
+
+  const title = `${date.toLocaleString('en-US', { month: 'long' })} ${year}`;
+  const lines = [title.padStart(Math.floor((20 + title.length) / 2)), 'Su Mo Tu We Th Fr Sa'];
+  let week = '   '.repeat(firstDay);
+  for (let day = 1; day <= days; day++) {
+    week += `${String(day).padStart(2)} `;
+    if ((firstDay + day) % 7 === 0 || day === days) {
+      lines.push(week.trimEnd());
+      week = '';
+    }
+  }
+  return lines;
+}
+
+function neofetch(): string[] {
+  const user = currentIdentity().user;
+  return [
+    String.raw`       _____       ${user}@webos`,
+    String.raw`      /     \      ${'-'.repeat(user.length + 6)}`,
+    String.raw`     /  Web  \     OS: WebOS 1.0.0`,
+    String.raw`    |   OS    |    Kernel: JavaScript`,
+    String.raw`    |  v1.0.0 |    Shell: Terminal`,
+    String.raw`     \       /     Resolution: ${window.screen.width}x${window.screen.height}`,
+    String.raw`      \_____/      Theme: System Default`,
+    String.raw`                   Terminal: WebOS Terminal`
+  ];
+}
+
+/**
+ * cat [files...] - the files one after another, or the input without any
+ */
+async function cat(args: string[], io: CommandIO): Promise<number> {
+  if (args.length === 0) {
+    io.stdout.write(io.stdin ?? '');
+    return 0;
+  }
+
+  const errors: string[] = [];
+  for (const arg of args) {
+    try {
+      io.stdout.write(await fileSystem.readFile(io.session.resolve(arg)));
+    } catch (error) {
+      errors.push(`cat: ${arg}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+  return finish(io, [], errors);
+}
+
+/**
+ * du [-s] [-x] [paths...] - sizes of each folder inside the paths (just
+ * the totals with -s); -x stays on one file system
+ */
+async function du(args: string[], io: CommandIO): Promise<number> {
+  const summarize = args.includes('-s');
+  const sameMount = args.includes('-x');
+  const paths = args.filter(arg => !arg.startsWith('-'));
+  const lines: string[] = [];
+  const errors: string[] = [];
+
+  for (const arg of paths.length > 0 ? paths : ['.']) {
+    const path = io.session.resolve(arg);
+    try {
+      const inode = await fileSystem.stat(path);
+      if (!summarize && inode.type === 'directory') {
+        for (const entry of await fileSystem.readdir(path)) {
+          if (entry.inode.type !== 'directory') continue;
+          const usage = await fileSystem.diskUsage(entry.path, { sameMount });
+          lines.push(`${formatSize(usage.size).padStart(8)}  ${entry.path}`);
+        }
+      }
+      const size = inode.type === 'directory' ? (await fileSystem.diskUsage(path, { sameMount })).size : inode.size;
+      lines.push(`${formatSize(size).padStart(8)}  ${path}`);
+    } catch (error) {
+      errors.push(`du: cannot access '${arg}': ${error instanceof Error ? error.message : error}`);
+    }
+  }
+  return finish(io, lines, errors);
+}
+
+/**
+ * df - usage per mounted file system, then the current user's quota
+ */
+async function df(io: CommandIO): Promise<number> {
+  await fileSystem.ready();
+  const rows = [['Filesystem', 'Type', 'Used', 'Files', 'Mounted on']];
+
+  for (const mount of fileSystem.getMounts()) {
+    let usage: DiskUsage | null = null;
+    try {
+      usage = await fileSystem.diskUsage(mount.mountPoint, { sameMount: true });
+    } catch {
+      // Unreadable mounts are listed without numbers
+    }
+    rows.push([
+      mount.source,
+      mount.type,
+      usage ? formatSize(usage.size) : '-',
+      usage ? String(usage.files) : '-',
+      mount.mountPoint
+    ]);
+  }
+
+  const widths = rows[0].map((_, column) => Math.max(...rows.map(row => row[column].length)));
+  const lines = rows.map(row => row.map((cell, column) => cell.padEnd(widths[column])).join('  ').trimEnd());
+
+  const quota = await fileSystem.userUsage();
+  lines.push('');
+  lines.push(quota.limit === null
+    ? `Quota for ${quota.user}: ${formatSize(quota.size)} used, no limit`
+    : `Quota for ${quota.user}: ${formatSize(quota.size)} of ${formatSize(quota.limit)} used (${Math.round((quota.size / quota.limit) * 100)}%)`);
+
+  return finish(io, lines, []);
+}
+
+/**
+ * chmod [-R] mode paths... - mode is octal (755) or symbolic (u+x,go-w)
+ */
+async function chmod(args: string[], io: CommandIO): Promise<number> {
+  const recursive = args.includes('-R');
+  const [spec, ...paths] = args.filter(arg => arg !== '-R');
+  if (!spec || paths.length === 0) {
+    return finish(io, [], ['usage: chmod [-R] <mode> <path>...']);
+  }
+
+  const errors: string[] = [];
+  for (const arg of paths) {
+    try {
+      await forEachPath(io.session.resolve(arg), recursive, async (path, current) => {
+        const mode = parseMode(spec, current);
+        if (mode === null) {
+          throw new Error(`invalid mode: '${spec}'`);
+        }
+        await fileSystem.chmod(path, mode);
+      });
+    } catch (error) {
+      errors.push(`chmod: cannot change '${arg}': ${error instanceof Error ? error.message : error}`);
+    }
+  }
+  return finish(io, [], errors);
+}
+
+/**
+ * chown [-R] owner[:group] paths... - "owner:" and ":group" change one side only
+ */
+async function chown(args: string[], io: CommandIO): Promise<number> {
+  const recursive = args.includes('-R');
+  const [spec, ...paths] = args.filter(arg => arg !== '-R');
+  if (!spec || paths.length === 0) {
+    return finish(io, [], ['usage: chown [-R] <owner>[:<group>] <path>...']);
+  }
+
+  const [owner, group] = spec.split(':');
+  const errors: string[] = [];
+  for (const arg of paths) {
+    try {
+      await forEachPath(io.session.resolve(arg), recursive, path =>
+        fileSystem.chown(path, owner || undefined, group || undefined).then(() => undefined)
+      );
+    } catch (error) {
+      errors.push(`chown: cannot change '${arg}': ${error instanceof Error ? error.message : error}`);
+    }
+  }
+  return finish(io, [], errors);
+}
+
+/**
+ * Visit `path` and, when recursive, everything below it
+ */
+async function forEachPath(path: string, recursive: boolean, visit: (path: string, mode: number) => Promise<void>): Promise<void> {
+  const inode = await fileSystem.stat(path);
+  await visit(path, inode.mode);
+  if (recursive && inode.type === 'directory') {
+    for (const entry of await fileSystem.readdir(path)) {
+      await forEachPath(entry.path, true, visit);
+    }
+  }
+}
+
+/**
+ * mkdir [-p] dirs... - with -p, missing parents are created and existing
+ * directories are fine
+ */
+async function mkdir(args: string[], io: CommandIO): Promise<number> {
+  const recursive = args.includes('-p');
+  const paths = args.filter(arg => arg !== '-p');
+  if (paths.length === 0) {
+    return finish(io, [], ['mkdir: missing operand']);
+  }
+
+  const errors: string[] = [];
+  for (const path of paths) {
+    try {
+      await fileSystem.mkdir(io.session.resolve(path), { recursive });
+    } catch (error) {
+      errors.push(`mkdir: cannot create directory '${path}': ${error instanceof Error ? error.message : error}`);
+    }
+  }
+  return finish(io, [], errors);
+}
+
+/**
+ * touch files... - creates empty files; existing ones get a new modification time
+ */
+async function touch(args: string[], io: CommandIO): Promise<number> {
+  if (args.length === 0) {
+    return finish(io, [], ['touch: missing file operand']);
+  }
+
+  const errors: string[] = [];
+  for (const arg of args) {
+    const path = io.session.resolve(arg);
+    try {
+      if (!(await fileSystem.exists(path))) {
+        await fileSystem.writeFile(path, '');
+      } else if ((await fileSystem.stat(path)).type === 'file') {
+        await fileSystem.writeFile(path, await fileSystem.readFileBytes(path));
+      }
+    } catch (error) {
+      errors.push(`touch: cannot touch '${arg}': ${error instanceof Error ? error.message : error}`);
+    }
+  }
+  return finish(io, [], errors);
+}
+
+/**
+ * mount                      - list mounts
+ * mount -t tmpfs tmpfs <dir> - empty in-memory file system
+ * mount <archive> [dir]      - archive contents, read-only
+ */
+async function mount(args: string[], io: CommandIO): Promise<number> {
+  if (args.length === 0) {
+    await fileSystem.ready();
+    const lines = fileSystem.getMounts().map(mount =>
+      `${mount.source} on ${mount.mountPoint} type ${mount.type} (${mount.readOnly ? 'ro' : 'rw'})`
+    );
+    return finish(io, lines, []);
+  }
+
+  try {
+    if (args[0] === '-t') {
+      const [, type, , target] = args;
+      if (type !== 'tmpfs' || !target) {
+        return finish(io, [], ['usage: mount -t tmpfs tmpfs <directory>']);
+      }
+      await fileSystem.mountMemory(io.session.resolve(target));
+      return 0;
+    }
+
+    const [source, target] = args;
+    const mount = await fileSystem.mountArchive(
+      io.session.resolve(source),
+      target ? io.session.resolve(target) : undefined
+    );
+    return finish(io, [`Mounted ${mount.source} on ${mount.mountPoint} (read-only)`], []);
+  } catch (error) {
+    return finish(io, [], [`mount: ${error instanceof Error ? error.message : error}`]);
+  }
+}
+
+/**
+ * zip [-r] archive[.zip] paths... - folders are always packed with their contents
+ */
+async function zip(args: string[], io: CommandIO): Promise<number> {
+  const [archive, ...sources] = args.filter(arg => arg !== '-r');
+  if (!archive || sources.length === 0) {
+    return finish(io, [], ['usage: zip [-r] <archive.zip> <path>...']);
+  }
+
+  const target = io.session.resolve(extname(archive) ? archive : `${archive}.zip`);
+  try {
+    await archiveService.compress(sources.map(source => io.session.resolve(source)), target);
+    const entries = await archiveService.list(target);
+    return finish(io, entries.map(entry => `  adding: ${entry.path}`), []);
+  } catch (error) {
+    return finish(io, [], [`zip: ${error instanceof Error ? error.message : error}`]);
+  }
+}
+
+/**
+ * unzip -l archive              - list contents
+ * unzip [-o] archive [-d dir]   - extract, -o overwrites existing files
+ */
+async function unzip(args: string[], io: CommandIO): Promise<number> {
+  let archive: string | null = null;
+  let destination = io.session.cwd;
+  let listOnly = false;
+  let overwrite = false;
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '-l') {
+      listOnly = true;
+    } else if (arg === '-o') {
+      overwrite = true;
+    } else if (arg === '-d') {
+      const dir = args[++i];
+      if (!dir) return finish(io, [], ["unzip: option requires an argument -- 'd'"]);
+      destination = io.session.resolve(dir);
+    } else if (arg.startsWith('-')) {
+      return finish(io, [], [`unzip: invalid option '${arg}'`]);
+    } else {
+      archive = io.session.resolve(arg);
+    }
+  }
+
+  if (!archive) {
+    return finish(io, [], ['usage: unzip [-l] [-o] <archive.zip> [-d <directory>]']);
+  }
+
+  try {
+    const entries = await archiveService.list(archive);
+
+    if (listOnly) {
+      const total = entries.reduce((sum, entry) => sum + (entry.size ?? 0), 0);
+      const lines = entries.map(entry => {
+        const date = entry.modifiedAt ? new Date(entry.modifiedAt).toISOString().slice(0, 16).replace('T', ' ') : '';
+        return `${String(entry.size ?? 0).padStart(9)}  ${date.padEnd(16)}   ${entry.path}`;
+      });
+      return finish(io, [`Archive:  ${archive}`, ...lines, `${String(total).padStart(9)}                     ${entries.length} files`], []);
+    }
+
+    await archiveService.extract(archive, destination, { overwrite });
+    const lines = entries.map(entry =>
+      `${entry.type === 'directory' ? '   creating' : '  inflating'}: ${joinPath(destination, entry.path)}`
+    );
+    return finish(io, [`Archive:  ${archive}`, ...lines], []);
+  } catch (error) {
+    return finish(io, [], [`unzip: ${error instanceof Error ? error.message : error}`]);
+  }
+}
+
+/**
+ * find [path] [-name pattern] [-type f|d] - answered from the search index
+ */
+async function find(args: string[], io: CommandIO): Promise<number> {
+  let root = io.session.cwd;
+  let namePattern: RegExp | null = null;
+  let type: 'file' | 'directory' | null = null;
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '-name' || arg === '-iname') {
+      const pattern = args[++i];
+      if (!pattern) return finish(io, [], [`find: missing argument to '${arg}'`]);
+      namePattern = globToRegExp(pattern, arg === '-iname');
+    } else if (arg === '-type') {
+      const value = args[++i];
+      if (value !== 'f' && value !== 'd') {
+        return finish(io, [], [`find: unknown argument to -type: ${value ?? ''}`]);
+      }
+      type = value === 'f' ? 'file' : 'directory';
+    } else if (arg.startsWith('-')) {
+      return finish(io, [], [`find: unknown predicate '${arg}'`]);
+    } else {
+      root = io.session.resolve(arg);
+    }
+  }
+
+  try {
+    await fileSystem.stat(root);
+  } catch {
+    return finish(io, [], [`find: '${root}': No such file or directory`]);
+  }
+
+  const matches = (await searchIndex.listEntries(root))
+    .filter(entry => !type || entry.type === type)
+    .filter(entry => !namePattern || namePattern.test(entry.name))
+    .map(entry => entry.path);
+
+  return finish(io, matches, []);
+}
+
+/**
+ * grep [-i] text [path] - the index narrows down which files to read.
+ * Prints path:line:text and exits with 1 when nothing matched. Without a
+ * path, piped input is searched line by line.
+ */
+async function grep(args: string[], io: CommandIO): Promise<number> {
+  const ignoreCase = args.includes('-i');
+  const [pattern, target] = args.filter(arg => arg !== '-i');
+  if (!pattern) {
+    return finish(io, [], ['usage: grep [-i] pattern [path]'], 2);
+  }
+  const needle = ignoreCase ? pattern.toLowerCase() : pattern;
+  const matches = (line: string) => (ignoreCase ? line.toLowerCase() : line).includes(needle);
+
+  if (target === undefined && io.stdin !== null) {
+    const lines = io.stdin.replace(/\n$/, '').split('\n').filter(matches);
+    return finish(io, lines, [], lines.length > 0 ? 0 : 1);
+  }
+
+  const root = io.session.resolve(target ?? io.session.cwd);
+  let rootInode;
+  try {
+    rootInode = await fileSystem.stat(root);
+  } catch {
+    return finish(io, [], [`grep: ${target}: No such file or directory`], 2);
+  }
+
+  const lines: string[] = [];
+  const errors: string[] = [];
+  const search = async (path: string, label: string) => {
+    let content: string;
+    try {
+      content = await fileSystem.readFile(path);
+    } catch (error) {
+      errors.push(`grep: ${label}: ${error instanceof Error ? error.message : error}`);
+      return;
+    }
+
+    const contentLines = content.split('\n');
+    if (content.includes('\0')) {
+      if (contentLines.some(matches)) lines.push(`Binary file ${label} matches`);
+      return;
+    }
+    contentLines.forEach((line, index) => {
+      if (matches(line)) lines.push(`${label}:${index + 1}:${line}`);
+    });
+  };
+
+  if (rootInode.type === 'file') {
+    await search(root, basename(root));
+  } else {
+    // The index can only rule out files whose whole text it holds
+    const excluded = await searchIndex.findContentExclusions(pattern, root);
+    await forEachFile(root, errors, async path => {
+      if (!excluded.has(path)) await search(path, path);
+    });
+  }
+
+  return finish(io, lines, errors, lines.length > 0 ? 0 : errors.length > 0 ? 2 : 1);
+}
+
+/**
+ * Every regular file below `path`, by name; folders that can't be read are
+ * reported in `errors` and skipped, as is the Trash
+ */
+async function forEachFile(path: string, errors: string[], visit: (path: string) => Promise<void>): Promise<void> {
+  let entries;
+  try {
+    entries = await fileSystem.readdir(path);
+  } catch (error) {
+    errors.push(`grep: ${path}: ${error instanceof Error ? error.message : error}`);
+    return;
+  }
+
+  for (const entry of entries.sort((a, b) => a.inode.name.localeCompare(b.inode.name))) {
+    if (entry.inode.type === 'directory' && entry.path !== TRASH_PATH) {
+      await forEachFile(entry.path, errors, visit);
+    } else if (entry.inode.type === 'file') {
+      await visit(entry.path);
+    }
+  }
+}
+
+/**
+ * Human-readable size in the style of `du -h`: 512, 1.5K, 20M
+ */
+function formatSize(bytes: number): string {
+  const units = ['K', 'M', 'G', 'T'];
+  if (bytes < 1024) return String(bytes);
+
+  let size = bytes;
+  let unit = -1;
+  while (size >= 1024 && unit < units.length - 1) {
+    size /= 1024;
+    unit++;
+  }
+  return `${size < 10 ? size.toFixed(1) : Math.round(size)}${units[unit]}`;
+}
+
+/**
+ * Print the lines and errors; the status is 1 when there were errors
+ * unless given
+ */
+function finish(io: CommandIO, lines: string[], errors: string[], status = errors.length > 0 ? 1 : 0): number {
+  if (lines.length > 0) io.stdout.write(`${lines.join('\n')}\n`);
+  if (errors.length > 0) io.stderr.write(`${errors.join('\n')}\n`);
+  return status;
+}
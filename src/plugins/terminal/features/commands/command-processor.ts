@@ -1,143 +1,250 @@
+import { fileSystem } from '@core/file-system';
+import { parse, wordText, ShellSyntaxError } from './parser';
+import type { Pipeline, Redirect, SimpleCommand, Word } from './parser';
+import { commandRegistry } from './registry';
+import type { CommandIO, CommandRegistry, OutputStream } from './registry';
+import { ShellSession } from './session';
+import { registerBuiltinCommands } from './builtins';
+import { expandGlob, escapeGlob, hasGlob } from './glob';
+
+/**
+ * What a whole command line printed, and the status of the last pipeline
+ */
 export interface CommandResult {
   output: string;
   error?: string;
   exitCode: number;
 }
 
-export interface Command {
-  name: string;
-  description: string;
-  execute: (args: string[]) => Promise<CommandResult>;
-}
+// Exit status when there is no such command, as in other shells
+const NOT_FOUND_STATUS = 127;
 
-export class CommandProcessor {
-  private commands: Map<string, Command> = new Map();
+const SYNTAX_ERROR_STATUS = 2;
 
-  constructor() {
-    this.registerDefaultCommands();
-  }
+const VARIABLE = /\$(?:\{([A-Za-z_][A-Za-z0-9_]*)\}|([A-Za-z_][A-Za-z0-9_]*)|(\?))/g;
+
+class OutputBuffer implements OutputStream {
+  text = '';
 
-  registerCommand(command: Command) {
-    this.commands.set(command.name, command);
+  write(text: string): void {
+    this.text += text;
   }
+}
+
+registerBuiltinCommands(commandRegistry);
 
+/**
+ * Runs command lines for one terminal session. Commands come from the
+ * shared registry; the session keeps the working directory, variables and
+ * history between lines.
+ */
+export class CommandProcessor {
+  constructor(
+    readonly session: ShellSession = new ShellSession(),
+    private registry: CommandRegistry = commandRegistry
+  ) {}
+
+  /**
+   * Run a command line: history references, quoting, pipes, redirection,
+   * &&/||/; sequencing, variables and globs
+   */
   async executeCommand(input: string): Promise<CommandResult> {
-    const [commandName, ...args] = input.trim().split(' ');
+    const stdout = new OutputBuffer();
+    const stderr = new OutputBuffer();
 
-    if (!commandName) {
-      return { output: '', exitCode: 0 };
+    const { history } = this.session;
+    await history.ready();
+    let line: string;
+    try {
+      line = history.expand(input);
+    } catch (error) {
+      this.session.lastStatus = 1;
+      return { output: '', error: error instanceof Error ? error.message : String(error), exitCode: 1 };
     }
-
-    const command = this.commands.get(commandName.toLowerCase());
-
-    if (!command) {
-      return {
-        output: '',
-        error: `Command not found: ${commandName}. Type 'help' for available commands.`,
-        exitCode: 1
-      };
+    if (line !== input) {
+      // The line as it runs, like other shells print it
+      stdout.write(`${line}\n`);
     }
+    await history.add(line);
 
+    let items;
     try {
-      return await command.execute(args);
+      items = parse(line);
     } catch (error) {
-      return {
-        output: '',
-        error: `Error executing command: ${error instanceof Error ? error.message : 'Unknown error'}`,
-        exitCode: 1
-      };
+      if (!(error instanceof ShellSyntaxError)) throw error;
+      this.session.lastStatus = SYNTAX_ERROR_STATUS;
+      return { output: stdout.text.replace(/\n$/, ''), error: `syntax error: ${error.message}`, exitCode: SYNTAX_ERROR_STATUS };
+    }
+
+    for (const { connector, pipeline } of items) {
+      if (connector === '&&' && this.session.lastStatus !== 0) continue;
+      if (connector === '||' && this.session.lastStatus === 0) continue;
+      this.session.lastStatus = await this.runPipeline(pipeline, stdout, stderr);
     }
+
+    return {
+      output: stdout.text.replace(/\n$/, ''),
+      error: stderr.text.replace(/\n$/, '') || undefined,
+      exitCode: this.session.lastStatus
+    };
   }
 
-  getAvailableCommands(): Command[] {
-    return Array.from(this.commands.values());
+  // ==== Execution ====
+
+  /**
+   * Run each command with the previous one's output as its input; the
+   * status is the last command's
+   */
+  private async runPipeline(pipeline: Pipeline, stdout: OutputStream, stderr: OutputStream): Promise<number> {
+    let stdin: string | null = null;
+    let status = 0;
+
+    for (const [index, command] of pipeline.commands.entries()) {
+      const isLast = index === pipeline.commands.length - 1;
+      const output = isLast ? stdout : new OutputBuffer();
+      status = await this.runCommand(command, stdin, output, stderr, isLast);
+      stdin = output instanceof OutputBuffer ? output.text : null;
+    }
+    return status;
   }
 
-  private registerDefaultCommands() {
-    this.registerCommand({
-      name: 'help',
-      description: 'Show available commands',
-      execute: async () => ({
-        output: `Available commands:
-  help     - Show this help message
-  clear    - Clear terminal screen
-  ls       - List directory contents
-  pwd      - Print working directory
-  date     - Show current date and time
-  whoami   - Display current user
-  uname    - Display system information
-  echo     - Display message
-  mkdir    - Create directory
-  touch    - Create file`,
-        exitCode: 0
-      })
-    });
+  /**
+   * `toScreen` is whether the command's output goes to the terminal rather
+   * than the next command in the pipeline
+   */
+  private async runCommand(
+    command: SimpleCommand,
+    stdin: string | null,
+    stdout: OutputStream,
+    stderr: OutputStream,
+    toScreen: boolean
+  ): Promise<number> {
+    const variables = this.session.variables();
+    const assignments: Record<string, string> = {};
+    for (const assignment of command.assignments) {
+      assignments[assignment.name] = (await this.expandWord(assignment.value, variables, false))[0];
+    }
 
-    this.registerCommand({
-      name: 'clear',
-      description: 'Clear terminal screen',
-      execute: async () => ({ output: 'CLEAR_SCREEN', exitCode: 0 })
-    });
+    const args: string[] = [];
+    for (const word of command.words) {
+      args.push(...(await this.expandWord(word, variables)));
+    }
 
-    this.registerCommand({
-      name: 'ls',
-      description: 'List directory contents',
-      execute: async () => ({
-        output: 'Documents  Downloads  Pictures  Music  Videos  readme.txt  config.json',
-        exitCode: 0
-      })
-    });
+    // Redirected output is collected and written once the command is done
+    const files: { path: string; append: boolean; output: OutputBuffer }[] = [];
+    let output = stdout;
+    let input = stdin;
+    for (const redirect of command.redirects) {
+      const target = await this.redirectTarget(redirect, variables);
+      if (typeof target !== 'string') {
+        stderr.write(`${target.error}\n`);
+        return 1;
+      }
 
-    this.registerCommand({
-      name: 'pwd',
-      description: 'Print working directory',
-      execute: async () => ({ output: '/home/user', exitCode: 0 })
-    });
+      if (redirect.operator === '<') {
+        try {
+          input = await fileSystem.readFile(target);
+        } catch (error) {
+          stderr.write(`${wordText(redirect.target)}: ${error instanceof Error ? error.message : error}\n`);
+          return 1;
+        }
+      } else {
+        const buffer = new OutputBuffer();
+        files.push({ path: target, append: redirect.operator === '>>', output: buffer });
+        output = buffer;
+      }
+    }
 
-    this.registerCommand({
-      name: 'date',
-      description: 'Show current date and time',
-      execute: async () => ({ output: new Date().toString(), exitCode: 0 })
-    });
+    let status: number;
+    const [commandName, ...rest] = args;
+    if (!commandName) {
+      // Only assignments: they stay for the rest of the session
+      Object.assign(this.session.env, assignments);
+      status = 0;
+    } else {
+      status = await this.invoke(commandName, rest, {
+        stdin: input,
+        env: { ...variables, ...assignments },
+        stdout: output,
+        stderr,
+        interactive: toScreen && files.length === 0,
+        session: this.session
+      });
+    }
 
-    this.registerCommand({
-      name: 'whoami',
-      description: 'Display current user',
-      execute: async () => ({ output: 'user', exitCode: 0 })
-    });
+    for (const file of files) {
+      try {
+        const previous = file.append && await fileSystem.exists(file.path) ? await fileSystem.readFile(file.path) : '';
+        await fileSystem.writeFile(file.path, previous + file.output.text);
+      } catch (error) {
+        stderr.write(`${file.path}: ${error instanceof Error ? error.message : error}\n`);
+        status = 1;
+      }
+    }
+    return status;
+  }
 
-    this.registerCommand({
-      name: 'uname',
-      description: 'Display system information',
-      execute: async () => ({ output: 'WebOS 1.0.0', exitCode: 0 })
-    });
+  private async invoke(commandName: string, args: string[], io: CommandIO): Promise<number> {
+    const command = this.registry.get(commandName.toLowerCase());
+    if (!command) {
+      io.stderr.write(`Command not found: ${commandName}. Type 'help' for available commands.\n`);
+      return NOT_FOUND_STATUS;
+    }
 
-    this.registerCommand({
-      name: 'echo',
-      description: 'Display message',
-      execute: async (args) => ({ output: args.join(' '), exitCode: 0 })
-    });
+    try {
+      return await command.execute(args, io);
+    } catch (error) {
+      io.stderr.write(`Error executing command: ${error instanceof Error ? error.message : 'Unknown error'}\n`);
+      return 1;
+    }
+  }
 
-    this.registerCommand({
-      name: 'mkdir',
-      description: 'Create directory',
-      execute: async (args) => {
-        if (args.length === 0) {
-          return { output: '', error: 'mkdir: missing operand', exitCode: 1 };
-        }
-        return { output: `Directory '${args[0]}' created`, exitCode: 0 };
+  private async redirectTarget(redirect: Redirect, variables: Record<string, string>): Promise<string | { error: string }> {
+    const targets = await this.expandWord(redirect.target, variables);
+    if (targets.length !== 1 || !targets[0]) {
+      return { error: `${wordText(redirect.target)}: ambiguous redirect` };
+    }
+    return this.session.resolve(targets[0]);
+  }
+
+  /**
+   * A word's values: ~ and variables expanded, then matched as a glob when
+   * it has unquoted wildcards. Globs without matches stay as typed.
+   */
+  private async expandWord(word: Word, variables: Record<string, string>, allowGlob = true): Promise<string[]> {
+    let value = '';
+    let pattern = '';
+    let isGlob = false;
+
+    word.forEach((part, index) => {
+      let text = part.text;
+      if (part.kind === 'bare' && index === 0 && (text === '~' || text.startsWith('~/'))) {
+        text = variables.HOME + text.slice(1);
+      }
+      if (part.kind !== 'literal') {
+        text = this.expandVariables(text, variables);
       }
-    });
 
-    this.registerCommand({
-      name: 'touch',
-      description: 'Create file',
-      execute: async (args) => {
-        if (args.length === 0) {
-          return { output: '', error: 'touch: missing file operand', exitCode: 1 };
-        }
-        return { output: `File '${args[0]}' created`, exitCode: 0 };
+      value += text;
+      if (part.kind === 'bare') {
+        pattern += text;
+        isGlob ||= hasGlob(text);
+      } else {
+        pattern += escapeGlob(text);
       }
     });
+
+    if (allowGlob && isGlob) {
+      const matches = await expandGlob(pattern, this.session.cwd);
+      if (matches.length > 0) return matches;
+    }
+    return [value];
+  }
+
+  private expandVariables(text: string, variables: Record<string, string>): string {
+    return text.replace(VARIABLE, (_match, braced?: string, name?: string) => {
+      if (braced || name) return variables[(braced || name)!] ?? '';
+      return String(this.session.lastStatus);
+    });
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,91 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { fileSystem } from '@core/file-system';
+import { candidateLabel, complete, escapeWord, suggestFromHistory } from './completion';
+import { CommandRegistry } from './registry';
+import { ShellSession } from './session';
+
+const root = '/tmp/completion-test';
+
+const registry = new CommandRegistry();
+const command = (name: string, extra: object = {}) => ({
+  name,
+  description: name,
+  execute: async () => 0,
+  ...extra
+});
+registry.register(command('cat'));
+registry.register(command('cd'));
+registry.register(command('clear'));
+registry.register(command('ls', { flags: ['-a', '-l'] }));
+registry.register(command('theme', { args: [{ name: 'action', values: ['list', 'set'] }] }));
+registry.registerCompleter('cd', () => ['docs/', 'drafts/']);
+
+const session = new ShellSession(root);
+const candidates = async (line: string) => (await complete(line, session, registry)).candidates;
+
+describe('complete', () => {
+  beforeAll(async () => {
+    await fileSystem.ready();
+    for (const path of ['notes.txt', 'notes-old.txt', 'my file.txt', '.secret', 'docs/guide.md']) {
+      await fileSystem.writeFile(`${root}/${path}`, path, { createParents: true });
+    }
+  });
+
+  it('completes command names in command position', async () => {
+    expect(await candidates('c')).toEqual(['cat', 'cd', 'clear']);
+    expect(await candidates('ls | cl')).toEqual(['clear']);
+    expect(await candidates('X=1 th')).toEqual(['theme']);
+  });
+
+  it('completes paths for arguments, folders ending with a slash', async () => {
+    expect(await candidates('cat no')).toEqual(['notes-old.txt', 'notes.txt']);
+    expect(await candidates('cat d')).toEqual(['docs/']);
+    expect(await candidates('cat docs/')).toEqual(['docs/guide.md']);
+  });
+
+  it('shows hidden names only once a dot is typed', async () => {
+    expect(await candidates('cat ')).not.toContain('.secret');
+    expect(await candidates('cat .')).toEqual(['.secret']);
+  });
+
+  it('offers declared flags and argument values', async () => {
+    expect(await candidates('ls -')).toEqual(['-a', '-l']);
+    expect(await candidates('theme s')).toEqual(['set']);
+  });
+
+  it('prefers a registered completer', async () => {
+    expect(await candidates('cd d')).toEqual(['docs/', 'drafts/']);
+  });
+
+  it('completes paths after a redirection', async () => {
+    expect(await candidates('theme list > not')).toEqual(['notes-old.txt', 'notes.txt']);
+  });
+
+  it('reports where the word starts and the escaped common prefix', async () => {
+    const completion = await complete('cat my', session, registry);
+    expect(completion.start).toBe(4);
+    expect(completion.commonPrefix).toBe('my\\ file.txt');
+  });
+
+  it('completes a word that was typed with quotes', async () => {
+    expect(await candidates('cat "my f')).toEqual(['my file.txt']);
+  });
+});
+
+describe('completion helpers', () => {
+  it('suggests the rest of the latest matching history line', () => {
+    expect(suggestFromHistory(['git status', 'git commit', 'ls'], 'git')).toBe(' commit');
+    expect(suggestFromHistory(['ls'], 'ls')).toBe('');
+    expect(suggestFromHistory(['ls'], '')).toBe('');
+  });
+
+  it('labels candidates by their last path segment', () => {
+    expect(candidateLabel('docs/guide.md')).toBe('guide.md');
+    expect(candidateLabel('docs/sub/')).toBe('sub/');
+  });
+
+  it('escapes characters that would split or expand a word', () => {
+    expect(escapeWord('a b*(c)')).toBe('a\\ b\\*\\(c\\)');
+    expect(escapeWord('~/plain')).toBe('~/plain');
+  });
+});
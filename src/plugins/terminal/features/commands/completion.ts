@@ -0,0 +1,230 @@
+import { fileSystem, isHiddenName } from '@core/file-system';
+import { commandRegistry } from './registry';
+import type { CommandRegistry } from './registry';
+import type { ShellSession } from './session';
+
+/**
+ * Tab completion for a partly typed command line
+ *
+ * The word before the cursor is completed as a command name when it is the
+ * first word of a command, and otherwise by the command's completion
+ * provider. Commands without one get their declared flags, their declared
+ * argument values, or paths.
+ */
+
+export interface CompletionContext {
+  /**
+   * Command name
+   */
+  command: string;
+  /**
+   * Arguments before the one being completed
+   */
+  args: string[];
+  /**
+   * What has been typed of the argument, unquoted
+   */
+  current: string;
+  session: ShellSession;
+}
+
+/**
+ * Candidates for the argument in `context`; ones that don't start with
+ * what has been typed are dropped
+ */
+export type CompletionProvider = (context: CompletionContext) => Promise<string[]> | string[];
+
+export interface Completion {
+  /**
+   * Where the completed word starts in the line
+   */
+  start: number;
+  /**
+   * Matching words, sorted; directories end with "/"
+   */
+  candidates: string[];
+  /**
+   * What every candidate starts with, quoted for the line
+   */
+  commonPrefix: string;
+}
+
+// Characters that need a backslash to stay part of a word
+const SPECIAL_CHARACTERS = /[\s'"\\|&;<>()$`*?[\]]/g;
+
+const OPERATORS = ['|', '||', '&&', ';'];
+
+const REDIRECTS = ['<', '>', '>>'];
+
+interface WordSpan {
+  start: number;
+  text: string;
+}
+
+/**
+ * Complete the word that ends at the end of `line`
+ */
+export async function complete(
+  line: string,
+  session: ShellSession,
+  registry: CommandRegistry = commandRegistry
+): Promise<Completion> {
+  const words = splitWords(line);
+  const segment = words.slice(words.findLastIndex(word => OPERATORS.includes(word.text)) + 1);
+  const last = segment[segment.length - 1];
+  const endsWord = last !== undefined && last.start + last.raw.length === line.length && !/\s$/.test(line);
+  const current = endsWord ? last : { start: line.length, text: '', raw: '' };
+  const before = (endsWord ? segment.slice(0, -1) : segment).map(word => word.text);
+
+  let candidates: string[];
+  const [command, ...args] = before.filter(word => !/^[A-Za-z_][A-Za-z0-9_]*=/.test(word));
+  if (REDIRECTS.includes(before[before.length - 1])) {
+    candidates = await completePaths(current.text, session);
+  } else if (command === undefined) {
+    candidates = current.text.includes('/')
+      ? await completePaths(current.text, session)
+      : registry.list().map(entry => entry.name);
+  } else {
+    const context = { command, args: args.filter(arg => !REDIRECTS.includes(arg)), current: current.text, session };
+    const provider = registry.getCompleter(command) ?? defaultCompleter(registry);
+    candidates = await provider(context);
+  }
+
+  const matches = Array.from(new Set(candidates.filter(candidate => candidate.startsWith(current.text)))).sort();
+  return {
+    start: current.start,
+    candidates: matches,
+    commonPrefix: escapeWord(longestCommonPrefix(matches))
+  };
+}
+
+/**
+ * Files and folders matching a partly typed path; folders get a "/"
+ */
+export async function completePaths(
+  typed: string,
+  session: ShellSession,
+  options: { directoriesOnly?: boolean } = {}
+): Promise<string[]> {
+  const slash = typed.lastIndexOf('/');
+  const folder = typed.slice(0, slash + 1);
+  const prefix = typed.slice(slash + 1);
+  const home = session.variables().HOME;
+  const expanded = folder === '~/' || folder.startsWith('~/') ? home + folder.slice(1) : folder;
+
+  let entries;
+  try {
+    entries = await fileSystem.readdir(session.resolve(expanded || '.'));
+  } catch {
+    return [];
+  }
+
+  return entries
+    .map(entry => entry.inode)
+    .filter(inode => inode.name.startsWith(prefix) && (prefix.startsWith('.') || !isHiddenName(inode.name)))
+    .filter(inode => !options.directoriesOnly || inode.type === 'directory')
+    .map(inode => `${folder}${inode.name}${inode.type === 'directory' ? '/' : ''}`);
+}
+
+/**
+ * The most recent history line that continues `input`, minus the typed part
+ */
+export function suggestFromHistory(history: string[], input: string): string {
+  if (!input) return '';
+  for (let i = history.length - 1; i >= 0; i--) {
+    if (history[i].length > input.length && history[i].startsWith(input)) {
+      return history[i].slice(input.length);
+    }
+  }
+  return '';
+}
+
+/**
+ * How a candidate is shown when candidates are listed: the last path segment
+ */
+export function candidateLabel(candidate: string): string {
+  return candidate.replace(/^.*\/(?=.)/, '');
+}
+
+/**
+ * A word as it must be typed to stay one word
+ */
+export function escapeWord(word: string): string {
+  return word.replace(SPECIAL_CHARACTERS, '\\$&');
+}
+
+// ==== Internals ====
+
+/**
+ * Flags when the argument starts with "-", otherwise the values declared
+ * for the argument's position, otherwise paths
+ */
+function defaultCompleter(registry: CommandRegistry): CompletionProvider {
+  return async ({ command, args, current, session }) => {
+    const entry = registry.get(command);
+    if (current.startsWith('-') && entry?.flags?.length) {
+      return entry.flags;
+    }
+
+    const position = args.filter(arg => !arg.startsWith('-')).length;
+    const spec = entry?.args?.[position] ?? entry?.args?.find(arg => arg.variadic);
+    return spec?.values?.length ? spec.values : completePaths(current, session);
+  };
+}
+
+/**
+ * Words of a partly typed line with where each starts. Quotes and
+ * backslashes are removed from `text`; an unterminated quote runs to the
+ * end of the line. Operators are words of their own.
+ */
+function splitWords(line: string): (WordSpan & { raw: string })[] {
+  const words: (WordSpan & { raw: string })[] = [];
+  let word: WordSpan | null = null;
+  let quote: string | null = null;
+
+  const end = (index: number) => {
+    if (word) words.push({ ...word, raw: line.slice(word.start, index) });
+    word = null;
+  };
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quote) {
+      if (char === quote) {
+        quote = null;
+      } else if (char === '\\' && quote === '"' && i + 1 < line.length) {
+        word!.text += line[++i];
+      } else {
+        word!.text += char;
+      }
+    } else if (/\s/.test(char)) {
+      end(i);
+    } else if ('|&;<>'.includes(char)) {
+      end(i);
+      const operator = line.slice(i).match(/^(\|\||&&|>>|[|&;<>])/)![0];
+      words.push({ start: i, text: operator, raw: operator });
+      i += operator.length - 1;
+    } else {
+      word ??= { start: i, text: '' };
+      if (char === "'" || char === '"') {
+        quote = char;
+      } else if (char === '\\' && i + 1 < line.length) {
+        word.text += line[++i];
+      } else {
+        word.text += char;
+      }
+    }
+  }
+  end(line.length);
+
+  return words;
+}
+
+function longestCommonPrefix(words: string[]): string {
+  if (words.length === 0) return '';
+  let prefix = words[0];
+  for (const word of words) {
+    while (!word.startsWith(prefix)) prefix = prefix.slice(0, -1);
+  }
+  return prefix;
+}
@@ -0,0 +1,73 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { fileSystem } from '@core/file-system';
+import { expandGlob, globToRegExp, hasGlob } from './glob';
+
+describe('globToRegExp', () => {
+  it.each([
+    ['*.txt', 'notes.txt', true],
+    ['*.txt', 'notes.txt.bak', false],
+    ['file?.md', 'file1.md', true],
+    ['file?.md', 'file10.md', false],
+    ['[abc]*', 'beta', true],
+    ['[abc]*', 'delta', false],
+    ['[!a-c]*', 'delta', true],
+    ['[^a-c]*', 'alpha', false],
+    ['a.b', 'axb', false],
+    ['(x)+', '(x)+', true],
+    ['\\*', '*', true],
+    ['\\*', 'a', false]
+  ])('%s against %s is %s', (pattern, name, expected) => {
+    expect(globToRegExp(pattern).test(name)).toBe(expected);
+  });
+
+  it('ignores case on request', () => {
+    expect(globToRegExp('*.TXT').test('a.txt')).toBe(false);
+    expect(globToRegExp('*.TXT', true).test('a.txt')).toBe(true);
+  });
+
+  it('treats an unclosed bracket as a plain character', () => {
+    expect(globToRegExp('[ab').test('[ab')).toBe(true);
+  });
+});
+
+describe('hasGlob', () => {
+  it('sees only wildcards that are not escaped', () => {
+    expect(hasGlob('*.txt')).toBe(true);
+    expect(hasGlob('file[12]')).toBe(true);
+    expect(hasGlob('\\*.txt')).toBe(false);
+    expect(hasGlob('plain.txt')).toBe(false);
+  });
+});
+
+describe('expandGlob', () => {
+  const root = '/tmp/glob-test';
+
+  beforeAll(async () => {
+    await fileSystem.ready();
+    for (const path of ['a.txt', 'b.txt', 'c.md', '.hidden.txt', 'docs/one.txt', 'docs/two.md', 'more/three.txt']) {
+      await fileSystem.writeFile(`${root}/${path}`, path, { createParents: true });
+    }
+  });
+
+  it('lists matches sorted, relative to the working directory', async () => {
+    expect(await expandGlob('*.txt', root)).toEqual(['a.txt', 'b.txt']);
+  });
+
+  it('keeps absolute patterns absolute', async () => {
+    expect(await expandGlob(`${root}/*.md`, '/')).toEqual([`${root}/c.md`]);
+  });
+
+  it('matches each path segment', async () => {
+    expect(await expandGlob('*/*.txt', root)).toEqual(['docs/one.txt', 'more/three.txt']);
+  });
+
+  it('shows hidden names only to patterns starting with a dot', async () => {
+    expect(await expandGlob('*hidden*', root)).toEqual([]);
+    expect(await expandGlob('.*.txt', root)).toEqual(['.hidden.txt']);
+  });
+
+  it('returns nothing when nothing matches', async () => {
+    expect(await expandGlob('*.zip', root)).toEqual([]);
+    expect(await expandGlob('missing/*', root)).toEqual([]);
+  });
+});
@@ -0,0 +1,99 @@
+import { fileSystem, normalizePath } from '@core/file-system';
+
+/**
+ * Shell-style wildcards: *, ?, [abc] and [!a-z]. A backslash makes the
+ * next character literal.
+ */
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+
+/**
+ * A wildcard pattern as an anchored RegExp
+ */
+export function globToRegExp(pattern: string, ignoreCase = false): RegExp {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    const classEnd = char === '[' ? pattern.indexOf(']', i + 2) : -1;
+
+    if (char === '\\' && i + 1 < pattern.length) {
+      source += escapeRegExp(pattern[++i]);
+    } else if (char === '*') {
+      source += '.*';
+    } else if (char === '?') {
+      source += '.';
+    } else if (classEnd !== -1) {
+      const body = pattern.slice(i + 1, classEnd);
+      const negated = body.startsWith('!') || body.startsWith('^');
+      source += `[${negated ? '^' : ''}${(negated ? body.slice(1) : body).replace(/[\\\]^]/g, '\\$&')}]`;
+      i = classEnd;
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+  return new RegExp(`^${source}$`, ignoreCase ? 'i' : '');
+}
+
+/**
+ * Whether a pattern has wildcards that aren't escaped
+ */
+export function hasGlob(pattern: string): boolean {
+  for (let i = 0; i < pattern.length; i++) {
+    if (pattern[i] === '\\') {
+      i++;
+    } else if (pattern[i] === '*' || pattern[i] === '?' || (pattern[i] === '[' && pattern.indexOf(']', i + 2) !== -1)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Quoted text can contain wildcard characters that must match themselves
+ */
+export const escapeGlob = (text: string) => text.replace(/[*?[\]\\]/g, '\\$&');
+
+const unescapeGlob = (pattern: string) => pattern.replace(/\\(.)/g, '$1');
+
+const appendSegment = (prefix: string, name: string) =>
+  !prefix ? name : prefix.endsWith('/') ? `${prefix}${name}` : `${prefix}/${name}`;
+
+/**
+ * Paths matching `pattern`, segment by segment, in the form they were
+ * typed (relative stays relative to `cwd`). Hidden names need a pattern
+ * that starts with a dot.
+ */
+export async function expandGlob(pattern: string, cwd: string): Promise<string[]> {
+  let matches = [pattern.startsWith('/') ? '/' : ''];
+
+  for (const segment of pattern.split('/').filter(Boolean)) {
+    const next: string[] = [];
+    for (const prefix of matches) {
+      if (!hasGlob(segment)) {
+        next.push(appendSegment(prefix, unescapeGlob(segment)));
+        continue;
+      }
+
+      let entries;
+      try {
+        entries = await fileSystem.readdir(normalizePath(prefix || '.', cwd));
+      } catch {
+        continue;
+      }
+      const matcher = globToRegExp(segment);
+      for (const entry of entries) {
+        const name = entry.inode.name;
+        if (matcher.test(name) && (segment.startsWith('.') || !name.startsWith('.'))) {
+          next.push(appendSegment(prefix, name));
+        }
+      }
+    }
+    matches = next;
+  }
+
+  const existing: string[] = [];
+  for (const match of matches) {
+    if (await fileSystem.exists(normalizePath(match, cwd))) existing.push(match);
+  }
+  return existing.sort();
+}
@@ -0,0 +1,51 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { ShellHistory } from './history';
+
+describe('ShellHistory.expand', () => {
+  let history: ShellHistory;
+
+  beforeEach(async () => {
+    history = new ShellHistory();
+    await history.clear();
+    for (const line of ['echo one', 'ls -l', 'pwd']) await history.add(line);
+  });
+
+  it('replaces !! with the previous line', () => {
+    expect(history.expand('sudo !!')).toBe('sudo pwd');
+  });
+
+  it('replaces !n with line n and !-n with the nth line back', () => {
+    expect(history.expand('!1')).toBe('echo one');
+    expect(history.expand('!-2 | sort')).toBe('ls -l | sort');
+  });
+
+  it('expands every reference in the line', () => {
+    expect(history.expand('!1; !!')).toBe('echo one; pwd');
+  });
+
+  it('leaves other exclamation marks alone', () => {
+    expect(history.expand('echo hi! !x !')).toBe('echo hi! !x !');
+  });
+
+  it('leaves escaped and single-quoted references alone', () => {
+    expect(history.expand('echo \\!! \'!!\'')).toBe('echo \\!! \'!!\'');
+  });
+
+  it('expands inside double quotes, where a single quote is just a character', () => {
+    expect(history.expand('echo "it\'s !!"')).toBe('echo "it\'s pwd"');
+    expect(history.expand('echo "\'" !!')).toBe('echo "\'" pwd');
+  });
+
+  it('returns a line without references unchanged', () => {
+    expect(history.expand('echo "plain"')).toBe('echo "plain"');
+  });
+
+  it.each(['!0', '!4', '!-4'])('throws for the missing line %s', reference => {
+    expect(() => history.expand(reference)).toThrow(`${reference}: event not found`);
+  });
+
+  it('throws for !! when the history is empty', async () => {
+    await history.clear();
+    expect(() => history.expand('!!')).toThrow('!!: event not found');
+  });
+});
@@ -0,0 +1,136 @@
+import { storageEngine } from '@core/storage-abstraction';
+import { authEngine } from '@core/auth-permissions';
+import { eventBus } from '@core/event-bus';
+
+/**
+ * Shell history - command lines run in any terminal window, per user
+ *
+ * Every window shares it, so a line run in one is available in the others
+ * right away. Running a line again moves it to the end instead of adding a
+ * duplicate; the oldest lines are dropped past MAX_HISTORY.
+ */
+
+const STORAGE_KEY_PREFIX = 'terminal_history_';
+
+const MAX_HISTORY = 500;
+
+// !!, !n and !-n; any other "!" is left as typed
+const HISTORY_REFERENCE = /!(!|-?\d+)/y;
+
+export class ShellHistory {
+  private lines: string[] = [];
+  private owner: string | null = null;
+  private loadPromise: Promise<void> | null = null;
+
+  /**
+   * Resolve once the signed-in user's history is loaded
+   */
+  ready(): Promise<void> {
+    const owner = this.currentUsername();
+    if (!this.loadPromise || this.owner !== owner) {
+      this.owner = owner;
+      this.loadPromise = this.load(owner).catch(error => {
+        this.loadPromise = null;
+        throw error;
+      });
+    }
+    return this.loadPromise;
+  }
+
+  /**
+   * Lines oldest first; line n for `!n` is at index n - 1
+   */
+  entries(): string[] {
+    return [...this.lines];
+  }
+
+  async add(line: string): Promise<void> {
+    await this.ready();
+    if (!line.trim()) return;
+
+    this.lines = [...this.lines.filter(existing => existing !== line), line].slice(-MAX_HISTORY);
+    await this.save();
+  }
+
+  async clear(): Promise<void> {
+    await this.ready();
+    this.lines = [];
+    await this.save();
+  }
+
+  /**
+   * Index of the latest line before `before` that contains `query`, or -1
+   */
+  search(query: string, before: number = this.lines.length): number {
+    for (let i = Math.min(before, this.lines.length) - 1; i >= 0; i--) {
+      if (this.lines[i].includes(query)) return i;
+    }
+    return -1;
+  }
+
+  /**
+   * Replace !!, !n and !-n with the lines they refer to. Single-quoted and
+   * backslash-escaped text is left alone; double quotes don't stop
+   * expansion, and a ' inside them is just a character. Throws for a
+   * missing line.
+   */
+  expand(line: string): string {
+    let result = '';
+    let quote: "'" | '"' | null = null;
+    let start = 0;
+
+    for (let i = 0; i < line.length; i++) {
+      const char = line[i];
+      if (quote === "'") {
+        if (char === "'") quote = null;
+      } else if (char === '\\') {
+        i++;
+      } else if (char === '"') {
+        quote = quote ? null : '"';
+      } else if (char === "'" && !quote) {
+        quote = "'";
+      } else if (char === '!') {
+        HISTORY_REFERENCE.lastIndex = i;
+        const match = HISTORY_REFERENCE.exec(line);
+        if (!match) continue;
+
+        result += line.slice(start, i) + this.resolve(match[0], match[1]);
+        i += match[0].length - 1;
+        start = i + 1;
+      }
+    }
+    return result + line.slice(start);
+  }
+
+  // ==== Internals ====
+
+  private resolve(reference: string, target: string): string {
+    const number = target === '!' ? -1 : Number(target);
+    const index = number < 0 ? this.lines.length + number : number - 1;
+    const line = number === 0 ? undefined : this.lines[index];
+    if (line === undefined) {
+      throw new Error(`${reference}: event not found`);
+    }
+    return line;
+  }
+
+  private async load(owner: string): Promise<void> {
+    const stored = await storageEngine.get(`${STORAGE_KEY_PREFIX}${owner}`) as string[] | null;
+    if (owner === this.owner) this.lines = stored ?? [];
+  }
+
+  private async save(): Promise<void> {
+    try {
+      await storageEngine.set(`${STORAGE_KEY_PREFIX}${this.owner}`, this.lines);
+    } catch (error) {
+      console.error('[ShellHistory] Failed to save history:', error);
+    }
+    eventBus.emitSync('terminal:history-changed', { length: this.lines.length, timestamp: Date.now() });
+  }
+
+  private currentUsername(): string {
+    return authEngine.currentUser?.username ?? 'guest';
+  }
+}
+
+export const shellHistory = new ShellHistory();
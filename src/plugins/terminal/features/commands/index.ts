@@ -1 +1,7 @@
-export * from './command-processor';
\ No newline at end of file
+export * from './command-processor';
+export * from './registry';
+export * from './session';
+export * from './history';
+export * from './parser';
+export * from './completion';
+export { CLEAR_SCREEN } from './builtins';
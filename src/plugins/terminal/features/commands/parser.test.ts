@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { parse, ShellSyntaxError } from './parser';
+import type { Word } from './parser';
+
+// Words of a one-command line, as plain text
+const words = (line: string) => parse(line)[0].pipeline.commands[0].words.map(text);
+const text = (word: Word) => word.map(part => part.text).join('');
+
+describe('parse', () => {
+  it('splits a command into words', () => {
+    expect(words('echo  hello   world')).toEqual(['echo', 'hello', 'world']);
+  });
+
+  it('returns nothing for a blank line', () => {
+    expect(parse('   ')).toEqual([]);
+  });
+
+  it('records how each part of a word was quoted, merging neighbours of a kind', () => {
+    const [, word] = parse(`echo a"b $c"'d'\\e`)[0].pipeline.commands[0].words;
+    expect(word).toEqual([
+      { kind: 'bare', text: 'a' },
+      { kind: 'double', text: 'b $c' },
+      { kind: 'literal', text: 'de' }
+    ]);
+  });
+
+  it('keeps quoted spaces and operators inside the word', () => {
+    expect(words(`echo "a | b" 'c;d' e\\ f`)).toEqual(['echo', 'a | b', 'c;d', 'e f']);
+  });
+
+  it('keeps only the meaningful escapes inside double quotes', () => {
+    expect(words(`echo "\\$HOME \\"x\\" \\n"`)).toEqual(['echo', '$HOME "x" \\n']);
+  });
+
+  it('builds pipelines joined by connectors', () => {
+    const items = parse('ls | sort; false && echo no || echo yes');
+    expect(items.map(item => item.connector)).toEqual([';', ';', '&&', '||']);
+    expect(items[0].pipeline.commands.map(command => command.words.map(text))).toEqual([['ls'], ['sort']]);
+    expect(items[3].pipeline.commands[0].words.map(text)).toEqual(['echo', 'yes']);
+  });
+
+  it('takes leading NAME=value words as assignments', () => {
+    const [command] = parse('A=1 B="x y" env C=3')[0].pipeline.commands;
+    expect(command.assignments.map(assignment => [assignment.name, text(assignment.value)])).toEqual([
+      ['A', '1'],
+      ['B', 'x y']
+    ]);
+    expect(command.words.map(text)).toEqual(['env', 'C=3']);
+  });
+
+  it('separates redirections from the words', () => {
+    const [command] = parse('sort < in.txt > out.txt extra >> log')[0].pipeline.commands;
+    expect(command.words.map(text)).toEqual(['sort', 'extra']);
+    expect(command.redirects.map(redirect => [redirect.operator, text(redirect.target)])).toEqual([
+      ['<', 'in.txt'],
+      ['>', 'out.txt'],
+      ['>>', 'log']
+    ]);
+  });
+
+  it.each([
+    [`echo 'open`],
+    [`echo "open`],
+    ['| ls'],
+    ['ls |'],
+    ['ls && && pwd'],
+    ['echo >']
+  ])('rejects %s', line => {
+    expect(() => parse(line)).toThrow(ShellSyntaxError);
+  });
+});
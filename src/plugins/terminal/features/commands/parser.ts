@@ -0,0 +1,257 @@
+/**
+ * Shell grammar - turns a command line into lists of pipelines
+ *
+ *   list      := pipeline ((';' | '&&' | '||') pipeline)*
+ *   pipeline  := command ('|' command)*
+ *   command   := (NAME=value)* word* with '<', '>' and '>>' redirections
+ *
+ * Words keep track of how each piece was quoted, because that decides
+ * what is expanded when the command runs: variables everywhere but in
+ * single quotes, globs only outside quotes.
+ */
+
+/**
+ * `bare` is unquoted, `double` inside double quotes, `literal` inside single
+ * quotes or escaped with a backslash
+ */
+export type WordPartKind = 'bare' | 'double' | 'literal';
+
+export interface WordPart {
+  kind: WordPartKind;
+  text: string;
+}
+
+export type Word = WordPart[];
+
+export interface Assignment {
+  name: string;
+  value: Word;
+}
+
+export type RedirectOperator = '<' | '>' | '>>';
+
+export interface Redirect {
+  operator: RedirectOperator;
+  target: Word;
+}
+
+export interface SimpleCommand {
+  /**
+   * NAME=value words before the command name
+   */
+  assignments: Assignment[];
+  words: Word[];
+  redirects: Redirect[];
+}
+
+export interface Pipeline {
+  /**
+   * Each command's output is the next one's input
+   */
+  commands: SimpleCommand[];
+}
+
+/**
+ * How a pipeline depends on the one before it: `;` always runs, `&&` only
+ * after success, `||` only after failure
+ */
+export type Connector = ';' | '&&' | '||';
+
+export interface ListItem {
+  connector: Connector;
+  pipeline: Pipeline;
+}
+
+export class ShellSyntaxError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ShellSyntaxError';
+  }
+}
+
+type Operator = Connector | RedirectOperator | '|';
+
+type Token =
+  | { type: 'word'; parts: Word }
+  | { type: 'operator'; operator: Operator };
+
+// Escapes that mean something inside double quotes; other backslashes stay
+const DOUBLE_QUOTE_ESCAPES = '$`"\\\n';
+
+const ASSIGNMENT = /^([A-Za-z_][A-Za-z0-9_]*)=/;
+
+/**
+ * Parse a command line; throws ShellSyntaxError for unbalanced quotes or
+ * misplaced operators
+ */
+export function parse(input: string): ListItem[] {
+  const items: ListItem[] = [];
+  let connector: Connector = ';';
+  let commands: SimpleCommand[] = [];
+  let command: SimpleCommand | null = null;
+  let expectsCommand = false;
+
+  const tokens = tokenize(input);
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+
+    if (token.type === 'word') {
+      command ??= { assignments: [], words: [], redirects: [] };
+      const assignment = command.words.length === 0 ? toAssignment(token.parts) : null;
+      if (assignment) {
+        command.assignments.push(assignment);
+      } else {
+        command.words.push(token.parts);
+      }
+      continue;
+    }
+
+    const { operator } = token;
+    if (operator === '<' || operator === '>' || operator === '>>') {
+      const target = tokens[++i];
+      if (target?.type !== 'word') {
+        throw new ShellSyntaxError(`expected a file name after '${operator}'`);
+      }
+      command ??= { assignments: [], words: [], redirects: [] };
+      command.redirects.push({ operator, target: target.parts });
+      continue;
+    }
+
+    if (!command) {
+      // Empty statements, as in "ls;", are fine; dangling operators aren't
+      if (operator === ';' && commands.length === 0 && !expectsCommand) continue;
+      throw new ShellSyntaxError(`unexpected '${operator}'`);
+    }
+
+    commands.push(command);
+    command = null;
+    if (operator === '|') {
+      continue;
+    }
+
+    items.push({ connector, pipeline: { commands } });
+    connector = operator;
+    commands = [];
+    expectsCommand = operator !== ';';
+  }
+
+  if (command) {
+    commands.push(command);
+    items.push({ connector, pipeline: { commands } });
+  } else if (commands.length > 0 || expectsCommand) {
+    throw new ShellSyntaxError('unexpected end of input');
+  }
+
+  return items;
+}
+
+/**
+ * Plain text of a word, ignoring quoting, e.g. for display
+ */
+export function wordText(word: Word): string {
+  return word.map(part => part.text).join('');
+}
+
+// ==== Internals ====
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let parts: Word | null = null;
+
+  const append = (kind: WordPartKind, text: string) => {
+    parts ??= [];
+    const last = parts[parts.length - 1];
+    if (last?.kind === kind) {
+      last.text += text;
+    } else {
+      parts.push({ kind, text });
+    }
+  };
+
+  const endWord = () => {
+    if (parts) tokens.push({ type: 'word', parts });
+    parts = null;
+  };
+
+  const pushOperator = (operator: Operator) => {
+    endWord();
+    tokens.push({ type: 'operator', operator });
+  };
+
+  let i = 0;
+  while (i < input.length) {
+    const char = input[i];
+    const next = input[i + 1];
+
+    if (char === ' ' || char === '\t') {
+      endWord();
+      i++;
+    } else if (char === '\n') {
+      pushOperator(';');
+      i++;
+    } else if (char === '#' && !parts) {
+      // Comment to the end of the line
+      const end = input.indexOf('\n', i);
+      i = end === -1 ? input.length : end;
+    } else if (char === '\\') {
+      if (next !== undefined && next !== '\n') append('literal', next);
+      i += 2;
+    } else if (char === "'") {
+      const end = input.indexOf("'", i + 1);
+      if (end === -1) throw new ShellSyntaxError('unterminated single quote');
+      append('literal', input.slice(i + 1, end));
+      i = end + 1;
+    } else if (char === '"') {
+      append('double', '');
+      i++;
+      while (input[i] !== '"') {
+        if (i >= input.length) throw new ShellSyntaxError('unterminated double quote');
+        if (input[i] === '\\' && DOUBLE_QUOTE_ESCAPES.includes(input[i + 1])) {
+          if (input[i + 1] !== '\n') append('literal', input[i + 1]);
+          i += 2;
+        } else {
+          append('double', input[i]);
+          i++;
+        }
+      }
+      i++;
+    } else if (char === '|') {
+      pushOperator(next === '|' ? '||' : '|');
+      i += next === '|' ? 2 : 1;
+    } else if (char === '&') {
+      if (next !== '&') throw new ShellSyntaxError("background jobs ('&') are not supported");
+      pushOperator('&&');
+      i += 2;
+    } else if (char === ';') {
+      pushOperator(';');
+      i++;
+    } else if (char === '>') {
+      pushOperator(next === '>' ? '>>' : '>');
+      i += next === '>' ? 2 : 1;
+    } else if (char === '<') {
+      pushOperator('<');
+      i++;
+    } else {
+      append('bare', char);
+      i++;
+    }
+  }
+  endWord();
+
+  return tokens;
+}
+
+/**
+ * NAME=value, when the name and "=" are unquoted
+ */
+function toAssignment(parts: Word): Assignment | null {
+  const [first, ...rest] = parts;
+  const match = first?.kind === 'bare' ? ASSIGNMENT.exec(first.text) : null;
+  if (!match) return null;
+
+  const remainder = first.text.slice(match[0].length);
+  return {
+    name: match[1],
+    value: remainder ? [{ kind: 'bare', text: remainder }, ...rest] : rest
+  };
+}
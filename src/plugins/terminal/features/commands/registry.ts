@@ -0,0 +1,119 @@
+import { pluginCommands } from '@core/plugin-loader';
+import type { PluginCommand, PluginCommandArgument } from '@core/plugin-loader';
+import type { CompletionProvider } from './completion';
+import type { ShellSession } from './session';
+
+export interface OutputStream {
+  write: (text: string) => void;
+}
+
+export interface CommandIO {
+  /**
+   * Piped or redirected input; null when there is none
+   */
+  stdin: string | null;
+  /**
+   * Variables, including NAME=value assignments made for this command
+   */
+  env: Record<string, string>;
+  stdout: OutputStream;
+  stderr: OutputStream;
+  /**
+   * Whether stdout is the terminal screen rather than a pipe or a file
+   */
+  interactive: boolean;
+  /**
+   * The window's shell: working directory, variables and history
+   */
+  session: ShellSession;
+}
+
+export interface Command {
+  name: string;
+  /**
+   * One line for `help`
+   */
+  description: string;
+  usage?: string;
+  /**
+   * Offered by tab completion
+   */
+  flags?: string[];
+  /**
+   * Positional arguments; their values are offered by tab completion
+   */
+  args?: PluginCommandArgument[];
+  /**
+   * Set for commands contributed by a plugin
+   */
+  pluginId?: string;
+  /**
+   * Resolves with the exit status
+   */
+  execute: (args: string[], io: CommandIO) => Promise<number>;
+}
+
+/**
+ * Commands by name, shared by every terminal session. Commands of started
+ * plugins are included; built-in ones win on a name clash.
+ */
+export class CommandRegistry {
+  private commands = new Map<string, Command>();
+  private completers = new Map<string, CompletionProvider>();
+
+  register(command: Command): void {
+    this.commands.set(command.name, command);
+  }
+
+  unregister(name: string): void {
+    this.commands.delete(name);
+  }
+
+  get(name: string): Command | undefined {
+    const contributed = pluginCommands.get(name);
+    return this.commands.get(name) ?? (contributed && fromPlugin(contributed));
+  }
+
+  /**
+   * Complete a command's arguments with `provider` instead of its declared
+   * flags and values; works for plugin commands too
+   */
+  registerCompleter(name: string, provider: CompletionProvider): void {
+    this.completers.set(name, provider);
+  }
+
+  unregisterCompleter(name: string): void {
+    this.completers.delete(name);
+  }
+
+  getCompleter(name: string): CompletionProvider | undefined {
+    return this.completers.get(name);
+  }
+
+  /**
+   * Every command, sorted by name
+   */
+  list(): Command[] {
+    const commands = new Map(pluginCommands.list().map(command => [command.declaration.name, fromPlugin(command)]));
+    this.commands.forEach((command, name) => commands.set(name, command));
+    return Array.from(commands.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }
+}
+
+/**
+ * Plugin commands go through pluginCommands.execute for their permission
+ * and argument checks
+ */
+function fromPlugin({ pluginId, declaration }: PluginCommand): Command {
+  return {
+    name: declaration.name,
+    description: declaration.description,
+    usage: declaration.usage,
+    flags: declaration.flags,
+    args: declaration.args,
+    pluginId,
+    execute: (args, io) => pluginCommands.execute(declaration.name, args, io)
+  };
+}
+
+export const commandRegistry = new CommandRegistry();
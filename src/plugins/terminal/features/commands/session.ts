@@ -0,0 +1,48 @@
+import { currentIdentity, normalizePath, HOME_PATH } from '@core/file-system';
+import { shellHistory } from './history';
+import type { ShellHistory } from './history';
+
+/**
+ * State of one terminal window's shell
+ */
+export class ShellSession {
+  cwd: string;
+  /**
+   * Variables set with NAME=value or export
+   */
+  env: Record<string, string> = {};
+  // $? - status of the last pipeline
+  lastStatus = 0;
+  /**
+   * Command lines run; shared with the user's other terminal windows
+   */
+  readonly history: ShellHistory;
+
+  constructor(cwd: string = HOME_PATH, history: ShellHistory = shellHistory) {
+    this.cwd = cwd;
+    this.history = history;
+  }
+
+  /**
+   * Variables as commands see them; HOME, USER and PWD unless overridden
+   */
+  variables(): Record<string, string> {
+    return { HOME: HOME_PATH, USER: currentIdentity().user, PWD: this.cwd, ...this.env };
+  }
+
+  /**
+   * Absolute form of a path typed in this session
+   */
+  resolve(path: string): string {
+    return normalizePath(path, this.cwd);
+  }
+
+  /**
+   * The working directory with the home folder shown as ~, for prompts
+   */
+  displayCwd(): string {
+    const home = this.variables().HOME;
+    if (this.cwd === home) return '~';
+    return this.cwd.startsWith(`${home}/`) ? `~${this.cwd.slice(home.length)}` : this.cwd;
+  }
+}
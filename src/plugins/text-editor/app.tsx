@@ -0,0 +1,236 @@
+import { Component, createEffect, createSignal, on, onCleanup, onMount, Show } from 'solid-js';
+import { windowManager } from '@core/window-manager';
+import { dirname, isSubPath, HOME_PATH } from '@core/file-system';
+import type { FileSystemChange } from '@core/file-system';
+import { createDocumentModel, DocumentAPI } from './features/document';
+import type { DocumentError } from './features/document';
+import type { TextMatch } from './features/find-replace';
+import { Editor } from './widgets/editor';
+import { FindBar } from './widgets/find-bar';
+import { FileDialog } from './widgets/file-dialog';
+import { Toolbar } from './widgets/toolbar';
+
+interface TextEditorProps {
+  windowId?: string;
+  /**
+   * File to show; changes when another file is opened into this window
+   */
+  filePath?: string;
+  /**
+   * When `filePath` was requested, so opening the same file again reloads it
+   */
+  openedAt?: number;
+}
+
+const TextEditor: Component<TextEditorProps> = (props) => {
+  const doc = createDocumentModel();
+  const documentAPI = DocumentAPI.getInstance();
+
+  const [error, setError] = createSignal<DocumentError | null>(null);
+  const [isFindOpen, setIsFindOpen] = createSignal(false);
+  const [dialog, setDialog] = createSignal<'open' | 'save-as' | null>(null);
+  let textareaRef: HTMLTextAreaElement | undefined;
+
+  // Dirty-state indicator in the window title
+  createEffect(() => {
+    if (!props.windowId) return;
+    windowManager.setWindowTitle(props.windowId, `${doc.isDirty() ? '• ' : ''}${doc.name()} — Text Editor`);
+  });
+
+  const confirmDiscard = () => {
+    return !doc.isDirty() || confirm(`Do you want to discard the changes you made to "${doc.name()}"?`);
+  };
+
+  onMount(() => {
+    if (props.windowId) {
+      windowManager.setCloseGuard(props.windowId, confirmDiscard);
+    }
+  });
+
+  // Files opened from elsewhere (file manager, Open With) arrive as props
+  createEffect(on(() => [props.filePath, props.openedAt] as const, ([path]) => {
+    if (path && confirmDiscard()) {
+      openFile(path);
+    }
+  }));
+
+  // Keep up with changes made to the open file from other windows
+  createEffect(() => {
+    const path = doc.path();
+    if (!path) return;
+    const unwatch = documentAPI.watch(path, (change) => handleExternalChange(path, change));
+    onCleanup(unwatch);
+  });
+
+  onCleanup(() => {
+    if (props.windowId) {
+      windowManager.setCloseGuard(props.windowId, null);
+    }
+  });
+
+  const currentDirectory = () => {
+    const path = doc.path();
+    return path ? dirname(path) : `${HOME_PATH}/Documents`;
+  };
+
+  /**
+   * Reload unedited documents, follow moves and warn about anything that
+   * would otherwise be lost
+   */
+  const handleExternalChange = async (path: string, change: FileSystemChange) => {
+    if (change.type === 'moved' && change.oldPath && isSubPath(change.oldPath, path)) {
+      doc.moveTo(change.path + path.substring(change.oldPath.length));
+    } else if (change.type === 'deleted' && isSubPath(change.path, path)) {
+      setError({ code: 'ENOENT', message: `"${doc.name()}" was deleted. Save to keep it.`, path });
+    } else if (change.type === 'modified' && change.path === path) {
+      if (doc.isDirty()) {
+        setError({ code: 'CHANGED', message: `"${doc.name()}" was changed by another application`, path });
+        return;
+      }
+      try {
+        const document = await documentAPI.open(path);
+        // Our own saves come back as changes too
+        if (document.content !== doc.content() && !doc.isDirty()) doc.load(document);
+      } catch (err) {
+        console.error('Failed to reload file:', err);
+      }
+    }
+  };
+
+  const openFile = async (path: string) => {
+    try {
+      doc.load(await documentAPI.open(path));
+      setError(null);
+    } catch (err) {
+      console.error('Failed to open file:', err);
+      setError(err as DocumentError);
+    }
+  };
+
+  const saveTo = async (path: string) => {
+    const content = doc.content();
+    try {
+      await documentAPI.save(path, content);
+      doc.markSaved(path, content);
+      setError(null);
+    } catch (err) {
+      console.error('Failed to save file:', err);
+      setError(err as DocumentError);
+    }
+  };
+
+  const handleNew = () => {
+    if (confirmDiscard()) doc.reset();
+  };
+
+  const handleOpen = () => {
+    if (confirmDiscard()) setDialog('open');
+  };
+
+  const handleSave = () => {
+    const path = doc.path();
+    if (doc.readOnly()) return;
+    if (path) {
+      saveTo(path);
+    } else {
+      setDialog('save-as');
+    }
+  };
+
+  const handleSelectMatch = (match: TextMatch) => {
+    if (!textareaRef) return;
+    textareaRef.focus();
+    textareaRef.setSelectionRange(match.start, match.end);
+  };
+
+  const handleKeyDown = (e: KeyboardEvent) => {
+    const mod = e.ctrlKey || e.metaKey;
+    if (!mod) return;
+
+    const key = e.key.toLowerCase();
+    if (key === 's') {
+      e.preventDefault();
+      if (e.shiftKey) {
+        if (!doc.readOnly()) setDialog('save-as');
+      } else {
+        handleSave();
+      }
+    } else if (key === 'o') {
+      e.preventDefault();
+      handleOpen();
+    } else if (key === 'n') {
+      e.preventDefault();
+      handleNew();
+    } else if (key === 'f') {
+      e.preventDefault();
+      setIsFindOpen(true);
+    }
+  };
+
+  return (
+    <div class="text-editor h-full flex flex-col bg-background relative" onKeyDown={handleKeyDown}>
+      <Toolbar
+        fileName={doc.name()}
+        isDirty={doc.isDirty()}
+        readOnly={doc.readOnly()}
+        onNew={handleNew}
+        onOpen={handleOpen}
+        onSave={handleSave}
+        onSaveAs={() => setDialog('save-as')}
+        onFind={() => setIsFindOpen(!isFindOpen())}
+      />
+
+      <Show when={isFindOpen()}>
+        <FindBar
+          text={doc.content()}
+          onTextChange={doc.setContent}
+          onSelectMatch={handleSelectMatch}
+          onClose={() => {
+            setIsFindOpen(false);
+            textareaRef?.focus();
+          }}
+        />
+      </Show>
+
+      <Show when={doc.readOnly() && !error()}>
+        <div class="px-3 py-1.5 text-xs bg-warning/10 text-warning border-b border-border truncate">
+          "{doc.name()}" isn't a text file. It is shown read-only, as it can't be saved without damaging it.
+        </div>
+      </Show>
+
+      <Show when={error()}>
+        <div class="flex items-center justify-between gap-2 px-3 py-1.5 text-xs bg-error/10 text-error border-b border-border">
+          <span class="truncate">
+            {error()!.code}: {error()!.message}
+          </span>
+          <button class="px-1.5 rounded hover:bg-error/20" onClick={() => setError(null)}>Dismiss</button>
+        </div>
+      </Show>
+
+      <div class="flex-1 min-h-0">
+        <Editor value={doc.content()} onInput={doc.setContent} readOnly={doc.readOnly()} ref={(el) => (textareaRef = el)} />
+      </div>
+
+      <Show when={dialog()}>
+        {(mode) => (
+          <FileDialog
+            mode={mode()}
+            initialDirectory={currentDirectory()}
+            initialName={mode() === 'save-as' ? (doc.path() ? doc.name() : 'Untitled.txt') : undefined}
+            onCancel={() => setDialog(null)}
+            onConfirm={(path) => {
+              setDialog(null);
+              if (mode() === 'open') {
+                openFile(path);
+              } else {
+                saveTo(path);
+              }
+            }}
+          />
+        )}
+      </Show>
+    </div>
+  );
+};
+
+export default TextEditor;
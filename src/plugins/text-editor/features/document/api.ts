@@ -0,0 +1,106 @@
+import { eventBus } from '@core/event-bus';
+import {
+  fileSystem,
+  isFileSystemError,
+  isHiddenName,
+  isTextMimeType,
+  DEFAULT_MIME_TYPE,
+  FileSystemError as FsError
+} from '@core/file-system';
+import type { DirectoryEntry, FileSystemChangeListener } from '@core/file-system';
+import type { DocumentError, OpenedDocument } from './model';
+
+export class DocumentAPI {
+  private static instance: DocumentAPI;
+
+  static getInstance(): DocumentAPI {
+    if (!DocumentAPI.instance) {
+      DocumentAPI.instance = new DocumentAPI();
+    }
+    return DocumentAPI.instance;
+  }
+
+  /**
+   * Read a file for editing. Files typed as something other than text, or
+   * whose contents aren't valid UTF-8, open read-only.
+   */
+  async open(path: string): Promise<OpenedDocument> {
+    try {
+      const inode = await fileSystem.stat(path);
+      if (inode.type === 'directory') {
+        throw new FsError('EISDIR', path);
+      }
+
+      const bytes = await fileSystem.readFileBytes(path);
+      const text = decodeText(bytes);
+      // Files without a known type are judged by their contents
+      const typed = inode.mimeType !== undefined && inode.mimeType !== DEFAULT_MIME_TYPE;
+      if (text === null || (typed && !isTextMimeType(inode.mimeType))) {
+        return { path, content: text ?? new TextDecoder().decode(bytes), readOnly: true };
+      }
+      return { path, content: text };
+    } catch (error) {
+      throw this.handleError(error, path);
+    }
+  }
+
+  async save(path: string, content: string): Promise<OpenedDocument> {
+    try {
+      await fileSystem.writeFile(path, content);
+      eventBus.emitSync('document:saved', { path, timestamp: Date.now() });
+      return { path, content };
+    } catch (error) {
+      throw this.handleError(error, path);
+    }
+  }
+
+  /**
+   * Changes to the file made from anywhere; returns the unsubscribe function
+   */
+  watch(path: string, listener: FileSystemChangeListener): () => void {
+    return fileSystem.watch(path, {}, listener);
+  }
+
+  async exists(path: string): Promise<boolean> {
+    return fileSystem.exists(path);
+  }
+
+  /**
+   * Visible entries of a folder for the open/save dialogs, folders first
+   */
+  async listDirectory(path: string): Promise<DirectoryEntry[]> {
+    try {
+      const entries = await fileSystem.readdir(path);
+      return entries
+        .filter(entry => !isHiddenName(entry.inode.name))
+        .sort((a, b) => {
+          if (a.inode.type !== b.inode.type) return a.inode.type === 'directory' ? -1 : 1;
+          return a.inode.name.localeCompare(b.inode.name, undefined, { sensitivity: 'base' });
+        });
+    } catch (error) {
+      throw this.handleError(error, path);
+    }
+  }
+
+  private handleError(error: unknown, path: string): DocumentError {
+    return {
+      code: isFileSystemError(error) ? error.code : 'DOCUMENT_ERROR',
+      message: error instanceof Error ? error.message : 'Document operation failed',
+      path: isFileSystemError(error) ? error.path : path
+    };
+  }
+}
+
+// ==== Internals ====
+
+/**
+ * The text in `bytes`, or null if they aren't UTF-8 or contain NUL bytes
+ */
+function decodeText(bytes: Uint8Array): string | null {
+  try {
+    const text = new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+    return text.includes('\0') ? null : text;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,73 @@
+import { createSignal } from 'solid-js';
+import { basename } from '@core/file-system';
+
+export interface OpenedDocument {
+  path: string;
+  content: string;
+  /**
+   * Set for files that aren't text; they are shown but can't be edited or
+   * saved, since saving would write back the decoded text
+   */
+  readOnly?: boolean;
+}
+
+export interface DocumentError {
+  code: string;
+  message: string;
+  path?: string;
+}
+
+/**
+ * Editor state for a single document. Each editor window creates its own.
+ */
+export function createDocumentModel() {
+  const [path, setPath] = createSignal<string | null>(null);
+  const [content, setContent] = createSignal('');
+  const [savedContent, setSavedContent] = createSignal('');
+  const [readOnly, setReadOnly] = createSignal(false);
+
+  return {
+    path,
+    content,
+    readOnly,
+
+    setContent: (value: string) => {
+      if (!readOnly()) setContent(value);
+    },
+
+    name: () => {
+      const current = path();
+      return current ? basename(current) : 'Untitled';
+    },
+
+    isDirty: () => content() !== savedContent(),
+
+    load: (document: OpenedDocument) => {
+      setPath(document.path);
+      setContent(document.content);
+      setSavedContent(document.content);
+      setReadOnly(document.readOnly ?? false);
+    },
+
+    /**
+     * Follow the file to its new location after a move or rename
+     */
+    moveTo: (newPath: string) => {
+      setPath(newPath);
+    },
+
+    markSaved: (savedPath: string, saved: string) => {
+      setPath(savedPath);
+      setSavedContent(saved);
+    },
+
+    reset: () => {
+      setPath(null);
+      setContent('');
+      setSavedContent('');
+      setReadOnly(false);
+    }
+  };
+}
+
+export type DocumentModel = ReturnType<typeof createDocumentModel>;
@@ -0,0 +1,51 @@
+export interface SearchOptions {
+  caseSensitive?: boolean;
+}
+
+export interface TextMatch {
+  start: number;
+  end: number;
+}
+
+/**
+ * All non-overlapping occurrences of `query` in `text`
+ */
+export function findMatches(text: string, query: string, options: SearchOptions = {}): TextMatch[] {
+  if (!query) return [];
+
+  const haystack = options.caseSensitive ? text : text.toLowerCase();
+  const needle = options.caseSensitive ? query : query.toLowerCase();
+  const matches: TextMatch[] = [];
+
+  let index = haystack.indexOf(needle);
+  while (index !== -1) {
+    matches.push({ start: index, end: index + needle.length });
+    index = haystack.indexOf(needle, index + needle.length);
+  }
+
+  return matches;
+}
+
+export function replaceMatch(text: string, match: TextMatch, replacement: string): string {
+  return text.substring(0, match.start) + replacement + text.substring(match.end);
+}
+
+/**
+ * Replace every occurrence, returning the new text and how many were replaced
+ */
+export function replaceAll(
+  text: string,
+  query: string,
+  replacement: string,
+  options: SearchOptions = {}
+): { text: string; count: number } {
+  const matches = findMatches(text, query, options);
+  let result = text;
+
+  // Walk backwards so earlier offsets stay valid
+  for (let i = matches.length - 1; i >= 0; i--) {
+    result = replaceMatch(result, matches[i], replacement);
+  }
+
+  return { text: result, count: matches.length };
+}
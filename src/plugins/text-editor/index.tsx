@@ -0,0 +1,2 @@
+export { default } from './app';
+export * from './app';
\ No newline at end of file
@@ -0,0 +1,18 @@
+import { eventBus } from '@core/event-bus';
+
+const scope = '@dineapp/text-editor';
+
+export async function init() {
+  // Register scoped event listeners
+  eventBus.on('document:saved', handleDocumentSaved, { scope });
+
+  // Emit plugin loaded event
+  eventBus.emit('plugin:loaded', {
+    pluginId: '@dineapp/text-editor',
+    timestamp: Date.now()
+  });
+}
+
+function handleDocumentSaved(payload: { path: string }) {
+  console.log('Document saved:', payload.path);
+}
@@ -0,0 +1,62 @@
+import { Component, For, createMemo } from 'solid-js';
+
+interface EditorProps {
+  value: string;
+  onInput: (value: string) => void;
+  readOnly?: boolean;
+  ref?: (el: HTMLTextAreaElement) => void;
+}
+
+const INDENT = '  ';
+
+const Editor: Component<EditorProps> = (props) => {
+  let gutterRef: HTMLDivElement | undefined;
+
+  const lineNumbers = createMemo(() => {
+    const count = props.value.split('\n').length;
+    return Array.from({ length: count }, (_, i) => i + 1);
+  });
+
+  // Keep the gutter aligned with the text while scrolling
+  const handleScroll = (e: Event) => {
+    if (gutterRef) gutterRef.scrollTop = (e.currentTarget as HTMLTextAreaElement).scrollTop;
+  };
+
+  const handleKeyDown = (e: KeyboardEvent) => {
+    if (e.key !== 'Tab' || e.ctrlKey || e.metaKey || e.altKey || props.readOnly) return;
+
+    // Insert spaces instead of moving focus
+    e.preventDefault();
+    const textarea = e.currentTarget as HTMLTextAreaElement;
+    const { selectionStart, selectionEnd, value } = textarea;
+    const next = value.substring(0, selectionStart) + INDENT + value.substring(selectionEnd);
+    props.onInput(next);
+    textarea.value = next;
+    textarea.setSelectionRange(selectionStart + INDENT.length, selectionStart + INDENT.length);
+  };
+
+  return (
+    <div class="flex h-full min-h-0 font-mono text-xs leading-5">
+      <div
+        ref={gutterRef}
+        class="shrink-0 overflow-hidden select-none py-2 px-2 text-right text-muted-foreground bg-surface border-r border-border"
+        aria-hidden="true"
+      >
+        <For each={lineNumbers()}>{(line) => <div>{line}</div>}</For>
+      </div>
+      <textarea
+        ref={props.ref}
+        class="flex-1 min-w-0 resize-none p-2 bg-background text-foreground outline-none whitespace-pre overflow-auto scrollbar-thin"
+        wrap="off"
+        spellcheck={false}
+        readOnly={props.readOnly}
+        value={props.value}
+        onInput={(e) => props.onInput(e.currentTarget.value)}
+        onScroll={handleScroll}
+        onKeyDown={handleKeyDown}
+      />
+    </div>
+  );
+};
+
+export { Editor };
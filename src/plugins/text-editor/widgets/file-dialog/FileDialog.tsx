@@ -0,0 +1,132 @@
+import { Component, For, Show, createResource, createSignal } from 'solid-js';
+import { dirname, joinPath, isValidFileName, ROOT_PATH } from '@core/file-system';
+import type { DirectoryEntry } from '@core/file-system';
+import { DocumentAPI } from '../../features/document';
+
+import IconArrowUp from '~icons/heroicons-outline/arrow-up';
+import IconFolder from '~icons/heroicons-outline/folder';
+import IconDocument from '~icons/heroicons-outline/document';
+
+interface FileDialogProps {
+  mode: 'open' | 'save-as';
+  initialDirectory: string;
+  initialName?: string;
+  onConfirm: (path: string) => void;
+  onCancel: () => void;
+}
+
+const FileDialog: Component<FileDialogProps> = (props) => {
+  const documentAPI = DocumentAPI.getInstance();
+  const [directory, setDirectory] = createSignal(props.initialDirectory);
+  const [name, setName] = createSignal(props.initialName ?? '');
+  const [selectedPath, setSelectedPath] = createSignal<string | null>(null);
+
+  const [entries] = createResource(directory, async (dir) => {
+    try {
+      return await documentAPI.listDirectory(dir);
+    } catch (error) {
+      console.error('Failed to list directory:', error);
+      return [];
+    }
+  });
+
+  const enterDirectory = (path: string) => {
+    setDirectory(path);
+    setSelectedPath(null);
+  };
+
+  const handleEntryClick = (entry: DirectoryEntry) => {
+    if (entry.inode.type === 'directory') {
+      enterDirectory(entry.path);
+      return;
+    }
+    setSelectedPath(entry.path);
+    if (props.mode === 'save-as') setName(entry.inode.name);
+  };
+
+  const targetPath = () => {
+    if (props.mode === 'open') return selectedPath();
+    const trimmed = name().trim();
+    return isValidFileName(trimmed) ? joinPath(directory(), trimmed) : null;
+  };
+
+  const handleConfirm = async () => {
+    const path = targetPath();
+    if (!path) return;
+
+    if (props.mode === 'save-as' && await documentAPI.exists(path)) {
+      if (!confirm(`"${name().trim()}" already exists. Do you want to replace it?`)) return;
+    }
+    props.onConfirm(path);
+  };
+
+  return (
+    <div class="absolute inset-0 z-40 flex items-center justify-center bg-overlay/30">
+      <div class="w-[420px] max-w-[90%] rounded-lg border border-border bg-surface p-4 shadow-2xl text-foreground">
+        <h3 class="text-sm font-semibold mb-3">{props.mode === 'open' ? 'Open File' : 'Save As'}</h3>
+
+        <div class="flex items-center gap-2 mb-2">
+          <button
+            class="p-1 rounded hover:bg-muted disabled:opacity-50 disabled:cursor-not-allowed"
+            disabled={directory() === ROOT_PATH}
+            onClick={() => enterDirectory(dirname(directory()))}
+            title="Enclosing Folder"
+          >
+            <IconArrowUp class="w-4 h-4" />
+          </button>
+          <span class="text-xs text-muted-foreground truncate">{directory()}</span>
+        </div>
+
+        <ul class="h-56 overflow-auto scrollbar-thin rounded border border-border bg-background mb-3">
+          <For each={entries() ?? []}>
+            {(entry) => (
+              <li
+                class={`flex items-center gap-2 px-2 py-1 text-xs cursor-default ${
+                  selectedPath() === entry.path ? 'bg-primary text-primary-foreground' : 'hover:bg-muted'
+                }`}
+                onClick={() => handleEntryClick(entry)}
+                onDblClick={() => entry.inode.type === 'file' && handleConfirm()}
+              >
+                <Show when={entry.inode.type === 'directory'} fallback={<IconDocument class="w-4 h-4 shrink-0" />}>
+                  <IconFolder class="w-4 h-4 shrink-0 text-brand-primary" />
+                </Show>
+                <span class="truncate">{entry.inode.name}</span>
+              </li>
+            )}
+          </For>
+          <Show when={!entries.loading && entries()?.length === 0}>
+            <li class="px-2 py-1 text-xs text-muted-foreground">This folder is empty</li>
+          </Show>
+        </ul>
+
+        <Show when={props.mode === 'save-as'}>
+          <label class="flex items-center gap-2 text-xs mb-3">
+            <span>Name:</span>
+            <input
+              type="text"
+              class="flex-1 px-2 py-1 text-xs bg-background border border-border rounded focus:outline-none focus:ring-2 focus:ring-primary"
+              value={name()}
+              onInput={(e) => setName(e.currentTarget.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleConfirm()}
+            />
+          </label>
+        </Show>
+
+        <div class="flex justify-end gap-2">
+          <button class="px-3 py-1.5 text-xs rounded-md border border-border hover:bg-muted" onClick={props.onCancel}>
+            Cancel
+          </button>
+          <button
+            class="px-3 py-1.5 text-xs rounded-md bg-primary text-primary-foreground disabled:opacity-50 disabled:cursor-not-allowed"
+            disabled={!targetPath()}
+            onClick={handleConfirm}
+          >
+            {props.mode === 'open' ? 'Open' : 'Save'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export { FileDialog };
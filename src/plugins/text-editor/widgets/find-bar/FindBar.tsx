@@ -0,0 +1,115 @@
+import { Component, createMemo, createSignal, Show } from 'solid-js';
+import { findMatches, replaceMatch, replaceAll } from '../../features/find-replace';
+import type { TextMatch } from '../../features/find-replace';
+
+import IconChevronUp from '~icons/heroicons-outline/chevron-up';
+import IconChevronDown from '~icons/heroicons-outline/chevron-down';
+import IconXMark from '~icons/heroicons-outline/x-mark';
+
+interface FindBarProps {
+  text: string;
+  onTextChange: (text: string) => void;
+  onSelectMatch: (match: TextMatch) => void;
+  onClose: () => void;
+}
+
+const FindBar: Component<FindBarProps> = (props) => {
+  const [query, setQuery] = createSignal('');
+  const [replacement, setReplacement] = createSignal('');
+  const [caseSensitive, setCaseSensitive] = createSignal(false);
+  const [currentIndex, setCurrentIndex] = createSignal(0);
+
+  const matches = createMemo(() => findMatches(props.text, query(), { caseSensitive: caseSensitive() }));
+
+  // Clamp the cursor when edits remove matches
+  const activeIndex = () => {
+    const count = matches().length;
+    return count === 0 ? -1 : Math.min(currentIndex(), count - 1);
+  };
+
+  const goTo = (index: number) => {
+    const count = matches().length;
+    if (count === 0) return;
+    const wrapped = (index + count) % count;
+    setCurrentIndex(wrapped);
+    props.onSelectMatch(matches()[wrapped]);
+  };
+
+  const handleReplace = () => {
+    const index = activeIndex();
+    if (index < 0) return;
+    props.onTextChange(replaceMatch(props.text, matches()[index], replacement()));
+    // The next match slides into the same index
+    queueMicrotask(() => goTo(index));
+  };
+
+  const handleReplaceAll = () => {
+    const result = replaceAll(props.text, query(), replacement(), { caseSensitive: caseSensitive() });
+    if (result.count > 0) props.onTextChange(result.text);
+    setCurrentIndex(0);
+  };
+
+  const handleFindKeyDown = (e: KeyboardEvent) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      goTo(e.shiftKey ? activeIndex() - 1 : activeIndex() + 1);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      props.onClose();
+    }
+  };
+
+  const inputClass = 'w-40 px-2 py-1 text-xs bg-background border border-border rounded focus:outline-none focus:ring-2 focus:ring-primary';
+  const buttonClass = 'px-2 py-1 text-xs rounded hover:bg-background/70 disabled:opacity-50 disabled:cursor-not-allowed transition-colors';
+
+  return (
+    <div class="flex flex-wrap items-center gap-2 px-2 py-1.5 bg-muted/80 border-b border-border text-foreground">
+      <input
+        ref={(el) => queueMicrotask(() => el.focus())}
+        type="text"
+        placeholder="Find"
+        class={inputClass}
+        value={query()}
+        onInput={(e) => {
+          setQuery(e.currentTarget.value);
+          setCurrentIndex(0);
+        }}
+        onKeyDown={handleFindKeyDown}
+      />
+      <span class="text-xs text-muted-foreground min-w-[60px]">
+        <Show when={query()} fallback="">
+          {matches().length === 0 ? 'No results' : `${activeIndex() + 1} of ${matches().length}`}
+        </Show>
+      </span>
+      <button class={buttonClass} disabled={matches().length === 0} onClick={() => goTo(activeIndex() - 1)} title="Previous Match">
+        <IconChevronUp class="w-4 h-4" />
+      </button>
+      <button class={buttonClass} disabled={matches().length === 0} onClick={() => goTo(activeIndex() + 1)} title="Next Match">
+        <IconChevronDown class="w-4 h-4" />
+      </button>
+      <label class="flex items-center gap-1 text-xs">
+        <input type="checkbox" checked={caseSensitive()} onChange={(e) => setCaseSensitive(e.currentTarget.checked)} />
+        <span>Match case</span>
+      </label>
+
+      <div class="h-5 w-px bg-border mx-1"></div>
+
+      <input
+        type="text"
+        placeholder="Replace"
+        class={inputClass}
+        value={replacement()}
+        onInput={(e) => setReplacement(e.currentTarget.value)}
+        onKeyDown={(e) => e.key === 'Escape' && props.onClose()}
+      />
+      <button class={buttonClass} disabled={matches().length === 0} onClick={handleReplace}>Replace</button>
+      <button class={buttonClass} disabled={matches().length === 0} onClick={handleReplaceAll}>Replace All</button>
+
+      <button class={`${buttonClass} ml-auto`} onClick={props.onClose} title="Close">
+        <IconXMark class="w-4 h-4" />
+      </button>
+    </div>
+  );
+};
+
+export { FindBar };
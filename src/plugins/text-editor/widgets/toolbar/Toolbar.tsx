@@ -0,0 +1,51 @@
+import { Component } from 'solid-js';
+
+import IconDocumentPlus from '~icons/heroicons-outline/document-plus';
+import IconFolderOpen from '~icons/heroicons-outline/folder-open';
+import IconArrowDownTray from '~icons/heroicons-outline/arrow-down-tray';
+import IconMagnifyingGlass from '~icons/heroicons-outline/magnifying-glass';
+
+interface ToolbarProps {
+  fileName: string;
+  isDirty: boolean;
+  readOnly: boolean;
+  onNew: () => void;
+  onOpen: () => void;
+  onSave: () => void;
+  onSaveAs: () => void;
+  onFind: () => void;
+}
+
+const Toolbar: Component<ToolbarProps> = (props) => {
+  const buttonClass = 'p-1.5 rounded-md hover:bg-background/70 transition-colors disabled:opacity-50 disabled:cursor-not-allowed';
+
+  return (
+    <div class="flex items-center justify-between p-2 bg-muted/80 border-b border-border text-foreground">
+      <div class="flex items-center gap-1">
+        <button onClick={props.onNew} class={buttonClass} title="New (Ctrl+N)">
+          <IconDocumentPlus class="w-[18px] h-[18px]" />
+        </button>
+        <button onClick={props.onOpen} class={buttonClass} title="Open… (Ctrl+O)">
+          <IconFolderOpen class="w-[18px] h-[18px]" />
+        </button>
+        <button onClick={props.onSave} class={buttonClass} disabled={props.readOnly} title="Save (Ctrl+S)">
+          <IconArrowDownTray class="w-[18px] h-[18px]" />
+        </button>
+        <button onClick={props.onSaveAs} disabled={props.readOnly} class="px-2 py-1 text-xs rounded-md hover:bg-background/70 transition-colors disabled:opacity-50 disabled:cursor-not-allowed" title="Save As… (Ctrl+Shift+S)">
+          Save As…
+        </button>
+      </div>
+
+      <div class="flex items-center gap-1.5 text-xs truncate">
+        <span class="truncate">{props.fileName}</span>
+        <span class="text-muted-foreground">{props.readOnly ? '— Read Only' : props.isDirty ? '— Edited' : ''}</span>
+      </div>
+
+      <button onClick={props.onFind} class={buttonClass} title="Find and Replace (Ctrl+F)">
+        <IconMagnifyingGlass class="w-[18px] h-[18px]" />
+      </button>
+    </div>
+  );
+};
+
+export { Toolbar };
@@ -0,0 +1,26 @@
+/**
+ * Test setup - Node has no localStorage, where the storage engine and the
+ * VFS keep their data when IndexedDB is missing. Every test file gets a
+ * fresh, empty one.
+ */
+
+const items = new Map<string, string>();
+
+const memoryStorage: Storage = {
+  get length() {
+    return items.size;
+  },
+  key: (index: number) => Array.from(items.keys())[index] ?? null,
+  getItem: (key: string) => items.get(key) ?? null,
+  setItem: (key: string, value: string) => {
+    items.set(key, String(value));
+  },
+  removeItem: (key: string) => {
+    items.delete(key);
+  },
+  clear: () => {
+    items.clear();
+  }
+};
+
+Object.defineProperty(globalThis, 'localStorage', { value: memoryStorage, configurable: true });